@@ -0,0 +1,36 @@
+-- CortexUI-owned memory schema used by CORTEX_MEMORY_BACKEND=postgres.
+
+create table if not exists cortex_ui_threads (
+  id text primary key,
+  user_id text not null,
+  title text,
+  is_core_memory boolean not null default false,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists cortex_ui_threads_user_created_idx
+  on cortex_ui_threads (user_id, created_at desc);
+
+create table if not exists cortex_ui_events (
+  id text primary key,
+  thread_id text not null references cortex_ui_threads (id) on delete cascade,
+  actor text not null check (actor in ('user', 'assistant')),
+  content text not null,
+  meta jsonb not null default '{}'::jsonb,
+  created_at timestamptz not null default clock_timestamp()
+);
+
+create index if not exists cortex_ui_events_thread_created_idx
+  on cortex_ui_events (thread_id, created_at desc);
+
+create table if not exists cortex_ui_summaries (
+  id text primary key,
+  thread_id text not null references cortex_ui_threads (id) on delete cascade,
+  summary text not null,
+  is_active boolean not null default true,
+  created_at timestamptz not null default now()
+);
+
+create unique index if not exists cortex_ui_summaries_active_idx
+  on cortex_ui_summaries (thread_id)
+  where is_active;
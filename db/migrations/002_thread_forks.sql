@@ -0,0 +1,7 @@
+-- Threads branched from another thread keep a link back to their source.
+
+alter table cortex_ui_threads
+  add column if not exists parent_thread_id text references cortex_ui_threads (id) on delete set null;
+
+alter table cortex_ui_threads
+  add column if not exists forked_from_event_id text;
@@ -0,0 +1,4 @@
+-- Full-text index backing searchEvents (GET /api/chat/search).
+
+create index if not exists cortex_ui_events_content_fts_idx
+  on cortex_ui_events using gin (to_tsvector('simple', content));
@@ -0,0 +1,17 @@
+-- Personal API keys (/api/chat/keys). Only the SHA-256 hash of a key is stored.
+
+create table if not exists cortex_ui_api_keys (
+  id text primary key,
+  user_id text not null,
+  name text not null,
+  prefix text not null,
+  key_hash text not null unique,
+  scopes text[] not null,
+  created_at timestamptz not null default now(),
+  last_used_at timestamptz,
+  revoked_at timestamptz
+);
+
+create index if not exists cortex_ui_api_keys_user_created_idx
+  on cortex_ui_api_keys (user_id, created_at desc)
+  where revoked_at is null;
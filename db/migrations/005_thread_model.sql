@@ -0,0 +1,4 @@
+-- Model picked for the thread as a `<provider>/<model>` registry id; null uses the server default.
+
+alter table cortex_ui_threads
+  add column if not exists model text;
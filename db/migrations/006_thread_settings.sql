@@ -0,0 +1,4 @@
+-- Generation settings (temperature, topP, maxTokens, stop, seed) saved per thread.
+
+alter table cortex_ui_threads
+  add column if not exists settings jsonb;
@@ -0,0 +1,18 @@
+-- User-defined personas (/api/chat/personas) and the persona each thread has adopted.
+
+create table if not exists cortex_ui_personas (
+  id text primary key,
+  user_id text not null,
+  name text not null,
+  system_prompt text not null,
+  model text,
+  avatar text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists cortex_ui_personas_user_idx
+  on cortex_ui_personas (user_id);
+
+alter table cortex_ui_threads
+  add column if not exists persona_id text references cortex_ui_personas (id) on delete set null;
@@ -0,0 +1,394 @@
+// Local CortexLTM stand-in implementing the /v1 contract used by CortexHttpProvider.
+//
+// Usage:
+//   npm run mock:cortex
+//
+// Environment:
+//   MOCK_CORTEX_PORT          listen port (default 8000)
+//   MOCK_CORTEX_LATENCY_MS    delay added before every response (default 0)
+//   MOCK_CORTEX_ERROR_RATE    0..1 probability of failing a request (default 0)
+//   MOCK_CORTEX_ERROR_STATUS  status used for injected failures (default 503)
+//   MOCK_CORTEX_FAIL_ROUTES   comma list of "METHOD /path/pattern=status" (use * for a segment)
+//   MOCK_CORTEX_REPLIES_PATH  JSON file with an array of canned assistant replies
+//   MOCK_CORTEX_CHUNK_DELAY_MS delay between streamed chunks (default 20)
+//   MOCK_CORTEX_API_KEY       require a matching x-api-key header when set
+//   MOCK_CORTEX_REQUIRE_AUTH  "true" to require an Authorization bearer header
+//
+// Runtime control (integration tests):
+//   GET  /__mock/config       current config
+//   POST /__mock/config       merge { latencyMs, errorRate, errorStatus, failRoutes, replies }
+//   POST /__mock/reset        clear threads/events/summaries
+
+import { randomUUID } from "node:crypto";
+import { readFileSync } from "node:fs";
+import { createServer } from "node:http";
+import { pathToFileURL } from "node:url";
+
+const DEFAULT_REPLIES = [
+  "Here is a canned reply from the mock CortexLTM server. It streams in small chunks so the UI can render partial output.",
+  "Sure. A quick example:\n\n```ts\nexport function add(a: number, b: number) {\n  return a + b;\n}\n```\n\nLet me know if you want tests too.",
+  "1. Define the goal.\n2. Ship the smallest version.\n3. Iterate with real feedback."
+];
+
+const SUMMARY_CUES = ["recap", "summarize", "catch me up", "where were we", "continue"];
+
+export function readConfigFromEnv(env = process.env) {
+  return {
+    port: Number(env.MOCK_CORTEX_PORT ?? 8000),
+    latencyMs: Number(env.MOCK_CORTEX_LATENCY_MS ?? 0),
+    errorRate: Number(env.MOCK_CORTEX_ERROR_RATE ?? 0),
+    errorStatus: Number(env.MOCK_CORTEX_ERROR_STATUS ?? 503),
+    failRoutes: parseFailRoutes(env.MOCK_CORTEX_FAIL_ROUTES ?? ""),
+    replies: readReplies(env.MOCK_CORTEX_REPLIES_PATH),
+    chunkDelayMs: Number(env.MOCK_CORTEX_CHUNK_DELAY_MS ?? 20),
+    apiKey: env.MOCK_CORTEX_API_KEY?.trim() || null,
+    requireAuth: (env.MOCK_CORTEX_REQUIRE_AUTH ?? "").trim().toLowerCase() === "true"
+  };
+}
+
+export function createMockCortexServer(overrides = {}) {
+  const config = { ...readConfigFromEnv({}), ...overrides };
+  const state = { threads: new Map(), events: [], summaries: new Map(), replyIndex: 0 };
+
+  const routes = [
+    ["POST", "/v1/threads", createThread],
+    ["GET", "/v1/threads", listThreads],
+    ["PATCH", "/v1/threads/:threadId", renameThread],
+    ["DELETE", "/v1/threads/:threadId", deleteThread],
+    ["POST", "/v1/threads/:threadId/chat", chat],
+    ["GET", "/v1/threads/:threadId/events", listEvents],
+    ["POST", "/v1/threads/:threadId/events", addEvent],
+    ["POST", "/v1/threads/:threadId/events/:eventId/reaction", setReaction],
+    ["POST", "/v1/threads/:threadId/memory-context", memoryContext],
+    ["POST", "/v1/threads/:threadId/promote-core-memory", promote],
+    ["GET", "/v1/threads/:threadId/summary", getSummary]
+  ];
+
+  function createThread({ body }) {
+    if (typeof body.user_id !== "string" || !body.user_id) {
+      return [422, { detail: "user_id is required" }];
+    }
+    const thread = {
+      id: randomUUID(),
+      user_id: body.user_id,
+      title: typeof body.title === "string" ? body.title : null,
+      created_at: new Date().toISOString(),
+      is_core_memory: false
+    };
+    state.threads.set(thread.id, thread);
+    return [200, { thread_id: thread.id }];
+  }
+
+  function listThreads({ query }) {
+    const userId = query.get("user_id");
+    const limit = Number(query.get("limit") ?? 50);
+    const threads = [...state.threads.values()]
+      .filter((thread) => thread.user_id === userId)
+      .sort((a, b) => b.created_at.localeCompare(a.created_at))
+      .slice(0, limit);
+    return [200, { threads }];
+  }
+
+  function renameThread({ params, body }) {
+    const thread = requireThread(params.threadId);
+    if (!thread) return notFound();
+    if (typeof body.title !== "string" || !body.title.trim()) {
+      return [422, { detail: "title is required" }];
+    }
+    thread.title = body.title.trim();
+    return [200, { ok: true }];
+  }
+
+  function deleteThread({ params }) {
+    if (!state.threads.delete(params.threadId)) return notFound();
+    state.events = state.events.filter((event) => event.thread_id !== params.threadId);
+    state.summaries.delete(params.threadId);
+    return [200, { ok: true }];
+  }
+
+  function listEvents({ params, query }) {
+    if (!requireThread(params.threadId)) return notFound();
+    const limit = Number(query.get("limit") ?? 30);
+    let events = state.events.filter((event) => event.thread_id === params.threadId);
+    const before = query.get("before");
+    if (before) {
+      const cutoff = events.findIndex((event) => event.id === before);
+      events = cutoff === -1 ? [] : events.slice(0, cutoff);
+    }
+    return [200, { messages: events.slice(-limit) }];
+  }
+
+  function addEvent({ params, body }) {
+    if (!requireThread(params.threadId)) return notFound();
+    if (body.actor !== "user" && body.actor !== "assistant") {
+      return [422, { detail: "actor must be user or assistant" }];
+    }
+    if (typeof body.content !== "string") {
+      return [422, { detail: "content is required" }];
+    }
+    const event = pushEvent(params.threadId, body.actor, body.content, body.meta ?? {});
+    return [200, { event_id: event.id }];
+  }
+
+  function setReaction({ params, body }) {
+    const event = state.events.find(
+      (item) => item.id === params.eventId && item.thread_id === params.threadId
+    );
+    if (!event || event.role !== "assistant") {
+      return [404, { detail: "Assistant event not found" }];
+    }
+    const reaction = typeof body.reaction === "string" ? body.reaction : null;
+    if (reaction) {
+      event.meta = { ...event.meta, reaction };
+    } else {
+      const { reaction: _removed, ...rest } = event.meta;
+      void _removed;
+      event.meta = rest;
+    }
+    const summaryUpdated = reaction === "brain";
+    if (summaryUpdated) refreshSummary(params.threadId);
+    return [200, { reaction, summary_updated: summaryUpdated }];
+  }
+
+  function memoryContext({ params, body }) {
+    if (!requireThread(params.threadId)) return notFound();
+    const latest = String(body.latest_user_text ?? "").toLowerCase();
+    const limit = Number(body.short_term_limit ?? 30);
+    const messages = [];
+    const summary = state.summaries.get(params.threadId);
+    if (summary && SUMMARY_CUES.some((cue) => latest.includes(cue))) {
+      messages.push({ role: "system", content: `Conversation summary so far:\n${summary}` });
+    }
+    for (const event of state.events
+      .filter((item) => item.thread_id === params.threadId)
+      .slice(-limit)) {
+      messages.push({ role: event.role, content: event.content });
+    }
+    return [200, { messages }];
+  }
+
+  function promote({ params }) {
+    const thread = requireThread(params.threadId);
+    if (!thread) return notFound();
+    thread.is_core_memory = true;
+    const summary = refreshSummary(params.threadId);
+    return [200, { summary, summary_updated: summary !== null, is_core_memory: true }];
+  }
+
+  function getSummary({ params }) {
+    if (!requireThread(params.threadId)) return notFound();
+    return [200, { summary: state.summaries.get(params.threadId) ?? null }];
+  }
+
+  async function chat({ params, body }, res) {
+    if (!requireThread(params.threadId)) return notFound();
+    const text = typeof body.text === "string" ? body.text.trim() : "";
+    if (!text) return [422, { detail: "text is required" }];
+
+    pushEvent(params.threadId, "user", text, { source: "chatui" });
+    const reply = config.replies[state.replyIndex % config.replies.length] ?? "";
+    state.replyIndex += 1;
+
+    res.writeHead(200, {
+      "Content-Type": "text/plain; charset=utf-8",
+      "Cache-Control": "no-cache"
+    });
+    let streamed = "";
+    for (const chunk of chunkText(reply, 24)) {
+      if (res.destroyed) break;
+      await sleep(config.chunkDelayMs);
+      res.write(chunk);
+      streamed += chunk;
+    }
+    if (streamed) {
+      pushEvent(params.threadId, "assistant", streamed, { source: "chatui_llm" });
+    }
+    res.end();
+    return null;
+  }
+
+  function pushEvent(threadId, role, content, meta) {
+    const event = {
+      id: randomUUID(),
+      thread_id: threadId,
+      role,
+      content,
+      created_at: new Date().toISOString(),
+      meta
+    };
+    state.events.push(event);
+    return event;
+  }
+
+  function refreshSummary(threadId) {
+    const events = state.events.filter((event) => event.thread_id === threadId);
+    if (events.length === 0) return null;
+    const summary = events
+      .filter((event) => event.role === "user")
+      .slice(-5)
+      .map((event) => `- ${event.content.slice(0, 120)}`)
+      .join("\n");
+    state.summaries.set(threadId, summary);
+    return summary;
+  }
+
+  function requireThread(threadId) {
+    return state.threads.get(threadId) ?? null;
+  }
+
+  async function handle(req, res) {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    const method = (req.method ?? "GET").toUpperCase();
+
+    if (url.pathname === "/__mock/config") {
+      if (method === "POST") {
+        const patch = await readJson(req);
+        if (patch && typeof patch === "object") {
+          if (typeof patch.failRoutes === "string") {
+            patch.failRoutes = parseFailRoutes(patch.failRoutes);
+          }
+          Object.assign(config, patch);
+        }
+      }
+      return sendJson(res, 200, { ...config, failRoutes: config.failRoutes.map((r) => r.raw) });
+    }
+    if (url.pathname === "/__mock/reset" && method === "POST") {
+      state.threads.clear();
+      state.events = [];
+      state.summaries.clear();
+      state.replyIndex = 0;
+      return sendJson(res, 200, { ok: true });
+    }
+
+    if (config.latencyMs > 0) await sleep(config.latencyMs);
+
+    if (config.apiKey && req.headers["x-api-key"] !== config.apiKey) {
+      return sendJson(res, 401, { detail: "Unauthorized: invalid API key" });
+    }
+    if (config.requireAuth && !/^bearer\s+\S+/i.test(req.headers.authorization ?? "")) {
+      return sendJson(res, 401, { detail: "Bearer token required" });
+    }
+
+    const forced = config.failRoutes.find(
+      (rule) => rule.method === method && rule.pattern.test(url.pathname)
+    );
+    if (forced) {
+      return sendJson(res, forced.status, { detail: `Injected failure (${forced.status})` });
+    }
+    if (config.errorRate > 0 && Math.random() < config.errorRate) {
+      return sendJson(res, config.errorStatus, {
+        error: { message: `Injected failure (${config.errorStatus})` }
+      });
+    }
+
+    for (const [routeMethod, pattern, handler] of routes) {
+      if (routeMethod !== method) continue;
+      const params = matchPath(pattern, url.pathname);
+      if (!params) continue;
+      const body = method === "GET" || method === "DELETE" ? {} : ((await readJson(req)) ?? {});
+      const result = await handler({ params, query: url.searchParams, body }, res);
+      if (result) sendJson(res, result[0], result[1]);
+      return;
+    }
+    sendJson(res, 404, { detail: "Not Found" });
+  }
+
+  const server = createServer((req, res) => {
+    handle(req, res).catch((error) => {
+      if (!res.headersSent) {
+        sendJson(res, 500, { detail: error instanceof Error ? error.message : "Mock error" });
+      } else {
+        res.end();
+      }
+    });
+  });
+  return { server, config, state };
+}
+
+function notFound() {
+  return [404, { detail: "Thread not found" }];
+}
+
+function matchPath(pattern, pathname) {
+  const patternParts = pattern.split("/").filter(Boolean);
+  const pathParts = pathname.split("/").filter(Boolean);
+  if (patternParts.length !== pathParts.length) return null;
+  const params = {};
+  for (let index = 0; index < patternParts.length; index += 1) {
+    const expected = patternParts[index];
+    const actual = decodeURIComponent(pathParts[index]);
+    if (expected.startsWith(":")) {
+      params[expected.slice(1)] = actual;
+    } else if (expected !== actual) {
+      return null;
+    }
+  }
+  return params;
+}
+
+function parseFailRoutes(raw) {
+  return raw
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const [route, status] = entry.split("=");
+      const [method, routePath] = route.trim().split(/\s+/);
+      const source = routePath
+        .split("/")
+        .map((part) => (part === "*" ? "[^/]+" : part.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")))
+        .join("/");
+      return {
+        raw: entry,
+        method: method.toUpperCase(),
+        pattern: new RegExp(`^${source}$`),
+        status: Number(status ?? 500)
+      };
+    });
+}
+
+function readReplies(filePath) {
+  if (!filePath) return DEFAULT_REPLIES;
+  const parsed = JSON.parse(readFileSync(filePath, "utf8"));
+  if (!Array.isArray(parsed) || parsed.some((item) => typeof item !== "string")) {
+    throw new Error("MOCK_CORTEX_REPLIES_PATH must contain a JSON array of strings.");
+  }
+  return parsed.length > 0 ? parsed : DEFAULT_REPLIES;
+}
+
+async function readJson(req) {
+  const chunks = [];
+  for await (const chunk of req) chunks.push(chunk);
+  const text = Buffer.concat(chunks).toString("utf8");
+  if (!text) return null;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return null;
+  }
+}
+
+function sendJson(res, status, payload) {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(payload));
+}
+
+function chunkText(input, chunkSize) {
+  const output = [];
+  for (let index = 0; index < input.length; index += chunkSize) {
+    output.push(input.slice(index, index + chunkSize));
+  }
+  return output;
+}
+
+function sleep(ms) {
+  return new Promise((resolve) => setTimeout(resolve, Math.max(0, ms)));
+}
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const config = readConfigFromEnv();
+  const { server } = createMockCortexServer(config);
+  server.listen(config.port, () => {
+    console.log(`Mock CortexLTM listening on http://127.0.0.1:${config.port}`);
+  });
+}
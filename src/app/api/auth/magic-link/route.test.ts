@@ -0,0 +1,45 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { POST } from "@/app/api/auth/magic-link/route";
+import { createRequest, readJson } from "@/test/route-helpers";
+
+function magicLinkRequest(body: unknown) {
+  return createRequest("/api/auth/magic-link", { method: "POST", body });
+}
+
+describe("POST /api/auth/magic-link", () => {
+  beforeEach(() => {
+    vi.stubEnv("AUTH_MODE", "supabase");
+    vi.stubEnv("NEXT_PUBLIC_SUPABASE_URL", "https://example.supabase.co");
+    vi.stubEnv("NEXT_PUBLIC_SUPABASE_ANON_KEY", "anon");
+    vi.stubEnv("APP_ORIGIN", "https://app.example.com");
+  });
+
+  it("requires a valid email", async () => {
+    const res = await POST(magicLinkRequest({}));
+    expect(res.status).toBe(422);
+  });
+
+  it("sends a sign-in link for existing accounts only", async () => {
+    const fetchMock = vi.fn(async () => Response.json({}));
+    vi.stubGlobal("fetch", fetchMock);
+
+    const res = await POST(magicLinkRequest({ email: "a@b.co" }));
+
+    expect(fetchMock).toHaveBeenCalledWith(
+      "https://example.supabase.co/auth/v1/otp?redirect_to=" +
+        encodeURIComponent("https://app.example.com/auth/callback"),
+      expect.objectContaining({
+        body: JSON.stringify({ email: "a@b.co", create_user: false })
+      })
+    );
+    expect(await readJson(res)).toMatchObject({ ok: true });
+  });
+
+  it("returns 503 when supabase is unreachable", async () => {
+    vi.stubGlobal("fetch", vi.fn(async () => Promise.reject(new Error("offline"))));
+
+    const res = await POST(magicLinkRequest({ email: "a@b.co" }));
+
+    expect(res.status).toBe(503);
+  });
+});
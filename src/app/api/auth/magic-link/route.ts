@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAuthMode, getSupabaseConfig, resolveAppOrigin } from "@/lib/server/auth";
+import { jsonError } from "@/lib/server/http";
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// Passwordless sign-in for existing accounts. The emailed link lands on `/auth/callback`,
+// which stores the session through `/api/auth/set-session` like OAuth does.
+export async function POST(req: NextRequest) {
+  if (getAuthMode() !== "supabase") {
+    return jsonError("Supabase auth mode is disabled.", 400);
+  }
+
+  const body = (await req.json().catch(() => null)) as { email?: string } | null;
+  const email = body?.email?.trim() ?? "";
+  if (!EMAIL_PATTERN.test(email)) {
+    return jsonError("A valid email is required.", 422);
+  }
+
+  let url: string;
+  let anonKey: string;
+  try {
+    ({ url, anonKey } = getSupabaseConfig());
+  } catch (error) {
+    return jsonError(
+      error instanceof Error
+        ? error.message
+        : "Supabase auth is not configured for this environment.",
+      503
+    );
+  }
+
+  try {
+    const redirectTo = `${resolveAppOrigin(req)}/auth/callback`;
+    const response = await fetch(
+      `${url}/auth/v1/otp?redirect_to=${encodeURIComponent(redirectTo)}`,
+      {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          apikey: anonKey
+        },
+        body: JSON.stringify({ email, create_user: false }),
+        cache: "no-store"
+      }
+    );
+    if (response.status === 429) {
+      return jsonError("Too many requests. Wait a minute and try again.", 429);
+    }
+    if (response.status >= 500) {
+      return jsonError("Magic link sign-in is temporarily unavailable. Please try again.", 503);
+    }
+  } catch {
+    return jsonError("Magic link sign-in is temporarily unavailable. Please try again.", 503);
+  }
+
+  // Unknown emails get the same answer as known ones.
+  return NextResponse.json({
+    ok: true,
+    message: "If an account exists for that email, a sign-in link is on its way."
+  });
+}
@@ -0,0 +1,32 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { POST } from "@/app/api/auth/oauth/start/route";
+import { createRequest, readJson } from "@/test/route-helpers";
+
+describe("POST /api/auth/oauth/start", () => {
+  beforeEach(() => {
+    vi.stubEnv("AUTH_MODE", "supabase");
+    vi.stubEnv("NEXT_PUBLIC_SUPABASE_URL", "https://example.supabase.co");
+    vi.stubEnv("NEXT_PUBLIC_SUPABASE_ANON_KEY", "anon");
+    vi.stubEnv("APP_ORIGIN", "http://app.test/");
+  });
+
+  it("rejects unsupported providers", async () => {
+    const res = await POST(
+      createRequest("/api/auth/oauth/start", { method: "POST", body: { provider: "gitlab" } })
+    );
+    expect(res.status).toBe(422);
+  });
+
+  it("builds the supabase authorize url", async () => {
+    const res = await POST(
+      createRequest("/api/auth/oauth/start", { method: "POST", body: { provider: "GitHub" } })
+    );
+
+    expect(await readJson(res)).toEqual({
+      ok: true,
+      url:
+        "https://example.supabase.co/auth/v1/authorize?provider=github" +
+        "&redirect_to=http%3A%2F%2Fapp.test%2Fauth%2Fcallback"
+    });
+  });
+});
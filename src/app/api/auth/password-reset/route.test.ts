@@ -0,0 +1,60 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { POST } from "@/app/api/auth/password-reset/route";
+import { createRequest, readJson } from "@/test/route-helpers";
+
+function resetRequest(body: unknown) {
+  return createRequest("/api/auth/password-reset", { method: "POST", body });
+}
+
+describe("POST /api/auth/password-reset", () => {
+  beforeEach(() => {
+    vi.stubEnv("AUTH_MODE", "supabase");
+    vi.stubEnv("NEXT_PUBLIC_SUPABASE_URL", "https://example.supabase.co/");
+    vi.stubEnv("NEXT_PUBLIC_SUPABASE_ANON_KEY", "anon");
+    vi.stubEnv("APP_ORIGIN", "https://app.example.com");
+  });
+
+  it("is disabled outside supabase mode", async () => {
+    vi.stubEnv("AUTH_MODE", "dev");
+    const res = await POST(resetRequest({ email: "a@b.co" }));
+    expect(res.status).toBe(400);
+  });
+
+  it("requires a valid email", async () => {
+    const res = await POST(resetRequest({ email: "nope" }));
+    expect(res.status).toBe(422);
+  });
+
+  it("requests a recovery email that returns through the callback", async () => {
+    const fetchMock = vi.fn(async () => Response.json({}));
+    vi.stubGlobal("fetch", fetchMock);
+
+    const res = await POST(resetRequest({ email: " a@b.co " }));
+
+    expect(fetchMock).toHaveBeenCalledWith(
+      "https://example.supabase.co/auth/v1/recover?redirect_to=" +
+        encodeURIComponent("https://app.example.com/auth/callback"),
+      expect.objectContaining({ method: "POST", body: JSON.stringify({ email: "a@b.co" }) })
+    );
+    expect(await readJson(res)).toMatchObject({ ok: true });
+  });
+
+  it("does not reveal whether the account exists", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () => Response.json({ msg: "User not found" }, { status: 404 }))
+    );
+
+    const res = await POST(resetRequest({ email: "ghost@b.co" }));
+
+    expect(res.status).toBe(200);
+  });
+
+  it("surfaces rate limiting", async () => {
+    vi.stubGlobal("fetch", vi.fn(async () => Response.json({}, { status: 429 })));
+
+    const res = await POST(resetRequest({ email: "a@b.co" }));
+
+    expect(res.status).toBe(429);
+  });
+});
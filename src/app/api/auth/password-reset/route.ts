@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAuthMode, getSupabaseConfig, resolveAppOrigin } from "@/lib/server/auth";
+import { jsonError } from "@/lib/server/http";
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// Supabase emails a recovery link that lands on `/auth/callback` with `type=recovery`,
+// which finalizes the session and forwards to `/auth/reset-password`.
+export async function POST(req: NextRequest) {
+  if (getAuthMode() !== "supabase") {
+    return jsonError("Supabase auth mode is disabled.", 400);
+  }
+
+  const body = (await req.json().catch(() => null)) as { email?: string } | null;
+  const email = body?.email?.trim() ?? "";
+  if (!EMAIL_PATTERN.test(email)) {
+    return jsonError("A valid email is required.", 422);
+  }
+
+  let url: string;
+  let anonKey: string;
+  try {
+    ({ url, anonKey } = getSupabaseConfig());
+  } catch (error) {
+    return jsonError(
+      error instanceof Error
+        ? error.message
+        : "Supabase auth is not configured for this environment.",
+      503
+    );
+  }
+
+  try {
+    const redirectTo = `${resolveAppOrigin(req)}/auth/callback`;
+    const response = await fetch(
+      `${url}/auth/v1/recover?redirect_to=${encodeURIComponent(redirectTo)}`,
+      {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          apikey: anonKey
+        },
+        body: JSON.stringify({ email }),
+        cache: "no-store"
+      }
+    );
+    if (response.status === 429) {
+      return jsonError("Too many requests. Wait a minute and try again.", 429);
+    }
+    if (response.status >= 500) {
+      return jsonError("Password reset is temporarily unavailable. Please try again.", 503);
+    }
+  } catch {
+    return jsonError("Password reset is temporarily unavailable. Please try again.", 503);
+  }
+
+  // Same answer whether or not the account exists, so the form cannot be used to probe emails.
+  return NextResponse.json({
+    ok: true,
+    message: "If an account exists for that email, a reset link is on its way."
+  });
+}
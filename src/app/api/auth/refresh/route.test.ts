@@ -0,0 +1,74 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { POST } from "@/app/api/auth/refresh/route";
+import { createRequest, readJson } from "@/test/route-helpers";
+
+function refreshRequest(refreshToken?: string) {
+  return createRequest("/api/auth/refresh", {
+    method: "POST",
+    headers: refreshToken ? { cookie: `cortex_refresh_token=${refreshToken}` } : {}
+  });
+}
+
+describe("POST /api/auth/refresh", () => {
+  beforeEach(() => {
+    vi.stubEnv("AUTH_MODE", "supabase");
+    vi.stubEnv("NEXT_PUBLIC_SUPABASE_URL", "https://example.supabase.co/");
+    vi.stubEnv("NEXT_PUBLIC_SUPABASE_ANON_KEY", "anon");
+  });
+
+  it("is disabled outside supabase mode", async () => {
+    vi.stubEnv("AUTH_MODE", "dev");
+    const res = await POST(refreshRequest("refresh"));
+    expect(res.status).toBe(400);
+  });
+
+  it("requires a refresh token cookie", async () => {
+    const res = await POST(refreshRequest());
+    expect(res.status).toBe(401);
+  });
+
+  it("exchanges the refresh token and rotates both cookies", async () => {
+    const fetchMock = vi.fn(async () =>
+      Response.json({
+        access_token: "access-2",
+        refresh_token: "refresh-2",
+        expires_in: 3600,
+        user: { id: "u1", email: "a@b.co" }
+      })
+    );
+    vi.stubGlobal("fetch", fetchMock);
+
+    const res = await POST(refreshRequest("refresh-1"));
+
+    expect(fetchMock).toHaveBeenCalledWith(
+      "https://example.supabase.co/auth/v1/token?grant_type=refresh_token",
+      expect.objectContaining({ body: JSON.stringify({ refresh_token: "refresh-1" }) })
+    );
+    expect(await readJson(res)).toEqual({ ok: true, user: { id: "u1", email: "a@b.co" } });
+    expect(res.cookies.get("cortex_access_token")?.value).toBe("access-2");
+    expect(res.cookies.get("cortex_refresh_token")?.value).toBe("refresh-2");
+  });
+
+  it("clears the session when supabase rejects the refresh token", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () =>
+        Response.json({ error_description: "Invalid Refresh Token" }, { status: 400 })
+      )
+    );
+
+    const res = await POST(refreshRequest("stale"));
+
+    expect(res.status).toBe(401);
+    expect(res.cookies.get("cortex_refresh_token")?.value).toBe("");
+  });
+
+  it("keeps the session when supabase is unavailable", async () => {
+    vi.stubGlobal("fetch", vi.fn(async () => new Response("down", { status: 502 })));
+
+    const res = await POST(refreshRequest("refresh-1"));
+
+    expect(res.status).toBe(503);
+    expect(res.cookies.get("cortex_refresh_token")).toBeUndefined();
+  });
+});
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  AuthRefreshError,
+  REFRESH_TOKEN_COOKIE,
+  clearSessionCookies,
+  getAuthMode,
+  refreshSupabaseSession,
+  setSessionCookies
+} from "@/lib/server/auth";
+import { jsonError } from "@/lib/server/http";
+
+export async function POST(req: NextRequest) {
+  if (getAuthMode() !== "supabase") {
+    return jsonError("Supabase auth mode is disabled.", 400);
+  }
+
+  const refreshToken = req.cookies.get(REFRESH_TOKEN_COOKIE)?.value?.trim() ?? "";
+  if (!refreshToken) {
+    return jsonError("Your session expired. Please sign in again.", 401);
+  }
+
+  try {
+    const session = await refreshSupabaseSession(refreshToken);
+    const out = NextResponse.json({ ok: true, user: session.user });
+    setSessionCookies(out, session.accessToken, session.refreshToken, session.expiresIn);
+    return out;
+  } catch (error) {
+    if (error instanceof AuthRefreshError && error.status === 401) {
+      const out = jsonError(error.message, 401);
+      clearSessionCookies(out);
+      return out;
+    }
+    return jsonError(
+      error instanceof Error ? error.message : "Session refresh is temporarily unavailable.",
+      503
+    );
+  }
+}
@@ -0,0 +1,48 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { GET } from "@/app/api/auth/session/route";
+import { createRequest, readJson } from "@/test/route-helpers";
+
+function fakeJwt(payload: Record<string, unknown>): string {
+  return `header.${Buffer.from(JSON.stringify(payload)).toString("base64url")}.signature`;
+}
+
+describe("GET /api/auth/session", () => {
+  beforeEach(() => {
+    vi.stubEnv("AUTH_MODE", "supabase");
+  });
+
+  it("is always authenticated in dev mode", async () => {
+    vi.stubEnv("AUTH_MODE", "dev");
+    const res = await GET(createRequest("/api/auth/session"));
+    expect(await readJson(res)).toEqual({ mode: "dev", authenticated: true, user: null });
+  });
+
+  it("is unauthenticated without an access token", async () => {
+    const res = await GET(createRequest("/api/auth/session"));
+    expect(await readJson(res)).toMatchObject({ authenticated: false });
+  });
+
+  it("is unauthenticated when the token has expired", async () => {
+    const token = fakeJwt({ sub: "u1", exp: Math.floor(Date.now() / 1000) - 10 });
+    const res = await GET(
+      createRequest("/api/auth/session", { headers: { cookie: `cortex_access_token=${token}` } })
+    );
+    expect(await readJson(res)).toMatchObject({ authenticated: false });
+  });
+
+  it("returns the user from a live token", async () => {
+    const token = fakeJwt({
+      sub: "u1",
+      email: "a@b.co",
+      exp: Math.floor(Date.now() / 1000) + 600
+    });
+    const res = await GET(
+      createRequest("/api/auth/session", { headers: { cookie: `cortex_access_token=${token}` } })
+    );
+    expect(await readJson(res)).toEqual({
+      mode: "supabase",
+      authenticated: true,
+      user: { id: "u1", email: "a@b.co" }
+    });
+  });
+});
@@ -0,0 +1,32 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { POST } from "@/app/api/auth/set-session/route";
+import { createRequest } from "@/test/route-helpers";
+
+describe("POST /api/auth/set-session", () => {
+  beforeEach(() => {
+    vi.stubEnv("AUTH_MODE", "supabase");
+  });
+
+  it("requires both tokens", async () => {
+    const res = await POST(
+      createRequest("/api/auth/set-session", { method: "POST", body: { access_token: "a" } })
+    );
+    expect(res.status).toBe(422);
+  });
+
+  it("stores the session cookies", async () => {
+    const res = await POST(
+      createRequest("/api/auth/set-session", {
+        method: "POST",
+        body: { access_token: "access", refresh_token: "refresh", expires_in: 10 }
+      })
+    );
+    expect(res.status).toBe(200);
+    expect(res.cookies.get("cortex_access_token")).toMatchObject({
+      value: "access",
+      maxAge: 60,
+      httpOnly: true
+    });
+    expect(res.cookies.get("cortex_refresh_token")?.value).toBe("refresh");
+  });
+});
@@ -0,0 +1,95 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { POST } from "@/app/api/auth/sign-in/route";
+import { createRequest, readJson } from "@/test/route-helpers";
+
+describe("POST /api/auth/sign-in", () => {
+  beforeEach(() => {
+    vi.stubEnv("AUTH_MODE", "supabase");
+    vi.stubEnv("NEXT_PUBLIC_SUPABASE_URL", "https://example.supabase.co/");
+    vi.stubEnv("NEXT_PUBLIC_SUPABASE_ANON_KEY", "anon");
+  });
+
+  it("is disabled outside supabase mode", async () => {
+    vi.stubEnv("AUTH_MODE", "dev");
+    const res = await POST(
+      createRequest("/api/auth/sign-in", { method: "POST", body: { email: "a@b.co", password: "x" } })
+    );
+    expect(res.status).toBe(400);
+  });
+
+  it("requires email and password", async () => {
+    const res = await POST(createRequest("/api/auth/sign-in", { method: "POST", body: {} }));
+    expect(res.status).toBe(422);
+  });
+
+  it("returns 503 when supabase is not configured", async () => {
+    vi.stubEnv("NEXT_PUBLIC_SUPABASE_ANON_KEY", "");
+    const res = await POST(
+      createRequest("/api/auth/sign-in", {
+        method: "POST",
+        body: { email: "a@b.co", password: "password1" }
+      })
+    );
+    expect(res.status).toBe(503);
+  });
+
+  it("exchanges credentials and sets session cookies", async () => {
+    const fetchMock = vi.fn(async () =>
+      Response.json({
+        access_token: "access",
+        refresh_token: "refresh",
+        expires_in: 120,
+        user: { id: "u1", email: "a@b.co" }
+      })
+    );
+    vi.stubGlobal("fetch", fetchMock);
+
+    const res = await POST(
+      createRequest("/api/auth/sign-in", {
+        method: "POST",
+        body: { email: " a@b.co ", password: "password1" }
+      })
+    );
+
+    expect(fetchMock).toHaveBeenCalledWith(
+      "https://example.supabase.co/auth/v1/token?grant_type=password",
+      expect.objectContaining({ method: "POST" })
+    );
+    expect(await readJson(res)).toEqual({ ok: true, user: { id: "u1", email: "a@b.co" } });
+    expect(res.cookies.get("cortex_access_token")?.value).toBe("access");
+    expect(res.cookies.get("cortex_refresh_token")?.value).toBe("refresh");
+  });
+
+  it("surfaces supabase error descriptions as 401", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () =>
+        Response.json({ error_description: "Invalid login credentials" }, { status: 400 })
+      )
+    );
+
+    const res = await POST(
+      createRequest("/api/auth/sign-in", {
+        method: "POST",
+        body: { email: "a@b.co", password: "password1" }
+      })
+    );
+
+    expect(res.status).toBe(401);
+    expect(await readJson(res)).toEqual({ error: { message: "Invalid login credentials" } });
+  });
+
+  it("clears cookies when the auth service is unreachable", async () => {
+    vi.stubGlobal("fetch", vi.fn(async () => Promise.reject(new Error("offline"))));
+
+    const res = await POST(
+      createRequest("/api/auth/sign-in", {
+        method: "POST",
+        body: { email: "a@b.co", password: "password1" }
+      })
+    );
+
+    expect(res.status).toBe(503);
+    expect(res.cookies.get("cortex_access_token")?.value).toBe("");
+  });
+});
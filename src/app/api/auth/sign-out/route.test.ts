@@ -0,0 +1,10 @@
+import { describe, expect, it } from "vitest";
+import { POST } from "@/app/api/auth/sign-out/route";
+
+describe("POST /api/auth/sign-out", () => {
+  it("expires both session cookies", async () => {
+    const res = await POST();
+    expect(res.cookies.get("cortex_access_token")).toMatchObject({ value: "", maxAge: 0 });
+    expect(res.cookies.get("cortex_refresh_token")).toMatchObject({ value: "", maxAge: 0 });
+  });
+});
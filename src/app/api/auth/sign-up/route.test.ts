@@ -0,0 +1,74 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { POST } from "@/app/api/auth/sign-up/route";
+import { createRequest, readJson } from "@/test/route-helpers";
+
+describe("POST /api/auth/sign-up", () => {
+  beforeEach(() => {
+    vi.stubEnv("AUTH_MODE", "supabase");
+    vi.stubEnv("NEXT_PUBLIC_SUPABASE_URL", "https://example.supabase.co");
+    vi.stubEnv("NEXT_PUBLIC_SUPABASE_ANON_KEY", "anon");
+    vi.stubEnv("APP_ORIGIN", "http://app.test");
+  });
+
+  it("requires passwords of at least 8 characters", async () => {
+    const res = await POST(
+      createRequest("/api/auth/sign-up", { method: "POST", body: { email: "a@b.co", password: "short" } })
+    );
+    expect(res.status).toBe(422);
+  });
+
+  it("reports pending email confirmation when no session is returned", async () => {
+    const fetchMock = vi.fn(async () => Response.json({ user: { id: "u1", email: "a@b.co" } }));
+    vi.stubGlobal("fetch", fetchMock);
+
+    const res = await POST(
+      createRequest("/api/auth/sign-up", {
+        method: "POST",
+        body: { email: "a@b.co", password: "password1" }
+      })
+    );
+
+    const [, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    expect(JSON.parse(String(init.body))).toMatchObject({
+      options: { emailRedirectTo: "http://app.test/auth/callback" }
+    });
+    expect(await readJson(res)).toMatchObject({ ok: true, pendingEmailConfirmation: true });
+    expect(res.cookies.get("cortex_access_token")).toBeUndefined();
+  });
+
+  it("signs the user in when a session is returned", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () =>
+        Response.json({ access_token: "access", refresh_token: "refresh", user: { id: "u1" } })
+      )
+    );
+
+    const res = await POST(
+      createRequest("/api/auth/sign-up", {
+        method: "POST",
+        body: { email: "a@b.co", password: "password1" }
+      })
+    );
+
+    expect(await readJson(res)).toMatchObject({ pendingEmailConfirmation: false });
+    expect(res.cookies.get("cortex_access_token")?.value).toBe("access");
+  });
+
+  it("maps supabase failures to 400", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () => Response.json({ msg: "User already registered" }, { status: 422 }))
+    );
+
+    const res = await POST(
+      createRequest("/api/auth/sign-up", {
+        method: "POST",
+        body: { email: "a@b.co", password: "password1" }
+      })
+    );
+
+    expect(res.status).toBe(400);
+    expect(await readJson(res)).toEqual({ error: { message: "User already registered" } });
+  });
+});
@@ -0,0 +1,54 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { POST } from "@/app/api/auth/update-password/route";
+import { createRequest, readJson } from "@/test/route-helpers";
+
+function updateRequest(body: unknown, cookie?: string) {
+  return createRequest("/api/auth/update-password", {
+    method: "POST",
+    body,
+    headers: cookie ? { cookie } : {}
+  });
+}
+
+describe("POST /api/auth/update-password", () => {
+  beforeEach(() => {
+    vi.stubEnv("AUTH_MODE", "supabase");
+    vi.stubEnv("NEXT_PUBLIC_SUPABASE_URL", "https://example.supabase.co");
+    vi.stubEnv("NEXT_PUBLIC_SUPABASE_ANON_KEY", "anon");
+  });
+
+  it("enforces the minimum password length", async () => {
+    const res = await POST(updateRequest({ password: "short" }, "cortex_access_token=t"));
+    expect(res.status).toBe(422);
+  });
+
+  it("requires the recovery session", async () => {
+    const res = await POST(updateRequest({ password: "password123" }));
+    expect(res.status).toBe(401);
+  });
+
+  it("updates the password with the session token", async () => {
+    const fetchMock = vi.fn(async () => Response.json({ id: "u1", email: "a@b.co" }));
+    vi.stubGlobal("fetch", fetchMock);
+
+    const res = await POST(updateRequest({ password: "password123" }, "cortex_access_token=t"));
+
+    expect(fetchMock).toHaveBeenCalledWith(
+      "https://example.supabase.co/auth/v1/user",
+      expect.objectContaining({
+        method: "PUT",
+        headers: expect.objectContaining({ Authorization: "Bearer t" }),
+        body: JSON.stringify({ password: "password123" })
+      })
+    );
+    expect(await readJson(res)).toEqual({ ok: true, user: { id: "u1", email: "a@b.co" } });
+  });
+
+  it("maps a rejected token to an expired-link error", async () => {
+    vi.stubGlobal("fetch", vi.fn(async () => Response.json({}, { status: 401 })));
+
+    const res = await POST(updateRequest({ password: "password123" }, "cortex_access_token=t"));
+
+    expect(res.status).toBe(401);
+  });
+});
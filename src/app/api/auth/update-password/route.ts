@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAuthFromRequest, getAuthMode, getSupabaseConfig } from "@/lib/server/auth";
+import { jsonError } from "@/lib/server/http";
+
+type UpdateUserResponse = {
+  id?: string;
+  email?: string | null;
+  error_description?: string;
+  msg?: string;
+};
+
+// Sets a new password for the signed-in user. Reached from `/auth/reset-password`, after the
+// recovery link's session has been stored by `/auth/callback`.
+export async function POST(req: NextRequest) {
+  if (getAuthMode() !== "supabase") {
+    return jsonError("Supabase auth mode is disabled.", 400);
+  }
+
+  const body = (await req.json().catch(() => null)) as { password?: string } | null;
+  const password = body?.password ?? "";
+  if (password.length < 8) {
+    return jsonError("Use at least 8 characters for your password.", 422);
+  }
+
+  const { authorization } = getAuthFromRequest(req);
+  if (!authorization) {
+    return jsonError("Your reset link has expired. Request a new one.", 401);
+  }
+
+  let url: string;
+  let anonKey: string;
+  try {
+    ({ url, anonKey } = getSupabaseConfig());
+  } catch (error) {
+    return jsonError(
+      error instanceof Error
+        ? error.message
+        : "Supabase auth is not configured for this environment.",
+      503
+    );
+  }
+
+  try {
+    const response = await fetch(`${url}/auth/v1/user`, {
+      method: "PUT",
+      headers: {
+        "Content-Type": "application/json",
+        apikey: anonKey,
+        Authorization: authorization
+      },
+      body: JSON.stringify({ password }),
+      cache: "no-store"
+    });
+
+    const payload = (await response.json().catch(() => ({}))) as UpdateUserResponse;
+    if (response.status === 401 || response.status === 403) {
+      return jsonError("Your reset link has expired. Request a new one.", 401);
+    }
+    if (!response.ok) {
+      return jsonError(
+        payload.error_description ?? payload.msg ?? "Could not update your password.",
+        response.status >= 500 ? 503 : 422
+      );
+    }
+
+    return NextResponse.json({
+      ok: true,
+      user: { id: payload.id ?? null, email: payload.email ?? null }
+    });
+  } catch {
+    return jsonError("Password update is temporarily unavailable. Please try again.", 503);
+  }
+}
@@ -0,0 +1,165 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { GET } from "@/app/api/chat/[threadId]/export/route";
+import { MemoryApiError } from "@/lib/memory/cortex-http-provider";
+import { getMemoryProvider } from "@/lib/server/providers";
+import { createFakeMemory, createRequest, routeContext } from "@/test/route-helpers";
+import type { UIMessage } from "@/lib/memory/types";
+
+vi.mock("@/lib/server/providers", () => ({
+  getMemoryProvider: vi.fn(),
+  getLlmProvider: vi.fn()
+}));
+
+const USER_ID = "11111111-1111-4111-8111-111111111111";
+
+const THREAD = {
+  id: "t1",
+  userId: USER_ID,
+  title: "Trip <ideas>",
+  createdAt: "2026-01-01T00:00:00.000Z",
+  isCoreMemory: true
+};
+
+function makeEvents(count: number): UIMessage[] {
+  return Array.from({ length: count }, (_, index) => ({
+    id: `e${index}`,
+    threadId: "t1",
+    role: index % 2 === 0 ? ("user" as const) : ("assistant" as const),
+    content: `message ${index}`,
+    createdAt: new Date(Date.UTC(2026, 0, 1, 0, index)).toISOString(),
+    ...(index === 1 ? { meta: { reaction: "heart" } } : {})
+  }));
+}
+
+function exportRequest(format: string) {
+  return createRequest(`/api/chat/t1/export?format=${format}`, {
+    headers: { "x-user-id": USER_ID }
+  });
+}
+
+// Serves `events` through the `before` cursor the way the real backends do.
+function pagedEvents(events: UIMessage[]) {
+  return vi.fn(async (_threadId: string, limit = 30, before?: string) => {
+    const end = before ? events.findIndex((event) => event.id === before) : events.length;
+    return events.slice(Math.max(0, end - limit), end);
+  });
+}
+
+describe("GET /api/chat/[threadId]/export", () => {
+  beforeEach(() => {
+    vi.stubEnv("AUTH_MODE", "dev");
+    vi.mocked(getMemoryProvider).mockReturnValue(createFakeMemory());
+  });
+
+  it("rejects unknown formats", async () => {
+    const res = await GET(
+      exportRequest("pdf"),
+      routeContext({ threadId: "t1" })
+    );
+
+    expect(res.status).toBe(400);
+  });
+
+  it("exports every event as JSON, beyond a single page", async () => {
+    const events = makeEvents(450);
+    vi.mocked(getMemoryProvider).mockReturnValue(
+      createFakeMemory({
+        getRecentEvents: pagedEvents(events),
+        getThread: vi.fn(async () => THREAD),
+        getActiveSummary: vi.fn(async () => "- planning a trip")
+      })
+    );
+
+    const res = await GET(
+      exportRequest("json"),
+      routeContext({ threadId: "t1" })
+    );
+
+    expect(res.headers.get("Content-Disposition")).toBe('attachment; filename="trip-ideas.json"');
+    const data = (await res.json()) as {
+      thread: { isCoreMemory: boolean };
+      summary: string;
+      messages: Array<{ id: string; reaction: string | null }>;
+    };
+    expect(data.messages).toHaveLength(450);
+    expect(data.messages[0].id).toBe("e0");
+    expect(data.messages[1].reaction).toBe("heart");
+    expect(data.thread.isCoreMemory).toBe(true);
+    expect(data.summary).toBe("- planning a trip");
+  });
+
+  it("renders Markdown and escaped standalone HTML", async () => {
+    vi.mocked(getMemoryProvider).mockReturnValue(
+      createFakeMemory({
+        getRecentEvents: pagedEvents(makeEvents(2)),
+        getThread: vi.fn(async () => THREAD)
+      })
+    );
+
+    const md = await GET(
+      exportRequest("md"),
+      routeContext({ threadId: "t1" })
+    );
+    const html = await GET(
+      exportRequest("html"),
+      routeContext({ threadId: "t1" })
+    );
+
+    const markdown = await md.text();
+    expect(markdown).toContain("# Trip <ideas>");
+    expect(markdown).toContain("- Core memory: yes");
+    expect(markdown).toContain("### Assistant · 2026-01-01 00:01 UTC · Reaction: ❤️ heart");
+    const page = await html.text();
+    expect(html.headers.get("Content-Type")).toBe("text/html; charset=utf-8");
+    expect(page).toContain("<title>Trip &lt;ideas&gt;</title>");
+    expect(page).toContain("message 1");
+  });
+
+  it("answers 404 without reading events for another user's thread", async () => {
+    const getRecentEvents = vi.fn(async () => makeEvents(2));
+    vi.mocked(getMemoryProvider).mockReturnValue(
+      createFakeMemory({ getRecentEvents, getThread: vi.fn(async () => THREAD) })
+    );
+    const res = await GET(
+      createRequest("/api/chat/t1/export?format=json", {
+        headers: { "x-user-id": "22222222-2222-4222-8222-222222222222" }
+      }),
+      routeContext({ threadId: "t1" })
+    );
+
+    expect(res.status).toBe(404);
+    expect(getRecentEvents).not.toHaveBeenCalled();
+  });
+
+  it("exports CortexLTM threads missing from the user's recent thread list", async () => {
+    vi.mocked(getMemoryProvider).mockReturnValue(
+      createFakeMemory({
+        getRecentEvents: pagedEvents(makeEvents(2)),
+        listThreads: vi.fn(async () => [])
+      })
+    );
+
+    const res = await GET(exportRequest("json"), routeContext({ threadId: "t1" }));
+
+    expect(res.status).toBe(200);
+    expect(JSON.parse(await res.text())).toMatchObject({
+      thread: { id: "t1", title: null, createdAt: "2026-01-01T00:00:00.000Z" },
+      messages: [{ id: "e0" }, { id: "e1" }]
+    });
+  });
+
+  it("passes MemoryApiError status through", async () => {
+    vi.mocked(getMemoryProvider).mockReturnValue(
+      createFakeMemory({
+        listThreads: vi.fn(async () => [THREAD]),
+        getRecentEvents: vi.fn(async () =>
+          Promise.reject(new MemoryApiError("Upstream refused.", 502))
+        )
+      })
+    );
+
+    const res = await GET(exportRequest("md"), routeContext({ threadId: "t1" }));
+
+    expect(res.status).toBe(502);
+  });
+});
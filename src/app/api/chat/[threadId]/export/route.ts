@@ -0,0 +1,77 @@
+import { jsonError } from "@/lib/server/http";
+import { withChatRoute } from "@/lib/server/chat-route";
+import {
+  buildThreadExport,
+  collectAllEvents,
+  exportFileName,
+  renderThreadHtml,
+  renderThreadMarkdown,
+  type ExportFormat
+} from "@/lib/memory/thread-export";
+import type { MemoryProvider } from "@/lib/memory/memory-provider";
+import type { ThreadRecord } from "@/lib/memory/types";
+
+export const runtime = "nodejs";
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  md: "text/markdown; charset=utf-8",
+  json: "application/json; charset=utf-8",
+  html: "text/html; charset=utf-8"
+};
+
+function isExportFormat(value: string): value is ExportFormat {
+  return value === "md" || value === "json" || value === "html";
+}
+
+// Ownership is settled by `withChatRoute` (backends with `getThread`) or by CortexLTM itself,
+// which scopes every read to the bearer token's user. CortexLTM has no single-thread read, so
+// its metadata comes from the user's recent threads, with a bare record for older ones.
+async function findThread(
+  memory: MemoryProvider,
+  userId: string,
+  threadId: string
+): Promise<ThreadRecord | null> {
+  if (memory.getThread) return memory.getThread(threadId);
+  const threads = (await memory.listThreads?.(userId, 200)) ?? [];
+  return threads.find((thread) => thread.id === threadId) ?? null;
+}
+
+export const GET = withChatRoute<{ threadId: string }>(
+  { failure: "Could not export this thread right now." },
+  async ({ req, params: { threadId }, userId, memory }) => {
+    const format = (req.nextUrl.searchParams.get("format") ?? "md").trim().toLowerCase();
+    if (!isExportFormat(format)) {
+      return jsonError("format must be one of md, json, html.", 400);
+    }
+
+    const knownThread = await findThread(memory, userId, threadId);
+    if (memory.getThread && !knownThread) return jsonError("Thread not found.", 404);
+    const [events, summary] = await Promise.all([
+      collectAllEvents(memory, threadId),
+      memory.getActiveSummary?.(threadId) ?? Promise.resolve(null)
+    ]);
+    const thread: ThreadRecord = knownThread ?? {
+      id: threadId,
+      userId,
+      title: null,
+      createdAt: events[0]?.createdAt ?? new Date().toISOString(),
+      isCoreMemory: false
+    };
+
+    const data = buildThreadExport({ thread, summary: summary ?? null, events });
+    const body =
+      format === "json"
+        ? JSON.stringify(data, null, 2)
+        : format === "html"
+          ? renderThreadHtml(data)
+          : renderThreadMarkdown(data);
+    return new Response(body, {
+      status: 200,
+      headers: {
+        "Content-Type": CONTENT_TYPES[format],
+        "Content-Disposition": `attachment; filename="${exportFileName(data, format)}"`,
+        "Cache-Control": "no-store"
+      }
+    });
+  }
+);
@@ -0,0 +1,80 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { POST } from "@/app/api/chat/[threadId]/messages/[messageId]/edit/route";
+import { MemoryApiError } from "@/lib/memory/cortex-http-provider";
+import { getMemoryProvider } from "@/lib/server/providers";
+import {
+  createFakeMemory,
+  createRequest,
+  readFrameStream,
+  routeContext,
+  streamFromChunks
+} from "@/test/route-helpers";
+
+vi.mock("@/lib/server/providers", () => ({
+  getMemoryProvider: vi.fn(),
+  getLlmProvider: vi.fn()
+}));
+
+const ctx = routeContext({ threadId: "t1", messageId: "e1" });
+
+describe("POST /api/chat/[threadId]/messages/[messageId]/edit", () => {
+  beforeEach(() => {
+    vi.stubEnv("AUTH_MODE", "dev");
+    vi.mocked(getMemoryProvider).mockReturnValue(createFakeMemory());
+  });
+
+  it("validates the edited text", async () => {
+    const res = await POST(
+      createRequest("/api/chat/t1/messages/e1/edit", { method: "POST", body: { text: "  " } }),
+      ctx
+    );
+
+    expect(res.status).toBe(400);
+  });
+
+  it("returns 501 when the backend cannot edit", async () => {
+    vi.mocked(getMemoryProvider).mockReturnValue(createFakeMemory());
+
+    const res = await POST(
+      createRequest("/api/chat/t1/messages/e1/edit", { method: "POST", body: { text: "fixed" } }),
+      ctx
+    );
+
+    expect(res.status).toBe(501);
+  });
+
+  it("streams the reply to the edited message", async () => {
+    const editUserEvent = vi.fn(
+      async () => new Response(streamFromChunks(["new ", "answer"]), { status: 200 })
+    );
+    vi.mocked(getMemoryProvider).mockReturnValue(createFakeMemory({ editUserEvent }));
+
+    const res = await POST(
+      createRequest("/api/chat/t1/messages/e1/edit", {
+        method: "POST",
+        body: { text: "  fixed typo " }
+      }),
+      ctx
+    );
+
+    expect(editUserEvent).toHaveBeenCalledWith("t1", "e1", "fixed typo", expect.any(AbortSignal));
+    expect((await readFrameStream(res)).text).toBe("new answer");
+  });
+
+  it("passes MemoryApiError status through", async () => {
+    vi.mocked(getMemoryProvider).mockReturnValue(
+      createFakeMemory({
+        editUserEvent: vi.fn(async () =>
+          Promise.reject(new MemoryApiError("User event not found.", 404))
+        )
+      })
+    );
+
+    const res = await POST(
+      createRequest("/api/chat/t1/messages/e1/edit", { method: "POST", body: { text: "fixed" } }),
+      ctx
+    );
+
+    expect(res.status).toBe(404);
+  });
+});
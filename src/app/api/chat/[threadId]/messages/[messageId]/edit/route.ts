@@ -0,0 +1,33 @@
+import { jsonError } from "@/lib/server/http";
+import { proxyStream, withChatRoute } from "@/lib/server/chat-route";
+
+export const runtime = "nodejs";
+
+const MAX_MESSAGE_LENGTH = 6000;
+
+type EditPayload = {
+  text?: string;
+};
+
+export const POST = withChatRoute<{ threadId: string; messageId: string }>(
+  { failure: (cause) => `Failed to resend edited message: ${cause}`, metered: true },
+  async ({ req, params: { threadId, messageId }, memory }) => {
+    if (messageId.startsWith("user-")) {
+      return jsonError("messageId must reference a persisted user event.", 400);
+    }
+
+    const payload = (await req.json().catch(() => ({}))) as EditPayload;
+    const text = (typeof payload.text === "string" ? payload.text : "").trim();
+    if (!text) return jsonError("Message text is required.", 400);
+    if (text.length > MAX_MESSAGE_LENGTH) {
+      return jsonError("Message text exceeds max length.", 422, {
+        maxLength: MAX_MESSAGE_LENGTH
+      });
+    }
+
+    if (!memory.editUserEvent) {
+      return jsonError("Selected memory backend does not support editing messages.", 501);
+    }
+    return proxyStream(await memory.editUserEvent(threadId, messageId, text, req.signal));
+  }
+);
@@ -0,0 +1,57 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { POST } from "@/app/api/chat/[threadId]/messages/[messageId]/fork/route";
+import { MemoryApiError } from "@/lib/memory/cortex-http-provider";
+import { getMemoryProvider } from "@/lib/server/providers";
+import { createFakeMemory, createRequest, readJson, routeContext } from "@/test/route-helpers";
+
+vi.mock("@/lib/server/providers", () => ({
+  getMemoryProvider: vi.fn(),
+  getLlmProvider: vi.fn()
+}));
+
+const ctx = routeContext({ threadId: "t1", messageId: "e2" });
+
+describe("POST /api/chat/[threadId]/messages/[messageId]/fork", () => {
+  beforeEach(() => {
+    vi.stubEnv("AUTH_MODE", "dev");
+  });
+
+  it("returns 501 when the backend cannot branch", async () => {
+    vi.mocked(getMemoryProvider).mockReturnValue(createFakeMemory());
+
+    const res = await POST(createRequest("/api/chat/t1/messages/e2/fork", { method: "POST" }), ctx);
+
+    expect(res.status).toBe(501);
+  });
+
+  it("creates the branch and returns the new thread", async () => {
+    const thread = {
+      id: "t9",
+      userId: "u1",
+      title: "First (branch)",
+      createdAt: "2026-01-03T00:00:00.000Z",
+      parentThreadId: "t1",
+      forkedFromEventId: "e2"
+    };
+    const forkThread = vi.fn(async () => thread);
+    vi.mocked(getMemoryProvider).mockReturnValue(createFakeMemory({ forkThread }));
+
+    const res = await POST(createRequest("/api/chat/t1/messages/e2/fork", { method: "POST" }), ctx);
+
+    expect(res.status).toBe(201);
+    expect(forkThread).toHaveBeenCalledWith("t1", "e2");
+    expect(await readJson(res)).toEqual({ thread });
+  });
+
+  it("passes MemoryApiError status through", async () => {
+    vi.mocked(getMemoryProvider).mockReturnValue(
+      createFakeMemory({
+        forkThread: vi.fn(async () => Promise.reject(new MemoryApiError("Event not found.", 404)))
+      })
+    );
+
+    const res = await POST(createRequest("/api/chat/t1/messages/e2/fork", { method: "POST" }), ctx);
+
+    expect(res.status).toBe(404);
+  });
+});
@@ -0,0 +1,16 @@
+import { NextResponse } from "next/server";
+import { jsonError } from "@/lib/server/http";
+import { withChatRoute } from "@/lib/server/chat-route";
+
+export const runtime = "nodejs";
+
+export const POST = withChatRoute<{ threadId: string; messageId: string }>(
+  { failure: "Could not branch this thread right now." },
+  async ({ params: { threadId, messageId }, memory }) => {
+    if (!memory.forkThread) {
+      return jsonError("Selected memory backend does not support branching threads.", 501);
+    }
+    const thread = await memory.forkThread(threadId, messageId);
+    return NextResponse.json({ thread }, { status: 201 });
+  }
+);
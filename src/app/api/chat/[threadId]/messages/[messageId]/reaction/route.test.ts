@@ -0,0 +1,89 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { POST } from "@/app/api/chat/[threadId]/messages/[messageId]/reaction/route";
+import { MemoryApiError } from "@/lib/memory/cortex-http-provider";
+import { getMemoryProvider } from "@/lib/server/providers";
+import { createFakeMemory, createRequest, readJson, routeContext } from "@/test/route-helpers";
+
+vi.mock("@/lib/server/providers", () => ({
+  getMemoryProvider: vi.fn(),
+  getLlmProvider: vi.fn()
+}));
+
+const ctx = routeContext({ threadId: "t1", messageId: "m1" });
+
+describe("POST /api/chat/[threadId]/messages/[messageId]/reaction", () => {
+  beforeEach(() => {
+    vi.stubEnv("AUTH_MODE", "dev");
+    vi.mocked(getMemoryProvider).mockReturnValue(createFakeMemory());
+  });
+
+  it("rejects unsupported reactions", async () => {
+    const res = await POST(
+      createRequest("/api/chat/t1/messages/m1/reaction", {
+        method: "POST",
+        body: { reaction: "laugh" }
+      }),
+      ctx
+    );
+    expect(res.status).toBe(422);
+    expect(await readJson(res)).toMatchObject({
+      error: { details: { allowed: ["thumbs_up", "heart", "angry", "sad", "brain"] } }
+    });
+  });
+
+  it("saves a reaction", async () => {
+    const setEventReaction = vi.fn(async () => ({ reaction: "brain", summaryUpdated: true }));
+    vi.mocked(getMemoryProvider).mockReturnValue(createFakeMemory({ setEventReaction }));
+
+    const res = await POST(
+      createRequest("/api/chat/t1/messages/m1/reaction", {
+        method: "POST",
+        body: { reaction: "brain" }
+      }),
+      ctx
+    );
+
+    expect(setEventReaction).toHaveBeenCalledWith("t1", "m1", "brain");
+    expect(await readJson(res)).toEqual({
+      threadId: "t1",
+      messageId: "m1",
+      reaction: "brain",
+      summaryUpdated: true
+    });
+  });
+
+  it("treats an empty reaction as a clear", async () => {
+    const setEventReaction = vi.fn(async () => ({ reaction: null, summaryUpdated: false }));
+    vi.mocked(getMemoryProvider).mockReturnValue(createFakeMemory({ setEventReaction }));
+
+    await POST(
+      createRequest("/api/chat/t1/messages/m1/reaction", {
+        method: "POST",
+        body: { reaction: " " }
+      }),
+      ctx
+    );
+
+    expect(setEventReaction).toHaveBeenCalledWith("t1", "m1", null);
+  });
+
+  it("passes MemoryApiError status through", async () => {
+    vi.mocked(getMemoryProvider).mockReturnValue(
+      createFakeMemory({
+        setEventReaction: vi.fn(async () =>
+          Promise.reject(new MemoryApiError("Assistant event not found", 404))
+        )
+      })
+    );
+
+    const res = await POST(
+      createRequest("/api/chat/t1/messages/m1/reaction", {
+        method: "POST",
+        body: { reaction: "heart" }
+      }),
+      ctx
+    );
+
+    expect(res.status).toBe(404);
+  });
+});
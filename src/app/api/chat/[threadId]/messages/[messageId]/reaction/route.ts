@@ -1,8 +1,7 @@
-import { NextRequest } from "next/server";
-import { getMemoryProvider } from "@/lib/server/providers";
 import { jsonError } from "@/lib/server/http";
-import { getAuthFromRequest, getAuthMode } from "@/lib/server/auth";
-import { MemoryApiError } from "@/lib/memory/cortex-http-provider";
+import { withChatRoute } from "@/lib/server/chat-route";
+
+export const runtime = "nodejs";
 
 const ALLOWED_REACTIONS = new Set(["thumbs_up", "heart", "angry", "sad", "brain"]);
 
@@ -10,42 +9,22 @@ type ReactionPayload = {
   reaction?: string | null;
 };
 
-function isAuthError(error: unknown): boolean {
-  const message = error instanceof Error ? error.message.toLowerCase() : "";
-  return (
-    message.includes("unauthorized") ||
-    message.includes("bearer token required") ||
-    message.includes("invalid or expired access token")
-  );
-}
-
-function isMemoryApiError(error: unknown): error is MemoryApiError {
-  return error instanceof MemoryApiError;
-}
-
-export async function POST(
-  req: NextRequest,
-  ctx: { params: Promise<{ threadId: string; messageId: string }> }
-) {
-  const { threadId, messageId } = await ctx.params;
-  if (!threadId) return jsonError("threadId is required.", 400);
-  if (!messageId) return jsonError("messageId is required.", 400);
-
-  const payload = (await req.json().catch(() => ({}))) as ReactionPayload;
-  const rawReaction = payload.reaction;
-  const reaction =
-    typeof rawReaction === "string" && rawReaction.trim().length > 0
-      ? rawReaction.trim()
-      : null;
-
-  if (reaction && !ALLOWED_REACTIONS.has(reaction)) {
-    return jsonError("Unsupported reaction.", 422, {
-      allowed: [...ALLOWED_REACTIONS]
-    });
-  }
+export const POST = withChatRoute<{ threadId: string; messageId: string }>(
+  { failure: "Failed to persist reaction." },
+  async ({ req, params: { threadId, messageId }, memory }) => {
+    const payload = (await req.json().catch(() => ({}))) as ReactionPayload;
+    const rawReaction = payload.reaction;
+    const reaction =
+      typeof rawReaction === "string" && rawReaction.trim().length > 0
+        ? rawReaction.trim()
+        : null;
+
+    if (reaction && !ALLOWED_REACTIONS.has(reaction)) {
+      return jsonError("Unsupported reaction.", 422, {
+        allowed: [...ALLOWED_REACTIONS]
+      });
+    }
 
-  try {
-    const memory = getMemoryProvider(getAuthFromRequest(req).authorization);
     if (!memory.setEventReaction) {
       return jsonError("Selected memory backend does not implement setEventReaction().", 500);
     }
@@ -60,16 +39,5 @@ export async function POST(
       reaction: result.reaction,
       summaryUpdated: result.summaryUpdated
     });
-  } catch (error) {
-    if (getAuthMode() === "supabase" && isAuthError(error)) {
-      return jsonError("Your session expired. Please sign in again.", 401);
-    }
-    if (isMemoryApiError(error)) {
-      return jsonError(error.message, error.status);
-    }
-    return jsonError(
-      error instanceof Error ? error.message : "Failed to persist reaction.",
-      503
-    );
   }
-}
+);
@@ -0,0 +1,86 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { POST } from "@/app/api/chat/[threadId]/messages/[messageId]/regenerate/route";
+import { MemoryApiError } from "@/lib/memory/cortex-http-provider";
+import { getMemoryProvider } from "@/lib/server/providers";
+import {
+  createFakeMemory,
+  createRequest,
+  readFrameStream,
+  readJson,
+  routeContext,
+  streamFromChunks
+} from "@/test/route-helpers";
+
+vi.mock("@/lib/server/providers", () => ({
+  getMemoryProvider: vi.fn(),
+  getLlmProvider: vi.fn()
+}));
+
+const ctx = routeContext({ threadId: "t1", messageId: "e2" });
+
+describe("POST /api/chat/[threadId]/messages/[messageId]/regenerate", () => {
+  beforeEach(() => {
+    vi.stubEnv("AUTH_MODE", "dev");
+    vi.mocked(getMemoryProvider).mockReturnValue(createFakeMemory());
+  });
+
+  it("returns 501 when the backend cannot regenerate", async () => {
+    vi.mocked(getMemoryProvider).mockReturnValue(createFakeMemory());
+
+    const res = await POST(
+      createRequest("/api/chat/t1/messages/e2/regenerate", { method: "POST" }),
+      ctx
+    );
+
+    expect(res.status).toBe(501);
+  });
+
+  it("rejects temporary client-side ids", async () => {
+    const res = await POST(
+      createRequest("/api/chat/t1/messages/assistant-x/regenerate", { method: "POST" }),
+      routeContext({ threadId: "t1", messageId: "assistant-x" })
+    );
+
+    expect(res.status).toBe(400);
+  });
+
+  it("proxies the regenerated stream", async () => {
+    const regenerateAssistantEvent = vi.fn(
+      async () => new Response(streamFromChunks(["new ", "reply"]), { status: 200 })
+    );
+    vi.mocked(getMemoryProvider).mockReturnValue(
+      createFakeMemory({ regenerateAssistantEvent })
+    );
+
+    const res = await POST(
+      createRequest("/api/chat/t1/messages/e2/regenerate", { method: "POST" }),
+      ctx
+    );
+
+    expect(regenerateAssistantEvent).toHaveBeenCalledWith("t1", "e2", expect.any(AbortSignal));
+    expect(res.headers.get("Cache-Control")).toBe("no-cache, no-transform");
+    expect((await readFrameStream(res)).text).toBe("new reply");
+  });
+
+  it("passes MemoryApiError status through", async () => {
+    vi.mocked(getMemoryProvider).mockReturnValue(
+      createFakeMemory({
+        regenerateAssistantEvent: vi.fn(async () =>
+          Promise.reject(
+            new MemoryApiError("Only the latest assistant reply can be regenerated.", 409)
+          )
+        )
+      })
+    );
+
+    const res = await POST(
+      createRequest("/api/chat/t1/messages/e2/regenerate", { method: "POST" }),
+      ctx
+    );
+
+    expect(res.status).toBe(409);
+    expect(await readJson(res)).toEqual({
+      error: { message: "Only the latest assistant reply can be regenerated." }
+    });
+  });
+});
@@ -0,0 +1,17 @@
+import { jsonError } from "@/lib/server/http";
+import { proxyStream, withChatRoute } from "@/lib/server/chat-route";
+
+export const runtime = "nodejs";
+
+export const POST = withChatRoute<{ threadId: string; messageId: string }>(
+  { failure: (cause) => `Failed to regenerate assistant reply: ${cause}`, metered: true },
+  async ({ req, params: { threadId, messageId }, memory }) => {
+    if (messageId.startsWith("assistant-")) {
+      return jsonError("messageId must reference a persisted assistant event.", 400);
+    }
+    if (!memory.regenerateAssistantEvent) {
+      return jsonError("Selected memory backend does not support regenerating replies.", 501);
+    }
+    return proxyStream(await memory.regenerateAssistantEvent(threadId, messageId, req.signal));
+  }
+);
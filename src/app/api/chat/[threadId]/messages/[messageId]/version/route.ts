@@ -0,0 +1,26 @@
+import { NextResponse } from "next/server";
+import { jsonError } from "@/lib/server/http";
+import { withChatRoute } from "@/lib/server/chat-route";
+
+export const runtime = "nodejs";
+
+type VersionPayload = {
+  index?: number;
+};
+
+export const POST = withChatRoute<{ threadId: string; messageId: string }>(
+  { failure: "Could not switch reply version right now." },
+  async ({ req, params: { threadId, messageId }, memory }) => {
+    const payload = (await req.json().catch(() => ({}))) as VersionPayload;
+    const index = payload.index;
+    if (typeof index !== "number" || !Number.isInteger(index) || index < 0) {
+      return jsonError("index must be a non-negative integer.", 422);
+    }
+
+    if (!memory.selectAssistantVersion) {
+      return jsonError("Selected memory backend does not support reply versions.", 501);
+    }
+    const message = await memory.selectAssistantVersion(threadId, messageId, index);
+    return NextResponse.json({ threadId, messageId, message });
+  }
+);
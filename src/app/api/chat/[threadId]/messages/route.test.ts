@@ -0,0 +1,301 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { GET, POST } from "@/app/api/chat/[threadId]/messages/route";
+import { MemoryApiError } from "@/lib/memory/cortex-http-provider";
+import { getLlmProvider, getMemoryProvider } from "@/lib/server/providers";
+import {
+  createFakeMemory,
+  createRequest,
+  readFrameStream,
+  readJson,
+  routeContext,
+  streamFromChunks
+} from "@/test/route-helpers";
+
+vi.mock("@/lib/server/providers", () => ({
+  getMemoryProvider: vi.fn(),
+  getLlmProvider: vi.fn()
+}));
+
+describe("GET /api/chat/[threadId]/messages", () => {
+  beforeEach(() => {
+    vi.stubEnv("AUTH_MODE", "dev");
+  });
+
+  it("returns the latest page of 100 events", async () => {
+    const getRecentEvents = vi.fn(async () => [
+      {
+        id: "e1",
+        threadId: "t1",
+        role: "user" as const,
+        content: "hi",
+        createdAt: "2026-01-01T00:00:00.000Z"
+      }
+    ]);
+    vi.mocked(getMemoryProvider).mockReturnValue(createFakeMemory({ getRecentEvents }));
+
+    const res = await GET(createRequest("/api/chat/t1/messages"), routeContext({ threadId: "t1" }));
+
+    expect(getRecentEvents).toHaveBeenCalledWith("t1", 101, undefined);
+    expect(await readJson(res)).toMatchObject({
+      threadId: "t1",
+      messages: [{ id: "e1" }],
+      hasMore: false,
+      nextCursor: null
+    });
+  });
+
+  it("pages backwards from a cursor and reports the next cursor", async () => {
+    const getRecentEvents = vi.fn(async () =>
+      ["e1", "e2", "e3"].map((id) => ({
+        id,
+        threadId: "t1",
+        role: "user" as const,
+        content: id,
+        createdAt: "2026-01-01T00:00:00.000Z"
+      }))
+    );
+    vi.mocked(getMemoryProvider).mockReturnValue(createFakeMemory({ getRecentEvents }));
+
+    const res = await GET(
+      createRequest("/api/chat/t1/messages?before=e9&limit=2"),
+      routeContext({ threadId: "t1" })
+    );
+
+    expect(getRecentEvents).toHaveBeenCalledWith("t1", 3, "e9");
+    const body = await readJson(res);
+    expect(body).toMatchObject({ hasMore: true, nextCursor: "e2" });
+    expect((body.messages as Array<{ id: string }>).map((message) => message.id)).toEqual([
+      "e2",
+      "e3"
+    ]);
+  });
+
+  it("forwards the bearer token to the provider", async () => {
+    vi.mocked(getMemoryProvider).mockReturnValue(createFakeMemory());
+
+    await GET(
+      createRequest("/api/chat/t1/messages", { headers: { authorization: "Bearer abc" } }),
+      routeContext({ threadId: "t1" })
+    );
+
+    expect(getMemoryProvider).toHaveBeenCalledWith("Bearer abc");
+  });
+
+  it("passes MemoryApiError status through", async () => {
+    vi.mocked(getMemoryProvider).mockReturnValue(
+      createFakeMemory({
+        getRecentEvents: vi.fn(async () => Promise.reject(new MemoryApiError("Forbidden", 403)))
+      })
+    );
+
+    const res = await GET(createRequest("/api/chat/t1/messages"), routeContext({ threadId: "t1" }));
+
+    expect(res.status).toBe(403);
+  });
+
+  it("degrades on unexpected failures", async () => {
+    vi.mocked(getMemoryProvider).mockReturnValue(
+      createFakeMemory({ getRecentEvents: vi.fn(async () => Promise.reject(new Error("timeout"))) })
+    );
+
+    const res = await GET(createRequest("/api/chat/t1/messages"), routeContext({ threadId: "t1" }));
+
+    expect(await readJson(res)).toEqual({
+      threadId: "t1",
+      messages: [],
+      degraded: true,
+      warning: "timeout"
+    });
+  });
+});
+
+describe("POST /api/chat/[threadId]/messages", () => {
+  beforeEach(() => {
+    vi.stubEnv("AUTH_MODE", "dev");
+    vi.stubEnv("CHAT_DEMO_MODE", "false");
+  });
+
+  it("requires message text", async () => {
+    vi.mocked(getMemoryProvider).mockReturnValue(createFakeMemory());
+    const res = await POST(
+      createRequest("/api/chat/t1/messages", { method: "POST", body: { text: "  " } }),
+      routeContext({ threadId: "t1" })
+    );
+    expect(res.status).toBe(400);
+  });
+
+  it("rejects messages over the max length", async () => {
+    vi.mocked(getMemoryProvider).mockReturnValue(createFakeMemory());
+    const res = await POST(
+      createRequest("/api/chat/t1/messages", { method: "POST", body: { text: "a".repeat(6001) } }),
+      routeContext({ threadId: "t1" })
+    );
+    expect(res.status).toBe(422);
+    expect(await readJson(res)).toMatchObject({ error: { details: { maxLength: 6000 } } });
+  });
+
+  it("proxies the chat stream and reports the stored turn ids", async () => {
+    const chat = vi.fn(
+      async () => new Response(streamFromChunks(["Hel", "lo"]), { status: 200 })
+    );
+    const getRecentEvents = vi.fn(async () => [
+      { id: "e1", threadId: "t1", role: "user" as const, content: "hi", createdAt: "" },
+      { id: "e2", threadId: "t1", role: "assistant" as const, content: "Hello", createdAt: "" }
+    ]);
+    vi.mocked(getMemoryProvider).mockReturnValue(createFakeMemory({ chat, getRecentEvents }));
+
+    const res = await POST(
+      createRequest("/api/chat/t1/messages", { method: "POST", body: { text: " hi " } }),
+      routeContext({ threadId: "t1" })
+    );
+
+    expect(chat).toHaveBeenCalledWith("t1", "hi", expect.anything());
+    expect(res.headers.get("Cache-Control")).toBe("no-cache, no-transform");
+    expect(res.headers.get("Content-Type")).toBe("application/x-ndjson; charset=utf-8");
+    const { frames, text } = await readFrameStream(res);
+    expect(text).toBe("Hello");
+    expect(frames[0]).toEqual({
+      type: "start",
+      userEventId: null,
+      assistantEventId: null,
+      model: null
+    });
+    expect(frames.at(-1)).toEqual({
+      type: "done",
+      userEventId: "e1",
+      assistantEventId: "e2",
+      interrupted: false
+    });
+    expect(getRecentEvents).toHaveBeenCalledWith("t1", 2);
+  });
+
+  it("validates generation settings and saves them before the reply", async () => {
+    const calls: string[] = [];
+    const setThreadSettings = vi.fn(async () => {
+      calls.push("settings");
+    });
+    const chat = vi.fn(async () => {
+      calls.push("chat");
+      return new Response(streamFromChunks(["ok"]), { status: 200 });
+    });
+    vi.mocked(getMemoryProvider).mockReturnValue(createFakeMemory({ chat, setThreadSettings }));
+    const send = (settings: unknown) =>
+      POST(
+        createRequest("/api/chat/t1/messages", { method: "POST", body: { text: "hi", settings } }),
+        routeContext({ threadId: "t1" })
+      );
+
+    const rejected = await send({ temperature: 5 });
+    expect(rejected.status).toBe(422);
+    expect(await readJson(rejected)).toEqual({
+      error: {
+        message: "Generation settings are invalid.",
+        details: { fields: { temperature: "must be a number from 0 to 2" } }
+      }
+    });
+    expect(chat).not.toHaveBeenCalled();
+
+    await (await send({ temperature: 0.9, stop: ["END"] })).text();
+    expect(setThreadSettings).toHaveBeenCalledWith("t1", { temperature: 0.9, stop: ["END"] });
+    expect(calls).toEqual(["settings", "chat"]);
+  });
+
+  it("still sends the message when the backend cannot store settings", async () => {
+    const chat = vi.fn(async () => new Response(streamFromChunks(["ok"]), { status: 200 }));
+    vi.mocked(getMemoryProvider).mockReturnValue(createFakeMemory({ chat }));
+
+    const res = await POST(
+      createRequest("/api/chat/t1/messages", {
+        method: "POST",
+        body: { text: "hi", settings: { temperature: 0.9 } }
+      }),
+      routeContext({ threadId: "t1" })
+    );
+
+    expect(res.status).toBe(200);
+    expect(chat).toHaveBeenCalledWith("t1", "hi", expect.anything());
+  });
+
+  it("returns 500 when the backend has no chat()", async () => {
+    vi.mocked(getMemoryProvider).mockReturnValue(createFakeMemory());
+    const res = await POST(
+      createRequest("/api/chat/t1/messages", { method: "POST", body: { text: "hi" } }),
+      routeContext({ threadId: "t1" })
+    );
+    expect(res.status).toBe(500);
+  });
+
+  it("passes MemoryApiError status through", async () => {
+    vi.mocked(getMemoryProvider).mockReturnValue(
+      createFakeMemory({
+        chat: vi.fn(async () => Promise.reject(new MemoryApiError("Thread not found", 404)))
+      })
+    );
+    const res = await POST(
+      createRequest("/api/chat/t1/messages", { method: "POST", body: { text: "hi" } }),
+      routeContext({ threadId: "t1" })
+    );
+    expect(res.status).toBe(404);
+    expect(await readJson(res)).toEqual({ error: { message: "Thread not found" } });
+  });
+
+  it("maps auth failures to 401 in supabase mode", async () => {
+    vi.stubEnv("AUTH_MODE", "supabase");
+    vi.mocked(getMemoryProvider).mockReturnValue(
+      createFakeMemory({
+        chat: vi.fn(async () => Promise.reject(new Error("Bearer token required")))
+      })
+    );
+    const res = await POST(
+      createRequest("/api/chat/t1/messages", { method: "POST", body: { text: "hi" } }),
+      routeContext({ threadId: "t1" })
+    );
+    expect(res.status).toBe(401);
+  });
+
+  it("streams the local LLM in demo mode", async () => {
+    vi.stubEnv("CHAT_DEMO_MODE", "true");
+    vi.mocked(getMemoryProvider).mockReturnValue(createFakeMemory());
+    vi.mocked(getLlmProvider).mockReturnValue({
+      async *streamChat() {
+        yield "demo ";
+        yield "reply";
+      }
+    });
+
+    const res = await POST(
+      createRequest("/api/chat/t1/messages", { method: "POST", body: { text: "hi" } }),
+      routeContext({ threadId: "t1" })
+    );
+
+    const { frames, text } = await readFrameStream(res);
+    expect(text).toBe("demo reply");
+    expect(frames.map((frame) => frame.type)).toEqual([
+      "start",
+      "delta",
+      "delta",
+      "usage",
+      "done"
+    ]);
+  });
+
+  it("reports demo stream errors in an error frame", async () => {
+    vi.stubEnv("CHAT_DEMO_MODE", "true");
+    vi.mocked(getMemoryProvider).mockReturnValue(createFakeMemory());
+    vi.mocked(getLlmProvider).mockReturnValue({
+      async *streamChat() {
+        yield* [];
+        throw new Error("rate limited");
+      }
+    });
+
+    const res = await POST(
+      createRequest("/api/chat/t1/messages", { method: "POST", body: { text: "hi" } }),
+      routeContext({ threadId: "t1" })
+    );
+
+    const { frames, text } = await readFrameStream(res);
+    expect(text).toBe("");
+    expect(frames).toContainEqual({ type: "error", message: "rate limited" });
+  });
+});
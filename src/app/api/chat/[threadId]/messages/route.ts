@@ -1,147 +1,130 @@
-import { NextRequest } from "next/server";
-import { getLlmProvider, getMemoryProvider } from "@/lib/server/providers";
+import type { LlmProvider } from "@/lib/llm/llm-provider";
+import { parseGenerationSettings } from "@/lib/llm/thread-settings";
+import { createFrameResponse, estimateTokens } from "@/lib/memory/stream-protocol";
+import type { GenerationSettings } from "@/lib/memory/types";
 import { jsonError } from "@/lib/server/http";
-import { getAuthFromRequest, getAuthMode } from "@/lib/server/auth";
-import { MemoryApiError } from "@/lib/memory/cortex-http-provider";
+import { proxyStream, readLatestTurnIds, withChatRoute } from "@/lib/server/chat-route";
 
 export const runtime = "nodejs";
 
 const MAX_MESSAGE_LENGTH = 6000;
+const DEFAULT_PAGE_SIZE = 100;
+const MAX_PAGE_SIZE = 200;
 
 type MessagePayload = {
   text?: string;
+  // Saved as the thread's generation settings before the reply, e.g. from a new chat's drawer.
+  settings?: unknown;
 };
 
-function isAuthError(error: unknown): boolean {
-  const message = error instanceof Error ? error.message.toLowerCase() : "";
-  return (
-    message.includes("unauthorized") ||
-    message.includes("bearer token required") ||
-    message.includes("invalid or expired access token")
-  );
-}
-
-function isMemoryApiError(error: unknown): error is MemoryApiError {
-  return error instanceof MemoryApiError;
-}
+export const GET = withChatRoute<{ threadId: string }>(
+  {
+    degrade: ({ params }, error) =>
+      Response.json({
+        threadId: params.threadId,
+        messages: [],
+        degraded: true,
+        warning: error instanceof Error ? error.message : "unknown"
+      })
+  },
+  async ({ req, params: { threadId }, memory }) => {
+    const search = req.nextUrl.searchParams;
+    const before = search.get("before")?.trim() || undefined;
+    const requestedLimit = Number.parseInt(search.get("limit") ?? "", 10);
+    const limit = Number.isFinite(requestedLimit)
+      ? Math.min(Math.max(requestedLimit, 1), MAX_PAGE_SIZE)
+      : DEFAULT_PAGE_SIZE;
 
-export async function GET(
-  req: NextRequest,
-  ctx: { params: Promise<{ threadId: string }> }
-) {
-  const { threadId } = await ctx.params;
-  if (!threadId) return jsonError("threadId is required.", 400);
-
-  try {
-    const memory = getMemoryProvider(getAuthFromRequest(req).authorization);
-    const messages = await memory.getRecentEvents(threadId, 100);
-    return Response.json({ threadId, messages });
-  } catch (error) {
-    if (getAuthMode() === "supabase" && isAuthError(error)) {
-      return jsonError("Your session expired. Please sign in again.", 401);
-    }
-    if (isMemoryApiError(error)) {
-      return jsonError(error.message, error.status);
-    }
+    // One extra row tells us whether an older page exists without a second query.
+    const page = await memory.getRecentEvents(threadId, limit + 1, before);
+    const hasMore = page.length > limit;
+    const messages = hasMore ? page.slice(1) : page;
     return Response.json({
       threadId,
-      messages: [],
-      degraded: true,
-      warning: error instanceof Error ? error.message : "unknown"
+      messages,
+      hasMore,
+      nextCursor: hasMore ? (messages[0]?.id ?? null) : null
     });
   }
-}
-
-export async function POST(
-  req: NextRequest,
-  ctx: { params: Promise<{ threadId: string }> }
-) {
-  const { threadId } = await ctx.params;
-  if (!threadId) return jsonError("threadId is required.", 400);
+);
 
-  const payload = (await req.json().catch(() => ({}))) as MessagePayload;
-  const rawText = typeof payload.text === "string" ? payload.text : "";
-  const text = rawText.trim();
+export const POST = withChatRoute<{ threadId: string }>(
+  {
+    failure: (cause) => `Failed to stream assistant output from chat backend: ${cause}`,
+    metered: true
+  },
+  async ({ req, params: { threadId }, memory, llm }) => {
+    const payload = (await req.json().catch(() => ({}))) as MessagePayload;
+    const rawText = typeof payload.text === "string" ? payload.text : "";
+    const text = rawText.trim();
 
-  if (!text) return jsonError("Message text is required.", 400);
-  if (text.length > MAX_MESSAGE_LENGTH) {
-    return jsonError("Message text exceeds max length.", 422, {
-      maxLength: MAX_MESSAGE_LENGTH
-    });
-  }
-
-  const demoMode = (process.env.CHAT_DEMO_MODE ?? "").trim().toLowerCase() === "true";
-  const shouldUseDemo = demoMode;
-  const memory = getMemoryProvider(getAuthFromRequest(req).authorization);
-
-  if (shouldUseDemo) {
-    const llm = getLlmProvider();
-    let stream: AsyncIterable<string>;
-    try {
-      stream = llm.streamChat({
-        messages: [{ role: "user", content: text }],
-        signal: req.signal
-      });
-    } catch (error) {
-      return jsonError("Failed to initialize demo stream.", 500, {
-        cause: error instanceof Error ? error.message : "unknown"
+    if (!text) return jsonError("Message text is required.", 400);
+    if (text.length > MAX_MESSAGE_LENGTH) {
+      return jsonError("Message text exceeds max length.", 422, {
+        maxLength: MAX_MESSAGE_LENGTH
       });
     }
+    const parsed = parseGenerationSettings(payload.settings);
+    if (!parsed.ok) {
+      return jsonError("Generation settings are invalid.", 422, { fields: parsed.fields });
+    }
 
-    const encoder = new TextEncoder();
-    const body = new ReadableStream<Uint8Array>({
-      async start(controller) {
-        try {
-          for await (const chunk of stream) {
-            controller.enqueue(encoder.encode(chunk));
-          }
-          controller.close();
-        } catch (error) {
-          const message =
-            error instanceof Error ? error.message : "Unexpected stream error";
-          controller.enqueue(
-            encoder.encode(`\n[Stream error: ${message}. Please retry.]\n`)
-          );
-          controller.close();
-        }
-      }
-    });
-
-    return new Response(body, {
-      status: 200,
-      headers: {
-        "Content-Type": "text/plain; charset=utf-8",
-        "Cache-Control": "no-cache, no-transform"
-      }
-    });
-  }
+    const demoMode = (process.env.CHAT_DEMO_MODE ?? "").trim().toLowerCase() === "true";
+    if (demoMode) {
+      return createDemoResponse(llm(), text, parsed.settings, req.signal);
+    }
+    // Backends without thread settings (CortexLTM) still send the message, with their defaults.
+    if (payload.settings !== undefined && memory.setThreadSettings) {
+      await memory.setThreadSettings(threadId, parsed.settings);
+    }
 
-  try {
     if (!memory.chat) {
       return jsonError("Selected memory backend does not implement chat().", 500);
     }
-    const upstream = await memory.chat(threadId, text, req.signal);
-    const headers = new Headers(upstream.headers);
-    if (!headers.has("Content-Type")) {
-      headers.set("Content-Type", "text/plain; charset=utf-8");
-    }
-    headers.set("Cache-Control", "no-cache, no-transform");
-    return new Response(upstream.body, {
-      status: upstream.status,
-      headers
-    });
-  } catch (error) {
-    if (getAuthMode() === "supabase" && isAuthError(error)) {
-      return jsonError("Your session expired. Please sign in again.", 401);
-    }
-    if (isMemoryApiError(error)) {
-      return jsonError(error.message, error.status);
-    }
-    const cause = error instanceof Error ? error.message : "unknown";
-    return jsonError(
-      `Failed to stream assistant output from chat backend: ${cause}`,
-      503,
-      { cause }
+    return proxyStream(await memory.chat(threadId, text, req.signal), () =>
+      readLatestTurnIds(memory, threadId)
     );
   }
+);
+
+// Demo mode streams the model directly without touching memory, so no event ids exist.
+function createDemoResponse(
+  llm: LlmProvider,
+  text: string,
+  generation: GenerationSettings | null,
+  signal: AbortSignal
+): Response {
+  return createFrameResponse(async (emit) => {
+    emit({ type: "start", userEventId: null, assistantEventId: null, model: llm.model ?? null });
+    let output = "";
+    try {
+      for await (const chunk of llm.streamChat({
+        messages: [{ role: "user", content: text }],
+        signal,
+        generation: generation ?? undefined
+      })) {
+        output += chunk;
+        emit({ type: "delta", text: chunk });
+      }
+    } catch (error) {
+      if (!signal.aborted) {
+        emit({
+          type: "error",
+          message: error instanceof Error ? error.message : "Unexpected stream error"
+        });
+      }
+    }
+    emit({
+      type: "usage",
+      inputTokens: estimateTokens(text),
+      outputTokens: estimateTokens(output),
+      estimated: true
+    });
+    emit({
+      type: "done",
+      userEventId: null,
+      assistantEventId: null,
+      interrupted: signal.aborted
+    });
+  });
 }
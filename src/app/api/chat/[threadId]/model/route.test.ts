@@ -0,0 +1,63 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { PUT } from "@/app/api/chat/[threadId]/model/route";
+import { getMemoryProvider, listAvailableModels } from "@/lib/server/providers";
+import { createFakeMemory, createRequest, readJson, routeContext } from "@/test/route-helpers";
+
+vi.mock("@/lib/server/providers", () => ({
+  getMemoryProvider: vi.fn(),
+  getLlmProvider: vi.fn(),
+  listAvailableModels: vi.fn()
+}));
+
+function putModel(model: unknown) {
+  return PUT(
+    createRequest("/api/chat/t1/model", { method: "PUT", body: { model } }),
+    routeContext({ threadId: "t1" })
+  );
+}
+
+describe("PUT /api/chat/[threadId]/model", () => {
+  beforeEach(() => {
+    vi.stubEnv("AUTH_MODE", "dev");
+    vi.mocked(listAvailableModels).mockResolvedValue([
+      {
+        id: "anthropic/claude-3-5-haiku-latest",
+        provider: "anthropic",
+        name: "claude-3-5-haiku-latest"
+      }
+    ]);
+  });
+
+  it("stores an available model and clears it with null", async () => {
+    const setThreadModel = vi.fn(async () => undefined);
+    vi.mocked(getMemoryProvider).mockReturnValue(createFakeMemory({ setThreadModel }));
+
+    const res = await putModel(" anthropic/claude-3-5-haiku-latest ");
+    expect(await readJson(res)).toEqual({
+      threadId: "t1",
+      model: "anthropic/claude-3-5-haiku-latest",
+      ok: true
+    });
+
+    await putModel(null);
+    expect(setThreadModel.mock.calls).toEqual([
+      ["t1", "anthropic/claude-3-5-haiku-latest"],
+      ["t1", null]
+    ]);
+  });
+
+  it("rejects models the server does not offer", async () => {
+    const setThreadModel = vi.fn(async () => undefined);
+    vi.mocked(getMemoryProvider).mockReturnValue(createFakeMemory({ setThreadModel }));
+
+    expect((await putModel("openai/gpt-5")).status).toBe(422);
+    expect((await putModel(42)).status).toBe(400);
+    expect(setThreadModel).not.toHaveBeenCalled();
+  });
+
+  it("returns 501 when the backend cannot store a model", async () => {
+    vi.mocked(getMemoryProvider).mockReturnValue(createFakeMemory());
+
+    expect((await putModel(null)).status).toBe(501);
+  });
+});
@@ -0,0 +1,36 @@
+import { NextResponse } from "next/server";
+import { jsonError } from "@/lib/server/http";
+import { withChatRoute } from "@/lib/server/chat-route";
+import { listAvailableModels } from "@/lib/server/providers";
+
+export const runtime = "nodejs";
+
+type ModelPayload = {
+  model?: string | null;
+};
+
+// `model` is a registry id from `GET /api/models`; null goes back to the server default.
+export const PUT = withChatRoute<{ threadId: string }>(
+  { failure: "Could not change the model right now." },
+  async ({ req, params: { threadId }, memory }) => {
+    if (threadId.startsWith("draft-")) return jsonError("threadId is invalid.", 400);
+    const payload = (await req.json().catch(() => ({}))) as ModelPayload;
+    const rawModel = payload.model ?? null;
+    if (rawModel !== null && typeof rawModel !== "string") {
+      return jsonError("model must be a string or null.", 400);
+    }
+    const model = rawModel?.trim() || null;
+
+    if (!memory.setThreadModel) {
+      return jsonError("Selected memory backend does not support model selection.", 501);
+    }
+    if (model) {
+      const available = (await listAvailableModels()).map((option) => option.id);
+      if (!available.includes(model)) {
+        return jsonError("Unknown model.", 422, { available });
+      }
+    }
+    await memory.setThreadModel(threadId, model);
+    return NextResponse.json({ threadId, model, ok: true });
+  }
+);
@@ -0,0 +1,53 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { PUT } from "@/app/api/chat/[threadId]/persona/route";
+import { MemoryApiError } from "@/lib/memory/cortex-http-provider";
+import { getMemoryProvider } from "@/lib/server/providers";
+import { createFakeMemory, createRequest, readJson, routeContext } from "@/test/route-helpers";
+
+vi.mock("@/lib/server/providers", () => ({
+  getMemoryProvider: vi.fn(),
+  getLlmProvider: vi.fn()
+}));
+
+function putPersona(personaId: unknown) {
+  return PUT(
+    createRequest("/api/chat/t1/persona", { method: "PUT", body: { personaId } }),
+    routeContext({ threadId: "t1" })
+  );
+}
+
+describe("PUT /api/chat/[threadId]/persona", () => {
+  beforeEach(() => {
+    vi.stubEnv("AUTH_MODE", "dev");
+  });
+
+  it("attaches a persona and detaches it with null", async () => {
+    const setThreadPersona = vi.fn(async () => undefined);
+    vi.mocked(getMemoryProvider).mockReturnValue(createFakeMemory({ setThreadPersona }));
+
+    const res = await putPersona(" p1 ");
+    expect(await readJson(res)).toEqual({ threadId: "t1", personaId: "p1", ok: true });
+
+    await putPersona(null);
+    expect(setThreadPersona.mock.calls).toEqual([
+      ["t1", "p1"],
+      ["t1", null]
+    ]);
+  });
+
+  it("passes through a missing persona and rejects bad input", async () => {
+    const setThreadPersona = vi.fn(async () => {
+      throw new MemoryApiError("Persona not found.", 404);
+    });
+    vi.mocked(getMemoryProvider).mockReturnValue(createFakeMemory({ setThreadPersona }));
+
+    expect((await putPersona("someone-elses")).status).toBe(404);
+    expect((await putPersona(7)).status).toBe(400);
+  });
+
+  it("returns 501 when the backend cannot store personas", async () => {
+    vi.mocked(getMemoryProvider).mockReturnValue(createFakeMemory());
+
+    expect((await putPersona(null)).status).toBe(501);
+  });
+});
@@ -0,0 +1,29 @@
+import { NextResponse } from "next/server";
+import { jsonError } from "@/lib/server/http";
+import { withChatRoute } from "@/lib/server/chat-route";
+
+export const runtime = "nodejs";
+
+type PersonaPayload = {
+  personaId?: string | null;
+};
+
+// `personaId` must name one of the thread owner's personas (404 otherwise); null detaches it.
+export const PUT = withChatRoute<{ threadId: string }>(
+  { failure: "Could not change the persona right now." },
+  async ({ req, params: { threadId }, memory }) => {
+    if (threadId.startsWith("draft-")) return jsonError("threadId is invalid.", 400);
+    const payload = (await req.json().catch(() => ({}))) as PersonaPayload;
+    const rawPersonaId = payload.personaId ?? null;
+    if (rawPersonaId !== null && typeof rawPersonaId !== "string") {
+      return jsonError("personaId must be a string or null.", 400);
+    }
+    const personaId = rawPersonaId?.trim() || null;
+
+    if (!memory.setThreadPersona) {
+      return jsonError("Selected memory backend does not support personas.", 501);
+    }
+    await memory.setThreadPersona(threadId, personaId);
+    return NextResponse.json({ threadId, personaId, ok: true });
+  }
+);
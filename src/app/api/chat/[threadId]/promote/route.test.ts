@@ -0,0 +1,93 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { POST } from "@/app/api/chat/[threadId]/promote/route";
+import { MemoryApiError } from "@/lib/memory/cortex-http-provider";
+import { getMemoryProvider } from "@/lib/server/providers";
+import { createFakeMemory, createRequest, readJson, routeContext } from "@/test/route-helpers";
+
+vi.mock("@/lib/server/providers", () => ({
+  getMemoryProvider: vi.fn(),
+  getLlmProvider: vi.fn()
+}));
+
+describe("POST /api/chat/[threadId]/promote", () => {
+  beforeEach(() => {
+    vi.stubEnv("AUTH_MODE", "dev");
+    vi.mocked(getMemoryProvider).mockReturnValue(createFakeMemory());
+  });
+
+  it.each(["draft-1", "local-1"])("rejects unpersisted thread id %s", async (threadId) => {
+    const res = await POST(
+      createRequest(`/api/chat/${threadId}/promote`, { method: "POST" }),
+      routeContext({ threadId })
+    );
+    expect(res.status).toBe(400);
+  });
+
+  it("returns 501 when the backend cannot promote", async () => {
+    vi.mocked(getMemoryProvider).mockReturnValue(createFakeMemory());
+    const res = await POST(
+      createRequest("/api/chat/t1/promote", { method: "POST" }),
+      routeContext({ threadId: "t1" })
+    );
+    expect(res.status).toBe(501);
+  });
+
+  it("promotes the thread", async () => {
+    vi.mocked(getMemoryProvider).mockReturnValue(
+      createFakeMemory({
+        promoteThreadToCoreMemory: vi.fn(async () => ({
+          summary: "- likes tea",
+          summaryUpdated: true,
+          isCoreMemory: true
+        }))
+      })
+    );
+
+    const res = await POST(
+      createRequest("/api/chat/t1/promote", { method: "POST" }),
+      routeContext({ threadId: "t1" })
+    );
+
+    expect(await readJson(res)).toEqual({
+      threadId: "t1",
+      summary: "- likes tea",
+      summaryUpdated: true,
+      isCoreMemory: true,
+      ok: true
+    });
+  });
+
+  it("maps failures to 503 with the cause", async () => {
+    vi.mocked(getMemoryProvider).mockReturnValue(
+      createFakeMemory({
+        promoteThreadToCoreMemory: vi.fn(async () => Promise.reject(new Error("llm down")))
+      })
+    );
+
+    const res = await POST(
+      createRequest("/api/chat/t1/promote", { method: "POST" }),
+      routeContext({ threadId: "t1" })
+    );
+
+    expect(res.status).toBe(503);
+    expect(await readJson(res)).toMatchObject({ error: { details: { cause: "llm down" } } });
+  });
+
+  it("passes MemoryApiError status through", async () => {
+    vi.mocked(getMemoryProvider).mockReturnValue(
+      createFakeMemory({
+        promoteThreadToCoreMemory: vi.fn(async () =>
+          Promise.reject(new MemoryApiError("Thread not found.", 404))
+        )
+      })
+    );
+
+    const res = await POST(
+      createRequest("/api/chat/t1/promote", { method: "POST" }),
+      routeContext({ threadId: "t1" })
+    );
+
+    expect(res.status).toBe(404);
+    expect(await readJson(res)).toEqual({ error: { message: "Thread not found." } });
+  });
+});
@@ -0,0 +1,117 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { DELETE, PATCH } from "@/app/api/chat/[threadId]/route";
+import { MemoryApiError } from "@/lib/memory/cortex-http-provider";
+import { getMemoryProvider } from "@/lib/server/providers";
+import { createFakeMemory, createRequest, readJson, routeContext } from "@/test/route-helpers";
+
+vi.mock("@/lib/server/providers", () => ({
+  getMemoryProvider: vi.fn(),
+  getLlmProvider: vi.fn()
+}));
+
+describe("PATCH /api/chat/[threadId]", () => {
+  beforeEach(() => {
+    vi.stubEnv("AUTH_MODE", "dev");
+    vi.mocked(getMemoryProvider).mockReturnValue(createFakeMemory());
+  });
+
+  it("requires a title", async () => {
+    const res = await PATCH(
+      createRequest("/api/chat/t1", { method: "PATCH", body: { title: "   " } }),
+      routeContext({ threadId: "t1" })
+    );
+    expect(res.status).toBe(400);
+  });
+
+  it("rejects titles over 120 characters", async () => {
+    const res = await PATCH(
+      createRequest("/api/chat/t1", { method: "PATCH", body: { title: "x".repeat(121) } }),
+      routeContext({ threadId: "t1" })
+    );
+    expect(res.status).toBe(422);
+  });
+
+  it("renames through the memory provider", async () => {
+    const renameThread = vi.fn(async () => undefined);
+    vi.mocked(getMemoryProvider).mockReturnValue(createFakeMemory({ renameThread }));
+
+    const res = await PATCH(
+      createRequest("/api/chat/t1", { method: "PATCH", body: { title: " Trip plan " } }),
+      routeContext({ threadId: "t1" })
+    );
+
+    expect(renameThread).toHaveBeenCalledWith("t1", "Trip plan");
+    expect(await readJson(res)).toEqual({ threadId: "t1", title: "Trip plan", ok: true });
+  });
+
+  it("returns 501 when the backend cannot rename", async () => {
+    vi.mocked(getMemoryProvider).mockReturnValue(createFakeMemory());
+
+    const res = await PATCH(
+      createRequest("/api/chat/t1", { method: "PATCH", body: { title: "New" } }),
+      routeContext({ threadId: "t1" })
+    );
+
+    expect(res.status).toBe(501);
+  });
+
+  it("passes MemoryApiError status through", async () => {
+    vi.mocked(getMemoryProvider).mockReturnValue(
+      createFakeMemory({
+        renameThread: vi.fn(async () => Promise.reject(new MemoryApiError("Thread not found.", 404)))
+      })
+    );
+
+    const res = await PATCH(
+      createRequest("/api/chat/t1", { method: "PATCH", body: { title: "New" } }),
+      routeContext({ threadId: "t1" })
+    );
+
+    expect(res.status).toBe(404);
+    expect(await readJson(res)).toEqual({ error: { message: "Thread not found." } });
+  });
+});
+
+describe("DELETE /api/chat/[threadId]", () => {
+  beforeEach(() => {
+    vi.stubEnv("AUTH_MODE", "dev");
+    vi.mocked(getMemoryProvider).mockReturnValue(createFakeMemory());
+  });
+
+  it("rejects draft thread ids", async () => {
+    const res = await DELETE(
+      createRequest("/api/chat/draft-1", { method: "DELETE" }),
+      routeContext({ threadId: "draft-1" })
+    );
+    expect(res.status).toBe(400);
+  });
+
+  it("deletes through the memory provider", async () => {
+    const deleteThread = vi.fn(async () => undefined);
+    vi.mocked(getMemoryProvider).mockReturnValue(createFakeMemory({ deleteThread }));
+
+    const res = await DELETE(
+      createRequest("/api/chat/t1", { method: "DELETE" }),
+      routeContext({ threadId: "t1" })
+    );
+
+    expect(deleteThread).toHaveBeenCalledWith("t1");
+    expect(await readJson(res)).toEqual({ threadId: "t1", ok: true });
+  });
+
+  it("maps unexpected failures to 503", async () => {
+    vi.mocked(getMemoryProvider).mockReturnValue(
+      createFakeMemory({ deleteThread: vi.fn(async () => Promise.reject(new Error("socket"))) })
+    );
+
+    const res = await DELETE(
+      createRequest("/api/chat/t1", { method: "DELETE" }),
+      routeContext({ threadId: "t1" })
+    );
+
+    expect(res.status).toBe(503);
+    expect(await readJson(res)).toEqual({
+      error: { message: "Could not delete thread right now.", details: { cause: "socket" } }
+    });
+  });
+});
@@ -0,0 +1,56 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { PUT } from "@/app/api/chat/[threadId]/settings/route";
+import { getMemoryProvider } from "@/lib/server/providers";
+import { createFakeMemory, createRequest, readJson, routeContext } from "@/test/route-helpers";
+
+vi.mock("@/lib/server/providers", () => ({
+  getMemoryProvider: vi.fn(),
+  getLlmProvider: vi.fn()
+}));
+
+function putSettings(settings: unknown) {
+  return PUT(
+    createRequest("/api/chat/t1/settings", { method: "PUT", body: { settings } }),
+    routeContext({ threadId: "t1" })
+  );
+}
+
+describe("PUT /api/chat/[threadId]/settings", () => {
+  beforeEach(() => {
+    vi.stubEnv("AUTH_MODE", "dev");
+  });
+
+  it("saves validated settings and clears them with an empty object", async () => {
+    const setThreadSettings = vi.fn(async () => undefined);
+    vi.mocked(getMemoryProvider).mockReturnValue(createFakeMemory({ setThreadSettings }));
+
+    const res = await putSettings({ temperature: 0.4, maxTokens: 256, seed: null });
+    expect(await readJson(res)).toEqual({
+      threadId: "t1",
+      settings: { temperature: 0.4, maxTokens: 256 },
+      ok: true
+    });
+
+    await putSettings({});
+    expect(setThreadSettings).toHaveBeenLastCalledWith("t1", null);
+  });
+
+  it("rejects invalid settings with the offending fields", async () => {
+    const setThreadSettings = vi.fn(async () => undefined);
+    vi.mocked(getMemoryProvider).mockReturnValue(createFakeMemory({ setThreadSettings }));
+
+    const res = await putSettings({ topP: 2, stop: "END" });
+
+    expect(res.status).toBe(422);
+    expect(await readJson(res)).toMatchObject({
+      error: { details: { fields: { topP: expect.any(String), stop: expect.any(String) } } }
+    });
+    expect(setThreadSettings).not.toHaveBeenCalled();
+  });
+
+  it("returns 501 when the backend cannot store settings", async () => {
+    vi.mocked(getMemoryProvider).mockReturnValue(createFakeMemory());
+
+    expect((await putSettings({ temperature: 1 })).status).toBe(501);
+  });
+});
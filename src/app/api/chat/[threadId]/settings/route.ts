@@ -0,0 +1,29 @@
+import { NextResponse } from "next/server";
+import { parseGenerationSettings } from "@/lib/llm/thread-settings";
+import { jsonError } from "@/lib/server/http";
+import { withChatRoute } from "@/lib/server/chat-route";
+
+export const runtime = "nodejs";
+
+type SettingsPayload = {
+  settings?: unknown;
+};
+
+// `settings: null` (or an empty object) clears them, so replies use the provider defaults.
+export const PUT = withChatRoute<{ threadId: string }>(
+  { failure: "Could not save thread settings right now." },
+  async ({ req, params: { threadId }, memory }) => {
+    if (threadId.startsWith("draft-")) return jsonError("threadId is invalid.", 400);
+    const payload = (await req.json().catch(() => ({}))) as SettingsPayload;
+    const parsed = parseGenerationSettings(payload.settings);
+    if (!parsed.ok) {
+      return jsonError("Generation settings are invalid.", 422, { fields: parsed.fields });
+    }
+
+    if (!memory.setThreadSettings) {
+      return jsonError("Selected memory backend does not support thread settings.", 501);
+    }
+    await memory.setThreadSettings(threadId, parsed.settings);
+    return NextResponse.json({ threadId, settings: parsed.settings, ok: true });
+  }
+);
@@ -0,0 +1,63 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { GET } from "@/app/api/chat/[threadId]/summary/route";
+import { MemoryApiError } from "@/lib/memory/cortex-http-provider";
+import { getMemoryProvider } from "@/lib/server/providers";
+import { createFakeMemory, createRequest, readJson, routeContext } from "@/test/route-helpers";
+
+vi.mock("@/lib/server/providers", () => ({
+  getMemoryProvider: vi.fn(),
+  getLlmProvider: vi.fn()
+}));
+
+describe("GET /api/chat/[threadId]/summary", () => {
+  beforeEach(() => {
+    vi.stubEnv("AUTH_MODE", "dev");
+  });
+
+  it("returns the active summary", async () => {
+    vi.mocked(getMemoryProvider).mockReturnValue(
+      createFakeMemory({ getActiveSummary: vi.fn(async () => "- recap") })
+    );
+
+    const res = await GET(createRequest("/api/chat/t1/summary"), routeContext({ threadId: "t1" }));
+
+    expect(await readJson(res)).toEqual({ threadId: "t1", summary: "- recap" });
+  });
+
+  it("returns null when the backend has no summaries", async () => {
+    vi.mocked(getMemoryProvider).mockReturnValue(createFakeMemory());
+
+    const res = await GET(createRequest("/api/chat/t1/summary"), routeContext({ threadId: "t1" }));
+
+    expect(await readJson(res)).toEqual({ threadId: "t1", summary: null });
+  });
+
+  it("degrades on failures", async () => {
+    vi.mocked(getMemoryProvider).mockReturnValue(
+      createFakeMemory({ getActiveSummary: vi.fn(async () => Promise.reject(new Error("nope"))) })
+    );
+
+    const res = await GET(createRequest("/api/chat/t1/summary"), routeContext({ threadId: "t1" }));
+
+    expect(await readJson(res)).toEqual({
+      threadId: "t1",
+      summary: null,
+      degraded: true,
+      warning: "nope"
+    });
+  });
+
+  it("passes MemoryApiError status through instead of degrading", async () => {
+    vi.mocked(getMemoryProvider).mockReturnValue(
+      createFakeMemory({
+        getActiveSummary: vi.fn(async () =>
+          Promise.reject(new MemoryApiError("Thread not found.", 404))
+        )
+      })
+    );
+
+    const res = await GET(createRequest("/api/chat/t1/summary"), routeContext({ threadId: "t1" }));
+
+    expect(res.status).toBe(404);
+  });
+});
@@ -0,0 +1,83 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { POST } from "@/app/api/chat/import/route";
+import { getMemoryProvider } from "@/lib/server/providers";
+import { createFakeMemory, createRequest, readJson, routeContext } from "@/test/route-helpers";
+
+vi.mock("@/lib/server/providers", () => ({
+  getMemoryProvider: vi.fn(),
+  getLlmProvider: vi.fn()
+}));
+
+const USER_ID = "11111111-1111-4111-8111-111111111111";
+
+describe("POST /api/chat/import", () => {
+  beforeEach(() => {
+    vi.stubEnv("AUTH_MODE", "dev");
+  });
+
+  it("rejects malformed JSON", async () => {
+    const res = await POST(
+      createRequest("/api/chat/import", { method: "POST", body: "{not json" }),
+      routeContext({})
+    );
+
+    expect(res.status).toBe(400);
+  });
+
+  it("rejects unrecognized layouts", async () => {
+    const res = await POST(
+      createRequest("/api/chat/import", { method: "POST", body: [{ foo: "bar" }] }),
+      routeContext({})
+    );
+
+    expect(res.status).toBe(422);
+  });
+
+  it("imports CortexUI exports into threads owned by the resolved user", async () => {
+    const startThread = vi.fn(async () => "imported-1");
+    const addUserEvent = vi.fn(async () => "e1");
+    const addAssistantEvent = vi.fn(async () => "e2");
+    vi.mocked(getMemoryProvider).mockReturnValue(
+      createFakeMemory({ startThread, addUserEvent, addAssistantEvent })
+    );
+
+    const res = await POST(
+      createRequest("/api/chat/import", {
+        method: "POST",
+        headers: { "x-user-id": USER_ID },
+        body: {
+          format: "cortex-ui.thread-export",
+          version: 1,
+          thread: { id: "old-1", title: "Ops" },
+          messages: [
+            { role: "user", content: "ping", createdAt: "2025-05-01T10:00:00.000Z" },
+            { role: "assistant", content: "pong", createdAt: "2025-05-01T10:00:01.000Z" }
+          ]
+        }
+      }),
+      routeContext({})
+    );
+
+    expect(res.status).toBe(200);
+    expect(startThread).toHaveBeenCalledWith(USER_ID, "Ops");
+    expect(addAssistantEvent).toHaveBeenCalledWith("imported-1", "pong", {
+      source: "import",
+      importedFrom: "cortex-ui",
+      originalCreatedAt: "2025-05-01T10:00:01.000Z"
+    });
+    expect(await readJson(res)).toEqual({
+      source: "cortex-ui",
+      imported: 1,
+      failed: 0,
+      results: [
+        {
+          sourceId: "old-1",
+          title: "Ops",
+          status: "imported",
+          threadId: "imported-1",
+          messageCount: 2
+        }
+      ]
+    });
+  });
+});
@@ -0,0 +1,48 @@
+import { NextResponse } from "next/server";
+import { jsonError } from "@/lib/server/http";
+import { withChatRoute } from "@/lib/server/chat-route";
+import { IMPORT_LIMITS, importThreads, parseImportPayload } from "@/lib/memory/thread-import";
+
+export const runtime = "nodejs";
+
+const { maxBytes: MAX_IMPORT_BYTES, maxThreads: MAX_IMPORT_THREADS } = IMPORT_LIMITS;
+
+// Body is the uploaded file's JSON as-is: a CortexUI thread export (single or array)
+// or a ChatGPT `conversations.json`. `useChat` sends large files in batches via
+// `splitImportBatches()`, so these caps only bound a single request.
+export const POST = withChatRoute(
+  { failure: "Import is unavailable right now." },
+  async ({ req, userId, memory }) => {
+    const declaredLength = Number.parseInt(req.headers.get("content-length") ?? "", 10);
+    if (Number.isFinite(declaredLength) && declaredLength > MAX_IMPORT_BYTES) {
+      return jsonError("Import file is too large.", 413, { maxBytes: MAX_IMPORT_BYTES });
+    }
+    const raw = await req.text();
+    if (raw.length > MAX_IMPORT_BYTES) {
+      return jsonError("Import file is too large.", 413, { maxBytes: MAX_IMPORT_BYTES });
+    }
+
+    let payload: unknown;
+    try {
+      payload = JSON.parse(raw);
+    } catch {
+      return jsonError("Import file is not valid JSON.", 400);
+    }
+
+    const parsed = parseImportPayload(payload);
+    if (!parsed) {
+      return jsonError(
+        "Unrecognized import format. Upload a CortexUI export or ChatGPT conversations.json.",
+        422
+      );
+    }
+    if (parsed.threads.length > MAX_IMPORT_THREADS) {
+      return jsonError("Import contains too many conversations.", 422, {
+        maxThreads: MAX_IMPORT_THREADS
+      });
+    }
+
+    const report = await importThreads(memory, userId, parsed.source, parsed.threads);
+    return NextResponse.json(report);
+  }
+);
@@ -0,0 +1,16 @@
+import { NextResponse } from "next/server";
+import { jsonError } from "@/lib/server/http";
+import { withChatRoute } from "@/lib/server/chat-route";
+
+export const runtime = "nodejs";
+
+export const DELETE = withChatRoute<{ keyId: string }>(
+  { failure: "Could not revoke the API key right now.", allowApiKeys: false },
+  async ({ params: { keyId }, userId, memory }) => {
+    if (!memory.revokeApiKey) {
+      return jsonError("Selected memory backend does not support API keys.", 501);
+    }
+    await memory.revokeApiKey(userId, keyId);
+    return NextResponse.json({ keyId, ok: true });
+  }
+);
@@ -0,0 +1,97 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { GET, POST } from "@/app/api/chat/keys/route";
+import type { ApiKeyRecord, CreateApiKeyParams } from "@/lib/memory/types";
+import { hashApiKey } from "@/lib/server/api-keys";
+import { getMemoryProvider } from "@/lib/server/providers";
+import { createFakeMemory, createRequest, readJson, routeContext } from "@/test/route-helpers";
+
+vi.mock("@/lib/server/providers", () => ({
+  getMemoryProvider: vi.fn(),
+  getLlmProvider: vi.fn()
+}));
+
+const USER_ID = "11111111-1111-4111-8111-111111111111";
+
+function toRecord(params: CreateApiKeyParams): ApiKeyRecord {
+  return {
+    id: "k1",
+    userId: params.userId,
+    name: params.name,
+    prefix: params.prefix,
+    scopes: params.scopes,
+    createdAt: "2026-01-01T00:00:00.000Z",
+    lastUsedAt: null,
+    revokedAt: null
+  };
+}
+
+describe("/api/chat/keys", () => {
+  beforeEach(() => {
+    vi.stubEnv("AUTH_MODE", "dev");
+  });
+
+  it("returns 501 when the backend cannot store keys", async () => {
+    vi.mocked(getMemoryProvider).mockReturnValue(createFakeMemory());
+
+    const res = await GET(createRequest("/api/chat/keys"), routeContext({}));
+
+    expect(res.status).toBe(501);
+  });
+
+  it("validates the name and scope", async () => {
+    vi.mocked(getMemoryProvider).mockReturnValue(createFakeMemory());
+
+    const unnamed = await POST(
+      createRequest("/api/chat/keys", { method: "POST", body: { name: " ", scope: "read" } }),
+      routeContext({})
+    );
+    const badScope = await POST(
+      createRequest("/api/chat/keys", { method: "POST", body: { name: "CI", scope: "admin" } }),
+      routeContext({})
+    );
+
+    expect(unnamed.status).toBe(400);
+    expect(badScope.status).toBe(422);
+  });
+
+  it("returns the plaintext key once and stores only its hash", async () => {
+    const createApiKey = vi.fn(async (params: CreateApiKeyParams) => toRecord(params));
+    vi.mocked(getMemoryProvider).mockReturnValue(
+      createFakeMemory({ createApiKey, listApiKeys: vi.fn(async () => []) })
+    );
+
+    const res = await POST(
+      createRequest("/api/chat/keys", {
+        method: "POST",
+        body: { name: " Nightly export ", scope: "write" },
+        headers: { "x-user-id": USER_ID }
+      }),
+      routeContext({})
+    );
+
+    expect(res.status).toBe(201);
+    const body = (await readJson(res)) as { key: string; apiKey: ApiKeyRecord };
+    expect(body.key).toMatch(/^cxk_[\w-]{32}$/);
+    expect(createApiKey).toHaveBeenCalledWith({
+      userId: USER_ID,
+      name: "Nightly export",
+      prefix: body.key.slice(0, 10),
+      keyHash: hashApiKey(body.key),
+      scopes: ["read", "write"]
+    });
+    expect(body.apiKey).toMatchObject({ name: "Nightly export", scopes: ["read", "write"] });
+  });
+
+  it("cannot be managed with an API key", async () => {
+    const listApiKeys = vi.fn(async () => []);
+    vi.mocked(getMemoryProvider).mockReturnValue(createFakeMemory({ listApiKeys }));
+
+    const res = await GET(
+      createRequest("/api/chat/keys", { headers: { authorization: "Bearer cxk_abc" } }),
+      routeContext({})
+    );
+
+    expect(res.status).toBe(403);
+    expect(listApiKeys).not.toHaveBeenCalled();
+  });
+});
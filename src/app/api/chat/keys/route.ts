@@ -0,0 +1,53 @@
+import { NextResponse } from "next/server";
+import type { ApiKeyScope } from "@/lib/memory/types";
+import { generateApiKey } from "@/lib/server/api-keys";
+import { jsonError } from "@/lib/server/http";
+import { withChatRoute } from "@/lib/server/chat-route";
+
+export const runtime = "nodejs";
+
+const MAX_NAME_LENGTH = 60;
+const MAX_ACTIVE_KEYS = 20;
+
+type CreateKeyPayload = {
+  name?: unknown;
+  scope?: unknown;
+};
+
+export const GET = withChatRoute(
+  { failure: "Could not load API keys right now.", allowApiKeys: false },
+  async ({ userId, memory }) => {
+    if (!memory.listApiKeys) {
+      return jsonError("Selected memory backend does not support API keys.", 501);
+    }
+    const keys = await memory.listApiKeys(userId);
+    return NextResponse.json({ keys });
+  }
+);
+
+// The plaintext key is only part of this response; afterwards only its prefix is shown.
+export const POST = withChatRoute(
+  { failure: "Could not create an API key right now.", allowApiKeys: false },
+  async ({ req, userId, memory }) => {
+    const payload = (await req.json().catch(() => ({}))) as CreateKeyPayload;
+    const name = typeof payload.name === "string" ? payload.name.trim() : "";
+    if (!name) return jsonError("name is required.", 400);
+    if (name.length > MAX_NAME_LENGTH) return jsonError("name exceeds max length.", 422);
+    if (payload.scope !== "read" && payload.scope !== "write") {
+      return jsonError('scope must be "read" or "write".', 422);
+    }
+    const scopes: ApiKeyScope[] = payload.scope === "write" ? ["read", "write"] : ["read"];
+
+    if (!memory.createApiKey || !memory.listApiKeys) {
+      return jsonError("Selected memory backend does not support API keys.", 501);
+    }
+    const existing = await memory.listApiKeys(userId);
+    if (existing.length >= MAX_ACTIVE_KEYS) {
+      return jsonError(`You can have at most ${MAX_ACTIVE_KEYS} active API keys.`, 409);
+    }
+
+    const { key, prefix, keyHash } = generateApiKey();
+    const record = await memory.createApiKey({ userId, name, prefix, keyHash, scopes });
+    return NextResponse.json({ key, apiKey: record }, { status: 201 });
+  }
+);
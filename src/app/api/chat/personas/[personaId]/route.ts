@@ -0,0 +1,39 @@
+import { NextResponse } from "next/server";
+import { parsePersonaInput } from "@/lib/memory/personas";
+import { jsonError } from "@/lib/server/http";
+import { withChatRoute } from "@/lib/server/chat-route";
+import { listAvailableModels } from "@/lib/server/providers";
+
+export const runtime = "nodejs";
+
+// Replaces every field; threads using the persona pick up the change on their next reply.
+export const PUT = withChatRoute<{ personaId: string }>(
+  { failure: "Could not update the persona right now." },
+  async ({ req, params: { personaId }, userId, memory }) => {
+    const parsed = parsePersonaInput(await req.json().catch(() => null));
+    if (!parsed.ok) return jsonError("Persona is invalid.", 422, { fields: parsed.fields });
+    if (parsed.input.model) {
+      const available = (await listAvailableModels()).map((option) => option.id);
+      if (!available.includes(parsed.input.model)) {
+        return jsonError("Unknown model.", 422, { available });
+      }
+    }
+
+    if (!memory.updatePersona) {
+      return jsonError("Selected memory backend does not support personas.", 501);
+    }
+    const persona = await memory.updatePersona(userId, personaId, parsed.input);
+    return NextResponse.json({ persona });
+  }
+);
+
+export const DELETE = withChatRoute<{ personaId: string }>(
+  { failure: "Could not delete the persona right now." },
+  async ({ params: { personaId }, userId, memory }) => {
+    if (!memory.deletePersona) {
+      return jsonError("Selected memory backend does not support personas.", 501);
+    }
+    await memory.deletePersona(userId, personaId);
+    return NextResponse.json({ personaId, ok: true });
+  }
+);
@@ -0,0 +1,95 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { GET, POST } from "@/app/api/chat/personas/route";
+import type { PersonaInput, PersonaRecord } from "@/lib/memory/types";
+import { getMemoryProvider, listAvailableModels } from "@/lib/server/providers";
+import { createFakeMemory, createRequest, readJson, routeContext } from "@/test/route-helpers";
+
+vi.mock("@/lib/server/providers", () => ({
+  getMemoryProvider: vi.fn(),
+  getLlmProvider: vi.fn(),
+  listAvailableModels: vi.fn()
+}));
+
+function toRecord(userId: string, input: PersonaInput): PersonaRecord {
+  return {
+    id: "p1",
+    userId,
+    ...input,
+    createdAt: "2026-01-01T00:00:00.000Z",
+    updatedAt: "2026-01-01T00:00:00.000Z"
+  };
+}
+
+function postPersona(body: unknown) {
+  return POST(createRequest("/api/chat/personas", { method: "POST", body }), routeContext({}));
+}
+
+describe("/api/chat/personas", () => {
+  beforeEach(() => {
+    vi.stubEnv("AUTH_MODE", "dev");
+    vi.mocked(listAvailableModels).mockResolvedValue([
+      { id: "openai/gpt-4o-mini", provider: "openai", name: "gpt-4o-mini" }
+    ]);
+  });
+
+  it("returns 501 when the backend cannot store personas", async () => {
+    vi.mocked(getMemoryProvider).mockReturnValue(createFakeMemory());
+
+    const res = await GET(createRequest("/api/chat/personas"), routeContext({}));
+
+    expect(res.status).toBe(501);
+  });
+
+  it("creates a persona with trimmed fields", async () => {
+    const createPersona = vi.fn(async (userId: string, input: PersonaInput) =>
+      toRecord(userId, input)
+    );
+    vi.mocked(getMemoryProvider).mockReturnValue(
+      createFakeMemory({ createPersona, listPersonas: vi.fn(async () => []) })
+    );
+
+    const res = await postPersona({
+      name: " Editor ",
+      systemPrompt: "Tighten prose. ",
+      model: "openai/gpt-4o-mini",
+      avatar: "✏️"
+    });
+
+    expect(res.status).toBe(201);
+    expect(createPersona.mock.calls[0][1]).toEqual({
+      name: "Editor",
+      systemPrompt: "Tighten prose.",
+      model: "openai/gpt-4o-mini",
+      avatar: "✏️"
+    });
+    expect(await readJson(res)).toMatchObject({ persona: { id: "p1", name: "Editor" } });
+  });
+
+  it("reports invalid fields and unknown models with 422", async () => {
+    const createPersona = vi.fn();
+    vi.mocked(getMemoryProvider).mockReturnValue(
+      createFakeMemory({ createPersona, listPersonas: vi.fn(async () => []) })
+    );
+
+    const invalid = await postPersona({ name: "", systemPrompt: "Hi", avatar: "not-a-label" });
+    const unknownModel = await postPersona({
+      name: "Editor",
+      systemPrompt: "Hi",
+      model: "openai/gpt-5"
+    });
+
+    const imageAvatar = await postPersona({
+      name: "Editor",
+      systemPrompt: "Hi",
+      avatar: "https://example.com/a.png"
+    });
+
+    expect(invalid.status).toBe(422);
+    expect(await readJson(invalid)).toMatchObject({
+      error: { details: { fields: { name: expect.any(String), avatar: expect.any(String) } } }
+    });
+    expect(unknownModel.status).toBe(422);
+    expect(imageAvatar.status).toBe(422);
+    expect(createPersona).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,45 @@
+import { NextResponse } from "next/server";
+import { parsePersonaInput, PERSONA_LIMITS } from "@/lib/memory/personas";
+import { jsonError } from "@/lib/server/http";
+import { withChatRoute } from "@/lib/server/chat-route";
+import { listAvailableModels } from "@/lib/server/providers";
+
+export const runtime = "nodejs";
+
+export const GET = withChatRoute(
+  { failure: "Could not load personas right now." },
+  async ({ userId, memory }) => {
+    if (!memory.listPersonas) {
+      return jsonError("Selected memory backend does not support personas.", 501);
+    }
+    const personas = await memory.listPersonas(userId);
+    return NextResponse.json({ personas });
+  }
+);
+
+// `model` is an optional registry id from `GET /api/models`, used by threads that have not
+// picked one of their own.
+export const POST = withChatRoute(
+  { failure: "Could not create the persona right now." },
+  async ({ req, userId, memory }) => {
+    const parsed = parsePersonaInput(await req.json().catch(() => null));
+    if (!parsed.ok) return jsonError("Persona is invalid.", 422, { fields: parsed.fields });
+    if (parsed.input.model) {
+      const available = (await listAvailableModels()).map((option) => option.id);
+      if (!available.includes(parsed.input.model)) {
+        return jsonError("Unknown model.", 422, { available });
+      }
+    }
+
+    if (!memory.createPersona || !memory.listPersonas) {
+      return jsonError("Selected memory backend does not support personas.", 501);
+    }
+    const existing = await memory.listPersonas(userId);
+    if (existing.length >= PERSONA_LIMITS.perUser) {
+      return jsonError(`You can have at most ${PERSONA_LIMITS.perUser} personas.`, 409);
+    }
+
+    const persona = await memory.createPersona(userId, parsed.input);
+    return NextResponse.json({ persona }, { status: 201 });
+  }
+);
@@ -0,0 +1,58 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { GET } from "@/app/api/chat/search/route";
+import { getMemoryProvider } from "@/lib/server/providers";
+import { createFakeMemory, createRequest, readJson, routeContext } from "@/test/route-helpers";
+
+vi.mock("@/lib/server/providers", () => ({
+  getMemoryProvider: vi.fn(),
+  getLlmProvider: vi.fn()
+}));
+
+const USER_ID = "11111111-1111-4111-8111-111111111111";
+
+describe("GET /api/chat/search", () => {
+  beforeEach(() => {
+    vi.stubEnv("AUTH_MODE", "dev");
+  });
+
+  it("requires a query", async () => {
+    const res = await GET(createRequest("/api/chat/search?q=%20%20"), routeContext({}));
+
+    expect(res.status).toBe(400);
+  });
+
+  it("returns 501 when the backend cannot search", async () => {
+    vi.mocked(getMemoryProvider).mockReturnValue(createFakeMemory());
+
+    const res = await GET(createRequest("/api/chat/search?q=deploy"), routeContext({}));
+
+    expect(res.status).toBe(501);
+  });
+
+  it("searches the resolved user's events with a clamped limit", async () => {
+    const hit = {
+      threadId: "t1",
+      threadTitle: "Ops",
+      event: {
+        id: "e1",
+        threadId: "t1",
+        role: "user" as const,
+        content: "deploy the worker",
+        createdAt: "2026-01-01T00:00:00.000Z"
+      },
+      snippet: "deploy the worker"
+    };
+    const searchEvents = vi.fn(async () => [hit]);
+    vi.mocked(getMemoryProvider).mockReturnValue(createFakeMemory({ searchEvents }));
+
+    const res = await GET(
+      createRequest("/api/chat/search?q=%20deploy%20%20worker&limit=500", {
+        headers: { "x-user-id": USER_ID }
+      }),
+      routeContext({})
+    );
+
+    expect(searchEvents).toHaveBeenCalledWith(USER_ID, "deploy worker", 50);
+    expect(await readJson(res)).toEqual({ query: "deploy worker", results: [hit] });
+  });
+});
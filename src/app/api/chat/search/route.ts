@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server";
+import { jsonError } from "@/lib/server/http";
+import { withChatRoute } from "@/lib/server/chat-route";
+
+export const runtime = "nodejs";
+
+const MAX_QUERY_LENGTH = 200;
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 50;
+
+export const GET = withChatRoute(
+  { failure: "Search is unavailable right now." },
+  async ({ req, userId, memory }) => {
+    const search = req.nextUrl.searchParams;
+    const query = (search.get("q") ?? "").replace(/\s+/g, " ").trim();
+    if (!query) return jsonError("Search query is required.", 400);
+    if (query.length > MAX_QUERY_LENGTH) {
+      return jsonError("Search query exceeds max length.", 422, {
+        maxLength: MAX_QUERY_LENGTH
+      });
+    }
+    const requestedLimit = Number.parseInt(search.get("limit") ?? "", 10);
+    const limit = Number.isFinite(requestedLimit)
+      ? Math.min(Math.max(requestedLimit, 1), MAX_LIMIT)
+      : DEFAULT_LIMIT;
+
+    if (!memory.searchEvents) {
+      return jsonError("Selected memory backend does not support search.", 501);
+    }
+    const results = await memory.searchEvents(userId, query, limit);
+    return NextResponse.json({ query, results });
+  }
+);
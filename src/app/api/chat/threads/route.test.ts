@@ -0,0 +1,107 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { GET, POST } from "@/app/api/chat/threads/route";
+import { getMemoryProvider } from "@/lib/server/providers";
+import { createFakeMemory, createRequest, readJson, routeContext } from "@/test/route-helpers";
+
+vi.mock("@/lib/server/providers", () => ({
+  getMemoryProvider: vi.fn(),
+  getLlmProvider: vi.fn()
+}));
+
+const USER_ID = "7b0c9a52-2c4e-4c1e-9f0a-3f1c2b9d6e11";
+
+describe("/api/chat/threads", () => {
+  beforeEach(() => {
+    vi.stubEnv("AUTH_MODE", "dev");
+  });
+
+  it("lists threads for the resolved user and sets the user cookie", async () => {
+    const listThreads = vi.fn(async () => [
+      { id: "t1", userId: USER_ID, title: "Hello", createdAt: "2026-01-01T00:00:00.000Z" }
+    ]);
+    vi.mocked(getMemoryProvider).mockReturnValue(createFakeMemory({ listThreads }));
+
+    const res = await GET(
+      createRequest("/api/chat/threads", { headers: { "x-user-id": USER_ID } }),
+      routeContext({})
+    );
+
+    expect(res.status).toBe(200);
+    expect(listThreads).toHaveBeenCalledWith(USER_ID, 50);
+    expect(await readJson(res)).toMatchObject({ userId: USER_ID, threads: [{ id: "t1" }] });
+    expect(res.cookies.get("cortex_user_id")?.value).toBe(USER_ID);
+  });
+
+  it("reports which message actions the backend supports", async () => {
+    vi.mocked(getMemoryProvider).mockReturnValue(
+      createFakeMemory({ listThreads: vi.fn(async () => []), forkThread: vi.fn() })
+    );
+
+    const res = await GET(createRequest("/api/chat/threads"), routeContext({}));
+
+    expect(await readJson(res)).toMatchObject({
+      capabilities: { regenerate: false, versions: false, edit: false, branch: true }
+    });
+  });
+
+  it("returns a degraded payload when the backend fails", async () => {
+    vi.mocked(getMemoryProvider).mockReturnValue(
+      createFakeMemory({ listThreads: vi.fn(async () => Promise.reject(new Error("down"))) })
+    );
+
+    const res = await GET(createRequest("/api/chat/threads"), routeContext({}));
+
+    expect(res.status).toBe(200);
+    expect(await readJson(res)).toMatchObject({ threads: [], degraded: true, warning: "down" });
+  });
+
+  it("maps auth failures to 401 in supabase mode", async () => {
+    vi.stubEnv("AUTH_MODE", "supabase");
+    vi.mocked(getMemoryProvider).mockReturnValue(
+      createFakeMemory({
+        listThreads: vi.fn(async () => Promise.reject(new Error("Invalid or expired access token")))
+      })
+    );
+
+    const res = await GET(createRequest("/api/chat/threads"), routeContext({}));
+
+    expect(res.status).toBe(401);
+    expect(await readJson(res)).toEqual({
+      error: { message: "Your session expired. Please sign in again." }
+    });
+  });
+
+  it("creates a thread with an optional title", async () => {
+    const startThread = vi.fn(async () => "thread-9");
+    vi.mocked(getMemoryProvider).mockReturnValue(createFakeMemory({ startThread }));
+
+    const res = await POST(
+      createRequest("/api/chat/threads", {
+        method: "POST",
+        body: { title: "Plans" },
+        headers: { "x-user-id": USER_ID }
+      }),
+      routeContext({})
+    );
+
+    expect(res.status).toBe(201);
+    expect(startThread).toHaveBeenCalledWith(USER_ID, "Plans");
+    expect(await readJson(res)).toEqual({ userId: USER_ID, threadId: "thread-9" });
+  });
+
+  it("returns 503 with the cause when thread creation fails", async () => {
+    vi.mocked(getMemoryProvider).mockReturnValue(
+      createFakeMemory({ startThread: vi.fn(async () => Promise.reject(new Error("boom"))) })
+    );
+
+    const res = await POST(
+      createRequest("/api/chat/threads", { method: "POST", body: {} }),
+      routeContext({})
+    );
+
+    expect(res.status).toBe(503);
+    expect(await readJson(res)).toEqual({
+      error: { message: "Could not create a thread at the moment.", details: { cause: "boom" } }
+    });
+  });
+});
@@ -0,0 +1,48 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { GET } from "@/app/api/models/route";
+import { getLlmProvider, getMemoryProvider, listAvailableModels } from "@/lib/server/providers";
+import { createFakeMemory, createRequest, readJson, routeContext } from "@/test/route-helpers";
+
+vi.mock("@/lib/server/providers", () => ({
+  getMemoryProvider: vi.fn(),
+  getLlmProvider: vi.fn(),
+  listAvailableModels: vi.fn()
+}));
+
+const MODELS = [
+  { id: "openai/gpt-4o-mini", provider: "openai", name: "gpt-4o-mini" },
+  { id: "local/llama3.2", provider: "local", name: "llama3.2" }
+] as const;
+
+describe("GET /api/models", () => {
+  beforeEach(() => {
+    vi.stubEnv("AUTH_MODE", "dev");
+    vi.mocked(listAvailableModels).mockResolvedValue([...MODELS]);
+    vi.mocked(getLlmProvider).mockReturnValue({
+      model: "openai/gpt-4o-mini",
+      async *streamChat() {}
+    });
+  });
+
+  it("lists models with the default and whether threads can store a choice", async () => {
+    vi.mocked(getMemoryProvider).mockReturnValue(
+      createFakeMemory({ setThreadModel: vi.fn(async () => undefined) })
+    );
+
+    const res = await GET(createRequest("/api/models"), routeContext({}));
+
+    expect(await readJson(res)).toEqual({
+      models: MODELS,
+      defaultModel: "openai/gpt-4o-mini",
+      selectable: true
+    });
+  });
+
+  it("reports backends without per-thread models as not selectable", async () => {
+    vi.mocked(getMemoryProvider).mockReturnValue(createFakeMemory());
+
+    const res = await GET(createRequest("/api/models"), routeContext({}));
+
+    expect(await readJson(res)).toMatchObject({ selectable: false });
+  });
+});
@@ -0,0 +1,19 @@
+import { NextResponse } from "next/server";
+import { withChatRoute } from "@/lib/server/chat-route";
+import { listAvailableModels } from "@/lib/server/providers";
+
+export const runtime = "nodejs";
+
+// `selectable` is false when the memory backend cannot store a per-thread model (CortexLTM
+// runs its own model), so the picker stays hidden.
+export const GET = withChatRoute(
+  { failure: "Could not load models right now." },
+  async ({ memory, llm }) => {
+    const models = await listAvailableModels();
+    return NextResponse.json({
+      models,
+      defaultModel: llm().model ?? null,
+      selectable: Boolean(memory.setThreadModel)
+    });
+  }
+);
@@ -49,7 +49,8 @@ export default function AuthCallbackPage() {
         setError("We could not finalize your sign-in session.");
         return;
       }
-      router.replace("/");
+      // Password recovery links sign the user in, then ask for the new password.
+      router.replace(hash.get("type") === "recovery" ? "/auth/reset-password" : "/");
     };
     void run();
   }, [router]);
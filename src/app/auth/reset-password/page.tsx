@@ -0,0 +1,82 @@
+"use client";
+
+import { FormEvent, useState } from "react";
+import { useRouter } from "next/navigation";
+
+export default function ResetPasswordPage() {
+  const router = useRouter();
+  const [password, setPassword] = useState("");
+  const [confirmation, setConfirmation] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const canSubmit = password.length >= 8 && password === confirmation && !isSaving;
+
+  async function handleSubmit(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    if (!canSubmit) return;
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/auth/update-password", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ password })
+      });
+      if (!res.ok) {
+        const payload = (await res.json().catch(() => null)) as
+          | { error?: { message?: string } }
+          | null;
+        setError(payload?.error?.message ?? "Could not update your password.");
+        return;
+      }
+      router.replace("/");
+    } catch {
+      setError("Unable to reach the account service. Please try again.");
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  return (
+    <main className="flex h-[100dvh] items-center justify-center px-4">
+      <form
+        onSubmit={handleSubmit}
+        className="w-full max-w-md rounded-xl border border-slate-700/60 bg-slate-900/70 p-5"
+      >
+        <h1 className="text-lg font-semibold text-slate-100">Choose a new password</h1>
+        <p className="mt-2 text-sm text-slate-400">
+          Use at least 8 characters. You will stay signed in afterwards.
+        </p>
+        <input
+          value={password}
+          onChange={(event) => setPassword(event.target.value)}
+          type="password"
+          autoComplete="new-password"
+          placeholder="New password"
+          className="ui-input mt-4 w-full rounded-xl px-3 py-2.5 text-sm outline-none transition"
+        />
+        <input
+          value={confirmation}
+          onChange={(event) => setConfirmation(event.target.value)}
+          type="password"
+          autoComplete="new-password"
+          placeholder="Confirm new password"
+          className="ui-input mt-2 w-full rounded-xl px-3 py-2.5 text-sm outline-none transition"
+        />
+        {confirmation && password !== confirmation ? (
+          <p className="mt-2 text-xs text-rose-200">Passwords do not match.</p>
+        ) : null}
+        {error ? <p className="mt-2 text-sm text-rose-100">{error}</p> : null}
+        <button
+          type="submit"
+          disabled={!canSubmit}
+          className="ui-button-primary mt-4 w-full rounded-xl px-4 py-2.5 text-sm font-medium transition disabled:cursor-not-allowed disabled:opacity-50"
+        >
+          {isSaving ? "Saving..." : "Update password"}
+        </button>
+      </form>
+    </main>
+  );
+}
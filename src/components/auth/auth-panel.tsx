@@ -14,7 +14,14 @@ type Props = {
   onAuthenticated: () => void;
 };
 
-type PendingAction = "none" | "signIn" | "signUp" | "google" | "github";
+type PendingAction =
+  | "none"
+  | "signIn"
+  | "signUp"
+  | "magicLink"
+  | "passwordReset"
+  | "google"
+  | "github";
 
 const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
 
@@ -62,6 +69,7 @@ export function AuthPanel({ onAuthenticated }: Props) {
     () => EMAIL_PATTERN.test(email.trim()) && password.length >= 8 && !isBusy,
     [email, isBusy, password.length]
   );
+  const canSendEmailLink = EMAIL_PATTERN.test(email.trim()) && !isBusy;
 
   useEffect(() => {
     const stored =
@@ -176,6 +184,38 @@ export function AuthPanel({ onAuthenticated }: Props) {
     }
   }
 
+  // Magic links and password resets share one flow: Supabase emails a link that finishes
+  // on /auth/callback, so the response is only ever a confirmation message.
+  async function handleEmailLink(kind: "magicLink" | "passwordReset") {
+    if (!canSendEmailLink) return;
+    setPendingAction(kind);
+    setError(null);
+    setHint(null);
+    try {
+      const res = await fetch(
+        kind === "magicLink" ? "/api/auth/magic-link" : "/api/auth/password-reset",
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ email })
+        }
+      );
+      if (!res.ok) {
+        const message = await readError(res);
+        setError(toFriendlyError(message));
+        setHint(toFriendlyHint(message));
+        return;
+      }
+      const payload = (await res.json().catch(() => null)) as { message?: string } | null;
+      setHint(payload?.message ?? "Check your email for the link.");
+    } catch {
+      setError("Unable to reach account service.");
+      setHint("Try again in a moment.");
+    } finally {
+      setPendingAction("none");
+    }
+  }
+
   async function handleOAuth(provider: "google" | "github") {
     setPendingAction(provider);
     setError(null);
@@ -271,6 +311,24 @@ export function AuthPanel({ onAuthenticated }: Props) {
             {pendingAction === "signUp" ? "Creating..." : "Create Account"}
           </button>
         </div>
+        <div className="flex items-center justify-between gap-2 text-xs">
+          <button
+            type="button"
+            disabled={!canSendEmailLink}
+            onClick={() => handleEmailLink("magicLink")}
+            className="ui-text-subtle transition hover:underline disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            {pendingAction === "magicLink" ? "Sending link..." : "Email me a sign-in link"}
+          </button>
+          <button
+            type="button"
+            disabled={!canSendEmailLink}
+            onClick={() => handleEmailLink("passwordReset")}
+            className="ui-text-subtle transition hover:underline disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            {pendingAction === "passwordReset" ? "Sending reset..." : "Forgot password?"}
+          </button>
+        </div>
       </form>
 
       <div className="my-5 flex items-center gap-3">
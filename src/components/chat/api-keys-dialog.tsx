@@ -0,0 +1,215 @@
+"use client";
+
+import { FormEvent, useCallback, useEffect, useState } from "react";
+import { createPortal } from "react-dom";
+import type { ApiKeyRecord, ApiKeyScope } from "@/lib/memory/types";
+
+type ApiKeysDialogProps = {
+  onClose: () => void;
+};
+
+async function readError(res: Response, fallback: string): Promise<string> {
+  const payload = (await res.json().catch(() => null)) as
+    | { error?: { message?: string } }
+    | null;
+  return payload?.error?.message ?? fallback;
+}
+
+function formatDate(value: string | null): string {
+  return value ? new Date(value).toLocaleDateString() : "Never";
+}
+
+export function ApiKeysDialog({ onClose }: ApiKeysDialogProps) {
+  const [keys, setKeys] = useState<ApiKeyRecord[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [name, setName] = useState("");
+  const [scope, setScope] = useState<ApiKeyScope>("read");
+  const [isCreating, setIsCreating] = useState(false);
+  const [createdKey, setCreatedKey] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [revokingKeyId, setRevokingKeyId] = useState<string | null>(null);
+  const [isMounted, setIsMounted] = useState(false);
+
+  useEffect(() => {
+    setIsMounted(true);
+    return () => setIsMounted(false);
+  }, []);
+
+  const loadKeys = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const res = await fetch("/api/chat/keys", { method: "GET" });
+      if (!res.ok) throw new Error(await readError(res, "Failed to load API keys."));
+      const data = (await res.json()) as { keys?: ApiKeyRecord[] };
+      setKeys(Array.isArray(data.keys) ? data.keys : []);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load API keys.");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadKeys();
+  }, [loadKeys]);
+
+  const createKey = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const trimmed = name.trim();
+    if (!trimmed || isCreating) return;
+    setIsCreating(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/chat/keys", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name: trimmed, scope })
+      });
+      if (!res.ok) throw new Error(await readError(res, "Failed to create API key."));
+      const data = (await res.json()) as { key: string; apiKey: ApiKeyRecord };
+      setKeys((prev) => [data.apiKey, ...prev]);
+      setCreatedKey(data.key);
+      setCopied(false);
+      setName("");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to create API key.");
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const revokeKey = async (keyId: string) => {
+    if (revokingKeyId) return;
+    setRevokingKeyId(keyId);
+    setError(null);
+    try {
+      const res = await fetch(`/api/chat/keys/${encodeURIComponent(keyId)}`, {
+        method: "DELETE"
+      });
+      if (!res.ok) throw new Error(await readError(res, "Failed to revoke API key."));
+      setKeys((prev) => prev.filter((key) => key.id !== keyId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to revoke API key.");
+    } finally {
+      setRevokingKeyId(null);
+    }
+  };
+
+  const copyCreatedKey = async () => {
+    if (!createdKey) return;
+    try {
+      await navigator.clipboard.writeText(createdKey);
+      setCopied(true);
+    } catch {
+      setCopied(false);
+    }
+  };
+
+  if (!isMounted) return null;
+
+  return createPortal(
+    <div className="ui-overlay fixed inset-0 z-[70] flex items-center justify-center px-4 backdrop-blur-sm">
+      <div className="ui-panel w-full max-w-md rounded-xl p-4 shadow-2xl">
+        <h3 className="ui-text-strong text-base font-semibold">API keys</h3>
+        <p className="ui-text-body mt-2 text-sm">
+          Send a key as <code>Authorization: Bearer &lt;key&gt;</code> to call the chat API from
+          scripts. Read keys can list threads and transcripts; read &amp; write keys can also
+          post messages.
+        </p>
+
+        <form onSubmit={createKey} className="mt-3 flex flex-wrap items-center gap-2">
+          <input
+            value={name}
+            onChange={(event) => setName(event.target.value)}
+            placeholder="Key name"
+            aria-label="Key name"
+            maxLength={60}
+            disabled={isCreating}
+            className="ui-panel ui-panel-strong min-w-0 flex-1 rounded-md px-2.5 py-1.5 text-sm outline-none ring-[rgb(var(--accent)/0.4)] focus:ring-1"
+          />
+          <select
+            value={scope}
+            onChange={(event) => setScope(event.target.value as ApiKeyScope)}
+            aria-label="Key scope"
+            disabled={isCreating}
+            className="ui-panel ui-panel-strong rounded-md px-2 py-1.5 text-sm"
+          >
+            <option value="read">Read</option>
+            <option value="write">Read &amp; write</option>
+          </select>
+          <button
+            type="submit"
+            disabled={isCreating || !name.trim()}
+            className="ui-button inline-flex h-9 items-center justify-center rounded-md px-3 text-sm transition disabled:cursor-not-allowed disabled:opacity-60"
+          >
+            {isCreating ? "Creating..." : "Create"}
+          </button>
+        </form>
+
+        {createdKey ? (
+          <div className="ui-panel ui-panel-strong mt-3 rounded-md p-2.5">
+            <p className="ui-text-body text-xs">
+              Copy this key now. It will not be shown again.
+            </p>
+            <div className="mt-1.5 flex items-center gap-2">
+              <code className="min-w-0 flex-1 truncate text-xs">{createdKey}</code>
+              <button
+                type="button"
+                onClick={() => void copyCreatedKey()}
+                className="ui-button inline-flex h-7 items-center justify-center rounded-md px-2.5 text-xs font-medium transition"
+              >
+                {copied ? "Copied" : "Copy"}
+              </button>
+            </div>
+          </div>
+        ) : null}
+
+        {error ? (
+          <p className="mt-2 text-xs text-[rgb(var(--status-danger)/1)]">{error}</p>
+        ) : null}
+
+        <ul className="chat-scroll mt-3 max-h-60 space-y-1 overflow-y-auto">
+          {isLoading ? <li className="ui-text-muted text-xs">Loading keys...</li> : null}
+          {!isLoading && keys.length === 0 ? (
+            <li className="ui-text-muted text-xs">No API keys yet.</li>
+          ) : null}
+          {keys.map((key) => (
+            <li
+              key={key.id}
+              className="ui-panel ui-panel-strong flex items-center gap-2 rounded-md px-2.5 py-1.5 text-xs"
+            >
+              <span className="min-w-0 flex-1">
+                <span className="ui-text-strong block truncate">{key.name}</span>
+                <span className="ui-text-muted block truncate">
+                  {key.prefix}… · {key.scopes.includes("write") ? "Read & write" : "Read"} · Last
+                  used {formatDate(key.lastUsedAt)}
+                </span>
+              </span>
+              <button
+                type="button"
+                onClick={() => void revokeKey(key.id)}
+                disabled={revokingKeyId !== null}
+                className="ui-button-danger inline-flex h-7 items-center justify-center rounded-md px-2.5 text-xs font-medium transition disabled:cursor-not-allowed disabled:opacity-60"
+              >
+                {revokingKeyId === key.id ? "Revoking..." : "Revoke"}
+              </button>
+            </li>
+          ))}
+        </ul>
+
+        <div className="mt-4 flex items-center justify-end">
+          <button
+            type="button"
+            onClick={onClose}
+            className="ui-button inline-flex h-9 items-center justify-center rounded-md px-3 text-sm transition"
+          >
+            Done
+          </button>
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+}
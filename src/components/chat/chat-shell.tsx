@@ -1,11 +1,17 @@
 "use client";
 
 import { useEffect, useState } from "react";
+import { ApiKeysDialog } from "@/components/chat/api-keys-dialog";
 import { Composer } from "@/components/chat/composer";
 import { MessageList } from "@/components/chat/message-list";
 import { ChatSidebar } from "@/components/chat/chat-sidebar";
+import { ModelPicker } from "@/components/chat/model-picker";
+import { PersonaPicker } from "@/components/chat/persona-picker";
+import { PersonasDialog } from "@/components/chat/personas-dialog";
+import { ThreadSettingsDrawer } from "@/components/chat/thread-settings-drawer";
 import { BrainLoader } from "@/components/ui/brain-loader";
 import { useChat } from "@/hooks/use-chat";
+import { usePersonas } from "@/hooks/use-personas";
 
 export function ChatShell() {
   const {
@@ -22,12 +28,38 @@ export function ChatShell() {
     renameThread,
     deleteThread,
     promoteThread,
+    activeModel,
+    selectModel,
+    activeSettings,
+    saveThreadSettings,
+    activePersonaId,
+    selectPersona,
+    importConversations,
     sendMessage,
-    reactToMessage
+    stopStreaming,
+    reactToMessage,
+    hasOlderMessages,
+    isLoadingOlder,
+    loadOlderMessages,
+    focusRequest,
+    capabilities,
+    quota,
+    cooldownUntil,
+    searchMessages,
+    openSearchResult,
+    editMessage,
+    branchFromMessage,
+    regenerateMessage,
+    selectMessageVersion
   } = useChat();
+  const { personas, isSupported: personasSupported, ...personaActions } = usePersonas();
   const [mobileSidebarOpen, setMobileSidebarOpen] = useState(false);
   const [sidebarCollapsed, setSidebarCollapsed] = useState(false);
   const [isMobileViewport, setIsMobileViewport] = useState(false);
+  const [apiKeysOpen, setApiKeysOpen] = useState(false);
+  const [settingsOpen, setSettingsOpen] = useState(false);
+  const [personasOpen, setPersonasOpen] = useState(false);
+  const activePersona = personas.find((persona) => persona.id === activePersonaId) ?? null;
   const hasMessages = messages.length > 0;
   const showTransitionSkeleton = isThreadTransitioning && !isBootstrapping;
 
@@ -79,14 +111,32 @@ export function ChatShell() {
             setMobileSidebarOpen(false);
             await selectThread(nextThreadId);
           }}
+          onSearch={searchMessages}
+          onOpenSearchResult={async (resultThreadId, messageId) => {
+            setMobileSidebarOpen(false);
+            await openSearchResult(resultThreadId, messageId);
+          }}
           onRenameThread={renameThread}
           onDeleteThread={deleteThread}
           onPromoteThread={promoteThread}
+          onImportConversations={importConversations}
+          onOpenApiKeys={() => {
+            setMobileSidebarOpen(false);
+            setApiKeysOpen(true);
+          }}
+          onOpenPersonas={
+            personasSupported
+              ? () => {
+                  setMobileSidebarOpen(false);
+                  setPersonasOpen(true);
+                }
+              : undefined
+          }
         />
       </aside>
 
       <div className="flex min-w-0 flex-1 flex-col overflow-hidden">
-        <div className="ui-topbar flex items-center gap-2 px-3 py-2 md:hidden">
+        <div className="ui-topbar flex items-center gap-2 px-3 py-2">
           <button
             type="button"
             onClick={() => setMobileSidebarOpen(true)}
@@ -98,6 +148,29 @@ export function ChatShell() {
           <span className="ui-text-muted truncate text-sm">
             {threads.find((thread) => thread.id === threadId)?.title?.trim() || "New chat"}
           </span>
+          <div className="ml-auto flex shrink-0 items-center gap-2">
+            <PersonaPicker
+              personas={personas}
+              value={activePersona?.id ?? null}
+              onChange={(personaId) => void selectPersona(personaId)}
+              isDisabled={isBootstrapping || isStreaming}
+            />
+            <ModelPicker
+              value={activeModel}
+              onChange={(model) => void selectModel(model)}
+              isDisabled={isBootstrapping || isStreaming}
+              personaModel={activePersona?.model ?? null}
+            />
+            <button
+              type="button"
+              onClick={() => setSettingsOpen(true)}
+              disabled={isBootstrapping}
+              className="ui-button inline-flex h-9 items-center justify-center rounded-md px-2.5 text-sm disabled:cursor-not-allowed disabled:opacity-60"
+              aria-label="Thread settings"
+            >
+              {activeSettings ? "Settings •" : "Settings"}
+            </button>
+          </div>
         </div>
 
         {isBootstrapping ? (
@@ -134,8 +207,11 @@ export function ChatShell() {
               </div>
               <Composer
                 onSend={sendMessage}
+                onStop={stopStreaming}
                 isDisabled={isBootstrapping || isThreadTransitioning}
                 isStreaming={isStreaming}
+                quota={quota}
+                cooldownUntil={cooldownUntil}
                 inline
               />
               {isThreadTransitioning ? (
@@ -151,8 +227,16 @@ export function ChatShell() {
               <MessageList
                 messages={messages}
                 isStreaming={isStreaming}
+                hasOlderMessages={hasOlderMessages}
+                isLoadingOlder={isLoadingOlder}
+                onLoadOlder={loadOlderMessages}
+                focusRequest={focusRequest}
                 onQuickReply={sendMessage}
                 onReactToMessage={reactToMessage}
+                onRegenerateMessage={capabilities.regenerate ? regenerateMessage : undefined}
+                onSelectMessageVersion={capabilities.versions ? selectMessageVersion : undefined}
+                onEditMessage={capabilities.edit ? editMessage : undefined}
+                onBranchFromMessage={capabilities.branch ? branchFromMessage : undefined}
               />
               {isThreadTransitioning ? (
                 <div className="ui-text-muted px-2 py-2 text-xs">Loading messages...</div>
@@ -161,12 +245,37 @@ export function ChatShell() {
 
             <Composer
               onSend={sendMessage}
+              onStop={stopStreaming}
               isDisabled={isBootstrapping || isThreadTransitioning}
               isStreaming={isStreaming}
+              quota={quota}
+              cooldownUntil={cooldownUntil}
             />
           </>
         )}
 
+        {apiKeysOpen ? <ApiKeysDialog onClose={() => setApiKeysOpen(false)} /> : null}
+        {personasOpen ? (
+          <PersonasDialog
+            personas={personas}
+            onCreate={personaActions.createPersona}
+            onUpdate={personaActions.updatePersona}
+            onDelete={async (personaId) => {
+              await personaActions.deletePersona(personaId);
+              // The server detaches it from saved chats; a new chat's draft still points at it.
+              if (personaId === activePersonaId && !threadId) await selectPersona(null);
+            }}
+            onClose={() => setPersonasOpen(false)}
+          />
+        ) : null}
+        {settingsOpen ? (
+          <ThreadSettingsDrawer
+            settings={activeSettings}
+            onSave={saveThreadSettings}
+            onClose={() => setSettingsOpen(false)}
+          />
+        ) : null}
+
         {error ? (
           <div className="ui-overlay fixed inset-0 z-[60] flex items-center justify-center px-4 backdrop-blur-sm">
             <div className="ui-panel w-full max-w-md rounded-xl p-4 shadow-2xl">
@@ -1,9 +1,12 @@
 "use client";
 
-import { FormEvent, useEffect, useState } from "react";
+import { FormEvent, useEffect, useRef, useState } from "react";
 import { createPortal } from "react-dom";
-import type { ChatThread } from "@/hooks/use-chat";
+import type { ChatThread, ImportProgress } from "@/hooks/use-chat";
 import { BrainLoader } from "@/components/ui/brain-loader";
+import { highlightParts } from "@/lib/memory/search";
+import type { ImportReport } from "@/lib/memory/thread-import";
+import type { EventSearchHit } from "@/lib/memory/types";
 
 type ChatSidebarProps = {
   threads: ChatThread[];
@@ -12,9 +15,18 @@ type ChatSidebarProps = {
   onToggleCollapsed: () => void;
   onCreateThread: () => Promise<void>;
   onSelectThread: (threadId: string) => Promise<void>;
+  onSearch: (query: string) => Promise<EventSearchHit[]>;
+  onOpenSearchResult: (threadId: string, messageId: string) => Promise<void>;
   onRenameThread: (threadId: string, title: string) => Promise<void>;
   onDeleteThread: (threadId: string) => Promise<void>;
   onPromoteThread: (threadId: string) => Promise<void>;
+  onImportConversations: (
+    file: File,
+    onProgress?: (progress: ImportProgress) => void
+  ) => Promise<ImportReport>;
+  onOpenApiKeys: () => void;
+  // Omitted when the memory backend cannot store personas.
+  onOpenPersonas?: () => void;
 };
 
 type ToastState = {
@@ -22,6 +34,12 @@ type ToastState = {
   message: string;
 } | null;
 
+const EXPORT_FORMATS = [
+  { id: "md", label: "Markdown" },
+  { id: "json", label: "JSON" },
+  { id: "html", label: "HTML" }
+] as const;
+
 function labelForThread(thread: ChatThread, index: number): string {
   const title = thread.title?.trim();
   if (title) return title;
@@ -42,9 +60,14 @@ export function ChatSidebar({
   onToggleCollapsed,
   onCreateThread,
   onSelectThread,
+  onSearch,
+  onOpenSearchResult,
   onRenameThread,
   onDeleteThread,
-  onPromoteThread
+  onPromoteThread,
+  onImportConversations,
+  onOpenApiKeys,
+  onOpenPersonas
 }: ChatSidebarProps) {
   const [editingThreadId, setEditingThreadId] = useState<string | null>(null);
   const [originalTitle, setOriginalTitle] = useState("");
@@ -59,10 +82,22 @@ export function ChatSidebar({
   const [pendingPromote, setPendingPromote] = useState<{ id: string; label: string } | null>(
     null
   );
+  const [pendingExport, setPendingExport] = useState<{ id: string; label: string } | null>(
+    null
+  );
   const [isDeleting, setIsDeleting] = useState(false);
   const [deleteError, setDeleteError] = useState<string | null>(null);
   const [promoteError, setPromoteError] = useState<string | null>(null);
   const [isMounted, setIsMounted] = useState(false);
+  const [searchQuery, setSearchQuery] = useState("");
+  const [searchResults, setSearchResults] = useState<EventSearchHit[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const [searchError, setSearchError] = useState<string | null>(null);
+  const searchCounter = useRef(0);
+  const importInputRef = useRef<HTMLInputElement | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [importProgress, setImportProgress] = useState<ImportProgress | null>(null);
+  const [importReport, setImportReport] = useState<ImportReport | null>(null);
 
   useEffect(() => {
     setIsMounted(true);
@@ -88,6 +123,36 @@ export function ChatSidebar({
     return () => window.clearTimeout(timer);
   }, [toast]);
 
+  useEffect(() => {
+    const query = searchQuery.trim();
+    const currentSearch = ++searchCounter.current;
+    if (!query) {
+      setSearchResults([]);
+      setSearchError(null);
+      setIsSearching(false);
+      return;
+    }
+
+    setIsSearching(true);
+    const timer = window.setTimeout(() => {
+      onSearch(query)
+        .then((results) => {
+          if (currentSearch !== searchCounter.current) return;
+          setSearchResults(results);
+          setSearchError(null);
+        })
+        .catch((err: unknown) => {
+          if (currentSearch !== searchCounter.current) return;
+          setSearchResults([]);
+          setSearchError(err instanceof Error ? err.message : "Search failed.");
+        })
+        .finally(() => {
+          if (currentSearch === searchCounter.current) setIsSearching(false);
+        });
+    }, 250);
+    return () => window.clearTimeout(timer);
+  }, [onSearch, searchQuery]);
+
   const startRename = (thread: ChatThread, index: number) => {
     const label = labelForThread(thread, index);
     setOpenActionsThreadId(null);
@@ -143,6 +208,23 @@ export function ChatSidebar({
     }
   };
 
+  const runImport = async (file: File) => {
+    if (isImporting) return;
+    setIsImporting(true);
+    try {
+      setImportReport(await onImportConversations(file, setImportProgress));
+    } catch (err) {
+      setToast({
+        kind: "error",
+        message: err instanceof Error ? err.message : "Could not import conversations."
+      });
+    } finally {
+      setIsImporting(false);
+      setImportProgress(null);
+      if (importInputRef.current) importInputRef.current.value = "";
+    }
+  };
+
   const confirmDelete = async () => {
     if (!pendingDelete || isDeleting) return;
     setIsDeleting(true);
@@ -181,18 +263,109 @@ export function ChatSidebar({
               +
             </button>
           )}
+          {!isCollapsed ? (
+            <>
+              <button
+                type="button"
+                onClick={() => importInputRef.current?.click()}
+                disabled={isImporting}
+                className="ui-text-muted mt-1 inline-flex h-8 w-full items-center justify-center rounded-lg px-3 text-xs transition hover:underline disabled:cursor-not-allowed disabled:opacity-60"
+              >
+                {isImporting
+                  ? importProgress && importProgress.total > 1
+                    ? `Importing ${importProgress.done}/${importProgress.total}...`
+                    : "Importing..."
+                  : "Import chats"}
+              </button>
+              <input
+                ref={importInputRef}
+                type="file"
+                accept="application/json,.json"
+                className="hidden"
+                onChange={(event) => {
+                  const file = event.target.files?.[0];
+                  if (file) void runImport(file);
+                }}
+              />
+            </>
+          ) : null}
         </div>
 
+        {!isCollapsed ? (
+          <div className="px-2 pt-2">
+            <input
+              type="search"
+              value={searchQuery}
+              onChange={(event) => setSearchQuery(event.target.value)}
+              onKeyDown={(event) => {
+                if (event.key === "Escape") setSearchQuery("");
+              }}
+              placeholder="Search messages"
+              aria-label="Search messages"
+              maxLength={200}
+              className="ui-panel w-full rounded-md px-2.5 py-1.5 text-sm outline-none ring-[rgb(var(--accent)/0.4)] focus:ring-1"
+            />
+          </div>
+        ) : null}
+
         <div className="chat-scroll flex-1 overflow-y-auto p-2">
-          {!isCollapsed ? (
+          {!isCollapsed && searchQuery.trim() ? (
+            <div>
+              <p className="ui-text-muted mb-2 px-2 text-[11px] uppercase tracking-[0.12em]">
+                {isSearching ? "Searching..." : `Results (${searchResults.length})`}
+              </p>
+              {searchError ? (
+                <p className="px-2 text-xs text-[rgb(var(--status-danger)/1)]">{searchError}</p>
+              ) : null}
+              {!isSearching && !searchError && searchResults.length === 0 ? (
+                <p className="ui-text-muted px-2 text-xs">No messages match.</p>
+              ) : null}
+              <ul className="space-y-1">
+                {searchResults.map((result) => (
+                  <li key={`${result.threadId}-${result.event.id}`}>
+                    <button
+                      type="button"
+                      onClick={() => void onOpenSearchResult(result.threadId, result.event.id)}
+                      className="ui-thread-item w-full rounded-lg px-2 py-2 text-left transition"
+                    >
+                      <span className="ui-text-muted block truncate text-[11px]">
+                        {result.threadTitle?.trim() || "Untitled chat"} ·{" "}
+                        {result.event.role === "user" ? "You" : "Assistant"}
+                      </span>
+                      <span className="block text-xs leading-5">
+                        {highlightParts(result.snippet, searchQuery).map((part, index) =>
+                          part.match ? (
+                            <mark
+                              key={index}
+                              className="rounded bg-[rgb(var(--accent)/0.3)] px-0.5 text-inherit"
+                            >
+                              {part.text}
+                            </mark>
+                          ) : (
+                            <span key={index}>{part.text}</span>
+                          )
+                        )}
+                      </span>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ) : null}
+          {!isCollapsed && !searchQuery.trim() ? (
             <p className="ui-text-muted mb-2 px-2 text-[11px] uppercase tracking-[0.12em]">Chats</p>
           ) : null}
-          <ul className="space-y-1">
+          <ul className={`space-y-1 ${!isCollapsed && searchQuery.trim() ? "hidden" : ""}`}>
             {threads.map((thread, index) => {
               const label = labelForThread(thread, index);
               const isActive = activeThreadId === thread.id;
               const isEditing = editingThreadId === thread.id && !isCollapsed;
               const isPromoting = promotingThreadId === thread.id;
+              const parentIndex = thread.parentThreadId
+                ? threads.findIndex((item) => item.id === thread.parentThreadId)
+                : -1;
+              const parentThread = parentIndex >= 0 ? threads[parentIndex] : null;
+              const parentLabel = parentThread ? labelForThread(parentThread, parentIndex) : "";
 
               return (
                 <li key={thread.id}>
@@ -298,6 +471,17 @@ export function ChatSidebar({
                                       ? "Already in Core Memory"
                                       : "Promote to Core Memory"}
                                 </button>
+                                <button
+                                  type="button"
+                                  onClick={() => {
+                                    setOpenActionsThreadId(null);
+                                    setPendingExport({ id: thread.id, label });
+                                  }}
+                                  disabled={thread.id.startsWith("draft-")}
+                                  className="ui-menu-item mt-0.5 flex w-full items-center rounded px-2 py-1.5 text-left text-xs text-[rgb(var(--foreground)/1)] transition disabled:cursor-not-allowed disabled:opacity-55"
+                                >
+                                  Export
+                                </button>
                               </div>
                             ) : null}
                           </div>
@@ -318,6 +502,16 @@ export function ChatSidebar({
                       ) : null}
                     </div>
                   )}
+                  {parentThread && !isCollapsed && !isEditing ? (
+                    <button
+                      type="button"
+                      onClick={() => void onSelectThread(parentThread.id)}
+                      className="ui-text-muted block w-full truncate px-3 pb-1 text-left text-[11px] transition hover:underline"
+                      title={`Open ${parentLabel}`}
+                    >
+                      ↳ Branched from {parentLabel}
+                    </button>
+                  ) : null}
                 </li>
               );
             })}
@@ -325,6 +519,24 @@ export function ChatSidebar({
         </div>
 
         <div className="ui-divider border-t p-2">
+          {!isCollapsed && onOpenPersonas ? (
+            <button
+              type="button"
+              onClick={onOpenPersonas}
+              className="ui-text-muted mb-1 inline-flex h-8 w-full items-center justify-center rounded-lg px-3 text-xs transition hover:underline"
+            >
+              Personas
+            </button>
+          ) : null}
+          {!isCollapsed ? (
+            <button
+              type="button"
+              onClick={onOpenApiKeys}
+              className="ui-text-muted mb-1 inline-flex h-8 w-full items-center justify-center rounded-lg px-3 text-xs transition hover:underline"
+            >
+              API keys
+            </button>
+          ) : null}
           <button
             type="button"
             onClick={onToggleCollapsed}
@@ -407,6 +619,87 @@ export function ChatSidebar({
           )
         : null}
 
+      {isMounted && pendingExport
+        ? createPortal(
+            <div className="ui-overlay fixed inset-0 z-[70] flex items-center justify-center px-4 backdrop-blur-sm">
+              <div className="ui-panel w-full max-w-sm rounded-xl p-4 shadow-2xl">
+                <h3 className="ui-text-strong text-base font-semibold">Export chat</h3>
+                <p className="ui-text-body mt-2 text-sm">
+                  Download{" "}
+                  <span className="ui-text-strong font-medium">
+                    &quot;{pendingExport.label}&quot;
+                  </span>{" "}
+                  with every message, reactions, timestamps and its summary.
+                </p>
+                <div className="mt-4 grid grid-cols-3 gap-2">
+                  {EXPORT_FORMATS.map((format) => (
+                    <a
+                      key={format.id}
+                      href={`/api/chat/${encodeURIComponent(pendingExport.id)}/export?format=${format.id}`}
+                      download
+                      onClick={() => setPendingExport(null)}
+                      className="ui-button inline-flex h-9 items-center justify-center rounded-md px-3 text-sm transition"
+                    >
+                      {format.label}
+                    </a>
+                  ))}
+                </div>
+                <div className="mt-4 flex items-center justify-end">
+                  <button
+                    type="button"
+                    onClick={() => setPendingExport(null)}
+                    className="ui-button inline-flex h-9 items-center justify-center rounded-md px-3 text-sm transition"
+                  >
+                    Cancel
+                  </button>
+                </div>
+              </div>
+            </div>,
+            document.body
+          )
+        : null}
+
+      {isMounted && importReport
+        ? createPortal(
+            <div className="ui-overlay fixed inset-0 z-[70] flex items-center justify-center px-4 backdrop-blur-sm">
+              <div className="ui-panel w-full max-w-sm rounded-xl p-4 shadow-2xl">
+                <h3 className="ui-text-strong text-base font-semibold">Import finished</h3>
+                <p className="ui-text-body mt-2 text-sm">
+                  Imported {importReport.imported} of {importReport.results.length}{" "}
+                  {importReport.source === "chatgpt" ? "ChatGPT" : "CortexUI"} conversations.
+                </p>
+                <ul className="chat-scroll mt-3 max-h-60 space-y-1 overflow-y-auto">
+                  {importReport.results.map((result, index) => (
+                    <li
+                      key={`${result.sourceId}-${index}`}
+                      className="ui-panel ui-panel-strong rounded-md px-2.5 py-1.5 text-xs"
+                    >
+                      <span className="ui-text-strong block truncate">
+                        {result.title?.trim() || "Untitled chat"}
+                      </span>
+                      {result.status === "imported" ? (
+                        <span className="ui-text-muted">{result.messageCount} messages</span>
+                      ) : (
+                        <span className="text-[rgb(var(--status-danger)/1)]">{result.error}</span>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+                <div className="mt-4 flex items-center justify-end">
+                  <button
+                    type="button"
+                    onClick={() => setImportReport(null)}
+                    className="ui-button inline-flex h-9 items-center justify-center rounded-md px-3 text-sm transition"
+                  >
+                    Done
+                  </button>
+                </div>
+              </div>
+            </div>,
+            document.body
+          )
+        : null}
+
       {isMounted && pendingPromote
         ? createPortal(
             <div className="ui-overlay fixed inset-0 z-[70] flex items-center justify-center px-4 backdrop-blur-sm">
@@ -1,27 +1,66 @@
 "use client";
 
-import { FormEvent, useRef, useState } from "react";
+import { FormEvent, useEffect, useRef, useState } from "react";
+import type { ChatQuota } from "@/lib/chat-quota";
 
 type ComposerProps = {
   isDisabled?: boolean;
   isStreaming?: boolean;
   onSend: (text: string) => Promise<void>;
+  onStop?: () => void;
   inline?: boolean;
+  quota?: ChatQuota | null;
+  cooldownUntil?: number | null;
 };
 
+function describeQuota(quota: ChatQuota): string | null {
+  const parts: string[] = [];
+  if (quota.messagesRemaining !== null) {
+    parts.push(`${quota.messagesRemaining} message${quota.messagesRemaining === 1 ? "" : "s"}`);
+  }
+  if (quota.tokensRemaining !== null) {
+    parts.push(`~${quota.tokensRemaining.toLocaleString()} tokens`);
+  }
+  return parts.length > 0 ? `${parts.join(" · ")} left today` : null;
+}
+
+// Seconds left until `until`, re-rendering every second while the cooldown runs.
+function useCooldownSeconds(until: number | null | undefined): number {
+  const [now, setNow] = useState(() => Date.now());
+  const active = Boolean(until && until > now);
+
+  useEffect(() => {
+    if (!active) return;
+    const timer = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(timer);
+  }, [active]);
+
+  useEffect(() => {
+    setNow(Date.now());
+  }, [until]);
+
+  return until ? Math.max(0, Math.ceil((until - now) / 1000)) : 0;
+}
+
 export function Composer({
   isDisabled,
   isStreaming,
   onSend,
-  inline
+  onStop,
+  inline,
+  quota,
+  cooldownUntil
 }: ComposerProps) {
   const [text, setText] = useState("");
   const textareaRef = useRef<HTMLTextAreaElement | null>(null);
+  const cooldownSeconds = useCooldownSeconds(cooldownUntil);
+  const isCoolingDown = cooldownSeconds > 0;
+  const quotaLabel = quota ? describeQuota(quota) : null;
 
   const submit = async (event?: FormEvent<HTMLFormElement>) => {
     event?.preventDefault();
     const value = text.trim();
-    if (!value || isDisabled || isStreaming) return;
+    if (!value || isDisabled || isStreaming || isCoolingDown) return;
     setText("");
     if (textareaRef.current) {
       textareaRef.current.style.height = "auto";
@@ -69,20 +108,41 @@ export function Composer({
           }`}
           disabled={isDisabled || isStreaming}
         />
-        {text.trim().length > 0 ? (
+        {isStreaming && onStop ? (
+          <button
+            type="button"
+            onClick={onStop}
+            aria-label="Stop generating"
+            title="Stop generating"
+            className={`ui-button font-semibold transition ${
+              inline
+                ? "h-14 rounded-2xl px-5 text-base"
+                : "h-12 rounded-2xl px-5 text-base"
+            }`}
+          >
+            Stop
+          </button>
+        ) : text.trim().length > 0 ? (
           <button
             type="submit"
-            disabled={isDisabled || isStreaming}
+            disabled={isDisabled || isStreaming || isCoolingDown}
             className={`ui-button font-semibold transition disabled:cursor-not-allowed disabled:opacity-50 ${
               inline
                 ? "h-14 rounded-2xl px-5 text-base"
                 : "h-12 rounded-2xl px-5 text-base"
             }`}
           >
-            Send
+            {isCoolingDown ? `${cooldownSeconds}s` : "Send"}
           </button>
         ) : null}
       </div>
+      {isCoolingDown || quotaLabel ? (
+        <p className="ui-text-muted mx-auto mt-1.5 w-full max-w-4xl px-3 text-xs" aria-live="polite">
+          {isCoolingDown
+            ? `Rate limit reached. You can send again in ${cooldownSeconds}s.`
+            : quotaLabel}
+        </p>
+      ) : null}
     </form>
   );
 }
@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import { parseContent } from "@/components/chat/message-item";
+
+describe("parseContent", () => {
+  it("returns plain text as a single part", () => {
+    expect(parseContent("hello\nworld")).toEqual([{ type: "text", value: "hello\nworld" }]);
+  });
+
+  it("splits fenced code with its language", () => {
+    expect(parseContent("Intro\n```TS\nconst a = 1;\n```\nOutro")).toEqual([
+      { type: "text", value: "Intro" },
+      { type: "code", value: "const a = 1;", language: "ts" },
+      { type: "text", value: "Outro" }
+    ]);
+  });
+
+  it("accepts fences that start after list markers", () => {
+    expect(parseContent("- ```bash\nnpm test\n```")).toEqual([
+      { type: "code", value: "npm test", language: "bash" }
+    ]);
+    expect(parseContent("2. ```\nx\n```")).toEqual([
+      { type: "code", value: "x", language: "text" }
+    ]);
+  });
+
+  it("tolerates trailing text after the closing fence", () => {
+    expect(parseContent("```py\nprint(1)\n``` done")).toEqual([
+      { type: "code", value: "print(1)", language: "py" }
+    ]);
+  });
+
+  it("flushes unterminated code as a code block", () => {
+    expect(parseContent("Here:\n```js\nlet x = 1;\nlet y = 2;")).toEqual([
+      { type: "text", value: "Here:" },
+      { type: "code", value: "let x = 1;\nlet y = 2;", language: "js" }
+    ]);
+  });
+
+  it("only closes on a matching fence of equal or greater length", () => {
+    expect(parseContent("~~~~md\n```\ninner\n```\n~~~~")).toEqual([
+      { type: "code", value: "```\ninner\n```", language: "md" }
+    ]);
+  });
+
+  it("handles CRLF line endings", () => {
+    expect(parseContent("a\r\n```\r\nb\r\n```")).toEqual([
+      { type: "text", value: "a" },
+      { type: "code", value: "b", language: "text" }
+    ]);
+  });
+
+  it("keeps empty content renderable", () => {
+    expect(parseContent("")).toEqual([{ type: "text", value: "" }]);
+  });
+});
@@ -3,11 +3,17 @@
 import { useState, type ReactNode } from "react";
 import { AnimatePresence, motion } from "framer-motion";
 import type { ChatMessage, MessageReaction } from "@/hooks/use-chat";
+import { readVersions } from "@/lib/memory/versions";
 
 type MessageItemProps = {
   message: ChatMessage;
+  isHighlighted?: boolean;
   onQuickReply?: (text: string) => Promise<void>;
   onReact?: (threadId: string, messageId: string, reaction: MessageReaction) => Promise<void>;
+  onRegenerate?: (threadId: string, messageId: string) => Promise<void>;
+  onSelectVersion?: (threadId: string, messageId: string, index: number) => Promise<void>;
+  onEdit?: (threadId: string, messageId: string, text: string) => Promise<void>;
+  onBranch?: (threadId: string, messageId: string) => Promise<void>;
 };
 
 type ContentPart =
@@ -87,7 +93,7 @@ function renderTextWithLinks(value: string) {
   return nodes.length > 0 ? nodes : value;
 }
 
-function parseContent(content: string): ContentPart[] {
+export function parseContent(content: string): ContentPart[] {
   const parts: ContentPart[] = [];
   const lines = content.split(/\r?\n/);
   let textBuffer: string[] = [];
@@ -169,11 +175,26 @@ function readActiveReaction(
   return null;
 }
 
-export function MessageItem({ message, onReact }: MessageItemProps) {
+function readInterrupted(meta: ChatMessage["meta"]): boolean {
+  if (!meta || typeof meta !== "object") return false;
+  return (meta as Record<string, unknown>).interrupted === true;
+}
+
+export function MessageItem({
+  message,
+  isHighlighted = false,
+  onReact,
+  onRegenerate,
+  onSelectVersion,
+  onEdit,
+  onBranch
+}: MessageItemProps) {
   const [copiedIndex, setCopiedIndex] = useState<number | null>(null);
   const [reactionsOpen, setReactionsOpen] = useState(false);
   const [pendingReaction, setPendingReaction] = useState<MessageReaction | null>(null);
   const [burstReaction, setBurstReaction] = useState<MessageReaction | null>(null);
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState(message.content);
   const [localReaction, setLocalReaction] = useState<MessageReaction | null>(
     readActiveReaction(message.meta)
   );
@@ -181,6 +202,10 @@ export function MessageItem({ message, onReact }: MessageItemProps) {
   const isUser = message.role === "user";
   const parts = parseContent(message.content);
   const activeReaction = localReaction ?? readActiveReaction(message.meta);
+  const isInterrupted = !isUser && !message.isStreaming && readInterrupted(message.meta);
+  const { versions, activeVersion } = readVersions(message);
+  const showVersionPager =
+    !isUser && !message.isStreaming && Boolean(onSelectVersion) && versions.length > 1;
 
   const bubbleClass = isUser
     ? "ml-auto ui-user-bubble rounded-2xl px-4 py-3"
@@ -214,6 +239,60 @@ export function MessageItem({ message, onReact }: MessageItemProps) {
     }
   };
 
+  const startEditing = () => {
+    setDraft(message.content);
+    setIsEditing(true);
+  };
+
+  const submitEdit = () => {
+    const next = draft.trim();
+    if (!onEdit || !next) return;
+    setIsEditing(false);
+    if (next === message.content.trim()) return;
+    void onEdit(message.threadId, message.id, next);
+  };
+
+  if (isUser && isEditing) {
+    return (
+      <div data-message-id={message.id} className="px-1 py-1.5">
+        <div className="ml-auto w-full max-w-2xl space-y-2">
+          <textarea
+            value={draft}
+            onChange={(event) => setDraft(event.target.value)}
+            onKeyDown={(event) => {
+              if (event.key === "Enter" && !event.shiftKey) {
+                event.preventDefault();
+                submitEdit();
+              }
+              if (event.key === "Escape") setIsEditing(false);
+            }}
+            autoFocus
+            rows={3}
+            aria-label="Edit message"
+            className="ui-user-bubble w-full resize-y rounded-2xl px-4 py-3 outline-none"
+          />
+          <div className="flex justify-end gap-2 text-xs">
+            <button
+              type="button"
+              onClick={() => setIsEditing(false)}
+              className="ui-text-muted rounded-full border border-[rgb(var(--border)/0.72)] px-3 py-1 transition hover:bg-[rgb(var(--panel)/0.95)]"
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={submitEdit}
+              disabled={!draft.trim()}
+              className="rounded-full border border-[rgb(var(--accent)/0.65)] bg-[rgb(var(--accent)/0.2)] px-3 py-1 font-semibold transition disabled:opacity-40"
+            >
+              Save &amp; send
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
   const content = (
     <div className="group">
       <div className={bubbleClass}>
@@ -250,10 +329,37 @@ export function MessageItem({ message, onReact }: MessageItemProps) {
             );
           })}
         </div>
+        {isInterrupted ? (
+          <p className="ui-text-muted mt-2 text-xs italic">Response stopped</p>
+        ) : null}
       </div>
+      {isUser && (onEdit || onBranch) ? (
+        <div className="flex justify-end gap-1 pt-1 opacity-0 transition group-hover:opacity-100 focus-within:opacity-100">
+          {onEdit ? (
+            <button
+              type="button"
+              onClick={startEditing}
+              title="Edit and resend from here"
+              className="ui-text-muted rounded-full px-2 py-0.5 text-xs transition hover:bg-[rgb(var(--panel)/0.95)]"
+            >
+              Edit
+            </button>
+          ) : null}
+          {onBranch ? (
+            <button
+              type="button"
+              onClick={() => void onBranch(message.threadId, message.id)}
+              title="Start a new chat from this message"
+              className="ui-text-muted rounded-full px-2 py-0.5 text-xs transition hover:bg-[rgb(var(--panel)/0.95)]"
+            >
+              Branch from here
+            </button>
+          ) : null}
+        </div>
+      ) : null}
       {onReact && !isUser ? (
         <div className="pt-2">
-          <div className="flex items-center justify-start">
+          <div className="flex items-center justify-start gap-2">
             <button
               type="button"
               onClick={() => setReactionsOpen((prev) => !prev)}
@@ -268,6 +374,55 @@ export function MessageItem({ message, onReact }: MessageItemProps) {
             >
               {activeReaction ? REACTION_EMOJI_BY_ID[activeReaction] : "+"}
             </button>
+            {showVersionPager ? (
+              <div className="ui-text-muted inline-flex items-center gap-1 text-xs">
+                <button
+                  type="button"
+                  onClick={() =>
+                    void onSelectVersion?.(message.threadId, message.id, activeVersion - 1)
+                  }
+                  disabled={activeVersion === 0}
+                  aria-label="Previous version"
+                  className="rounded-md px-1.5 py-0.5 transition hover:bg-[rgb(var(--panel)/0.95)] disabled:opacity-40"
+                >
+                  ‹
+                </button>
+                <span>
+                  {activeVersion + 1}/{versions.length}
+                </span>
+                <button
+                  type="button"
+                  onClick={() =>
+                    void onSelectVersion?.(message.threadId, message.id, activeVersion + 1)
+                  }
+                  disabled={activeVersion === versions.length - 1}
+                  aria-label="Next version"
+                  className="rounded-md px-1.5 py-0.5 transition hover:bg-[rgb(var(--panel)/0.95)] disabled:opacity-40"
+                >
+                  ›
+                </button>
+              </div>
+            ) : null}
+            {onRegenerate && !message.isStreaming ? (
+              <button
+                type="button"
+                onClick={() => void onRegenerate(message.threadId, message.id)}
+                title="Generate a new version of this reply"
+                className="ui-text-muted rounded-full border border-[rgb(var(--border)/0.72)] bg-[rgb(var(--panel)/0.55)] px-2.5 py-1 text-xs transition hover:bg-[rgb(var(--panel)/0.95)]"
+              >
+                Regenerate
+              </button>
+            ) : null}
+            {onBranch && !message.isStreaming ? (
+              <button
+                type="button"
+                onClick={() => void onBranch(message.threadId, message.id)}
+                title="Start a new chat from this message"
+                className="ui-text-muted rounded-full px-2 py-1 text-xs opacity-0 transition hover:bg-[rgb(var(--panel)/0.95)] group-hover:opacity-100 focus:opacity-100"
+              >
+                Branch from here
+              </button>
+            ) : null}
           </div>
           <AnimatePresence initial={false}>
             {reactionsOpen ? (
@@ -313,13 +468,22 @@ export function MessageItem({ message, onReact }: MessageItemProps) {
     </div>
   );
 
+  const wrapperClass = `rounded-2xl px-1 py-1.5 transition-shadow ${
+    isHighlighted ? "ring-2 ring-[rgb(var(--accent)/0.55)]" : ""
+  }`;
+
   if (isUser) {
-    return <div className="px-1 py-1.5">{content}</div>;
+    return (
+      <div data-message-id={message.id} className={wrapperClass}>
+        {content}
+      </div>
+    );
   }
 
   return (
     <motion.div
-      className="px-1 py-1.5"
+      data-message-id={message.id}
+      className={wrapperClass}
       initial={{ opacity: 0, y: 8 }}
       animate={{ opacity: 1, y: 0 }}
       transition={{ duration: 0.24, ease: "easeOut" }}
@@ -1,34 +1,64 @@
 "use client";
 
-import { useEffect, useRef } from "react";
-import type { ChatMessage, MessageReaction } from "@/hooks/use-chat";
+import { useEffect, useLayoutEffect, useRef, useState } from "react";
+import type { ChatMessage, MessageFocusRequest, MessageReaction } from "@/hooks/use-chat";
 import { MessageItem } from "@/components/chat/message-item";
 import { TypingIndicator } from "@/components/chat/typing-indicator";
 
 type MessageListProps = {
   messages: ChatMessage[];
   isStreaming: boolean;
+  hasOlderMessages: boolean;
+  isLoadingOlder: boolean;
+  onLoadOlder: () => Promise<void>;
+  focusRequest: MessageFocusRequest | null;
   onQuickReply: (text: string) => Promise<void>;
   onReactToMessage: (
     threadId: string,
     messageId: string,
     reaction: MessageReaction
   ) => Promise<void>;
+  // Left out when the backend lacks the action, which hides its buttons.
+  onRegenerateMessage?: (threadId: string, messageId: string) => Promise<void>;
+  onSelectMessageVersion?: (threadId: string, messageId: string, index: number) => Promise<void>;
+  onEditMessage?: (threadId: string, messageId: string, text: string) => Promise<void>;
+  onBranchFromMessage?: (threadId: string, messageId: string) => Promise<void>;
 };
 
 export function MessageList({
   messages,
   isStreaming,
+  hasOlderMessages,
+  isLoadingOlder,
+  onLoadOlder,
+  focusRequest,
   onQuickReply,
-  onReactToMessage
+  onReactToMessage,
+  onRegenerateMessage,
+  onSelectMessageVersion,
+  onEditMessage,
+  onBranchFromMessage
 }: MessageListProps) {
+  const scrollRef = useRef<HTMLDivElement | null>(null);
   const bottomRef = useRef<HTMLDivElement | null>(null);
   const prevSignatureRef = useRef<string>("");
+  const restoreScrollRef = useRef<{ height: number; top: number } | null>(null);
+  const [highlightedId, setHighlightedId] = useState<string | null>(null);
+
+  // Older pages are prepended, so keep the viewport anchored to what the user was reading.
+  useLayoutEffect(() => {
+    const container = scrollRef.current;
+    const anchor = restoreScrollRef.current;
+    if (!container || !anchor || isLoadingOlder) return;
+    container.scrollTop = container.scrollHeight - anchor.height + anchor.top;
+    restoreScrollRef.current = null;
+  }, [messages, isLoadingOlder]);
 
   useEffect(() => {
     const last = messages[messages.length - 1];
+    // Keyed on the tail only: prepending older pages must not yank the view to the bottom.
     const signature = last
-      ? `${messages.length}:${last.id}:${last.role}:${last.content.length}:${Boolean(last.isStreaming)}`
+      ? `${last.id}:${last.role}:${last.content.length}:${Boolean(last.isStreaming)}`
       : "0";
     const shouldScroll =
       isStreaming || prevSignatureRef.current === "" || signature !== prevSignatureRef.current;
@@ -38,15 +68,67 @@ export function MessageList({
     }
   }, [messages, isStreaming]);
 
+  useEffect(() => {
+    if (!focusRequest) return;
+    const target = scrollRef.current?.querySelector<HTMLElement>(
+      `[data-message-id="${CSS.escape(focusRequest.messageId)}"]`
+    );
+    if (!target) return;
+    target.scrollIntoView({ behavior: "smooth", block: "center" });
+    setHighlightedId(focusRequest.messageId);
+    const timer = window.setTimeout(() => setHighlightedId(null), 2400);
+    return () => window.clearTimeout(timer);
+  }, [focusRequest]);
+
+  const requestOlder = () => {
+    const container = scrollRef.current;
+    if (!container || !hasOlderMessages || isLoadingOlder) return;
+    restoreScrollRef.current = { height: container.scrollHeight, top: container.scrollTop };
+    void onLoadOlder();
+  };
+
+  const handleScroll = () => {
+    const container = scrollRef.current;
+    if (container && container.scrollTop < 80) requestOlder();
+  };
+
+  let lastAssistantIndex = -1;
+  messages.forEach((message, index) => {
+    if (message.role === "assistant") lastAssistantIndex = index;
+  });
+
   return (
-    <div className="chat-scroll chat-fade-scroll flex-1 overflow-y-auto px-1 pb-6 pt-4 md:px-2 md:pb-8">
+    <div
+      ref={scrollRef}
+      onScroll={handleScroll}
+      className="chat-scroll chat-fade-scroll flex-1 overflow-y-auto px-1 pb-6 pt-4 md:px-2 md:pb-8"
+    >
       <div className="mx-auto flex w-full max-w-4xl flex-col gap-1">
-        {messages.map((message) => (
+        {hasOlderMessages || isLoadingOlder ? (
+          <div className="flex justify-center py-2">
+            <button
+              type="button"
+              onClick={requestOlder}
+              disabled={isLoadingOlder}
+              className="ui-text-muted rounded-full px-3 py-1 text-xs transition hover:bg-[rgb(var(--panel)/0.95)] disabled:opacity-60"
+            >
+              {isLoadingOlder ? "Loading earlier messages..." : "Load earlier messages"}
+            </button>
+          </div>
+        ) : null}
+        {messages.map((message, index) => (
           <MessageItem
             key={message.id}
             message={message}
+            isHighlighted={highlightedId === message.id}
             onQuickReply={onQuickReply}
             onReact={message.role === "assistant" && !isStreaming ? onReactToMessage : undefined}
+            onRegenerate={
+              index === lastAssistantIndex && !isStreaming ? onRegenerateMessage : undefined
+            }
+            onSelectVersion={!isStreaming ? onSelectMessageVersion : undefined}
+            onEdit={message.role === "user" && !isStreaming ? onEditMessage : undefined}
+            onBranch={!isStreaming ? onBranchFromMessage : undefined}
           />
         ))}
         {isStreaming ? <TypingIndicator activityLabel="Thinking..." tone="active" /> : null}
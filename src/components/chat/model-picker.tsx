@@ -0,0 +1,82 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { parseModelId, type ModelOption, type ModelProviderName } from "@/lib/llm/model-registry";
+
+type ModelPickerProps = {
+  value: string | null;
+  onChange: (model: string | null) => void;
+  isDisabled?: boolean;
+  // The thread persona's default model, which replies use instead of the server default.
+  personaModel?: string | null;
+};
+
+type ModelsPayload = {
+  models?: ModelOption[];
+  defaultModel?: string | null;
+  selectable?: boolean;
+};
+
+const PROVIDER_LABELS: Record<ModelProviderName, string> = {
+  openai: "OpenAI",
+  groq: "Groq",
+  anthropic: "Anthropic",
+  local: "Local"
+};
+
+// Hidden until the server reports models and a backend that can store the choice per thread.
+export function ModelPicker({
+  value,
+  onChange,
+  isDisabled = false,
+  personaModel = null
+}: ModelPickerProps) {
+  const [catalog, setCatalog] = useState<ModelsPayload | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = async () => {
+      const res = await fetch("/api/models", { method: "GET" });
+      if (!res.ok) return;
+      const data = (await res.json()) as ModelsPayload;
+      if (!cancelled) setCatalog(data);
+    };
+    void load().catch(() => null);
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const models = catalog?.models ?? [];
+  if (!catalog?.selectable || models.length === 0) return null;
+
+  const defaultName = parseModelId(personaModel ?? catalog.defaultModel)?.name;
+  const defaultLabel = personaModel ? "Persona default" : "Default";
+  const providers = [...new Set(models.map((model) => model.provider))];
+  // A thread can keep a model the server no longer offers; show it rather than "Default".
+  const isUnlisted = Boolean(value) && !models.some((model) => model.id === value);
+
+  return (
+    <select
+      value={value ?? ""}
+      onChange={(event) => onChange(event.target.value || null)}
+      aria-label="Model"
+      disabled={isDisabled}
+      className="ui-panel ui-panel-strong max-w-[14rem] truncate rounded-md px-2 py-1.5 text-sm"
+    >
+      <option value="">{defaultName ? `${defaultLabel} (${defaultName})` : defaultLabel}</option>
+      {isUnlisted && value ? <option value={value}>{value} (unavailable)</option> : null}
+      {providers.map((provider) => (
+        <optgroup key={provider} label={PROVIDER_LABELS[provider]}>
+          {models
+            .filter((model) => model.provider === provider)
+            .map((model) => (
+              <option key={model.id} value={model.id}>
+                {model.name}
+              </option>
+            ))}
+        </optgroup>
+      ))}
+    </select>
+  );
+}
@@ -0,0 +1,18 @@
+import type { PersonaRecord } from "@/lib/memory/types";
+
+type PersonaAvatarProps = {
+  persona: Pick<PersonaRecord, "name" | "avatar">;
+  className?: string;
+};
+
+// Shows the persona's label (usually an emoji), or the first letter of its name.
+export function PersonaAvatar({ persona, className = "h-6 w-6 text-xs" }: PersonaAvatarProps) {
+  return (
+    <span
+      aria-hidden
+      className={`inline-flex shrink-0 items-center justify-center overflow-hidden rounded-full ui-panel-strong ${className}`}
+    >
+      {persona.avatar ?? persona.name.slice(0, 1).toUpperCase()}
+    </span>
+  );
+}
@@ -0,0 +1,39 @@
+"use client";
+
+import type { PersonaRecord } from "@/lib/memory/types";
+
+type PersonaPickerProps = {
+  personas: PersonaRecord[];
+  value: string | null;
+  onChange: (personaId: string | null) => void;
+  isDisabled?: boolean;
+};
+
+// Hidden until the user has made a persona on the personas screen.
+export function PersonaPicker({
+  personas,
+  value,
+  onChange,
+  isDisabled = false
+}: PersonaPickerProps) {
+  if (personas.length === 0) return null;
+  // The persona may have been deleted elsewhere; the server has already detached it.
+  const selected = personas.some((persona) => persona.id === value) ? value : null;
+
+  return (
+    <select
+      value={selected ?? ""}
+      onChange={(event) => onChange(event.target.value || null)}
+      aria-label="Persona"
+      disabled={isDisabled}
+      className="ui-panel ui-panel-strong max-w-[12rem] truncate rounded-md px-2 py-1.5 text-sm"
+    >
+      <option value="">No persona</option>
+      {personas.map((persona) => (
+        <option key={persona.id} value={persona.id}>
+          {persona.avatar ? `${persona.avatar} ${persona.name}` : persona.name}
+        </option>
+      ))}
+    </select>
+  );
+}
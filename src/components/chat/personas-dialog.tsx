@@ -0,0 +1,283 @@
+"use client";
+
+import { FormEvent, useEffect, useState } from "react";
+import { createPortal } from "react-dom";
+import { PersonaAvatar } from "@/components/chat/persona-avatar";
+import type { ModelOption } from "@/lib/llm/model-registry";
+import { parsePersonaInput, PERSONA_LIMITS } from "@/lib/memory/personas";
+import type { PersonaInput, PersonaRecord } from "@/lib/memory/types";
+
+type PersonasDialogProps = {
+  personas: PersonaRecord[];
+  onCreate: (input: PersonaInput) => Promise<PersonaRecord>;
+  onUpdate: (personaId: string, input: PersonaInput) => Promise<PersonaRecord>;
+  onDelete: (personaId: string) => Promise<void>;
+  onClose: () => void;
+};
+
+const FIELD_LABELS: Record<string, string> = {
+  name: "Name",
+  systemPrompt: "System prompt",
+  model: "Default model",
+  avatar: "Avatar"
+};
+
+const INPUT_CLASS =
+  "ui-panel ui-panel-strong w-full rounded-md px-2.5 py-1.5 text-sm outline-none ring-[rgb(var(--accent)/0.4)] focus:ring-1";
+
+const EMPTY_FORM: PersonaInput = { name: "", systemPrompt: "", model: null, avatar: null };
+
+// `editingId` is null while the form creates a new persona.
+export function PersonasDialog({
+  personas,
+  onCreate,
+  onUpdate,
+  onDelete,
+  onClose
+}: PersonasDialogProps) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<PersonaInput>(EMPTY_FORM);
+  const [models, setModels] = useState<ModelOption[]>([]);
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+  const [isMounted, setIsMounted] = useState(false);
+
+  useEffect(() => {
+    setIsMounted(true);
+    return () => setIsMounted(false);
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = async () => {
+      const res = await fetch("/api/models", { method: "GET" });
+      if (!res.ok) return;
+      const data = (await res.json()) as { models?: ModelOption[] };
+      if (!cancelled) setModels(Array.isArray(data.models) ? data.models : []);
+    };
+    void load().catch(() => null);
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const startEditing = (persona: PersonaRecord | null) => {
+    setEditingId(persona?.id ?? null);
+    setForm(
+      persona
+        ? {
+            name: persona.name,
+            systemPrompt: persona.systemPrompt,
+            model: persona.model,
+            avatar: persona.avatar
+          }
+        : EMPTY_FORM
+    );
+    setFieldErrors({});
+    setError(null);
+  };
+
+  const submit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (isSaving) return;
+    const parsed = parsePersonaInput(form);
+    if (!parsed.ok) {
+      setFieldErrors(parsed.fields);
+      return;
+    }
+    setFieldErrors({});
+    setIsSaving(true);
+    setError(null);
+    try {
+      if (editingId) {
+        await onUpdate(editingId, parsed.input);
+      } else {
+        await onCreate(parsed.input);
+      }
+      startEditing(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save the persona.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const remove = async (personaId: string) => {
+    if (deletingId) return;
+    setDeletingId(personaId);
+    setError(null);
+    try {
+      await onDelete(personaId);
+      if (editingId === personaId) startEditing(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to delete the persona.");
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  if (!isMounted) return null;
+
+  const fieldHint = (key: string, hint: string) => (
+    <span
+      className={`mt-0.5 block text-xs ${
+        fieldErrors[key] ? "text-[rgb(var(--status-danger)/1)]" : "ui-text-muted"
+      }`}
+    >
+      {fieldErrors[key] ? `${FIELD_LABELS[key]} ${fieldErrors[key]}.` : hint}
+    </span>
+  );
+  // A persona can keep a model the server no longer offers.
+  const isUnlistedModel = Boolean(form.model) && !models.some((model) => model.id === form.model);
+
+  return createPortal(
+    <div className="ui-overlay fixed inset-0 z-[70] flex items-center justify-center px-4 backdrop-blur-sm">
+      <div className="ui-panel chat-scroll max-h-[90vh] w-full max-w-lg overflow-y-auto rounded-xl p-4 shadow-2xl">
+        <h3 className="ui-text-strong text-base font-semibold">Personas</h3>
+        <p className="ui-text-body mt-2 text-sm">
+          A persona adds its system prompt to every reply in the chats that use it. It follows
+          the soul contract, so it can change voice and focus but not the assistant&apos;s
+          boundaries.
+        </p>
+
+        <ul className="chat-scroll mt-3 max-h-48 space-y-1 overflow-y-auto">
+          {personas.length === 0 ? (
+            <li className="ui-text-muted text-xs">No personas yet.</li>
+          ) : null}
+          {personas.map((persona) => (
+            <li
+              key={persona.id}
+              className="ui-panel ui-panel-strong flex items-center gap-2 rounded-md px-2.5 py-1.5 text-xs"
+            >
+              <PersonaAvatar persona={persona} />
+              <span className="min-w-0 flex-1">
+                <span className="ui-text-strong block truncate">{persona.name}</span>
+                <span className="ui-text-muted block truncate">
+                  {persona.model ?? "Server default model"}
+                </span>
+              </span>
+              <button
+                type="button"
+                onClick={() => startEditing(persona)}
+                disabled={isSaving}
+                className="ui-button inline-flex h-7 items-center justify-center rounded-md px-2.5 text-xs font-medium transition disabled:cursor-not-allowed disabled:opacity-60"
+              >
+                Edit
+              </button>
+              <button
+                type="button"
+                onClick={() => void remove(persona.id)}
+                disabled={deletingId !== null}
+                className="ui-button-danger inline-flex h-7 items-center justify-center rounded-md px-2.5 text-xs font-medium transition disabled:cursor-not-allowed disabled:opacity-60"
+              >
+                {deletingId === persona.id ? "Deleting..." : "Delete"}
+              </button>
+            </li>
+          ))}
+        </ul>
+
+        <form onSubmit={submit} className="mt-4 space-y-3">
+          <h4 className="ui-text-strong text-sm font-medium">
+            {editingId ? "Edit persona" : "New persona"}
+          </h4>
+          <div className="flex gap-2">
+            <label className="block min-w-0 flex-1">
+              <span className="ui-text-strong text-xs font-medium">{FIELD_LABELS.name}</span>
+              <input
+                value={form.name}
+                onChange={(event) => setForm({ ...form, name: event.target.value })}
+                maxLength={PERSONA_LIMITS.name}
+                disabled={isSaving}
+                className={`${INPUT_CLASS} mt-1`}
+              />
+              {fieldHint("name", "Shown in the persona picker.")}
+            </label>
+            <label className="block w-28">
+              <span className="ui-text-strong text-xs font-medium">{FIELD_LABELS.avatar}</span>
+              <input
+                value={form.avatar ?? ""}
+                onChange={(event) => setForm({ ...form, avatar: event.target.value })}
+                placeholder="🙂"
+                disabled={isSaving}
+                className={`${INPUT_CLASS} mt-1`}
+              />
+              {fieldHint("avatar", "Emoji or short label.")}
+            </label>
+          </div>
+          <label className="block">
+            <span className="ui-text-strong text-xs font-medium">{FIELD_LABELS.model}</span>
+            <select
+              value={form.model ?? ""}
+              onChange={(event) => setForm({ ...form, model: event.target.value || null })}
+              disabled={isSaving}
+              className={`${INPUT_CLASS} mt-1`}
+            >
+              <option value="">Server default</option>
+              {isUnlistedModel && form.model ? (
+                <option value={form.model}>{form.model} (unavailable)</option>
+              ) : null}
+              {models.map((model) => (
+                <option key={model.id} value={model.id}>
+                  {model.id}
+                </option>
+              ))}
+            </select>
+            {fieldHint("model", "Used by chats that have not picked a model of their own.")}
+          </label>
+          <label className="block">
+            <span className="ui-text-strong text-xs font-medium">
+              {FIELD_LABELS.systemPrompt}
+            </span>
+            <textarea
+              value={form.systemPrompt}
+              onChange={(event) => setForm({ ...form, systemPrompt: event.target.value })}
+              rows={6}
+              maxLength={PERSONA_LIMITS.systemPrompt}
+              placeholder="You are a patient tutor who answers with short examples."
+              disabled={isSaving}
+              className={`${INPUT_CLASS} mt-1 resize-y`}
+            />
+            {fieldHint(
+              "systemPrompt",
+              `${form.systemPrompt.length}/${PERSONA_LIMITS.systemPrompt} characters.`
+            )}
+          </label>
+
+          {error ? (
+            <p className="text-xs text-[rgb(var(--status-danger)/1)]">{error}</p>
+          ) : null}
+
+          <div className="flex justify-end gap-2 pt-1">
+            {editingId ? (
+              <button
+                type="button"
+                onClick={() => startEditing(null)}
+                disabled={isSaving}
+                className="ui-button inline-flex h-9 items-center justify-center rounded-md px-3 text-sm transition disabled:cursor-not-allowed disabled:opacity-60"
+              >
+                Cancel edit
+              </button>
+            ) : null}
+            <button
+              type="submit"
+              disabled={isSaving}
+              className="ui-button inline-flex h-9 items-center justify-center rounded-md px-3 text-sm transition disabled:cursor-not-allowed disabled:opacity-60"
+            >
+              {isSaving ? "Saving..." : editingId ? "Save" : "Create"}
+            </button>
+            <button
+              type="button"
+              onClick={onClose}
+              className="ui-button inline-flex h-9 items-center justify-center rounded-md px-3 text-sm transition"
+            >
+              Done
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>,
+    document.body
+  );
+}
@@ -0,0 +1,214 @@
+"use client";
+
+import { FormEvent, useEffect, useState } from "react";
+import { createPortal } from "react-dom";
+import { GENERATION_LIMITS, parseGenerationSettings } from "@/lib/llm/thread-settings";
+import type { GenerationSettings } from "@/lib/memory/types";
+
+type ThreadSettingsDrawerProps = {
+  settings: GenerationSettings | null;
+  onSave: (settings: GenerationSettings | null) => Promise<void>;
+  onClose: () => void;
+};
+
+const FIELD_LABELS: Record<string, string> = {
+  temperature: "Temperature",
+  topP: "Top P",
+  maxTokens: "Max tokens",
+  stop: "Stop sequences",
+  seed: "Seed"
+};
+
+const INPUT_CLASS =
+  "ui-panel ui-panel-strong w-full rounded-md px-2.5 py-1.5 text-sm outline-none ring-[rgb(var(--accent)/0.4)] focus:ring-1";
+
+function toField(value: number | undefined): string {
+  return value === undefined ? "" : String(value);
+}
+
+function toNumber(value: string): number | null {
+  return value.trim() ? Number(value) : null;
+}
+
+// Blank fields are left unset so the provider default applies.
+export function ThreadSettingsDrawer({ settings, onSave, onClose }: ThreadSettingsDrawerProps) {
+  const [temperature, setTemperature] = useState(toField(settings?.temperature));
+  const [topP, setTopP] = useState(toField(settings?.topP));
+  const [maxTokens, setMaxTokens] = useState(toField(settings?.maxTokens));
+  const [stop, setStop] = useState((settings?.stop ?? []).join("\n"));
+  const [seed, setSeed] = useState(toField(settings?.seed));
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isMounted, setIsMounted] = useState(false);
+
+  useEffect(() => {
+    setIsMounted(true);
+    return () => setIsMounted(false);
+  }, []);
+
+  const save = async (next: GenerationSettings | null) => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      await onSave(next);
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save thread settings.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const submit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (isSaving) return;
+    const parsed = parseGenerationSettings({
+      temperature: toNumber(temperature),
+      topP: toNumber(topP),
+      maxTokens: toNumber(maxTokens),
+      stop: stop
+        .split("\n")
+        .map((line) => line.trim())
+        .filter(Boolean),
+      seed: toNumber(seed)
+    });
+    if (!parsed.ok) {
+      setFieldErrors(parsed.fields);
+      return;
+    }
+    setFieldErrors({});
+    await save(parsed.settings);
+  };
+
+  if (!isMounted) return null;
+
+  const numberField = (
+    key: "temperature" | "topP" | "maxTokens" | "seed",
+    value: string,
+    onChange: (value: string) => void,
+    hint: string,
+    step: string
+  ) => (
+    <label className="block">
+      <span className="ui-text-strong text-xs font-medium">{FIELD_LABELS[key]}</span>
+      <input
+        type="number"
+        inputMode="decimal"
+        step={step}
+        value={value}
+        onChange={(event) => onChange(event.target.value)}
+        placeholder="Default"
+        disabled={isSaving}
+        className={`${INPUT_CLASS} mt-1`}
+      />
+      <span
+        className={`mt-0.5 block text-xs ${
+          fieldErrors[key] ? "text-[rgb(var(--status-danger)/1)]" : "ui-text-muted"
+        }`}
+      >
+        {fieldErrors[key] ? `${FIELD_LABELS[key]} ${fieldErrors[key]}.` : hint}
+      </span>
+    </label>
+  );
+
+  const { temperature: tempRange, topP: topPRange, maxTokens: tokenRange } = GENERATION_LIMITS;
+
+  return createPortal(
+    <div className="ui-overlay fixed inset-0 z-[70] flex justify-end" onClick={onClose}>
+      <aside
+        className="ui-panel chat-scroll h-full w-full max-w-sm overflow-y-auto p-4 shadow-2xl"
+        onClick={(event) => event.stopPropagation()}
+        aria-label="Thread settings"
+      >
+        <h3 className="ui-text-strong text-base font-semibold">Thread settings</h3>
+        <p className="ui-text-body mt-2 text-sm">
+          Applies to every reply in this chat, including edits and regenerations. Leave a field
+          blank to use the model&apos;s default.
+        </p>
+
+        <form onSubmit={submit} className="mt-4 space-y-3">
+          {numberField(
+            "temperature",
+            temperature,
+            setTemperature,
+            `${tempRange.min}–${tempRange.max}; higher is more varied. Anthropic caps it at 1.`,
+            "0.1"
+          )}
+          {numberField(
+            "topP",
+            topP,
+            setTopP,
+            `${topPRange.min}–${topPRange.max}; nucleus sampling cutoff.`,
+            "0.05"
+          )}
+          {numberField(
+            "maxTokens",
+            maxTokens,
+            setMaxTokens,
+            `Longest reply, ${tokenRange.min}–${tokenRange.max} tokens.`,
+            "1"
+          )}
+          <label className="block">
+            <span className="ui-text-strong text-xs font-medium">{FIELD_LABELS.stop}</span>
+            <textarea
+              value={stop}
+              onChange={(event) => setStop(event.target.value)}
+              rows={3}
+              placeholder="One per line"
+              disabled={isSaving}
+              className={`${INPUT_CLASS} mt-1 resize-none`}
+            />
+            <span
+              className={`mt-0.5 block text-xs ${
+                fieldErrors.stop ? "text-[rgb(var(--status-danger)/1)]" : "ui-text-muted"
+              }`}
+            >
+              {fieldErrors.stop
+                ? `${FIELD_LABELS.stop} ${fieldErrors.stop}.`
+                : `Up to ${GENERATION_LIMITS.stopSequences}; the reply ends before any of them.`}
+            </span>
+          </label>
+          {numberField(
+            "seed",
+            seed,
+            setSeed,
+            "Repeats sampling where the provider supports it.",
+            "1"
+          )}
+
+          {error ? (
+            <p className="text-xs text-[rgb(var(--status-danger)/1)]">{error}</p>
+          ) : null}
+
+          <div className="flex justify-end gap-2 pt-1">
+            <button
+              type="button"
+              onClick={() => void save(null)}
+              disabled={isSaving || !settings}
+              className="ui-button inline-flex h-9 items-center justify-center rounded-md px-3 text-sm transition disabled:cursor-not-allowed disabled:opacity-60"
+            >
+              Reset
+            </button>
+            <button
+              type="button"
+              onClick={onClose}
+              disabled={isSaving}
+              className="ui-button inline-flex h-9 items-center justify-center rounded-md px-3 text-sm transition disabled:cursor-not-allowed disabled:opacity-60"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isSaving}
+              className="ui-button inline-flex h-9 items-center justify-center rounded-md px-3 text-sm transition disabled:cursor-not-allowed disabled:opacity-60"
+            >
+              {isSaving ? "Saving..." : "Save"}
+            </button>
+          </div>
+        </form>
+      </aside>
+    </div>,
+    document.body
+  );
+}
@@ -0,0 +1,829 @@
+// @vitest-environment jsdom
+import { act, renderHook, waitFor } from "@testing-library/react";
+import { describe, expect, it, vi } from "vitest";
+import { useChat } from "@/hooks/use-chat";
+import { encodeFrame, type StreamFrame } from "@/lib/memory/stream-protocol";
+import { frameResponse } from "@/test/route-helpers";
+
+type Handler = (init: RequestInit | undefined) => Response | Promise<Response>;
+
+function routeFetch(routes: Record<string, Handler>) {
+  const fetchMock = vi.fn(async (input: RequestInfo | URL, init?: RequestInit) => {
+    const key = `${(init?.method ?? "GET").toUpperCase()} ${String(input)}`;
+    const handler = routes[key];
+    if (!handler) throw new Error(`Unhandled fetch: ${key}`);
+    return handler(init);
+  });
+  vi.stubGlobal("fetch", fetchMock);
+  return fetchMock;
+}
+
+const THREADS = [
+  { id: "t1", userId: "u1", title: "First", createdAt: "2026-01-01T00:00:00.000Z" },
+  { id: "t2", userId: "u1", title: "Second", createdAt: "2026-01-02T00:00:00.000Z" }
+];
+
+const T1_MESSAGES = [
+  { id: "e1", threadId: "t1", role: "user", content: "hi", createdAt: "2026-01-01T00:00:00.000Z" },
+  {
+    id: "e2",
+    threadId: "t1",
+    role: "assistant",
+    content: "hello",
+    createdAt: "2026-01-01T00:00:01.000Z"
+  }
+];
+
+async function renderBootstrapped() {
+  const hook = renderHook(() => useChat());
+  await waitFor(() => expect(hook.result.current.isBootstrapping).toBe(false));
+  return hook;
+}
+
+describe("useChat", () => {
+  it("bootstraps the thread list and opens a fresh chat", async () => {
+    routeFetch({
+      "GET /api/chat/threads": () => Response.json({ threads: THREADS })
+    });
+
+    const { result } = await renderBootstrapped();
+
+    expect(result.current.threads.map((thread) => thread.id)).toEqual(["t1", "t2"]);
+    expect(result.current.threadId).toBeNull();
+    expect(result.current.error).toBeNull();
+  });
+
+  it("reads the backend's message actions from the thread list", async () => {
+    routeFetch({
+      "GET /api/chat/threads": () =>
+        Response.json({
+          threads: THREADS,
+          capabilities: { regenerate: true, versions: true, edit: false, branch: false }
+        })
+    });
+
+    const { result } = await renderBootstrapped();
+
+    expect(result.current.capabilities).toEqual({
+      regenerate: true,
+      versions: true,
+      edit: false,
+      branch: false
+    });
+  });
+
+  it("surfaces degraded bootstrap responses as errors", async () => {
+    routeFetch({
+      "GET /api/chat/threads": () =>
+        Response.json({ threads: [], degraded: true, warning: "backend down" })
+    });
+
+    const { result } = await renderBootstrapped();
+
+    expect(result.current.error).toBe("backend down");
+  });
+
+  it("creates a thread on first send and streams the assistant reply", async () => {
+    const fetchMock = routeFetch({
+      "GET /api/chat/threads": () => Response.json({ threads: [] }),
+      "POST /api/chat/threads": () => Response.json({ threadId: "t9" }, { status: 201 }),
+      "PATCH /api/chat/t9": () => Response.json({ ok: true }),
+      "POST /api/chat/t9/messages": () =>
+        frameResponse(["Hel", "lo ", "there"])
+    });
+    const { result } = await renderBootstrapped();
+
+    await act(async () => {
+      await result.current.sendMessage("  Plan my week  ");
+    });
+
+    expect(result.current.threadId).toBe("t9");
+    expect(result.current.threads[0]).toMatchObject({ id: "t9", title: "Plan my week" });
+    expect(result.current.isStreaming).toBe(false);
+    expect(result.current.messages.map((message) => [message.role, message.content])).toEqual([
+      ["user", "Plan my week"],
+      ["assistant", "Hello there"]
+    ]);
+    expect(result.current.messages[1].isStreaming).toBe(false);
+    const sendCall = fetchMock.mock.calls.find(
+      ([url, init]) => url === "/api/chat/t9/messages" && init?.method === "POST"
+    );
+    expect(JSON.parse(String(sendCall?.[1]?.body))).toEqual({ text: "Plan my week" });
+  });
+
+  it("keeps the optimistic turn and shows a fallback when the stream fails", async () => {
+    routeFetch({
+      "GET /api/chat/threads": () => Response.json({ threads: THREADS }),
+      "GET /api/chat/t1/messages": () => Response.json({ messages: T1_MESSAGES }),
+      "POST /api/chat/t1/messages": () =>
+        Response.json({ error: { message: "Backend down" } }, { status: 503 })
+    });
+    const { result } = await renderBootstrapped();
+    await act(async () => {
+      await result.current.selectThread("t1");
+    });
+
+    await act(async () => {
+      await result.current.sendMessage("again");
+    });
+
+    expect(result.current.error).toBe("Backend down");
+    const last = result.current.messages.at(-1);
+    expect(last).toMatchObject({ role: "assistant", isStreaming: false });
+    expect(last?.content).toContain("local fallback reply");
+    expect(result.current.messages.at(-2)).toMatchObject({ role: "user", content: "again" });
+  });
+
+  it("keeps the streamed text and reports an error frame", async () => {
+    routeFetch({
+      "GET /api/chat/threads": () => Response.json({ threads: THREADS }),
+      "GET /api/chat/t1/messages": () => Response.json({ messages: T1_MESSAGES }),
+      "POST /api/chat/t1/messages": () =>
+        frameResponse([], {
+          frames: [
+            { type: "start", userEventId: "e3", assistantEventId: null, model: "demo" },
+            { type: "delta", text: "Half an" },
+            { type: "error", message: "Model overloaded" },
+            { type: "done", userEventId: "e3", assistantEventId: "e4", interrupted: false }
+          ]
+        })
+    });
+    const { result } = await renderBootstrapped();
+    await act(async () => {
+      await result.current.selectThread("t1");
+    });
+
+    await act(async () => {
+      await result.current.sendMessage("again");
+    });
+
+    expect(result.current.error).toBe("Model overloaded");
+    expect(result.current.messages.at(-1)).toMatchObject({
+      role: "assistant",
+      content: "Half an",
+      isStreaming: false
+    });
+  });
+
+  it("drops a rate-limited turn, starts the cooldown and tracks the quota", async () => {
+    let limited = false;
+    routeFetch({
+      "GET /api/chat/threads": () => Response.json({ threads: THREADS }),
+      "GET /api/chat/t1/messages": () => Response.json({ messages: T1_MESSAGES }),
+      "POST /api/chat/t1/messages": () =>
+        limited
+          ? Response.json(
+              { error: { message: "You're sending messages too quickly. Try again in 30s." } },
+              { status: 429, headers: { "Retry-After": "30" } }
+            )
+          : frameResponse(["ok"], {
+              headers: {
+                "x-quota-messages-remaining": "9",
+                "x-quota-reset": "2026-01-02T00:00:00.000Z"
+              }
+            })
+    });
+    const { result } = await renderBootstrapped();
+    await act(async () => {
+      await result.current.selectThread("t1");
+    });
+
+    await act(async () => {
+      await result.current.sendMessage("first");
+    });
+    limited = true;
+    await act(async () => {
+      await result.current.sendMessage("second");
+    });
+
+    expect(result.current.quota).toEqual({
+      messagesRemaining: 9,
+      tokensRemaining: null,
+      resetAt: "2026-01-02T00:00:00.000Z"
+    });
+    expect(result.current.cooldownUntil).toBeGreaterThan(Date.now() + 25_000);
+    expect(result.current.error).toContain("too quickly");
+    expect(result.current.messages.map((message) => message.content)).toEqual([
+      "hi",
+      "hello",
+      "first",
+      "ok"
+    ]);
+  });
+
+  it("stops an in-flight stream and keeps the partial reply marked as interrupted", async () => {
+    routeFetch({
+      "GET /api/chat/threads": () => Response.json({ threads: THREADS }),
+      "GET /api/chat/t1/messages": () => Response.json({ messages: T1_MESSAGES }),
+      "POST /api/chat/t1/messages": (init) => {
+        const body = new ReadableStream<Uint8Array>({
+          start(controller) {
+            controller.enqueue(
+              new TextEncoder().encode(encodeFrame({ type: "delta", text: "Partial answer" }))
+            );
+            init?.signal?.addEventListener("abort", () =>
+              controller.error(new DOMException("Aborted", "AbortError"))
+            );
+          }
+        });
+        return new Response(body, { status: 200 });
+      }
+    });
+    const { result } = await renderBootstrapped();
+    await act(async () => {
+      await result.current.selectThread("t1");
+    });
+
+    let pending: Promise<void> = Promise.resolve();
+    act(() => {
+      pending = result.current.sendMessage("long question");
+    });
+    await waitFor(() => expect(result.current.messages.at(-1)?.content).toBe("Partial answer"));
+
+    await act(async () => {
+      result.current.stopStreaming();
+      await pending;
+    });
+
+    expect(result.current.error).toBeNull();
+    expect(result.current.isStreaming).toBe(false);
+    expect(result.current.messages.at(-1)).toMatchObject({
+      role: "assistant",
+      content: "Partial answer",
+      isStreaming: false,
+      meta: { interrupted: true }
+    });
+  });
+
+  it("swaps optimistic ids for the event ids reported by the stream", async () => {
+    const fetchMock = routeFetch({
+      "GET /api/chat/threads": () => Response.json({ threads: THREADS }),
+      "GET /api/chat/t1/messages": () => Response.json({ messages: T1_MESSAGES }),
+      "POST /api/chat/t1/messages": () =>
+        frameResponse([], {
+          frames: [
+            { type: "start", userEventId: "e3", assistantEventId: null, model: null },
+            { type: "delta", text: "hello" },
+            { type: "done", userEventId: "e3", assistantEventId: "e4", interrupted: false }
+          ]
+        }),
+      "POST /api/chat/t1/messages/e4/reaction": () => Response.json({ reaction: "heart" })
+    });
+    const { result } = await renderBootstrapped();
+    await act(async () => {
+      await result.current.selectThread("t1");
+    });
+
+    // Same text as the first turn, so matching on content would pick e1 / e2.
+    await act(async () => {
+      await result.current.sendMessage("hi");
+    });
+    expect(result.current.messages.map((message) => message.id)).toEqual([
+      "e1",
+      "e2",
+      "e3",
+      "e4"
+    ]);
+
+    await act(async () => {
+      await result.current.reactToMessage("t1", "e4", "heart");
+    });
+    expect(result.current.error).toBeNull();
+    expect(result.current.messages[3].meta).toEqual({ reaction: "heart" });
+    expect(fetchMock).toHaveBeenCalledWith(
+      "/api/chat/t1/messages/e4/reaction",
+      expect.objectContaining({ method: "POST" })
+    );
+  });
+
+  it("resolves a stopped reply's event id by its position in the transcript", async () => {
+    let serverMessages = T1_MESSAGES;
+    routeFetch({
+      "GET /api/chat/threads": () => Response.json({ threads: THREADS }),
+      "GET /api/chat/t1/messages": () => Response.json({ messages: serverMessages }),
+      "POST /api/chat/t1/messages": (init) => {
+        const body = new ReadableStream<Uint8Array>({
+          start(controller) {
+            const encoder = new TextEncoder();
+            const frames: StreamFrame[] = [
+              { type: "start", userEventId: "e3", assistantEventId: null, model: null },
+              { type: "delta", text: "hello" }
+            ];
+            for (const frame of frames) controller.enqueue(encoder.encode(encodeFrame(frame)));
+            init?.signal?.addEventListener("abort", () =>
+              controller.error(new DOMException("Aborted", "AbortError"))
+            );
+          }
+        });
+        return new Response(body, { status: 200 });
+      },
+      "POST /api/chat/t1/messages/e4/reaction": () => Response.json({ reaction: "brain" })
+    });
+    const { result } = await renderBootstrapped();
+    await act(async () => {
+      await result.current.selectThread("t1");
+    });
+
+    let pending: Promise<void> = Promise.resolve();
+    act(() => {
+      pending = result.current.sendMessage("hi");
+    });
+    await waitFor(() => expect(result.current.messages.at(-1)?.content).toBe("hello"));
+    await act(async () => {
+      result.current.stopStreaming();
+      await pending;
+    });
+    const stopped = result.current.messages[3];
+    expect(result.current.messages[2].id).toBe("e3");
+    expect(stopped.id).toMatch(/^assistant-/);
+
+    serverMessages = [
+      ...T1_MESSAGES,
+      { id: "e3", threadId: "t1", role: "user", content: "hi", createdAt: "" },
+      { id: "e4", threadId: "t1", role: "assistant", content: "hello", createdAt: "" }
+    ];
+    await act(async () => {
+      await result.current.reactToMessage("t1", stopped.id, "brain");
+    });
+    expect(result.current.error).toBeNull();
+    expect(result.current.messages[3].meta).toMatchObject({ reaction: "brain" });
+  });
+
+  it("stores a model picked before the first send and rolls back failed switches", async () => {
+    const modelBodies: unknown[] = [];
+    const fetchMock = routeFetch({
+      "GET /api/chat/threads": () => Response.json({ threads: [] }),
+      "POST /api/chat/threads": () => Response.json({ threadId: "t9" }, { status: 201 }),
+      "PATCH /api/chat/t9": () => Response.json({ ok: true }),
+      "PUT /api/chat/t9/model": (init) => {
+        modelBodies.push(JSON.parse(String(init?.body)));
+        return modelBodies.length === 1
+          ? Response.json({ ok: true })
+          : Response.json({ error: { message: "Unknown model." } }, { status: 422 });
+      },
+      "POST /api/chat/t9/messages": () => frameResponse(["hi"])
+    });
+    const { result } = await renderBootstrapped();
+
+    await act(async () => {
+      await result.current.selectModel("local/llama3.2");
+    });
+    expect(result.current.activeModel).toBe("local/llama3.2");
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    await act(async () => {
+      await result.current.sendMessage("hello");
+    });
+    const urls = fetchMock.mock.calls.map(([url]) => String(url));
+    expect(urls.indexOf("/api/chat/t9/model")).toBeLessThan(urls.indexOf("/api/chat/t9/messages"));
+    expect(result.current.threads[0]).toMatchObject({ id: "t9", model: "local/llama3.2" });
+
+    await act(async () => {
+      await result.current.selectModel("openai/gpt-5");
+    });
+    expect(modelBodies).toEqual([{ model: "local/llama3.2" }, { model: "openai/gpt-5" }]);
+    expect(result.current.activeModel).toBe("local/llama3.2");
+    expect(result.current.error).toBe("Unknown model.");
+  });
+
+  it("sends a new chat's settings with its first message and saves later changes", async () => {
+    const fetchMock = routeFetch({
+      "GET /api/chat/threads": () => Response.json({ threads: [] }),
+      "POST /api/chat/threads": () => Response.json({ threadId: "t9" }, { status: 201 }),
+      "PATCH /api/chat/t9": () => Response.json({ ok: true }),
+      "POST /api/chat/t9/messages": () => frameResponse(["hi"]),
+      "PUT /api/chat/t9/settings": (init) =>
+        Response.json({ ok: true, ...JSON.parse(String(init?.body)) })
+    });
+    const { result } = await renderBootstrapped();
+
+    await act(async () => {
+      await result.current.saveThreadSettings({ temperature: 0.9 });
+    });
+    await act(async () => {
+      await result.current.sendMessage("hello");
+    });
+    const sendCall = fetchMock.mock.calls.find(([url]) => url === "/api/chat/t9/messages");
+    expect(JSON.parse(String(sendCall?.[1]?.body))).toEqual({
+      text: "hello",
+      settings: { temperature: 0.9 }
+    });
+    expect(result.current.activeSettings).toEqual({ temperature: 0.9 });
+
+    await act(async () => {
+      await result.current.saveThreadSettings({ maxTokens: 64 });
+    });
+    expect(result.current.activeSettings).toEqual({ maxTokens: 64 });
+  });
+
+  it("attaches a new chat's persona before its first message and can detach it", async () => {
+    const personaBodies: unknown[] = [];
+    const fetchMock = routeFetch({
+      "GET /api/chat/threads": () => Response.json({ threads: [] }),
+      "POST /api/chat/threads": () => Response.json({ threadId: "t9" }, { status: 201 }),
+      "PATCH /api/chat/t9": () => Response.json({ ok: true }),
+      "POST /api/chat/t9/messages": () => frameResponse(["hi"]),
+      "PUT /api/chat/t9/persona": (init) => {
+        personaBodies.push(JSON.parse(String(init?.body)));
+        return Response.json({ ok: true });
+      }
+    });
+    const { result } = await renderBootstrapped();
+
+    await act(async () => {
+      await result.current.selectPersona("p1");
+    });
+    expect(result.current.activePersonaId).toBe("p1");
+    await act(async () => {
+      await result.current.sendMessage("hello");
+    });
+    const urls = fetchMock.mock.calls.map(([url]) => String(url));
+    expect(urls.indexOf("/api/chat/t9/persona")).toBeLessThan(
+      urls.indexOf("/api/chat/t9/messages")
+    );
+    expect(result.current.threads[0]).toMatchObject({ id: "t9", personaId: "p1" });
+
+    await act(async () => {
+      await result.current.selectPersona(null);
+    });
+    expect(personaBodies).toEqual([{ personaId: "p1" }, { personaId: null }]);
+    expect(result.current.activePersonaId).toBeNull();
+  });
+
+  it("rolls back an optimistic rename on failure", async () => {
+    routeFetch({
+      "GET /api/chat/threads": () => Response.json({ threads: THREADS }),
+      "PATCH /api/chat/t1": () =>
+        Response.json({ error: { message: "Rename refused" } }, { status: 403 })
+    });
+    const { result } = await renderBootstrapped();
+
+    await act(async () => {
+      await expect(result.current.renameThread("t1", "Renamed")).rejects.toThrow(
+        "Rename refused"
+      );
+    });
+
+    expect(result.current.threads[0].title).toBe("First");
+    expect(result.current.error).toBe("Rename refused");
+  });
+
+  it("restores the thread list when delete fails", async () => {
+    routeFetch({
+      "GET /api/chat/threads": () => Response.json({ threads: THREADS }),
+      "GET /api/chat/t1/messages": () => Response.json({ messages: T1_MESSAGES }),
+      "DELETE /api/chat/t1": () =>
+        Response.json({ error: { message: "Delete failed" } }, { status: 503 })
+    });
+    const { result } = await renderBootstrapped();
+    await act(async () => {
+      await result.current.selectThread("t1");
+    });
+
+    await act(async () => {
+      await expect(result.current.deleteThread("t1")).rejects.toThrow("Delete failed");
+    });
+
+    expect(result.current.threads.map((thread) => thread.id)).toEqual(["t1", "t2"]);
+    expect(result.current.threadId).toBe("t1");
+    expect(result.current.messages).toHaveLength(2);
+  });
+
+  it("applies reactions optimistically and reverts on failure", async () => {
+    let reactionStatus = 200;
+    routeFetch({
+      "GET /api/chat/threads": () => Response.json({ threads: THREADS }),
+      "GET /api/chat/t1/messages": () => Response.json({ messages: T1_MESSAGES }),
+      "POST /api/chat/t1/messages/e2/reaction": (init) => {
+        const body = JSON.parse(String(init?.body)) as { reaction: string | null };
+        return reactionStatus === 200
+          ? Response.json({ reaction: body.reaction })
+          : Response.json({ error: { message: "Nope" } }, { status: reactionStatus });
+      }
+    });
+    const { result } = await renderBootstrapped();
+    await act(async () => {
+      await result.current.selectThread("t1");
+    });
+
+    await act(async () => {
+      await result.current.reactToMessage("t1", "e2", "heart");
+    });
+    expect(result.current.messages[1].meta).toEqual({ reaction: "heart" });
+
+    reactionStatus = 500;
+    await act(async () => {
+      await result.current.reactToMessage("t1", "e2", "brain");
+    });
+    expect(result.current.messages[1].meta).toEqual({ reaction: "heart" });
+    expect(result.current.error).toBe("Nope");
+  });
+
+  it("loads older pages in front of the transcript until the cursor runs out", async () => {
+    const older = [
+      {
+        id: "e0",
+        threadId: "t1",
+        role: "user",
+        content: "earlier",
+        createdAt: "2025-12-31T00:00:00.000Z"
+      }
+    ];
+    routeFetch({
+      "GET /api/chat/threads": () => Response.json({ threads: THREADS }),
+      "GET /api/chat/t1/messages": () =>
+        Response.json({ messages: T1_MESSAGES, hasMore: true, nextCursor: "e1" }),
+      "GET /api/chat/t1/messages?before=e1": () =>
+        Response.json({ messages: older, hasMore: false, nextCursor: null })
+    });
+    const { result } = await renderBootstrapped();
+    await act(async () => {
+      await result.current.selectThread("t1");
+    });
+    expect(result.current.hasOlderMessages).toBe(true);
+
+    await act(async () => {
+      await result.current.loadOlderMessages();
+    });
+
+    expect(result.current.messages.map((message) => message.id)).toEqual(["e0", "e1", "e2"]);
+    expect(result.current.hasOlderMessages).toBe(false);
+    expect(result.current.isLoadingOlder).toBe(false);
+  });
+
+  it("keeps the report of imported batches when a later batch fails", async () => {
+    const conversations = Array.from({ length: 26 }, (_, index) => ({
+      conversation_id: `c${index}`,
+      title: `Chat ${index}`,
+      mapping: {}
+    }));
+    let posts = 0;
+    routeFetch({
+      "GET /api/chat/threads": () => Response.json({ threads: THREADS }),
+      "POST /api/chat/import": () => {
+        posts += 1;
+        if (posts > 1) throw new TypeError("Failed to fetch");
+        return Response.json({
+          source: "chatgpt",
+          imported: 25,
+          failed: 0,
+          results: conversations.slice(0, 25).map((conversation, index) => ({
+            sourceId: conversation.conversation_id,
+            title: conversation.title,
+            status: "imported",
+            threadId: `new-${index}`,
+            messageCount: 1
+          }))
+        });
+      }
+    });
+    const { result } = await renderBootstrapped();
+    const progress: unknown[] = [];
+
+    let report: unknown = null;
+    await act(async () => {
+      report = await result.current.importConversations(
+        // jsdom's File has no `text()`; the hook only reads the file through it.
+        { text: async () => JSON.stringify(conversations) } as unknown as File,
+        (update) => progress.push(update)
+      );
+    });
+
+    expect(report).toMatchObject({
+      imported: 25,
+      failed: 1,
+      results: expect.arrayContaining([
+        { sourceId: "c25", title: "Chat 25", status: "failed", error: "Failed to fetch" }
+      ])
+    });
+    expect(progress).toEqual([
+      { done: 25, total: 26 },
+      { done: 26, total: 26 }
+    ]);
+    expect(result.current.threads).toHaveLength(27);
+  });
+
+  it("stops paging when the backend ignores the cursor", async () => {
+    const fetchMock = routeFetch({
+      "GET /api/chat/threads": () => Response.json({ threads: THREADS }),
+      "GET /api/chat/t1/messages": () =>
+        Response.json({ messages: T1_MESSAGES, hasMore: true, nextCursor: "e1" }),
+      "GET /api/chat/t1/messages?before=e1": () =>
+        Response.json({ messages: T1_MESSAGES, hasMore: true, nextCursor: "e1" })
+    });
+    const { result } = await renderBootstrapped();
+    await act(async () => {
+      await result.current.selectThread("t1");
+    });
+
+    await act(async () => {
+      await result.current.loadOlderMessages();
+    });
+
+    expect(result.current.messages.map((message) => message.id)).toEqual(["e1", "e2"]);
+    expect(result.current.hasOlderMessages).toBe(false);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it("searches messages and jumps to a hit on an older page", async () => {
+    const hit = {
+      threadId: "t1",
+      threadTitle: "First",
+      event: { ...T1_MESSAGES[0], id: "e0", content: "find me" },
+      snippet: "find me"
+    };
+    routeFetch({
+      "GET /api/chat/threads": () => Response.json({ threads: THREADS }),
+      "GET /api/chat/search?q=find+me": () => Response.json({ query: "find me", results: [hit] }),
+      "GET /api/chat/t1/messages": () =>
+        Response.json({ messages: T1_MESSAGES, hasMore: true, nextCursor: "e1" }),
+      "GET /api/chat/t1/messages?before=e1": () =>
+        Response.json({ messages: [hit.event], hasMore: false, nextCursor: null })
+    });
+    const { result } = await renderBootstrapped();
+
+    let results: unknown[] = [];
+    await act(async () => {
+      results = await result.current.searchMessages(" find me ");
+    });
+    expect(results).toEqual([hit]);
+
+    await act(async () => {
+      await result.current.openSearchResult("t1", "e0");
+    });
+
+    expect(result.current.threadId).toBe("t1");
+    expect(result.current.messages.map((message) => message.id)).toEqual(["e0", "e1", "e2"]);
+    expect(result.current.focusRequest?.messageId).toBe("e0");
+    expect(result.current.hasOlderMessages).toBe(false);
+  });
+
+  it("keeps each message once when jumping to a hit on a repeating page", async () => {
+    const fetchMock = routeFetch({
+      "GET /api/chat/threads": () => Response.json({ threads: THREADS }),
+      "GET /api/chat/t1/messages": () =>
+        Response.json({ messages: T1_MESSAGES, hasMore: true, nextCursor: "e1" }),
+      "GET /api/chat/t1/messages?before=e1": () =>
+        Response.json({ messages: T1_MESSAGES, hasMore: true, nextCursor: "e1" })
+    });
+    const { result } = await renderBootstrapped();
+
+    await act(async () => {
+      await result.current.openSearchResult("t1", "e0");
+    });
+
+    expect(result.current.messages.map((message) => message.id)).toEqual(["e1", "e2"]);
+    expect(result.current.hasOlderMessages).toBe(false);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it("edits a user message, drops later turns and streams the new reply", async () => {
+    const fetchMock = routeFetch({
+      "GET /api/chat/threads": () => Response.json({ threads: THREADS }),
+      "GET /api/chat/t1/messages": () => Response.json({ messages: T1_MESSAGES }),
+      "POST /api/chat/t1/messages/e1/edit": () =>
+        frameResponse(["hi ", "back"])
+    });
+    const { result } = await renderBootstrapped();
+    await act(async () => {
+      await result.current.selectThread("t1");
+    });
+
+    await act(async () => {
+      await result.current.editMessage("t1", "e1", " hey ");
+    });
+
+    expect(result.current.messages.map((message) => [message.role, message.content])).toEqual([
+      ["user", "hey"],
+      ["assistant", "hi back"]
+    ]);
+    expect(result.current.messages[0].meta).toEqual({ edited: true });
+    const editCall = fetchMock.mock.calls.find(([url]) => url === "/api/chat/t1/messages/e1/edit");
+    expect(JSON.parse(String(editCall?.[1]?.body))).toEqual({ text: "hey" });
+  });
+
+  it("restores the transcript when an edit fails", async () => {
+    routeFetch({
+      "GET /api/chat/threads": () => Response.json({ threads: THREADS }),
+      "GET /api/chat/t1/messages": () => Response.json({ messages: T1_MESSAGES }),
+      "POST /api/chat/t1/messages/e1/edit": () =>
+        Response.json({ error: { message: "Not supported" } }, { status: 501 })
+    });
+    const { result } = await renderBootstrapped();
+    await act(async () => {
+      await result.current.selectThread("t1");
+    });
+
+    await act(async () => {
+      await result.current.editMessage("t1", "e1", "hey");
+    });
+
+    expect(result.current.messages.map((message) => message.content)).toEqual(["hi", "hello"]);
+    expect(result.current.error).toBe("Not supported");
+  });
+
+  it("branches a thread from a message and opens the copy", async () => {
+    const branch = {
+      id: "t3",
+      userId: "u1",
+      title: "First (branch)",
+      createdAt: "2026-01-03T00:00:00.000Z",
+      parentThreadId: "t1"
+    };
+    routeFetch({
+      "GET /api/chat/threads": () => Response.json({ threads: THREADS }),
+      "GET /api/chat/t1/messages": () => Response.json({ messages: T1_MESSAGES }),
+      "POST /api/chat/t1/messages/e1/fork": () => Response.json({ thread: branch }, { status: 201 }),
+      "GET /api/chat/t3/messages": () =>
+        Response.json({ messages: [{ ...T1_MESSAGES[0], id: "e9", threadId: "t3" }] })
+    });
+    const { result } = await renderBootstrapped();
+    await act(async () => {
+      await result.current.selectThread("t1");
+    });
+
+    await act(async () => {
+      await result.current.branchFromMessage("t1", "e1");
+    });
+
+    expect(result.current.threadId).toBe("t3");
+    expect(result.current.threads[0]).toMatchObject({ id: "t3", parentThreadId: "t1" });
+    expect(result.current.messages.map((message) => message.id)).toEqual(["e9"]);
+  });
+
+  it("regenerates the latest reply and pages between versions", async () => {
+    let versionStatus = 200;
+    routeFetch({
+      "GET /api/chat/threads": () => Response.json({ threads: THREADS }),
+      "GET /api/chat/t1/messages": () => Response.json({ messages: T1_MESSAGES }),
+      "POST /api/chat/t1/messages/e2/regenerate": () =>
+        frameResponse(["hey ", "again"]),
+      "POST /api/chat/t1/messages/e2/version": () =>
+        versionStatus === 200
+          ? Response.json({ ok: true })
+          : Response.json({ error: { message: "No such version" } }, { status: versionStatus })
+    });
+    const { result } = await renderBootstrapped();
+    await act(async () => {
+      await result.current.selectThread("t1");
+    });
+
+    await act(async () => {
+      await result.current.regenerateMessage("t1", "e2");
+    });
+    expect(result.current.messages[1]).toMatchObject({
+      content: "hey again",
+      isStreaming: false,
+      meta: { versions: ["hello", "hey again"], activeVersion: 1 }
+    });
+
+    await act(async () => {
+      await result.current.selectMessageVersion("t1", "e2", 0);
+    });
+    expect(result.current.messages[1]).toMatchObject({
+      content: "hello",
+      meta: { activeVersion: 0 }
+    });
+
+    versionStatus = 422;
+    await act(async () => {
+      await result.current.selectMessageVersion("t1", "e2", 1);
+    });
+    expect(result.current.messages[1].content).toBe("hello");
+    expect(result.current.error).toBe("No such version");
+  });
+
+  it("keeps the previous reply when regeneration fails", async () => {
+    routeFetch({
+      "GET /api/chat/threads": () => Response.json({ threads: THREADS }),
+      "GET /api/chat/t1/messages": () => Response.json({ messages: T1_MESSAGES }),
+      "POST /api/chat/t1/messages/e2/regenerate": () =>
+        Response.json({ error: { message: "Not supported" } }, { status: 501 })
+    });
+    const { result } = await renderBootstrapped();
+    await act(async () => {
+      await result.current.selectThread("t1");
+    });
+
+    await act(async () => {
+      await result.current.regenerateMessage("t1", "e2");
+    });
+
+    expect(result.current.messages[1]).toMatchObject({ content: "hello", isStreaming: false });
+    expect(result.current.error).toBe("Not supported");
+  });
+
+  it("promotes threads and marks them as core memory", async () => {
+    routeFetch({
+      "GET /api/chat/threads": () => Response.json({ threads: THREADS }),
+      "POST /api/chat/t2/promote": () => Response.json({ ok: true })
+    });
+    const { result } = await renderBootstrapped();
+
+    await act(async () => {
+      await result.current.promoteThread("t2");
+    });
+
+    expect(result.current.threads[1].isCoreMemory).toBe(true);
+  });
+});
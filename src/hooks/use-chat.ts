@@ -1,7 +1,27 @@
 "use client";
 
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
-import type { ThreadRecord, UIMessage } from "@/lib/memory/types";
+import {
+  mergeImportReports,
+  splitImportBatches,
+  type ImportBatchOutcome,
+  type ImportReport,
+  type ImportSource
+} from "@/lib/memory/thread-import";
+import type {
+  EventSearchHit,
+  GenerationSettings,
+  ThreadCapabilities,
+  ThreadRecord,
+  UIMessage
+} from "@/lib/memory/types";
+import { withActiveVersion, withAppendedVersion } from "@/lib/memory/versions";
+import {
+  readFrames,
+  type StreamDoneFrame,
+  type StreamStartFrame
+} from "@/lib/memory/stream-protocol";
+import { readQuotaHeaders, type ChatQuota } from "@/lib/chat-quota";
 
 export type ChatMessage = UIMessage & {
   isStreaming?: boolean;
@@ -9,7 +29,25 @@ export type ChatMessage = UIMessage & {
 
 export type MessageReaction = "thumbs_up" | "heart" | "angry" | "sad" | "brain";
 
-export type ChatThread = Pick<ThreadRecord, "id" | "title" | "createdAt" | "isCoreMemory">;
+export type MessageFocusRequest = {
+  messageId: string;
+  requestedAt: number;
+};
+
+// Conversations sent so far during a batched import.
+export type ImportProgress = { done: number; total: number };
+
+export type ChatThread = Pick<
+  ThreadRecord,
+  | "id"
+  | "title"
+  | "createdAt"
+  | "isCoreMemory"
+  | "parentThreadId"
+  | "model"
+  | "settings"
+  | "personaId"
+>;
 
 type UseChatResult = {
   threadId: string | null;
@@ -18,21 +56,132 @@ type UseChatResult = {
   isBootstrapping: boolean;
   isThreadTransitioning: boolean;
   isStreaming: boolean;
+  hasOlderMessages: boolean;
+  isLoadingOlder: boolean;
+  focusRequest: MessageFocusRequest | null;
+  // Message actions the backend supports, from the thread list; all off until it loads.
+  capabilities: ThreadCapabilities;
+  // Daily allowance reported by the last metered response; null until one arrives.
+  quota: ChatQuota | null;
+  // Epoch ms until which the server asked us to stop sending (429 `Retry-After`).
+  cooldownUntil: number | null;
+  // Model for the open thread, or for the next new chat; null uses the server default.
+  activeModel: string | null;
+  // Generation settings for the open thread, or for the next new chat.
+  activeSettings: GenerationSettings | null;
+  // Persona for the open thread, or for the next new chat; null means none.
+  activePersonaId: string | null;
   error: string | null;
   clearError: () => void;
+  loadOlderMessages: () => Promise<void>;
+  searchMessages: (query: string) => Promise<EventSearchHit[]>;
+  openSearchResult: (threadId: string, messageId: string) => Promise<void>;
   selectThread: (threadId: string) => Promise<void>;
   createThread: () => Promise<void>;
   renameThread: (threadId: string, title: string) => Promise<void>;
   deleteThread: (threadId: string) => Promise<void>;
   promoteThread: (threadId: string) => Promise<void>;
+  selectModel: (model: string | null) => Promise<void>;
+  saveThreadSettings: (settings: GenerationSettings | null) => Promise<void>;
+  selectPersona: (personaId: string | null) => Promise<void>;
+  importConversations: (
+    file: File,
+    onProgress?: (progress: ImportProgress) => void
+  ) => Promise<ImportReport>;
   sendMessage: (text: string) => Promise<void>;
+  stopStreaming: () => void;
   reactToMessage: (
     threadId: string,
     messageId: string,
     reaction: MessageReaction
   ) => Promise<void>;
+  editMessage: (threadId: string, messageId: string, text: string) => Promise<void>;
+  branchFromMessage: (threadId: string, messageId: string) => Promise<void>;
+  regenerateMessage: (threadId: string, messageId: string) => Promise<void>;
+  selectMessageVersion: (threadId: string, messageId: string, index: number) => Promise<void>;
+};
+
+const NO_CAPABILITIES: ThreadCapabilities = {
+  regenerate: false,
+  versions: false,
+  edit: false,
+  branch: false
 };
 
+type MessagePage = {
+  messages?: UIMessage[];
+  hasMore?: boolean;
+  nextCursor?: string | null;
+  degraded?: boolean;
+  warning?: string;
+};
+
+async function fetchMessagePage(
+  threadId: string,
+  before: string | null,
+  fallbackError: string
+): Promise<{ messages: UIMessage[]; nextCursor: string | null }> {
+  const query = before ? `?${new URLSearchParams({ before }).toString()}` : "";
+  const res = await fetch(`/api/chat/${threadId}/messages${query}`, { method: "GET" });
+  if (!res.ok) {
+    const payload = (await res.json().catch(() => null)) as
+      | { error?: { message?: string } }
+      | null;
+    throw new Error(payload?.error?.message ?? fallbackError);
+  }
+  const page = (await res.json()) as MessagePage;
+  if (page.degraded) {
+    throw new Error(page.warning ?? "Chat messages are temporarily unavailable.");
+  }
+  return {
+    messages: Array.isArray(page.messages) ? page.messages : [],
+    nextCursor: page.hasMore ? (page.nextCursor ?? null) : null
+  };
+}
+
+// Large exports go up in batches (`splitImportBatches`), so no single request hits the
+// server's size cap or a proxy timeout. A failed first batch fails the whole import (nothing is
+// stored yet, or the file is unreadable); once a batch has gone through, later failures, network
+// errors included, are reported per conversation so the report still shows what was imported.
+async function postImportBatches(
+  text: string,
+  onProgress?: (progress: ImportProgress) => void
+): Promise<ImportReport> {
+  const batches = splitImportBatches(text);
+  const total = batches.reduce((sum, batch) => sum + Math.max(batch.items.length, 1), 0);
+  const outcomes: ImportBatchOutcome[] = [];
+  let source: ImportSource | null = null;
+  let done = 0;
+  for (const batch of batches) {
+    try {
+      const report = await postImportBatch(batch.body);
+      source = source ?? report.source;
+      outcomes.push({ batch, report });
+    } catch (err) {
+      if (!source) throw err;
+      outcomes.push({ batch, error: err instanceof Error ? err.message : "Import failed." });
+    }
+    done += Math.max(batch.items.length, 1);
+    onProgress?.({ done, total });
+  }
+  return mergeImportReports(source ?? "chatgpt", outcomes);
+}
+
+async function postImportBatch(body: string): Promise<ImportReport> {
+  const res = await fetch("/api/chat/import", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body
+  });
+  if (!res.ok) {
+    const payload = (await res.json().catch(() => null)) as
+      | { error?: { message?: string } }
+      | null;
+    throw new Error(payload?.error?.message ?? "Import failed.");
+  }
+  return (await res.json()) as ImportReport;
+}
+
 function deriveTitle(text: string): string {
   const cleaned = text.replace(/\s+/g, " ").trim();
   if (!cleaned) return "New chat";
@@ -40,6 +189,85 @@ function deriveTitle(text: string): string {
   return words.length > 60 ? `${words.slice(0, 57)}...` : words;
 }
 
+type StreamSummary = {
+  start: StreamStartFrame | null;
+  done: StreamDoneFrame | null;
+  // Message of an `error` frame; text that arrived before it is still part of the reply.
+  error: string | null;
+};
+
+// Reads the NDJSON frame stream, batching delta text into ~32ms flushes so long replies
+// don't re-render per token. A read error caused by the caller aborting is treated as a
+// normal end of stream.
+async function readChatStream(
+  body: ReadableStream<Uint8Array>,
+  signal: AbortSignal,
+  onText: (text: string) => void
+): Promise<StreamSummary> {
+  const summary: StreamSummary = { start: null, done: null, error: null };
+  let pendingChunk = "";
+  let flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const flushPendingChunk = () => {
+    if (!pendingChunk) return;
+    const nextChunk = pendingChunk;
+    pendingChunk = "";
+    onText(nextChunk);
+  };
+
+  const scheduleChunkFlush = () => {
+    if (flushTimer) return;
+    flushTimer = setTimeout(() => {
+      flushTimer = null;
+      flushPendingChunk();
+    }, 32);
+  };
+
+  try {
+    for await (const frame of readFrames(body)) {
+      if (frame.type === "delta") {
+        if (!frame.text) continue;
+        pendingChunk += frame.text;
+        scheduleChunkFlush();
+      } else if (frame.type === "error") {
+        summary.error = frame.message;
+      } else if (frame.type === "start") {
+        summary.start = frame;
+      } else if (frame.type === "done") {
+        summary.done = frame;
+      }
+    }
+  } catch (readError) {
+    if (!signal.aborted) throw readError;
+  }
+  if (flushTimer) {
+    clearTimeout(flushTimer);
+    flushTimer = null;
+  }
+  flushPendingChunk();
+  return summary;
+}
+
+// Server ids for the turn: `start` carries the ids known up front, `done` the persisted ones.
+// Either can be missing when the stream was stopped or the backend does not report them.
+function turnEventIds(summary: StreamSummary): Record<"user" | "assistant", string | null> {
+  return {
+    user: summary.done?.userEventId ?? summary.start?.userEventId ?? null,
+    assistant: summary.done?.assistantEventId ?? summary.start?.assistantEventId ?? null
+  };
+}
+
+// Swaps optimistic message ids (`user-<uuid>`, `assistant-<uuid>`) for server event ids.
+function withEventIds(
+  messages: ChatMessage[],
+  replacements: Record<string, string | null>
+): ChatMessage[] {
+  return messages.map((message) => {
+    const eventId = replacements[message.id];
+    return eventId ? { ...message, id: eventId } : message;
+  });
+}
+
 export function useChat(): UseChatResult {
   const [threadId, setThreadId] = useState<string | null>(null);
   const [threads, setThreads] = useState<ChatThread[]>([]);
@@ -48,11 +276,21 @@ export function useChat(): UseChatResult {
   const [isBootstrapping, setIsBootstrapping] = useState(true);
   const [isThreadTransitioning, setIsThreadTransitioning] = useState(false);
   const [isStreaming, setIsStreaming] = useState(false);
+  const [olderCursors, setOlderCursors] = useState<Record<string, string | null>>({});
+  const [isLoadingOlder, setIsLoadingOlder] = useState(false);
+  const [focusRequest, setFocusRequest] = useState<MessageFocusRequest | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [capabilities, setCapabilities] = useState<ThreadCapabilities>(NO_CAPABILITIES);
+  const [quota, setQuota] = useState<ChatQuota | null>(null);
+  const [cooldownUntil, setCooldownUntil] = useState<number | null>(null);
+  const [draftModel, setDraftModel] = useState<string | null>(null);
+  const [draftSettings, setDraftSettings] = useState<GenerationSettings | null>(null);
+  const [draftPersonaId, setDraftPersonaId] = useState<string | null>(null);
 
   const activeThreadRef = useRef<string | null>(null);
   const messageCacheRef = useRef<Record<string, ChatMessage[]>>({});
   const loadCounter = useRef(0);
+  const streamAbortRef = useRef<AbortController | null>(null);
 
   useEffect(() => {
     activeThreadRef.current = threadId;
@@ -62,6 +300,15 @@ export function useChat(): UseChatResult {
     messageCacheRef.current = messageCache;
   }, [messageCache]);
 
+  const trackQuota = useCallback((response: Response) => {
+    const next = readQuotaHeaders(response.headers);
+    if (next) setQuota(next);
+    if (response.status === 429) {
+      const retryAfter = Number.parseInt(response.headers.get("retry-after") ?? "", 10);
+      if (Number.isFinite(retryAfter)) setCooldownUntil(Date.now() + retryAfter * 1000);
+    }
+  }, []);
+
   const setMessagesForThread = useCallback(
     (targetThreadId: string, nextMessages: ChatMessage[]) => {
       setMessageCache((prev) => ({ ...prev, [targetThreadId]: nextMessages }));
@@ -98,33 +345,116 @@ export function useChat(): UseChatResult {
       }
 
       const currentLoad = ++loadCounter.current;
-      const messagesRes = await fetch(`/api/chat/${targetThreadId}/messages`, {
-        method: "GET"
+      const page = await fetchMessagePage(
+        targetThreadId,
+        null,
+        "Could not load messages for this chat."
+      );
+      if (currentLoad !== loadCounter.current) return;
+      setOlderCursors((prev) => ({ ...prev, [targetThreadId]: page.nextCursor }));
+      setMessagesForThread(targetThreadId, page.messages);
+    },
+    [setMessagesForThread]
+  );
+
+  const loadOlderMessages = useCallback(async () => {
+    const targetThreadId = activeThreadRef.current;
+    if (!targetThreadId || isLoadingOlder) return;
+    const cursor = olderCursors[targetThreadId];
+    if (!cursor) return;
+
+    setIsLoadingOlder(true);
+    try {
+      const page = await fetchMessagePage(
+        targetThreadId,
+        cursor,
+        "Could not load earlier messages."
+      );
+      // A backend that ignores `before` hands back the same page forever; stop paging then.
+      const seen = new Set((messageCacheRef.current[targetThreadId] ?? []).map((m) => m.id));
+      const hasNew = page.messages.some((message) => !seen.has(message.id));
+      const nextCursor = hasNew && page.nextCursor !== cursor ? page.nextCursor : null;
+      setOlderCursors((prev) => ({ ...prev, [targetThreadId]: nextCursor }));
+      updateMessagesForThread(targetThreadId, (existing) => {
+        const seen = new Set(existing.map((message) => message.id));
+        return [...page.messages.filter((message) => !seen.has(message.id)), ...existing];
       });
-      if (!messagesRes.ok) {
-        const payload = (await messagesRes.json().catch(() => null)) as
-          | { error?: { message?: string } }
-          | null;
-        throw new Error(
-          payload?.error?.message ?? "Could not load messages for this chat."
-        );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not load earlier messages.");
+    } finally {
+      setIsLoadingOlder(false);
+    }
+  }, [isLoadingOlder, olderCursors, updateMessagesForThread]);
+
+  const searchMessages = useCallback(async (query: string): Promise<EventSearchHit[]> => {
+    const trimmed = query.trim();
+    if (!trimmed) return [];
+    const params = new URLSearchParams({ q: trimmed });
+    const res = await fetch(`/api/chat/search?${params.toString()}`, { method: "GET" });
+    if (!res.ok) {
+      const payload = (await res.json().catch(() => null)) as
+        | { error?: { message?: string } }
+        | null;
+      throw new Error(payload?.error?.message ?? "Search failed.");
+    }
+    const data = (await res.json()) as { results?: EventSearchHit[] };
+    return Array.isArray(data.results) ? data.results : [];
+  }, []);
+
+  const openSearchResult = useCallback(
+    async (targetThreadId: string, messageId: string) => {
+      if (!targetThreadId || !messageId) return;
+      setError(null);
+
+      const loaded = targetThreadId === threadId ? messageCacheRef.current[targetThreadId] : null;
+      if (loaded?.some((message) => message.id === messageId)) {
+        setFocusRequest({ messageId, requestedAt: Date.now() });
+        return;
       }
 
-      const messageData = (await messagesRes.json()) as {
-        messages?: UIMessage[];
-        degraded?: boolean;
-        warning?: string;
-      };
-      if (messageData.degraded) {
-        throw new Error(messageData.warning ?? "Chat messages are temporarily unavailable.");
+      activeThreadRef.current = targetThreadId;
+      setThreadId(targetThreadId);
+      setMessages([]);
+      setIsThreadTransitioning(true);
+      const currentLoad = ++loadCounter.current;
+      try {
+        // Walk back page by page until the hit is in the transcript, so it can be scrolled to.
+        let page = await fetchMessagePage(
+          targetThreadId,
+          null,
+          "Could not load messages for this chat."
+        );
+        let collected = page.messages;
+        let nextCursor = page.nextCursor;
+        let pagesLoaded = 1;
+        while (
+          nextCursor &&
+          pagesLoaded < 20 &&
+          !collected.some((message) => message.id === messageId)
+        ) {
+          page = await fetchMessagePage(
+            targetThreadId,
+            nextCursor,
+            "Could not load earlier messages."
+          );
+          const seen = new Set(collected.map((message) => message.id));
+          const older = page.messages.filter((message) => !seen.has(message.id));
+          collected = [...older, ...collected];
+          // Same stop rule as `loadOlderMessages`: no new ids or a stuck cursor ends the walk.
+          nextCursor = older.length > 0 && page.nextCursor !== nextCursor ? page.nextCursor : null;
+          pagesLoaded += 1;
+        }
+        if (currentLoad !== loadCounter.current) return;
+        setOlderCursors((prev) => ({ ...prev, [targetThreadId]: nextCursor }));
+        setMessagesForThread(targetThreadId, collected);
+        setFocusRequest({ messageId, requestedAt: Date.now() });
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Could not load this chat.");
+      } finally {
+        setIsThreadTransitioning(false);
       }
-      if (currentLoad !== loadCounter.current) return;
-      setMessagesForThread(
-        targetThreadId,
-        Array.isArray(messageData.messages) ? messageData.messages : []
-      );
     },
-    [setMessagesForThread]
+    [setMessagesForThread, threadId]
   );
 
   const persistRename = useCallback(async (targetThreadId: string, title: string) => {
@@ -144,6 +474,37 @@ export function useChat(): UseChatResult {
     }
   }, []);
 
+  const persistModel = useCallback(async (targetThreadId: string, model: string | null) => {
+    const res = await fetch(`/api/chat/${targetThreadId}/model`, {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ model })
+    });
+    if (!res.ok) {
+      const payload = (await res.json().catch(() => null)) as
+        | { error?: { message?: string } }
+        | null;
+      throw new Error(payload?.error?.message ?? "Failed to change the model.");
+    }
+  }, []);
+
+  const persistPersona = useCallback(
+    async (targetThreadId: string, personaId: string | null) => {
+      const res = await fetch(`/api/chat/${targetThreadId}/persona`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ personaId })
+      });
+      if (!res.ok) {
+        const payload = (await res.json().catch(() => null)) as
+          | { error?: { message?: string } }
+          | null;
+        throw new Error(payload?.error?.message ?? "Failed to change the persona.");
+      }
+    },
+    []
+  );
+
   const createRemoteThread = useCallback(async (): Promise<ChatThread> => {
     const threadRes = await fetch("/api/chat/threads", { method: "POST" });
     if (threadRes.ok) {
@@ -270,6 +631,83 @@ export function useChat(): UseChatResult {
     [loadThreadMessages, messages, threadId, threads]
   );
 
+  // Before the first message there is no thread to store the choice on, so it is kept as a
+  // draft and applied when `sendMessage` creates the thread.
+  const selectModel = useCallback(
+    async (model: string | null) => {
+      const targetThreadId = activeThreadRef.current;
+      if (!targetThreadId) {
+        setDraftModel(model);
+        return;
+      }
+
+      const previous = threads;
+      setThreads((prev) =>
+        prev.map((thread) => (thread.id === targetThreadId ? { ...thread, model } : thread))
+      );
+      try {
+        await persistModel(targetThreadId, model);
+      } catch (err) {
+        setThreads(previous);
+        setError(err instanceof Error ? err.message : "Failed to change the model.");
+      }
+    },
+    [persistModel, threads]
+  );
+
+  // Like `selectModel`, a new chat keeps the settings as a draft until its first message.
+  const saveThreadSettings = useCallback(
+    async (settings: GenerationSettings | null) => {
+      const targetThreadId = activeThreadRef.current;
+      if (!targetThreadId) {
+        setDraftSettings(settings);
+        return;
+      }
+
+      const res = await fetch(`/api/chat/${targetThreadId}/settings`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ settings })
+      });
+      if (!res.ok) {
+        const payload = (await res.json().catch(() => null)) as
+          | { error?: { message?: string } }
+          | null;
+        throw new Error(payload?.error?.message ?? "Failed to save thread settings.");
+      }
+      const data = (await res.json()) as { settings?: GenerationSettings | null };
+      setThreads((prev) =>
+        prev.map((thread) =>
+          thread.id === targetThreadId ? { ...thread, settings: data.settings ?? null } : thread
+        )
+      );
+    },
+    []
+  );
+
+  // Same draft handling as `selectModel`.
+  const selectPersona = useCallback(
+    async (personaId: string | null) => {
+      const targetThreadId = activeThreadRef.current;
+      if (!targetThreadId) {
+        setDraftPersonaId(personaId);
+        return;
+      }
+
+      const previous = threads;
+      setThreads((prev) =>
+        prev.map((thread) => (thread.id === targetThreadId ? { ...thread, personaId } : thread))
+      );
+      try {
+        await persistPersona(targetThreadId, personaId);
+      } catch (err) {
+        setThreads(previous);
+        setError(err instanceof Error ? err.message : "Failed to change the persona.");
+      }
+    },
+    [persistPersona, threads]
+  );
+
   const promoteThread = useCallback(async (targetThreadId: string) => {
     if (targetThreadId.startsWith("draft-")) {
       throw new Error("Only persisted chats can be promoted to core memory.");
@@ -305,6 +743,7 @@ export function useChat(): UseChatResult {
 
         const listData = (await listRes.json()) as {
           threads: ThreadRecord[];
+          capabilities?: ThreadCapabilities;
           degraded?: boolean;
           warning?: string;
         };
@@ -317,11 +756,16 @@ export function useChat(): UseChatResult {
             id: thread.id,
             title: thread.title,
             createdAt: thread.createdAt,
-            isCoreMemory: thread.isCoreMemory
+            isCoreMemory: thread.isCoreMemory,
+            parentThreadId: thread.parentThreadId ?? null,
+            model: thread.model ?? null,
+            settings: thread.settings ?? null,
+            personaId: thread.personaId ?? null
           });
         }
 
         setThreads(listedThreads);
+        setCapabilities({ ...NO_CAPABILITIES, ...listData.capabilities });
         // Always open to a fresh chat context by default.
         activeThreadRef.current = null;
         setThreadId(null);
@@ -347,19 +791,29 @@ export function useChat(): UseChatResult {
       setError(null);
       setIsStreaming(true);
 
+      const abortController = new AbortController();
+      streamAbortRef.current = abortController;
       let activeId = activeThreadRef.current;
       let streamThreadId: string | null = activeId;
+      let eventIds: Record<string, string | null> = {};
+      const isNewThread = !activeId;
 
       try {
         if (!activeId) {
           setIsThreadTransitioning(true);
           const createdAt = new Date().toISOString();
           const created = await createRemoteThread();
+          // The first reply already streams from the picked model, so store it before sending.
+          if (draftModel) await persistModel(created.id, draftModel);
+          if (draftPersonaId) await persistPersona(created.id, draftPersonaId);
           const createdThread: ChatThread = {
             id: created.id,
             title: null,
             createdAt,
-            isCoreMemory: false
+            isCoreMemory: false,
+            model: draftModel,
+            settings: draftSettings,
+            personaId: draftPersonaId
           };
           setThreads((prev) => [createdThread, ...prev]);
           setMessagesForThread(created.id, []);
@@ -410,63 +864,49 @@ export function useChat(): UseChatResult {
           void persistRename(activeId, autoTitle).catch(() => null);
         }
 
+        // A new chat's drawer settings ride along with its first message.
+        const pendingSettings = isNewThread && draftSettings ? draftSettings : undefined;
         const response = await fetch(`/api/chat/${requestThreadId}/messages`, {
           method: "POST",
           headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ text: trimmed })
+          body: JSON.stringify({ text: trimmed, settings: pendingSettings }),
+          signal: abortController.signal
         });
+        trackQuota(response);
 
         if (!response.ok || !response.body) {
           const payload = (await response.json().catch(() => null)) as
             | { error?: { message?: string } }
             | null;
-          throw new Error(payload?.error?.message ?? "Assistant request failed.");
-        }
-        const reader = response.body.getReader();
-        const decoder = new TextDecoder();
-        let pendingChunk = "";
-        let flushTimer: ReturnType<typeof setTimeout> | null = null;
-
-        const flushPendingChunk = () => {
-          if (!pendingChunk) return;
-          const nextChunk = pendingChunk;
-          pendingChunk = "";
-          updateMessagesForThread(requestThreadId, (existing) => {
-            const source = existing.length > 0 ? existing : baseMessages;
-            return source.map((message) =>
-              message.id === assistantId
-                ? { ...message, content: message.content + nextChunk }
-                : message
+          if (response.status === 429) {
+            // Nothing was stored, so drop the optimistic turn instead of a fallback reply.
+            updateMessagesForThread(requestThreadId, (existing) =>
+              existing.filter(
+                (message) => message.id !== userMessage.id && message.id !== assistantId
+              )
             );
-          });
-        };
-
-        const scheduleChunkFlush = () => {
-          if (flushTimer) return;
-          flushTimer = setTimeout(() => {
-            flushTimer = null;
-            flushPendingChunk();
-          }, 32);
-        };
-
-        while (true) {
-          const { done, value } = await reader.read();
-          if (done) break;
-          const chunk = decoder.decode(value, { stream: true });
-          if (!chunk) continue;
-          pendingChunk += chunk;
-          scheduleChunkFlush();
-        }
-        const tail = decoder.decode();
-        if (tail) {
-          pendingChunk += tail;
-        }
-        if (flushTimer) {
-          clearTimeout(flushTimer);
-          flushTimer = null;
+          }
+          throw new Error(payload?.error?.message ?? "Assistant request failed.");
         }
-        flushPendingChunk();
+        const summary = await readChatStream(
+          response.body,
+          abortController.signal,
+          (nextChunk) => {
+            updateMessagesForThread(requestThreadId, (existing) => {
+              const source = existing.length > 0 ? existing : baseMessages;
+              return source.map((message) =>
+                message.id === assistantId
+                  ? { ...message, content: message.content + nextChunk }
+                  : message
+              );
+            });
+          }
+        );
+        const ids = turnEventIds(summary);
+        eventIds = { [userMessage.id]: ids.user, [assistantId]: ids.assistant };
+        if (summary.error) throw new Error(summary.error);
       } catch (err) {
+        if (abortController.signal.aborted) return;
         const message =
           err instanceof Error ? err.message : "Failed to stream assistant output.";
         setError(message);
@@ -483,34 +923,64 @@ export function useChat(): UseChatResult {
           );
         }
       } finally {
+        const interrupted = abortController.signal.aborted;
         if (streamThreadId) {
           updateMessagesForThread(streamThreadId, (existing) =>
-            existing.map((item) =>
-              item.role === "assistant" && item.isStreaming
-                ? { ...item, isStreaming: false }
-                : item
+            withEventIds(
+              existing.map((item) =>
+                item.role === "assistant" && item.isStreaming
+                  ? {
+                      ...item,
+                      isStreaming: false,
+                      ...(interrupted
+                        ? { meta: { ...(item.meta ?? {}), interrupted: true } }
+                        : {})
+                    }
+                  : item
+              ),
+              eventIds
             )
           );
         }
+        if (streamAbortRef.current === abortController) {
+          streamAbortRef.current = null;
+        }
         setIsThreadTransitioning(false);
         setIsStreaming(false);
       }
     },
     [
       createRemoteThread,
+      draftModel,
+      draftPersonaId,
+      draftSettings,
       isStreaming,
+      persistModel,
+      persistPersona,
       persistRename,
       setMessagesForThread,
       threads,
+      trackQuota,
       updateMessagesForThread
     ]
   );
 
-  const resolveReactionEventId = useCallback(
+  const stopStreaming = useCallback(() => {
+    streamAbortRef.current?.abort();
+  }, []);
+
+  // Turns normally get their server ids from the stream (see `withEventIds`). A stopped
+  // stream never reports the assistant id, so for an optimistic id we line the thread up
+  // with the server transcript by position from the end, which also holds for repeated text.
+  const resolveEventId = useCallback(
     async (targetThreadId: string, messageId: string, targetMessage: ChatMessage): Promise<string> => {
-      if (!messageId.startsWith("assistant-")) {
+      if (!messageId.startsWith(`${targetMessage.role}-`)) {
         return messageId;
       }
+      const local = messageCacheRef.current[targetThreadId] ?? [];
+      const index = local.findIndex((message) => message.id === messageId);
+      if (index < 0) return messageId;
+      const fromEnd = local.length - 1 - index;
       try {
         const response = await fetch(`/api/chat/${targetThreadId}/messages`, { method: "GET" });
         if (!response.ok) return messageId;
@@ -518,14 +988,8 @@ export function useChat(): UseChatResult {
           | { messages?: ChatMessage[] }
           | null;
         if (!payload || !Array.isArray(payload.messages)) return messageId;
-        const candidates = payload.messages.filter(
-          (message) => message.role === "assistant" && !message.id.startsWith("assistant-")
-        );
-        if (candidates.length === 0) return messageId;
-        const targetContent = targetMessage.content.trim();
-        const exact = candidates.find((message) => message.content.trim() === targetContent);
-        if (exact) return exact.id;
-        return candidates[candidates.length - 1]?.id ?? messageId;
+        const candidate = payload.messages[payload.messages.length - 1 - fromEnd];
+        return candidate?.role === targetMessage.role ? candidate.id : messageId;
       } catch {
         return messageId;
       }
@@ -562,7 +1026,7 @@ export function useChat(): UseChatResult {
       );
 
       try {
-        const reactionEventId = await resolveReactionEventId(
+        const reactionEventId = await resolveEventId(
           targetThreadId,
           messageId,
           targetMessage
@@ -613,9 +1077,307 @@ export function useChat(): UseChatResult {
         setError(err instanceof Error ? err.message : "Failed to save reaction.");
       }
     },
-    [resolveReactionEventId, updateMessagesForThread]
+    [resolveEventId, updateMessagesForThread]
+  );
+
+  const editMessage = useCallback(
+    async (targetThreadId: string, messageId: string, text: string) => {
+      const trimmed = text.trim();
+      if (!targetThreadId || !messageId || !trimmed || isStreaming) return;
+
+      const previousMessages = messageCacheRef.current[targetThreadId] ?? [];
+      const index = previousMessages.findIndex((message) => message.id === messageId);
+      const targetMessage = previousMessages[index];
+      if (!targetMessage || targetMessage.role !== "user") return;
+
+      setError(null);
+      setIsStreaming(true);
+      const abortController = new AbortController();
+      streamAbortRef.current = abortController;
+
+      // Everything after the edited message is discarded, matching the server-side truncate.
+      const assistantId = `assistant-${crypto.randomUUID()}`;
+      setMessagesForThread(targetThreadId, [
+        ...previousMessages.slice(0, index),
+        {
+          ...targetMessage,
+          content: trimmed,
+          meta: { ...(targetMessage.meta ?? {}), edited: true }
+        },
+        {
+          id: assistantId,
+          threadId: targetThreadId,
+          role: "assistant",
+          content: "",
+          createdAt: new Date().toISOString(),
+          isStreaming: true
+        }
+      ]);
+
+      let eventIds: Record<string, string | null> = {};
+      try {
+        const eventId = await resolveEventId(targetThreadId, messageId, targetMessage);
+        const response = await fetch(`/api/chat/${targetThreadId}/messages/${eventId}/edit`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ text: trimmed }),
+          signal: abortController.signal
+        });
+        trackQuota(response);
+        if (!response.ok || !response.body) {
+          const payload = (await response.json().catch(() => null)) as
+            | { error?: { message?: string } }
+            | null;
+          throw new Error(payload?.error?.message ?? "Failed to resend edited message.");
+        }
+
+        const summary = await readChatStream(
+          response.body,
+          abortController.signal,
+          (nextChunk) => {
+            updateMessagesForThread(targetThreadId, (existing) =>
+              existing.map((message) =>
+                message.id === assistantId
+                  ? { ...message, content: message.content + nextChunk }
+                  : message
+              )
+            );
+          }
+        );
+        const ids = turnEventIds(summary);
+        eventIds = { [messageId]: ids.user ?? eventId, [assistantId]: ids.assistant };
+        // The server already rewrote the turn, so a model error keeps it instead of rolling back.
+        if (summary.error) setError(summary.error);
+      } catch (err) {
+        if (!abortController.signal.aborted) {
+          setMessagesForThread(targetThreadId, previousMessages);
+          setError(err instanceof Error ? err.message : "Failed to resend edited message.");
+        }
+      } finally {
+        const interrupted = abortController.signal.aborted;
+        updateMessagesForThread(targetThreadId, (existing) =>
+          withEventIds(
+            existing.map((item) =>
+              item.id === assistantId && item.isStreaming
+                ? {
+                    ...item,
+                    isStreaming: false,
+                    ...(interrupted ? { meta: { ...(item.meta ?? {}), interrupted: true } } : {})
+                  }
+                : item
+            ),
+            eventIds
+          )
+        );
+        if (streamAbortRef.current === abortController) {
+          streamAbortRef.current = null;
+        }
+        setIsStreaming(false);
+      }
+    },
+    [isStreaming, resolveEventId, setMessagesForThread, trackQuota, updateMessagesForThread]
+  );
+
+  const branchFromMessage = useCallback(
+    async (targetThreadId: string, messageId: string) => {
+      if (!targetThreadId || !messageId || isStreaming) return;
+
+      const existingMessages = messageCacheRef.current[targetThreadId] ?? [];
+      const targetMessage = existingMessages.find((message) => message.id === messageId);
+      if (!targetMessage) return;
+
+      setError(null);
+      try {
+        const eventId = await resolveEventId(targetThreadId, messageId, targetMessage);
+        const response = await fetch(`/api/chat/${targetThreadId}/messages/${eventId}/fork`, {
+          method: "POST"
+        });
+        if (!response.ok) {
+          const payload = (await response.json().catch(() => null)) as
+            | { error?: { message?: string } }
+            | null;
+          throw new Error(payload?.error?.message ?? "Failed to branch this chat.");
+        }
+
+        const data = (await response.json()) as { thread: ThreadRecord };
+        setThreads((prev) => [
+          {
+            id: data.thread.id,
+            title: data.thread.title,
+            createdAt: data.thread.createdAt,
+            isCoreMemory: false,
+            parentThreadId: data.thread.parentThreadId ?? targetThreadId,
+            model: data.thread.model ?? null,
+            settings: data.thread.settings ?? null,
+            personaId: data.thread.personaId ?? null
+          },
+          ...prev
+        ]);
+        await selectThread(data.thread.id);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to branch this chat.");
+      }
+    },
+    [isStreaming, resolveEventId, selectThread]
   );
 
+  const importConversations = useCallback(
+    async (file: File, onProgress?: (progress: ImportProgress) => void) => {
+      const report = await postImportBatches(await file.text(), onProgress);
+      const importedAt = new Date().toISOString();
+      const importedThreads: ChatThread[] = [];
+      for (const result of report.results) {
+        if (result.status !== "imported") continue;
+        importedThreads.push({
+          id: result.threadId,
+          title: result.title,
+          createdAt: importedAt,
+          isCoreMemory: false
+        });
+      }
+      if (importedThreads.length > 0) {
+        setThreads((prev) => [...importedThreads.reverse(), ...prev]);
+      }
+      return report;
+    },
+    []
+  );
+
+  const regenerateMessage = useCallback(
+    async (targetThreadId: string, messageId: string) => {
+      if (!targetThreadId || !messageId || isStreaming) return;
+
+      const existingMessages = messageCacheRef.current[targetThreadId] ?? [];
+      const targetMessage = existingMessages.find((message) => message.id === messageId);
+      if (!targetMessage || targetMessage.role !== "assistant") return;
+
+      setError(null);
+      setIsStreaming(true);
+      const abortController = new AbortController();
+      streamAbortRef.current = abortController;
+      updateMessagesForThread(targetThreadId, (existing) =>
+        existing.map((message) =>
+          message.id === messageId ? { ...message, content: "", isStreaming: true } : message
+        )
+      );
+
+      let output = "";
+      let failed = false;
+      let eventIds: Record<string, string | null> = {};
+      try {
+        const eventId = await resolveEventId(targetThreadId, messageId, targetMessage);
+        eventIds = { [messageId]: eventId };
+        const response = await fetch(
+          `/api/chat/${targetThreadId}/messages/${eventId}/regenerate`,
+          { method: "POST", signal: abortController.signal }
+        );
+        trackQuota(response);
+        if (!response.ok || !response.body) {
+          const payload = (await response.json().catch(() => null)) as
+            | { error?: { message?: string } }
+            | null;
+          throw new Error(payload?.error?.message ?? "Failed to regenerate reply.");
+        }
+
+        const summary = await readChatStream(
+          response.body,
+          abortController.signal,
+          (nextChunk) => {
+            output += nextChunk;
+            updateMessagesForThread(targetThreadId, (existing) =>
+              existing.map((message) =>
+                message.id === messageId
+                  ? { ...message, content: message.content + nextChunk }
+                  : message
+              )
+            );
+          }
+        );
+        // Like the server, a reply cut short by a model error still becomes a version.
+        if (summary.error) setError(summary.error);
+      } catch (err) {
+        if (!abortController.signal.aborted) {
+          failed = true;
+          setError(err instanceof Error ? err.message : "Failed to regenerate reply.");
+        }
+      } finally {
+        // Mirror the server: a non-empty reply (even a stopped one) becomes a new version,
+        // anything else leaves the previous reply in place.
+        const interrupted = abortController.signal.aborted;
+        updateMessagesForThread(targetThreadId, (existing) =>
+          withEventIds(
+            existing.map((message) => {
+              if (message.id !== messageId) return message;
+              if (failed || !output.trim()) {
+                return { ...targetMessage, isStreaming: false };
+              }
+              return {
+                ...message,
+                ...withAppendedVersion(targetMessage, output, interrupted),
+                isStreaming: false
+              };
+            }),
+            eventIds
+          )
+        );
+        if (streamAbortRef.current === abortController) {
+          streamAbortRef.current = null;
+        }
+        setIsStreaming(false);
+      }
+    },
+    [isStreaming, resolveEventId, trackQuota, updateMessagesForThread]
+  );
+
+  const selectMessageVersion = useCallback(
+    async (targetThreadId: string, messageId: string, index: number) => {
+      if (!targetThreadId || !messageId) return;
+
+      const existingMessages = messageCacheRef.current[targetThreadId] ?? [];
+      const targetMessage = existingMessages.find((message) => message.id === messageId);
+      if (!targetMessage || targetMessage.role !== "assistant") return;
+      const optimistic = withActiveVersion(targetMessage, index);
+      if (!optimistic) return;
+
+      setError(null);
+      updateMessagesForThread(targetThreadId, (existing) =>
+        existing.map((message) =>
+          message.id === messageId ? { ...message, ...optimistic } : message
+        )
+      );
+
+      try {
+        const eventId = await resolveEventId(targetThreadId, messageId, targetMessage);
+        const response = await fetch(`/api/chat/${targetThreadId}/messages/${eventId}/version`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ index })
+        });
+        if (!response.ok) {
+          const payload = (await response.json().catch(() => null)) as
+            | { error?: { message?: string } }
+            | null;
+          throw new Error(payload?.error?.message ?? "Failed to switch reply version.");
+        }
+      } catch (err) {
+        updateMessagesForThread(targetThreadId, (existing) =>
+          existing.map((message) =>
+            message.id === messageId
+              ? { ...message, content: targetMessage.content, meta: targetMessage.meta }
+              : message
+          )
+        );
+        setError(err instanceof Error ? err.message : "Failed to switch reply version.");
+      }
+    },
+    [resolveEventId, updateMessagesForThread]
+  );
+
+  const activeThread = threadId ? threads.find((thread) => thread.id === threadId) : null;
+  const activeModel = threadId ? (activeThread?.model ?? null) : draftModel;
+  const activeSettings = threadId ? (activeThread?.settings ?? null) : draftSettings;
+  const activePersonaId = threadId ? (activeThread?.personaId ?? null) : draftPersonaId;
+
   return useMemo(
     () => ({
       threadId,
@@ -624,30 +1386,72 @@ export function useChat(): UseChatResult {
       isBootstrapping,
       isThreadTransitioning,
       isStreaming,
+      hasOlderMessages: threadId ? Boolean(olderCursors[threadId]) : false,
+      isLoadingOlder,
+      focusRequest,
+      capabilities,
+      quota,
+      cooldownUntil,
+      activeModel,
+      activeSettings,
+      activePersonaId,
       error,
       clearError,
+      loadOlderMessages,
+      searchMessages,
+      openSearchResult,
       selectThread,
       createThread,
       renameThread,
       deleteThread,
       promoteThread,
+      selectModel,
+      saveThreadSettings,
+      selectPersona,
+      importConversations,
       sendMessage,
-      reactToMessage
+      stopStreaming,
+      reactToMessage,
+      editMessage,
+      branchFromMessage,
+      regenerateMessage,
+      selectMessageVersion
     }),
     [
+      activeModel,
+      activePersonaId,
+      activeSettings,
+      branchFromMessage,
+      capabilities,
       createThread,
       clearError,
       deleteThread,
+      editMessage,
       error,
+      cooldownUntil,
+      focusRequest,
+      importConversations,
       isBootstrapping,
+      isLoadingOlder,
       isThreadTransitioning,
       isStreaming,
+      loadOlderMessages,
       messages,
+      olderCursors,
+      openSearchResult,
       promoteThread,
+      quota,
       renameThread,
       reactToMessage,
+      regenerateMessage,
+      saveThreadSettings,
+      searchMessages,
+      selectMessageVersion,
+      selectModel,
+      selectPersona,
       selectThread,
       sendMessage,
+      stopStreaming,
       threadId,
       threads
     ]
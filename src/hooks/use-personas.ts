@@ -0,0 +1,86 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import type { PersonaInput, PersonaRecord } from "@/lib/memory/types";
+
+type UsePersonasResult = {
+  personas: PersonaRecord[];
+  // False until the list loads, and when the memory backend cannot store personas (501).
+  isSupported: boolean;
+  reload: () => Promise<void>;
+  createPersona: (input: PersonaInput) => Promise<PersonaRecord>;
+  updatePersona: (personaId: string, input: PersonaInput) => Promise<PersonaRecord>;
+  deletePersona: (personaId: string) => Promise<void>;
+};
+
+async function readError(res: Response, fallback: string): Promise<string> {
+  const payload = (await res.json().catch(() => null)) as
+    | { error?: { message?: string } }
+    | null;
+  return payload?.error?.message ?? fallback;
+}
+
+function byName(a: PersonaRecord, b: PersonaRecord): number {
+  return a.name.localeCompare(b.name);
+}
+
+// Shared by the header picker and the personas screen, so edits show up in both. Mutations
+// throw with the server's message for the caller to show next to its form.
+export function usePersonas(): UsePersonasResult {
+  const [personas, setPersonas] = useState<PersonaRecord[]>([]);
+  const [isSupported, setIsSupported] = useState(false);
+
+  const reload = useCallback(async () => {
+    const res = await fetch("/api/chat/personas", { method: "GET" });
+    if (!res.ok) {
+      setIsSupported(false);
+      return;
+    }
+    const data = (await res.json()) as { personas?: PersonaRecord[] };
+    setPersonas(Array.isArray(data.personas) ? data.personas : []);
+    setIsSupported(true);
+  }, []);
+
+  useEffect(() => {
+    void reload().catch(() => null);
+  }, [reload]);
+
+  const createPersona = useCallback(async (input: PersonaInput) => {
+    const res = await fetch("/api/chat/personas", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(input)
+    });
+    if (!res.ok) throw new Error(await readError(res, "Failed to create the persona."));
+    const { persona } = (await res.json()) as { persona: PersonaRecord };
+    setPersonas((prev) => [...prev, persona].sort(byName));
+    return persona;
+  }, []);
+
+  const updatePersona = useCallback(async (personaId: string, input: PersonaInput) => {
+    const res = await fetch(`/api/chat/personas/${encodeURIComponent(personaId)}`, {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(input)
+    });
+    if (!res.ok) throw new Error(await readError(res, "Failed to update the persona."));
+    const { persona } = (await res.json()) as { persona: PersonaRecord };
+    setPersonas((prev) =>
+      prev.map((item) => (item.id === personaId ? persona : item)).sort(byName)
+    );
+    return persona;
+  }, []);
+
+  const deletePersona = useCallback(async (personaId: string) => {
+    const res = await fetch(`/api/chat/personas/${encodeURIComponent(personaId)}`, {
+      method: "DELETE"
+    });
+    if (!res.ok) throw new Error(await readError(res, "Failed to delete the persona."));
+    setPersonas((prev) => prev.filter((item) => item.id !== personaId));
+  }, []);
+
+  return useMemo(
+    () => ({ personas, isSupported, reload, createPersona, updatePersona, deletePersona }),
+    [createPersona, deletePersona, isSupported, personas, reload, updatePersona]
+  );
+}
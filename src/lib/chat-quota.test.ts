@@ -0,0 +1,21 @@
+import { describe, expect, it } from "vitest";
+import { readQuotaHeaders, writeQuotaHeaders } from "@/lib/chat-quota";
+
+describe("quota headers", () => {
+  it("round-trips and omits disabled quotas", () => {
+    const headers = new Headers();
+    writeQuotaHeaders(headers, {
+      messagesRemaining: 4,
+      tokensRemaining: null,
+      resetAt: "2026-01-02T00:00:00.000Z"
+    });
+
+    expect(headers.has("x-quota-tokens-remaining")).toBe(false);
+    expect(readQuotaHeaders(headers)).toEqual({
+      messagesRemaining: 4,
+      tokensRemaining: null,
+      resetAt: "2026-01-02T00:00:00.000Z"
+    });
+    expect(readQuotaHeaders(new Headers())).toBeNull();
+  });
+});
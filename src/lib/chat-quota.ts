@@ -0,0 +1,37 @@
+// Daily quota headers on metered chat responses. Shared by `withChatRoute`, which writes them,
+// and `useChat`, which reads them; the limits themselves live in `src/lib/server/rate-limit.ts`.
+
+export const QUOTA_MESSAGES_HEADER = "x-quota-messages-remaining";
+export const QUOTA_TOKENS_HEADER = "x-quota-tokens-remaining";
+export const QUOTA_RESET_HEADER = "x-quota-reset";
+
+// Remaining allowance for today; null fields mean that quota is disabled.
+export type ChatQuota = {
+  messagesRemaining: number | null;
+  tokensRemaining: number | null;
+  resetAt: string;
+};
+
+export function writeQuotaHeaders(headers: Headers, quota: ChatQuota): void {
+  if (quota.messagesRemaining !== null) {
+    headers.set(QUOTA_MESSAGES_HEADER, String(quota.messagesRemaining));
+  }
+  if (quota.tokensRemaining !== null) {
+    headers.set(QUOTA_TOKENS_HEADER, String(quota.tokensRemaining));
+  }
+  headers.set(QUOTA_RESET_HEADER, quota.resetAt);
+}
+
+export function readQuotaHeaders(headers: Headers): ChatQuota | null {
+  const resetAt = headers.get(QUOTA_RESET_HEADER);
+  if (!resetAt) return null;
+  const toCount = (value: string | null) => {
+    const parsed = value === null ? Number.NaN : Number.parseInt(value, 10);
+    return Number.isFinite(parsed) ? parsed : null;
+  };
+  return {
+    messagesRemaining: toCount(headers.get(QUOTA_MESSAGES_HEADER)),
+    tokensRemaining: toCount(headers.get(QUOTA_TOKENS_HEADER)),
+    resetAt
+  };
+}
@@ -0,0 +1,117 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { AnthropicLlmProvider } from "@/lib/llm/anthropic-llm-provider";
+import { getLlmProvider } from "@/lib/server/providers";
+import { ANTHROPIC_STREAM_FIXTURE, startAnthropicStandIn } from "@/test/anthropic-stand-in";
+
+type StandIn = Awaited<ReturnType<typeof startAnthropicStandIn>>;
+
+let standIn: StandIn | null = null;
+
+async function providerFor(options: Parameters<typeof startAnthropicStandIn>[0] = {}) {
+  standIn = await startAnthropicStandIn(options);
+  vi.stubEnv("ANTHROPIC_API_KEY", "sk-test");
+  vi.stubEnv("ANTHROPIC_BASE_URL", `${standIn.baseUrl}/`);
+  vi.stubEnv("ANTHROPIC_MODEL", "claude-test");
+  return { provider: new AnthropicLlmProvider(), requests: standIn.requests };
+}
+
+async function collect(stream: AsyncIterable<string>): Promise<string[]> {
+  const chunks: string[] = [];
+  for await (const chunk of stream) chunks.push(chunk);
+  return chunks;
+}
+
+afterEach(async () => {
+  await standIn?.close();
+  standIn = null;
+});
+
+describe("AnthropicLlmProvider", () => {
+  it("streams text deltas from the recorded Messages API fixture", async () => {
+    const { provider, requests } = await providerFor();
+
+    const chunks = await collect(
+      provider.streamChat({
+        messages: [
+          { role: "system", content: "Summary cue" },
+          { role: "assistant", content: "Welcome back" },
+          { role: "user", content: "hi" },
+          { role: "user", content: "are you there?" },
+          { role: "assistant", content: "yes" },
+          { role: "user", content: "great" }
+        ],
+        generation: { temperature: 1.5, topP: 0.9, stop: ["###"], seed: 3 }
+      })
+    );
+
+    expect(chunks).toEqual(["Hello", " from the", " Messages API."]);
+    expect(provider.model).toBe("anthropic/claude-test");
+    const [request] = requests;
+    expect(request).toMatchObject({ method: "POST", url: "/v1/messages" });
+    expect(request?.headers["x-api-key"]).toBe("sk-test");
+    expect(request?.headers["anthropic-version"]).toBe("2023-06-01");
+    expect(request?.body).toMatchObject({
+      model: "claude-test",
+      max_tokens: 1024,
+      stream: true,
+      temperature: 1,
+      top_p: 0.9,
+      stop_sequences: ["###"],
+      messages: [
+        { role: "user", content: "hi\n\nare you there?" },
+        { role: "assistant", content: "yes" },
+        { role: "user", content: "great" }
+      ]
+    });
+    expect(request?.body.system).toContain("Summary cue");
+    expect(request?.body).not.toHaveProperty("seed");
+  });
+
+  it("keeps the streamed text and then reports a max_tokens stop", async () => {
+    vi.stubEnv("ANTHROPIC_MAX_TOKENS", "8");
+    const { provider } = await providerFor({
+      stream: ANTHROPIC_STREAM_FIXTURE.replace('"end_turn"', '"max_tokens"')
+    });
+
+    const chunks: string[] = [];
+    await expect(async () => {
+      const stream = provider.streamChat({ messages: [{ role: "user", content: "hi" }] });
+      for await (const chunk of stream) chunks.push(chunk);
+    }).rejects.toThrow("Reply cut off at the 8-token limit.");
+    expect(chunks.join("")).toBe("Hello from the Messages API.");
+  });
+
+  it("throws on error events and failed requests", async () => {
+    const { provider } = await providerFor({
+      stream: ANTHROPIC_STREAM_FIXTURE.replace(
+        "event: content_block_stop",
+        [
+          "event: error",
+          'data: {"type":"error","error":{"type":"overloaded_error","message":"Overloaded"}}',
+          "",
+          "event: content_block_stop"
+        ].join("\n")
+      )
+    });
+    await expect(
+      collect(provider.streamChat({ messages: [{ role: "user", content: "hi" }] }))
+    ).rejects.toThrow("LLM stream failed: Overloaded");
+    await standIn?.close();
+
+    const failing = await providerFor({ status: 529 });
+    await expect(
+      collect(failing.provider.streamChat({ messages: [{ role: "user", content: "hi" }] }))
+    ).rejects.toThrow(/LLM request failed \(529\).*Overloaded/);
+  });
+
+  it("is selected by LLM_PROVIDER=anthropic outside demo mode", () => {
+    vi.stubEnv("CHAT_DEMO_MODE", "false");
+    vi.stubEnv("LLM_PROVIDER", "anthropic");
+    vi.stubEnv("ANTHROPIC_API_KEY", "sk-test");
+    vi.stubEnv("ANTHROPIC_MODEL", "claude-test");
+    expect(getLlmProvider().model).toBe("anthropic/claude-test");
+
+    vi.stubEnv("LLM_PROVIDER", "mystery");
+    expect(() => getLlmProvider().model).toThrow("Unsupported LLM provider: mystery");
+  });
+});
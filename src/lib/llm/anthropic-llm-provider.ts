@@ -0,0 +1,138 @@
+import type { LlmProvider, StreamChatParams } from "@/lib/llm/llm-provider";
+import { configuredModelNames, requestedModel, toModelId } from "@/lib/llm/model-registry";
+import { withSoulContract } from "@/lib/llm/soul-contract";
+import { parseSseStream, safeParse } from "@/lib/llm/sse";
+import { DEFAULT_TEMPERATURE } from "@/lib/llm/thread-settings";
+import type { ContextMessage } from "@/lib/memory/types";
+
+const DEFAULT_BASE_URL = "https://api.anthropic.com";
+const DEFAULT_MAX_TOKENS = 1024;
+const ANTHROPIC_VERSION = "2023-06-01";
+
+type AnthropicConfig = {
+  apiKey: string;
+  baseUrl: string;
+  model: string;
+  maxTokens: number;
+};
+
+type AnthropicMessage = {
+  role: "user" | "assistant";
+  content: string;
+};
+
+// The subset of Messages API stream events the provider reads.
+type AnthropicStreamEvent = {
+  type?: string;
+  delta?: { type?: string; text?: unknown; stop_reason?: unknown };
+  error?: { type?: string; message?: string };
+};
+
+export class AnthropicLlmProvider implements LlmProvider {
+  private readonly config: AnthropicConfig | null;
+
+  constructor() {
+    const apiKey = process.env.ANTHROPIC_API_KEY?.trim();
+    if (!apiKey) {
+      this.config = null;
+      return;
+    }
+
+    const maxTokens = Number.parseInt(process.env.ANTHROPIC_MAX_TOKENS ?? "", 10);
+    this.config = {
+      apiKey,
+      baseUrl: (process.env.ANTHROPIC_BASE_URL?.trim() || DEFAULT_BASE_URL).replace(/\/+$/, ""),
+      model: configuredModelNames("anthropic")[0],
+      maxTokens: Number.isFinite(maxTokens) && maxTokens > 0 ? maxTokens : DEFAULT_MAX_TOKENS
+    };
+  }
+
+  get model(): string | undefined {
+    return this.config ? toModelId("anthropic", this.config.model) : undefined;
+  }
+
+  async *streamChat(params: StreamChatParams): AsyncIterable<string> {
+    if (!this.config) {
+      yield "No model API key configured. Set ANTHROPIC_API_KEY.";
+      return;
+    }
+
+    const { system, messages } = toAnthropicMessages(await withSoulContract(params.messages, params.persona));
+    const generation = params.generation ?? {};
+    const maxTokens = generation.maxTokens ?? this.config.maxTokens;
+    const response = await fetch(`${this.config.baseUrl}/v1/messages`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "x-api-key": this.config.apiKey,
+        "anthropic-version": ANTHROPIC_VERSION
+      },
+      body: JSON.stringify({
+        model: requestedModel(params, "anthropic") ?? this.config.model,
+        max_tokens: maxTokens,
+        ...(system ? { system } : {}),
+        messages,
+        stream: true,
+        // The Messages API caps temperature at 1 and has no seed.
+        temperature: Math.min(generation.temperature ?? DEFAULT_TEMPERATURE, 1),
+        ...(generation.topP !== undefined ? { top_p: generation.topP } : {}),
+        ...(generation.stop ? { stop_sequences: generation.stop } : {})
+      }),
+      signal: params.signal
+    });
+
+    if (!response.ok || !response.body) {
+      const detail = await response.text();
+      throw new Error(
+        `LLM request failed (${response.status}) ${detail || "Unknown error"}`
+      );
+    }
+
+    let stopReason: string | null = null;
+    for await (const payload of parseSseStream(response.body)) {
+      const event = safeParse(payload) as AnthropicStreamEvent | null;
+      if (!event) continue;
+      if (event.type === "content_block_delta" && event.delta?.type === "text_delta") {
+        const text = event.delta.text;
+        if (typeof text === "string" && text.length > 0) yield text;
+      } else if (event.type === "message_delta" && typeof event.delta?.stop_reason === "string") {
+        stopReason = event.delta.stop_reason;
+      } else if (event.type === "error") {
+        throw new Error(`LLM stream failed: ${event.error?.message ?? "Unknown error"}`);
+      }
+    }
+
+    // Text streamed so far is kept; these surface as an error after it.
+    if (stopReason === "max_tokens") {
+      throw new Error(`Reply cut off at the ${maxTokens}-token limit.`);
+    }
+    if (stopReason === "refusal") {
+      throw new Error("The model declined to continue this reply.");
+    }
+  }
+}
+
+// The Messages API takes system text as a top-level field and expects the conversation to
+// open with a user turn and alternate roles, so system messages are hoisted, consecutive
+// turns from the same role are merged and leading assistant turns are dropped.
+function toAnthropicMessages(input: ContextMessage[]): {
+  system: string;
+  messages: AnthropicMessage[];
+} {
+  const system: string[] = [];
+  const messages: AnthropicMessage[] = [];
+  for (const message of input) {
+    if (message.role === "system") {
+      system.push(message.content);
+      continue;
+    }
+    if (messages.length === 0 && message.role === "assistant") continue;
+    const previous = messages[messages.length - 1];
+    if (previous?.role === message.role) {
+      previous.content = `${previous.content}\n\n${message.content}`;
+    } else {
+      messages.push({ role: message.role, content: message.content });
+    }
+  }
+  return { system: system.join("\n\n"), messages };
+}
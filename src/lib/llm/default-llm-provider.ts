@@ -1,6 +1,8 @@
 import type { LlmProvider, StreamChatParams } from "@/lib/llm/llm-provider";
-import { readFile } from "fs/promises";
-import path from "path";
+import { configuredModelNames, parseModelId, toModelId } from "@/lib/llm/model-registry";
+import { withSoulContract } from "@/lib/llm/soul-contract";
+import { parseSseStream, safeParse } from "@/lib/llm/sse";
+import { toOpenAiSampling } from "@/lib/llm/thread-settings";
 
 type ProviderConfig = {
   name: "openai" | "groq";
@@ -9,40 +11,45 @@ type ProviderConfig = {
   model: string;
 };
 
+// Serves both OpenAI and Groq. With both keys set Groq is the default, and threads that
+// picked an `openai/...` model still reach OpenAI.
 export class DefaultLlmProvider implements LlmProvider {
-  private readonly config: ProviderConfig | null;
+  private readonly configs: ProviderConfig[];
 
   constructor() {
     const groqKey = process.env.GROQ_API_KEY;
     const openAiKey = process.env.OPENAI_API_KEY;
+    this.configs = [];
 
     if (groqKey) {
-      this.config = {
+      this.configs.push({
         name: "groq",
         apiKey: groqKey,
         baseUrl: "https://api.groq.com/openai/v1",
-        model: process.env.GROQ_MODEL ?? "llama-3.3-70b-versatile"
-      };
-      return;
+        model: configuredModelNames("groq")[0]
+      });
     }
 
     if (openAiKey) {
-      this.config = {
+      this.configs.push({
         name: "openai",
         apiKey: openAiKey,
         baseUrl: "https://api.openai.com/v1",
-        model: process.env.OPENAI_MODEL ?? "gpt-4o-mini"
-      };
-      return;
+        model: configuredModelNames("openai")[0]
+      });
     }
+  }
 
-    this.config = null;
+  get model(): string | undefined {
+    if (isDemoMode()) return "demo";
+    const config = this.configs[0];
+    return config ? toModelId(config.name, config.model) : undefined;
   }
 
   async *streamChat(params: StreamChatParams): AsyncIterable<string> {
-    const messages = await withSoulContract(params.messages);
+    const messages = await withSoulContract(params.messages, params.persona);
 
-    if ((process.env.CHAT_DEMO_MODE ?? "").trim().toLowerCase() === "true") {
+    if (isDemoMode()) {
       const prompt =
         messages
           .slice()
@@ -51,27 +58,31 @@ export class DefaultLlmProvider implements LlmProvider {
       const demoResponse = buildDemoResponse(prompt);
       for (const chunk of chunkText(demoResponse, 26)) {
         await sleep(14);
+        if (params.signal?.aborted) return;
         yield chunk;
       }
       return;
     }
 
-    if (!this.config) {
+    const requested = parseModelId(params.model);
+    const config =
+      this.configs.find((candidate) => candidate.name === requested?.provider) ?? this.configs[0];
+    if (!config) {
       yield "No model API key configured. Set OPENAI_API_KEY or GROQ_API_KEY.";
       return;
     }
 
-    const response = await fetch(`${this.config.baseUrl}/chat/completions`, {
+    const response = await fetch(`${config.baseUrl}/chat/completions`, {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
-        Authorization: `Bearer ${this.config.apiKey}`
+        Authorization: `Bearer ${config.apiKey}`
       },
       body: JSON.stringify({
-        model: this.config.model,
+        model: requested?.provider === config.name ? requested.name : config.model,
         messages,
         stream: true,
-        temperature: 0.2
+        ...toOpenAiSampling(params.generation)
       }),
       signal: params.signal
     });
@@ -98,6 +109,10 @@ export class DefaultLlmProvider implements LlmProvider {
   }
 }
 
+function isDemoMode(): boolean {
+  return (process.env.CHAT_DEMO_MODE ?? "").trim().toLowerCase() === "true";
+}
+
 function buildDemoResponse(prompt: string): string {
   return `Great question. Here is a clear working draft response based on: "${prompt}".
 
@@ -145,83 +160,3 @@ function chunkText(input: string, chunkSize: number): string[] {
 function sleep(ms: number) {
   return new Promise((resolve) => setTimeout(resolve, ms));
 }
-
-async function* parseSseStream(
-  stream: ReadableStream<Uint8Array>
-): AsyncIterable<string> {
-  const reader = stream.getReader();
-  const decoder = new TextDecoder();
-  let buffer = "";
-
-  try {
-    while (true) {
-      const { done, value } = await reader.read();
-      if (done) break;
-
-      buffer += decoder.decode(value, { stream: true });
-      const lines = buffer.split("\n");
-      buffer = lines.pop() ?? "";
-
-      for (const line of lines) {
-        const trimmed = line.trim();
-        if (!trimmed.startsWith("data:")) continue;
-        const payload = trimmed.slice(5).trim();
-        if (!payload || payload === "[DONE]") continue;
-        yield payload;
-      }
-    }
-  } finally {
-    reader.releaseLock();
-  }
-}
-
-function safeParse(value: string): Record<string, unknown> | null {
-  try {
-    return JSON.parse(value) as Record<string, unknown>;
-  } catch {
-    return null;
-  }
-}
-
-let soulContractCache: string | null | undefined;
-
-async function withSoulContract(messages: StreamChatParams["messages"]) {
-  const soul = await readSoulContract();
-  if (!soul) return messages;
-
-  return [
-    {
-      role: "system",
-      content:
-        "Apply the following soul contract for behavior, tone, and boundaries.\n\n" +
-        soul
-    },
-    ...messages
-  ];
-}
-
-async function readSoulContract(): Promise<string | null> {
-  if (soulContractCache !== undefined) return soulContractCache;
-
-  const configuredPath = process.env.CORTEX_SOUL_SPEC_PATH?.trim();
-  const candidates = [
-    configuredPath,
-    path.resolve(process.cwd(), "..", "CortexLTM", "soul", "SOUL.md"),
-    path.resolve(process.cwd(), "soul", "SOUL.md")
-  ].filter((value): value is string => Boolean(value));
-
-  for (const candidate of candidates) {
-    try {
-      const value = (await readFile(candidate, "utf8")).trim();
-      if (value.length > 0) {
-        soulContractCache = value;
-        return soulContractCache;
-      }
-    } catch {
-      continue;
-    }
-  }
-
-  soulContractCache = null;
-  return soulContractCache;
-}
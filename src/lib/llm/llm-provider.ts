@@ -1,10 +1,21 @@
-import type { ContextMessage } from "@/lib/memory/types";
+import type { ContextMessage, GenerationSettings, PersonaRecord } from "@/lib/memory/types";
 
 export type StreamChatParams = {
   messages: ContextMessage[];
   signal?: AbortSignal;
+  // Registry id (`<provider>/<model>`) chosen for the thread; providers fall back to their
+  // configured default when it is missing or names another provider.
+  model?: string;
+  // Providers map these to their own request fields and skip the ones they lack.
+  generation?: GenerationSettings;
+  // The thread's persona; `withSoulContract` places its prompt after the soul contract.
+  persona?: Pick<PersonaRecord, "name" | "systemPrompt">;
 };
 
 export interface LlmProvider {
+  // Registry id of the default model, reported in stream metadata; undefined when unknown.
+  readonly model?: string;
   streamChat(params: StreamChatParams): AsyncIterable<string>;
+  // Model names the backing server can run, for providers that can ask it.
+  listModels?(signal?: AbortSignal): Promise<string[]>;
 }
@@ -0,0 +1,122 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { LocalLlmProvider } from "@/lib/llm/local-llm-provider";
+import { getLlmProvider } from "@/lib/server/providers";
+import { streamFromChunks } from "@/test/route-helpers";
+
+type FetchCall = [string, RequestInit];
+
+function stubFetch(...responses: Response[]) {
+  const fetchMock = vi.fn(async () => {
+    const next = responses.shift();
+    if (!next) throw new Error("Unexpected fetch call.");
+    return next;
+  });
+  vi.stubGlobal("fetch", fetchMock);
+  return fetchMock;
+}
+
+async function collect(stream: AsyncIterable<string>): Promise<string[]> {
+  const chunks: string[] = [];
+  for await (const chunk of stream) chunks.push(chunk);
+  return chunks;
+}
+
+const HI = { messages: [{ role: "user" as const, content: "hi" }] };
+
+describe("LocalLlmProvider", () => {
+  beforeEach(() => {
+    vi.stubEnv("LOCAL_LLM_MODEL", "qwen2.5:7b");
+  });
+
+  it("streams Ollama's native NDJSON chat with lines split across chunks", async () => {
+    const fetchMock = stubFetch(
+      new Response(
+        streamFromChunks([
+          '{"message":{"role":"assistant","content":"Hel"},"done":false}\n{"mes',
+          'sage":{"role":"assistant","content":"lo"},"done":false}\n',
+          '{"message":{"role":"assistant","content":""},"done":true,"done_reason":"stop"}'
+        ])
+      )
+    );
+    const provider = new LocalLlmProvider();
+
+    expect(
+      await collect(provider.streamChat({ ...HI, generation: { maxTokens: 128, seed: 9 } }))
+    ).toEqual(["Hel", "lo"]);
+    expect(provider.model).toBe("local/qwen2.5:7b");
+    const [url, init] = fetchMock.mock.calls[0] as unknown as FetchCall;
+    expect(url).toBe("http://127.0.0.1:11434/api/chat");
+    expect(JSON.parse(String(init.body))).toMatchObject({
+      model: "qwen2.5:7b",
+      stream: true,
+      messages: [{ role: "user", content: "hi" }],
+      options: { temperature: 0.2, num_predict: 128, seed: 9 }
+    });
+  });
+
+  it("streams OpenAI-compatible servers such as llama.cpp with an optional key", async () => {
+    vi.stubEnv("LOCAL_LLM_API", "openai");
+    vi.stubEnv("LOCAL_LLM_BASE_URL", "http://localhost:8081/v1/");
+    vi.stubEnv("LOCAL_LLM_API_KEY", "local-secret");
+    const fetchMock = stubFetch(
+      new Response(
+        streamFromChunks([
+          'data: {"choices":[{"delta":{"content":"Hi"},"finish_reason":null}]}\n\n',
+          'data: {"choices":[{"delta":{"content":" there"},"finish_reason":"length"}]}\n\n',
+          "data: [DONE]\n\n"
+        ])
+      )
+    );
+    const chunks: string[] = [];
+
+    await expect(async () => {
+      for await (const chunk of new LocalLlmProvider().streamChat(HI)) chunks.push(chunk);
+    }).rejects.toThrow("Reply cut off at the local model's token limit.");
+
+    expect(chunks).toEqual(["Hi", " there"]);
+    const [url, init] = fetchMock.mock.calls[0] as unknown as FetchCall;
+    expect(url).toBe("http://localhost:8081/v1/chat/completions");
+    expect(new Headers(init.headers).get("Authorization")).toBe("Bearer local-secret");
+  });
+
+  it("reports Ollama stream errors and unreachable servers", async () => {
+    stubFetch(new Response(streamFromChunks(['{"error":"model \\"nope\\" not found"}\n'])));
+    await expect(collect(new LocalLlmProvider().streamChat(HI))).rejects.toThrow(
+      'LLM stream failed: model "nope" not found'
+    );
+
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () => {
+        throw new TypeError("fetch failed");
+      })
+    );
+    await expect(collect(new LocalLlmProvider().streamChat(HI))).rejects.toThrow(
+      "Local model server is not reachable at http://127.0.0.1:11434."
+    );
+  });
+
+  it("lists models from Ollama tags and OpenAI-compatible model lists", async () => {
+    const fetchMock = stubFetch(
+      Response.json({ models: [{ name: "llama3.2:latest" }, { name: "qwen2.5:7b" }] }),
+      Response.json({ object: "list", data: [{ id: "gguf/mistral-7b" }, { id: 3 }] })
+    );
+
+    await expect(new LocalLlmProvider().listModels()).resolves.toEqual([
+      "llama3.2:latest",
+      "qwen2.5:7b"
+    ]);
+    vi.stubEnv("LOCAL_LLM_API", "openai");
+    await expect(new LocalLlmProvider().listModels()).resolves.toEqual(["gguf/mistral-7b"]);
+    expect(fetchMock.mock.calls.map((call) => (call as unknown as FetchCall)[0])).toEqual([
+      "http://127.0.0.1:11434/api/tags",
+      "http://127.0.0.1:8080/v1/models"
+    ]);
+  });
+
+  it("is selected by LLM_PROVIDER=ollama or local", () => {
+    vi.stubEnv("CHAT_DEMO_MODE", "false");
+    vi.stubEnv("LLM_PROVIDER", "ollama");
+    expect(getLlmProvider().model).toBe("local/qwen2.5:7b");
+  });
+});
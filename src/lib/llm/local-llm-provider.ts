@@ -0,0 +1,170 @@
+import type { LlmProvider, StreamChatParams } from "@/lib/llm/llm-provider";
+import { configuredModelNames, requestedModel, toModelId } from "@/lib/llm/model-registry";
+import { withSoulContract } from "@/lib/llm/soul-contract";
+import { parseSseStream, safeParse } from "@/lib/llm/sse";
+import { toOpenAiSampling } from "@/lib/llm/thread-settings";
+import type { GenerationSettings } from "@/lib/memory/types";
+
+// `ollama` speaks Ollama's native `/api/chat` (NDJSON); `openai` covers llama.cpp's
+// `llama-server`, LM Studio, vLLM and Ollama's own `/v1` compatibility layer.
+export type LocalLlmApi = "ollama" | "openai";
+
+type LocalConfig = {
+  api: LocalLlmApi;
+  baseUrl: string;
+  model: string;
+  apiKey: string | null;
+};
+
+const DEFAULT_BASE_URLS: Record<LocalLlmApi, string> = {
+  ollama: "http://127.0.0.1:11434",
+  openai: "http://127.0.0.1:8080/v1"
+};
+
+export class LocalLlmProvider implements LlmProvider {
+  private readonly config: LocalConfig;
+
+  constructor() {
+    const rawApi = (process.env.LOCAL_LLM_API ?? "").trim().toLowerCase();
+    const api: LocalLlmApi = rawApi === "openai" ? "openai" : "ollama";
+    this.config = {
+      api,
+      baseUrl: (process.env.LOCAL_LLM_BASE_URL?.trim() || DEFAULT_BASE_URLS[api]).replace(
+        /\/+$/,
+        ""
+      ),
+      model: configuredModelNames("local")[0],
+      apiKey: process.env.LOCAL_LLM_API_KEY?.trim() || null
+    };
+  }
+
+  get model(): string {
+    return toModelId("local", this.config.model);
+  }
+
+  async *streamChat(params: StreamChatParams): AsyncIterable<string> {
+    const messages = await withSoulContract(params.messages, params.persona);
+    const { api } = this.config;
+    const model = requestedModel(params, "local") ?? this.config.model;
+    const response = await this.request(api === "ollama" ? "/api/chat" : "/chat/completions", {
+      method: "POST",
+      body: JSON.stringify(
+        api === "ollama"
+          ? { model, messages, stream: true, options: toOllamaOptions(params.generation) }
+          : { model, messages, stream: true, ...toOpenAiSampling(params.generation) }
+      ),
+      signal: params.signal
+    });
+
+    if (!response.ok || !response.body) {
+      const detail = await response.text();
+      throw new Error(
+        `LLM request failed (${response.status}) ${detail || "Unknown error"}`
+      );
+    }
+
+    let finishReason: string | null = null;
+    if (api === "ollama") {
+      for await (const line of parseJsonLines(response.body)) {
+        const chunk = line as {
+          message?: { content?: unknown };
+          done?: boolean;
+          done_reason?: unknown;
+          error?: unknown;
+        };
+        if (typeof chunk.error === "string") {
+          throw new Error(`LLM stream failed: ${chunk.error}`);
+        }
+        const token = chunk.message?.content;
+        if (typeof token === "string" && token.length > 0) yield token;
+        if (chunk.done && typeof chunk.done_reason === "string") finishReason = chunk.done_reason;
+      }
+    } else {
+      for await (const payload of parseSseStream(response.body)) {
+        const parsed = safeParse(payload) as {
+          choices?: Array<{ delta?: { content?: unknown }; finish_reason?: unknown }>;
+        } | null;
+        const choice = parsed?.choices?.[0];
+        const token = choice?.delta?.content;
+        if (typeof token === "string" && token.length > 0) yield token;
+        if (typeof choice?.finish_reason === "string") finishReason = choice.finish_reason;
+      }
+    }
+
+    // Both APIs report "length" when the server's context or predict limit ends the reply.
+    if (finishReason === "length") {
+      throw new Error("Reply cut off at the local model's token limit.");
+    }
+  }
+
+  async listModels(signal?: AbortSignal): Promise<string[]> {
+    const response = await this.request(this.config.api === "ollama" ? "/api/tags" : "/models", {
+      method: "GET",
+      signal
+    });
+    if (!response.ok) {
+      throw new Error(`Failed to list local models (${response.status}).`);
+    }
+    const payload = (await response.json().catch(() => null)) as {
+      models?: Array<{ name?: unknown }>;
+      data?: Array<{ id?: unknown }>;
+    } | null;
+    const names =
+      this.config.api === "ollama"
+        ? (payload?.models ?? []).map((model) => model.name)
+        : (payload?.data ?? []).map((model) => model.id);
+    return names.filter((name): name is string => typeof name === "string" && name.length > 0);
+  }
+
+  // A refused connection is the usual failure offline, so name the server instead of
+  // surfacing fetch's generic "fetch failed".
+  private async request(pathname: string, init: RequestInit): Promise<Response> {
+    try {
+      return await fetch(`${this.config.baseUrl}${pathname}`, {
+        ...init,
+        headers: {
+          "Content-Type": "application/json",
+          ...(this.config.apiKey ? { Authorization: `Bearer ${this.config.apiKey}` } : {})
+        }
+      });
+    } catch (error) {
+      if (init.signal?.aborted) throw error;
+      throw new Error(`Local model server is not reachable at ${this.config.baseUrl}.`);
+    }
+  }
+}
+
+// Ollama takes sampling options under `options`, with `num_predict` as the token cap.
+function toOllamaOptions(generation: GenerationSettings | undefined) {
+  const { max_tokens: maxTokens, ...sampling } = toOpenAiSampling(generation);
+  return maxTokens === undefined ? sampling : { ...sampling, num_predict: maxTokens };
+}
+
+async function* parseJsonLines(
+  stream: ReadableStream<Uint8Array>
+): AsyncIterable<Record<string, unknown>> {
+  const reader = stream.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split("\n");
+      buffer = lines.pop() ?? "";
+
+      for (const line of lines) {
+        const parsed = line.trim() ? safeParse(line) : null;
+        if (parsed) yield parsed;
+      }
+    }
+    const last = (buffer + decoder.decode()).trim();
+    const parsed = last ? safeParse(last) : null;
+    if (parsed) yield parsed;
+  } finally {
+    reader.releaseLock();
+  }
+}
@@ -0,0 +1,63 @@
+import type { StreamChatParams } from "@/lib/llm/llm-provider";
+
+export type ModelProviderName = "openai" | "groq" | "anthropic" | "local";
+
+// One selectable model. `id` is `<provider>/<model>`: the value stored on threads, passed as
+// `StreamChatParams.model` and reported as `LlmProvider.model`.
+export type ModelOption = {
+  id: string;
+  provider: ModelProviderName;
+  name: string;
+};
+
+const PROVIDER_NAMES: ModelProviderName[] = ["openai", "groq", "anthropic", "local"];
+
+export const DEFAULT_MODELS: Record<ModelProviderName, string> = {
+  openai: "gpt-4o-mini",
+  groq: "llama-3.3-70b-versatile",
+  anthropic: "claude-3-5-haiku-latest",
+  local: "llama3.2"
+};
+
+const ENV_PREFIXES: Record<ModelProviderName, string> = {
+  openai: "OPENAI",
+  groq: "GROQ",
+  anthropic: "ANTHROPIC",
+  local: "LOCAL_LLM"
+};
+
+export function toModelId(provider: ModelProviderName, name: string): string {
+  return `${provider}/${name}`;
+}
+
+// Splits on the first slash only; local model names may contain more of them.
+export function parseModelId(
+  id: string | null | undefined
+): { provider: ModelProviderName; name: string } | null {
+  const slash = id ? id.indexOf("/") : -1;
+  if (!id || slash <= 0) return null;
+  const provider = id.slice(0, slash) as ModelProviderName;
+  const name = id.slice(slash + 1);
+  return PROVIDER_NAMES.includes(provider) && name ? { provider, name } : null;
+}
+
+// The model name `params.model` asks this provider for, or null when it names another one.
+export function requestedModel(
+  params: StreamChatParams,
+  provider: ModelProviderName
+): string | null {
+  const parsed = parseModelId(params.model);
+  return parsed?.provider === provider ? parsed.name : null;
+}
+
+// `<PREFIX>_MODEL` is the provider's default; `<PREFIX>_MODELS` (comma-separated) adds the
+// others users may pick. The default always comes first.
+export function configuredModelNames(provider: ModelProviderName): string[] {
+  const prefix = ENV_PREFIXES[provider];
+  const fallback = process.env[`${prefix}_MODEL`]?.trim() || DEFAULT_MODELS[provider];
+  const extra = (process.env[`${prefix}_MODELS`] ?? "")
+    .split(",")
+    .map((name) => name.trim())
+    .filter(Boolean);
+  return [...new Set([fallback, ...extra])];
+}
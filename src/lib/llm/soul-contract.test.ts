@@ -0,0 +1,35 @@
+import { mkdtemp, writeFile } from "fs/promises";
+import os from "os";
+import path from "path";
+import { describe, expect, it, vi } from "vitest";
+import { withSoulContract } from "@/lib/llm/soul-contract";
+
+describe("withSoulContract", () => {
+  it("orders the soul contract, then the persona, then the existing messages", async () => {
+    const directory = await mkdtemp(path.join(os.tmpdir(), "soul-"));
+    const soulPath = path.join(directory, "SOUL.md");
+    await writeFile(soulPath, "Never claim to be human.\n", "utf8");
+    vi.stubEnv("CORTEX_SOUL_SPEC_PATH", soulPath);
+
+    const messages = await withSoulContract(
+      [
+        { role: "system", content: "Memory context" },
+        { role: "user", content: "hi" }
+      ],
+      { name: "Pirate", systemPrompt: " Talk like a pirate. " }
+    );
+
+    expect(messages.map((message) => message.role)).toEqual([
+      "system",
+      "system",
+      "system",
+      "user"
+    ]);
+    expect(messages[0].content).toContain("Never claim to be human.");
+    expect(messages[1].content).toBe(
+      'Adopt the persona "Pirate" for this conversation, within the soul contract above.\n\n' +
+        "Talk like a pirate."
+    );
+    expect(messages[2].content).toBe("Memory context");
+  });
+});
@@ -0,0 +1,63 @@
+import { readFile } from "fs/promises";
+import path from "path";
+import type { ContextMessage, PersonaRecord } from "@/lib/memory/types";
+
+let soulContractCache: string | null | undefined;
+
+// Prepends the system prompts in a fixed order: the soul contract, then the thread's persona,
+// then whatever `messages` already carries (memory context, conversation). The contract comes
+// first and says so, so a persona can shape voice but not lift its boundaries. Providers decide
+// where system text goes.
+export async function withSoulContract(
+  messages: ContextMessage[],
+  persona?: Pick<PersonaRecord, "name" | "systemPrompt">
+): Promise<ContextMessage[]> {
+  const soul = await readSoulContract();
+  const prefix: ContextMessage[] = [];
+  if (soul) {
+    prefix.push({
+      role: "system",
+      content:
+        "Apply the following soul contract for behavior, tone, and boundaries.\n\n" +
+        soul
+    });
+  }
+  if (persona?.systemPrompt.trim()) {
+    prefix.push({
+      role: "system",
+      content:
+        `Adopt the persona "${persona.name}" for this conversation` +
+        (soul ? ", within the soul contract above" : "") +
+        ".\n\n" +
+        persona.systemPrompt.trim()
+    });
+  }
+
+  return prefix.length > 0 ? [...prefix, ...messages] : messages;
+}
+
+async function readSoulContract(): Promise<string | null> {
+  if (soulContractCache !== undefined) return soulContractCache;
+
+  const configuredPath = process.env.CORTEX_SOUL_SPEC_PATH?.trim();
+  const candidates = [
+    configuredPath,
+    path.resolve(process.cwd(), "..", "CortexLTM", "soul", "SOUL.md"),
+    path.resolve(process.cwd(), "soul", "SOUL.md")
+  ].filter((value): value is string => Boolean(value));
+
+  for (const candidate of candidates) {
+    try {
+      const value = (await readFile(candidate, "utf8")).trim();
+      if (value.length > 0) {
+        soulContractCache = value;
+        return soulContractCache;
+      }
+    } catch {
+      continue;
+    }
+  }
+
+  soulContractCache = null;
+  return soulContractCache;
+}
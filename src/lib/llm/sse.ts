@@ -0,0 +1,38 @@
+// Server-sent events as streamed by the hosted model APIs: yields each `data:` payload, skipping
+// `event:` lines, comments and the OpenAI `[DONE]` sentinel.
+export async function* parseSseStream(
+  stream: ReadableStream<Uint8Array>
+): AsyncIterable<string> {
+  const reader = stream.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split("\n");
+      buffer = lines.pop() ?? "";
+
+      for (const line of lines) {
+        const trimmed = line.trim();
+        if (!trimmed.startsWith("data:")) continue;
+        const payload = trimmed.slice(5).trim();
+        if (!payload || payload === "[DONE]") continue;
+        yield payload;
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+export function safeParse(value: string): Record<string, unknown> | null {
+  try {
+    return JSON.parse(value) as Record<string, unknown>;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest";
+import type { LlmProvider, StreamChatParams } from "@/lib/llm/llm-provider";
+import {
+  parseGenerationSettings,
+  toOpenAiSampling,
+  withThreadSettings
+} from "@/lib/llm/thread-settings";
+
+async function collect(stream: AsyncIterable<string>): Promise<string[]> {
+  const chunks: string[] = [];
+  for await (const chunk of stream) chunks.push(chunk);
+  return chunks;
+}
+
+describe("parseGenerationSettings", () => {
+  it("keeps valid fields and drops nulls and empty stop lists", () => {
+    expect(
+      parseGenerationSettings({
+        temperature: 0.7,
+        topP: null,
+        maxTokens: 512,
+        stop: ["END", "END"],
+        seed: 42
+      })
+    ).toEqual({
+      ok: true,
+      settings: { temperature: 0.7, maxTokens: 512, stop: ["END"], seed: 42 }
+    });
+    expect(parseGenerationSettings({ stop: [] })).toEqual({ ok: true, settings: null });
+    expect(parseGenerationSettings(null)).toEqual({ ok: true, settings: null });
+  });
+
+  it("reports every invalid or unknown field", () => {
+    const result = parseGenerationSettings({
+      temperature: 3,
+      topP: "0.9",
+      maxTokens: 10.5,
+      stop: ["a", "b", "c", "d", "e"],
+      seed: 1.5,
+      frequencyPenalty: 1
+    });
+
+    expect(result).toEqual({
+      ok: false,
+      fields: {
+        temperature: "must be a number from 0 to 2",
+        topP: "must be a number from 0 to 1",
+        maxTokens: "must be a whole number",
+        stop: "must be up to 4 non-empty strings of 64 characters",
+        seed: "must be a whole number",
+        frequencyPenalty: "is not a supported setting"
+      }
+    });
+    expect(parseGenerationSettings([1])).toMatchObject({ ok: false });
+  });
+});
+
+describe("thread generation settings", () => {
+  it("maps settings to OpenAI-style fields with the default temperature", () => {
+    expect(toOpenAiSampling(undefined)).toEqual({ temperature: 0.2 });
+    expect(toOpenAiSampling({ topP: 0.5, maxTokens: 64, stop: ["\n\n"], seed: 7 })).toEqual({
+      temperature: 0.2,
+      top_p: 0.5,
+      max_tokens: 64,
+      stop: ["\n\n"],
+      seed: 7
+    });
+  });
+
+  it("fills in the thread's model and settings unless the call sets its own", async () => {
+    const calls: StreamChatParams[] = [];
+    const llm: LlmProvider = {
+      model: "openai/gpt-4o-mini",
+      async *streamChat(params) {
+        calls.push(params);
+      }
+    };
+    const threadLlm = withThreadSettings(llm, {
+      model: null,
+      settings: { temperature: 1.1 }
+    });
+
+    await collect(threadLlm.streamChat({ messages: [] }));
+    await collect(threadLlm.streamChat({ messages: [], generation: { seed: 1 } }));
+
+    expect(threadLlm.model).toBe("openai/gpt-4o-mini");
+    expect(calls.map((call) => call.generation)).toEqual([{ temperature: 1.1 }, { seed: 1 }]);
+    expect(withThreadSettings(llm, { model: null, settings: null })).toBe(llm);
+  });
+});
@@ -0,0 +1,117 @@
+import type { LlmProvider } from "@/lib/llm/llm-provider";
+import type { GenerationSettings, PersonaRecord, ThreadRecord } from "@/lib/memory/types";
+
+// Used when a thread leaves temperature unset; low enough to keep memory-grounded replies steady.
+export const DEFAULT_TEMPERATURE = 0.2;
+
+export const GENERATION_LIMITS = {
+  temperature: { min: 0, max: 2 },
+  topP: { min: 0, max: 1 },
+  maxTokens: { min: 1, max: 32_768 },
+  stopSequences: 4,
+  stopLength: 64
+} as const;
+
+export type GenerationSettingsResult =
+  | { ok: true; settings: GenerationSettings | null }
+  | { ok: false; fields: Record<string, string> };
+
+const SETTING_KEYS = new Set(["temperature", "topP", "maxTokens", "stop", "seed"]);
+
+// Validates settings from a request body. `null` fields are dropped, and an empty result is
+// `null` so the thread goes back to provider defaults. `fields` maps each bad key to a reason.
+export function parseGenerationSettings(input: unknown): GenerationSettingsResult {
+  if (input === null || input === undefined) return { ok: true, settings: null };
+  if (typeof input !== "object" || Array.isArray(input)) {
+    return { ok: false, fields: { settings: "must be an object" } };
+  }
+
+  const raw = input as Record<string, unknown>;
+  const fields: Record<string, string> = {};
+  const settings: GenerationSettings = {};
+
+  for (const key of Object.keys(raw)) {
+    if (!SETTING_KEYS.has(key)) fields[key] = "is not a supported setting";
+  }
+
+  const range = (key: "temperature" | "topP" | "maxTokens", integer: boolean) => {
+    const value = raw[key];
+    if (value === null || value === undefined) return;
+    const { min, max } = GENERATION_LIMITS[key];
+    if (typeof value !== "number" || !Number.isFinite(value) || value < min || value > max) {
+      fields[key] = `must be a number from ${min} to ${max}`;
+    } else if (integer && !Number.isInteger(value)) {
+      fields[key] = "must be a whole number";
+    } else {
+      settings[key] = value;
+    }
+  };
+  range("temperature", false);
+  range("topP", false);
+  range("maxTokens", true);
+
+  if (raw.stop !== null && raw.stop !== undefined) {
+    const stop = raw.stop;
+    if (
+      !Array.isArray(stop) ||
+      stop.length > GENERATION_LIMITS.stopSequences ||
+      stop.some(
+        (item) =>
+          typeof item !== "string" || !item || item.length > GENERATION_LIMITS.stopLength
+      )
+    ) {
+      const { stopSequences, stopLength } = GENERATION_LIMITS;
+      fields.stop = `must be up to ${stopSequences} non-empty strings of ${stopLength} characters`;
+    } else if (stop.length > 0) {
+      settings.stop = [...new Set(stop as string[])];
+    }
+  }
+
+  if (raw.seed !== null && raw.seed !== undefined) {
+    if (typeof raw.seed !== "number" || !Number.isSafeInteger(raw.seed)) {
+      fields.seed = "must be a whole number";
+    } else {
+      settings.seed = raw.seed;
+    }
+  }
+
+  if (Object.keys(fields).length > 0) return { ok: false, fields };
+  return { ok: true, settings: Object.keys(settings).length > 0 ? settings : null };
+}
+
+// Sampling fields shared by OpenAI, Groq and OpenAI-compatible local servers.
+export function toOpenAiSampling(generation: GenerationSettings | undefined) {
+  return {
+    temperature: generation?.temperature ?? DEFAULT_TEMPERATURE,
+    ...(generation?.topP !== undefined ? { top_p: generation.topP } : {}),
+    ...(generation?.maxTokens !== undefined ? { max_tokens: generation.maxTokens } : {}),
+    ...(generation?.stop ? { stop: generation.stop } : {}),
+    ...(generation?.seed !== undefined ? { seed: generation.seed } : {})
+  };
+}
+
+// Routes every call through `llm` with the thread's model, generation settings and persona as
+// defaults, so each backend's chat, edit and regenerate paths pick them up without threading
+// them through. A model picked on the thread wins over the persona's default model.
+export function withThreadSettings(
+  llm: LlmProvider,
+  thread: Pick<ThreadRecord, "model" | "settings"> | null | undefined,
+  persona?: Pick<PersonaRecord, "name" | "systemPrompt" | "model"> | null
+): LlmProvider {
+  const model = thread?.model ?? persona?.model ?? undefined;
+  const generation = thread?.settings ?? undefined;
+  const prompt = persona ? { name: persona.name, systemPrompt: persona.systemPrompt } : undefined;
+  if (!model && !generation && !prompt) return llm;
+  return {
+    get model() {
+      return model ?? llm.model;
+    },
+    streamChat: (params) =>
+      llm.streamChat({
+        ...params,
+        model: params.model ?? model,
+        generation: params.generation ?? generation,
+        persona: params.persona ?? prompt
+      })
+  };
+}
@@ -0,0 +1,200 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { CortexHttpProvider, MemoryApiError } from "@/lib/memory/cortex-http-provider";
+
+type FetchCall = [string, RequestInit];
+
+function stubFetch(...responses: Response[]) {
+  const fetchMock = vi.fn(async () => {
+    const next = responses.shift();
+    if (!next) throw new Error("Unexpected fetch call.");
+    return next;
+  });
+  vi.stubGlobal("fetch", fetchMock);
+  return fetchMock;
+}
+
+function lastCall(fetchMock: ReturnType<typeof stubFetch>): FetchCall {
+  return fetchMock.mock.calls.at(-1) as unknown as FetchCall;
+}
+
+describe("CortexHttpProvider", () => {
+  beforeEach(() => {
+    vi.stubEnv("CORTEX_API_BASE_URL", "'http://cortex.test/'");
+    vi.stubEnv("CORTEX_API_KEY", "secret");
+  });
+
+  it("normalizes the base url and sends api key + bearer headers", async () => {
+    const fetchMock = stubFetch(Response.json({ thread_id: "t1" }));
+    const provider = new CortexHttpProvider({ authorization: "Bearer abc" });
+
+    await expect(provider.startThread("u1", "Title")).resolves.toBe("t1");
+
+    const [url, init] = lastCall(fetchMock);
+    const headers = new Headers(init.headers);
+    expect(url).toBe("http://cortex.test/v1/threads");
+    expect(init.method).toBe("POST");
+    expect(JSON.parse(String(init.body))).toEqual({ user_id: "u1", title: "Title" });
+    expect(headers.get("x-api-key")).toBe("secret");
+    expect(headers.get("Authorization")).toBe("Bearer abc");
+    expect(headers.get("Content-Type")).toBe("application/json");
+  });
+
+  it("falls back to the default base url for invalid values", async () => {
+    vi.stubEnv("CORTEX_API_BASE_URL", "ftp://nope");
+    const fetchMock = stubFetch(Response.json({ thread_id: "t1" }));
+
+    await new CortexHttpProvider().startThread("u1");
+
+    expect(lastCall(fetchMock)[0]).toBe("http://127.0.0.1:8000/v1/threads");
+  });
+
+  it("maps thread rows", async () => {
+    const fetchMock = stubFetch(
+      Response.json({
+        threads: [
+          {
+            id: "t1",
+            user_id: "u1",
+            title: "Plans",
+            created_at: "2026-01-01T00:00:00Z",
+            is_core_memory: 1
+          },
+          { id: "t2", title: 4 }
+        ]
+      })
+    );
+
+    const threads = await new CortexHttpProvider().listThreads("u1", 10);
+
+    expect(lastCall(fetchMock)[0]).toBe("http://cortex.test/v1/threads?user_id=u1&limit=10");
+    expect(threads[0]).toEqual({
+      id: "t1",
+      userId: "u1",
+      title: "Plans",
+      createdAt: "2026-01-01T00:00:00.000Z",
+      isCoreMemory: true
+    });
+    expect(threads[1]).toMatchObject({ id: "t2", userId: "u1", title: null, isCoreMemory: false });
+  });
+
+  it("drops non-chat events and keeps object meta", async () => {
+    stubFetch(
+      Response.json({
+        messages: [
+          { id: "e1", role: "user", content: "hi", created_at: "2026-01-01T00:00:00Z" },
+          { id: "e2", role: "system", content: "skip" },
+          { id: "e3", role: "assistant", content: 3 },
+          {
+            id: "e4",
+            role: "assistant",
+            content: "hello",
+            created_at: "2026-01-01T00:00:01Z",
+            meta: { reaction: "heart" }
+          },
+          { id: "e5", role: "assistant", content: "x", meta: ["bad"] }
+        ]
+      })
+    );
+
+    const events = await new CortexHttpProvider().getRecentEvents("t1", 5);
+
+    expect(events.map((event) => event.id)).toEqual(["e1", "e4", "e5"]);
+    expect(events[1].meta).toEqual({ reaction: "heart" });
+    expect(events[2]).not.toHaveProperty("meta");
+    expect(events[0].threadId).toBe("t1");
+  });
+
+  it("maps memory context payloads and filters invalid roles", async () => {
+    const fetchMock = stubFetch(
+      Response.json({
+        messages: [
+          { role: "system", content: "summary" },
+          { role: "tool", content: "nope" },
+          { role: "user", content: "hi" }
+        ]
+      })
+    );
+
+    const context = await new CortexHttpProvider().buildMemoryContext({
+      threadId: "t 1",
+      latestUserText: "hi"
+    });
+
+    const [url, init] = lastCall(fetchMock);
+    expect(url).toBe("http://cortex.test/v1/threads/t%201/memory-context");
+    expect(JSON.parse(String(init.body))).toEqual({ latest_user_text: "hi", short_term_limit: 30 });
+    expect(context).toEqual([
+      { role: "system", content: "summary" },
+      { role: "user", content: "hi" }
+    ]);
+  });
+
+  it("maps reaction and promotion responses", async () => {
+    stubFetch(
+      Response.json({ reaction: "brain", summary_updated: true }),
+      Response.json({ summary: "- recap", summary_updated: 0, is_core_memory: true })
+    );
+    const provider = new CortexHttpProvider();
+
+    await expect(provider.setEventReaction("t1", "e1", "brain")).resolves.toEqual({
+      reaction: "brain",
+      summaryUpdated: true
+    });
+    await expect(provider.promoteThreadToCoreMemory("t1")).resolves.toEqual({
+      summary: "- recap",
+      summaryUpdated: false,
+      isCoreMemory: true
+    });
+  });
+
+  it("trims summaries and treats blanks as null", async () => {
+    stubFetch(Response.json({ summary: "  recap  " }), Response.json({ summary: "  " }));
+    const provider = new CortexHttpProvider();
+
+    await expect(provider.getActiveSummary("t1")).resolves.toBe("recap");
+    await expect(provider.getActiveSummary("t1")).resolves.toBeNull();
+  });
+
+  it("raises MemoryApiError with upstream detail and status", async () => {
+    stubFetch(Response.json({ detail: "Thread not found" }, { status: 404 }));
+
+    const error = await new CortexHttpProvider().renameThread("t1", "x").catch((err) => err);
+
+    expect(error).toBeInstanceOf(MemoryApiError);
+    expect(error).toMatchObject({ message: "Thread not found", status: 404 });
+  });
+
+  it("reads nested error messages and falls back to a generic message", async () => {
+    stubFetch(
+      Response.json({ error: { message: "Nested" } }, { status: 409 }),
+      new Response("not json", { status: 502 })
+    );
+    const provider = new CortexHttpProvider();
+
+    await expect(provider.deleteThread("t1")).rejects.toMatchObject({
+      message: "Nested",
+      status: 409
+    });
+    await expect(provider.deleteThread("t1")).rejects.toMatchObject({
+      message: "Memory API request failed with status 502.",
+      status: 502
+    });
+  });
+
+  it("passes the chat stream through and surfaces chat failures", async () => {
+    stubFetch(
+      new Response("streamed", { status: 200, headers: { "x-upstream": "1" } }),
+      new Response("backend exploded", { status: 500 })
+    );
+    const provider = new CortexHttpProvider();
+
+    const ok = await provider.chat("t1", "hi");
+    expect(ok.headers.get("x-upstream")).toBe("1");
+    expect(await ok.text()).toBe("streamed");
+
+    await expect(provider.chat("t1", "hi")).rejects.toMatchObject({
+      message: "backend exploded",
+      status: 500
+    });
+  });
+});
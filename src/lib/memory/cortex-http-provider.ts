@@ -187,8 +187,9 @@ export class CortexHttpProvider implements MemoryProvider {
       );
   }
 
-  async getRecentEvents(threadId: string, limit = 30): Promise<UIMessage[]> {
+  async getRecentEvents(threadId: string, limit = 30, before?: string): Promise<UIMessage[]> {
     const params = new URLSearchParams({ limit: String(limit) });
+    if (before) params.set("before", before);
     const payload = await this.requestJson<{ messages?: JsonRecord[] }>(
       `/v1/threads/${encodeURIComponent(threadId)}/events?${params.toString()}`,
       { method: "GET" }
@@ -0,0 +1,6 @@
+import type { ThreadRecord } from "@/lib/memory/types";
+
+export function forkTitle(parent: Pick<ThreadRecord, "title">): string {
+  const title = parent.title?.trim() || "Untitled chat";
+  return `${title} (branch)`;
+}
@@ -0,0 +1,277 @@
+import { mkdtemp } from "fs/promises";
+import os from "os";
+import path from "path";
+import { describe, expect, it } from "vitest";
+import type { LlmProvider, StreamChatParams } from "@/lib/llm/llm-provider";
+import { InMemoryMemoryProvider } from "@/lib/memory/in-memory-provider";
+import { readFrameStream } from "@/test/route-helpers";
+
+function replyingLlm(reply: string): LlmProvider {
+  return {
+    async *streamChat() {
+      yield reply;
+    }
+  };
+}
+
+async function seedTurn(memory: InMemoryMemoryProvider) {
+  const threadId = await memory.startThread("u1");
+  await memory.addUserEvent(threadId, "hi");
+  const eventId = await memory.addAssistantEvent(threadId, "first");
+  return { threadId, eventId };
+}
+
+describe("InMemoryMemoryProvider reply versions", () => {
+  it("appends a regenerated reply as the active version", async () => {
+    const memory = new InMemoryMemoryProvider({ llm: replyingLlm("second") });
+    const { threadId, eventId } = await seedTurn(memory);
+
+    const res = await memory.regenerateAssistantEvent(threadId, eventId);
+
+    const { frames, text } = await readFrameStream(res);
+    expect(text).toBe("second");
+    expect(frames[0]).toMatchObject({ type: "start", assistantEventId: eventId });
+    expect(frames.at(-1)).toMatchObject({ type: "done", assistantEventId: eventId });
+    const [, reply] = await memory.getRecentEvents(threadId);
+    expect(reply).toMatchObject({
+      id: eventId,
+      content: "second",
+      meta: { versions: ["first", "second"], activeVersion: 1 }
+    });
+  });
+
+  it("only regenerates the latest assistant reply", async () => {
+    const memory = new InMemoryMemoryProvider({ llm: replyingLlm("ignored") });
+    const { threadId, eventId } = await seedTurn(memory);
+    await memory.addUserEvent(threadId, "follow-up");
+
+    await expect(memory.regenerateAssistantEvent(threadId, eventId)).rejects.toMatchObject({
+      status: 409
+    });
+  });
+
+  it("switches the active version and validates the index", async () => {
+    const memory = new InMemoryMemoryProvider({ llm: replyingLlm("second") });
+    const { threadId, eventId } = await seedTurn(memory);
+    await (await memory.regenerateAssistantEvent(threadId, eventId)).text();
+
+    const selected = await memory.selectAssistantVersion(threadId, eventId, 0);
+
+    expect(selected).toMatchObject({ content: "first", meta: { activeVersion: 0 } });
+    await expect(memory.selectAssistantVersion(threadId, eventId, 5)).rejects.toMatchObject({
+      status: 422
+    });
+  });
+});
+
+describe("InMemoryMemoryProvider.editUserEvent", () => {
+  it("rewrites the user event, drops later turns and persists the new reply", async () => {
+    const memory = new InMemoryMemoryProvider({ llm: replyingLlm("fresh") });
+    const threadId = await memory.startThread("u1");
+    const firstId = await memory.addUserEvent(threadId, "helo");
+    await memory.addAssistantEvent(threadId, "stale");
+    await memory.addUserEvent(threadId, "later");
+    await memory.addAssistantEvent(threadId, "later reply");
+
+    const res = await memory.editUserEvent(threadId, firstId, "hello");
+
+    const { frames, text } = await readFrameStream(res);
+    expect(text).toBe("fresh");
+    const events = await memory.getRecentEvents(threadId);
+    expect(frames[0]).toMatchObject({ type: "start", userEventId: firstId });
+    expect(frames.at(-1)).toMatchObject({ type: "done", assistantEventId: events[1]?.id });
+    expect(events.map((event) => [event.role, event.content])).toEqual([
+      ["user", "hello"],
+      ["assistant", "fresh"]
+    ]);
+    expect(events[0]).toMatchObject({ id: firstId, meta: { edited: true } });
+  });
+});
+
+describe("InMemoryMemoryProvider.forkThread", () => {
+  it("copies events up to the chosen message into a linked thread", async () => {
+    const memory = new InMemoryMemoryProvider({ llm: replyingLlm("unused") });
+    const threadId = await memory.startThread("u1", "Trip ideas");
+    await memory.addUserEvent(threadId, "where to?");
+    const replyId = await memory.addAssistantEvent(threadId, "Lisbon");
+    await memory.setEventReaction(threadId, replyId, "heart");
+    await memory.addUserEvent(threadId, "and after?");
+
+    const fork = await memory.forkThread(threadId, replyId);
+
+    expect(fork).toMatchObject({
+      userId: "u1",
+      title: "Trip ideas (branch)",
+      parentThreadId: threadId,
+      forkedFromEventId: replyId
+    });
+    const events = await memory.getRecentEvents(fork.id);
+    expect(events.map((event) => event.content)).toEqual(["where to?", "Lisbon"]);
+    expect(events[1].meta).toEqual({ reaction: "heart" });
+    expect(events[1].id).not.toBe(replyId);
+    expect(await memory.getRecentEvents(threadId)).toHaveLength(3);
+  });
+});
+
+describe("InMemoryMemoryProvider thread models", () => {
+  it("streams replies with the thread's model and settings and keeps them on forks", async () => {
+    const models: Array<string | undefined> = [];
+    const generations: unknown[] = [];
+    const memory = new InMemoryMemoryProvider({
+      llm: {
+        model: "openai/gpt-4o-mini",
+        async *streamChat(params) {
+          models.push(params.model);
+          generations.push(params.generation);
+          yield "ok";
+        }
+      }
+    });
+    const threadId = await memory.startThread("u1");
+    await memory.setThreadModel(threadId, "anthropic/claude-3-5-haiku-latest");
+    await memory.setThreadSettings(threadId, { temperature: 0.8, stop: ["END"] });
+
+    const { frames } = await readFrameStream(await memory.chat(threadId, "hi"));
+
+    expect(frames[0]).toMatchObject({
+      type: "start",
+      model: "anthropic/claude-3-5-haiku-latest"
+    });
+    expect(models).toEqual(["anthropic/claude-3-5-haiku-latest"]);
+    expect(generations).toEqual([{ temperature: 0.8, stop: ["END"] }]);
+    const [, reply] = await memory.getRecentEvents(threadId);
+    const fork = await memory.forkThread(threadId, reply.id);
+    expect(fork).toMatchObject({
+      model: "anthropic/claude-3-5-haiku-latest",
+      settings: { temperature: 0.8, stop: ["END"] }
+    });
+
+    await memory.setThreadModel(threadId, null);
+    await (await memory.chat(threadId, "again")).text();
+    expect(models[1]).toBeUndefined();
+  });
+});
+
+describe("InMemoryMemoryProvider personas", () => {
+  it("uses the persona's prompt and model and detaches it when the persona is deleted", async () => {
+    const calls: StreamChatParams[] = [];
+    const memory = new InMemoryMemoryProvider({
+      llm: {
+        async *streamChat(params) {
+          calls.push(params);
+          yield "ok";
+        }
+      }
+    });
+    const persona = await memory.createPersona("u1", {
+      name: "Editor",
+      systemPrompt: "Tighten prose.",
+      model: "openai/gpt-4o",
+      avatar: null
+    });
+    const threadId = await memory.startThread("u1");
+    await expect(
+      memory.setThreadPersona(await memory.startThread("u2"), persona.id)
+    ).rejects.toMatchObject({ status: 404 });
+    await memory.setThreadPersona(threadId, persona.id);
+
+    await (await memory.chat(threadId, "hi")).text();
+    await memory.setThreadModel(threadId, "groq/llama-3.3-70b-versatile");
+    await (await memory.chat(threadId, "again")).text();
+
+    expect(calls.map((call) => call.model)).toEqual([
+      "openai/gpt-4o",
+      "groq/llama-3.3-70b-versatile"
+    ]);
+    expect(calls[0].persona).toEqual({ name: "Editor", systemPrompt: "Tighten prose." });
+
+    await memory.deletePersona("u1", persona.id);
+    expect(await memory.listPersonas("u1")).toEqual([]);
+    expect(await memory.getThread(threadId)).toMatchObject({ personaId: null });
+  });
+});
+
+describe("InMemoryMemoryProvider.getRecentEvents", () => {
+  it("pages backwards from a cursor event", async () => {
+    const memory = new InMemoryMemoryProvider({ llm: replyingLlm("unused") });
+    const threadId = await memory.startThread("u1");
+    const ids: string[] = [];
+    for (const text of ["a", "b", "c", "d"]) {
+      ids.push(await memory.addUserEvent(threadId, text));
+    }
+
+    const page = await memory.getRecentEvents(threadId, 2, ids[3]);
+
+    expect(page.map((event) => event.content)).toEqual(["b", "c"]);
+    expect(await memory.getRecentEvents(threadId, 2, "missing")).toEqual([]);
+  });
+});
+
+describe("InMemoryMemoryProvider.searchEvents", () => {
+  it("returns the user's newest matching events with snippets", async () => {
+    const memory = new InMemoryMemoryProvider({ llm: replyingLlm("unused") });
+    const userId = `search-${Date.now()}`;
+    const threadId = await memory.startThread(userId, "Ops");
+    await memory.addUserEvent(threadId, "How do I deploy the worker?");
+    await memory.addAssistantEvent(threadId, "Run the Worker deploy script.");
+    await memory.addUserEvent(threadId, "Thanks");
+    const otherThread = await memory.startThread("someone-else");
+    await memory.addUserEvent(otherThread, "deploy worker");
+
+    const hits = await memory.searchEvents(userId, "worker DEPLOY");
+
+    expect(hits.map((hit) => hit.event.content)).toEqual([
+      "Run the Worker deploy script.",
+      "How do I deploy the worker?"
+    ]);
+    expect(hits[0]).toMatchObject({ threadId, threadTitle: "Ops" });
+  });
+});
+
+describe("InMemoryMemoryProvider API keys", () => {
+  it("authenticates active keys by hash until they are revoked", async () => {
+    const memory = new InMemoryMemoryProvider({ llm: replyingLlm("unused") });
+    const userId = `keys-${Date.now()}`;
+    const created = await memory.createApiKey({
+      userId,
+      name: "CI",
+      prefix: "cxk_abc123",
+      keyHash: `hash-${userId}`,
+      scopes: ["read"]
+    });
+
+    expect(created).not.toHaveProperty("keyHash");
+    expect(await memory.listApiKeys(userId)).toEqual([created]);
+    const used = await memory.authenticateApiKey(`hash-${userId}`);
+    expect(used).toMatchObject({ id: created.id, userId, scopes: ["read"] });
+    expect(used?.lastUsedAt).not.toBeNull();
+
+    await expect(memory.revokeApiKey("someone-else", created.id)).rejects.toMatchObject({
+      status: 404
+    });
+    await memory.revokeApiKey(userId, created.id);
+
+    expect(await memory.authenticateApiKey(`hash-${userId}`)).toBeNull();
+    expect(await memory.listApiKeys(userId)).toEqual([]);
+  });
+});
+
+describe("InMemoryMemoryProvider stores", () => {
+  it("keeps a separate store per snapshot path", async () => {
+    const directory = await mkdtemp(path.join(os.tmpdir(), "memory-"));
+    const first = new InMemoryMemoryProvider({
+      llm: replyingLlm("unused"),
+      snapshotPath: path.join(directory, "a.json")
+    });
+    const second = new InMemoryMemoryProvider({
+      llm: replyingLlm("unused"),
+      snapshotPath: path.join(directory, "b.json")
+    });
+
+    const threadId = await first.startThread("u1", "Only in a");
+
+    expect(await first.getThread(threadId)).toMatchObject({ userId: "u1", title: "Only in a" });
+    expect(await second.getThread(threadId)).toBeNull();
+    expect(await second.listThreads("u1")).toEqual([]);
+  });
+});
@@ -0,0 +1,569 @@
+import { randomUUID } from "crypto";
+import { mkdir, readFile, rename, writeFile } from "fs/promises";
+import path from "path";
+import type { LlmProvider } from "@/lib/llm/llm-provider";
+import { withThreadSettings } from "@/lib/llm/thread-settings";
+import { MemoryApiError } from "@/lib/memory/cortex-http-provider";
+import {
+  createLocalChatResponse,
+  createLocalRegenerateResponse,
+  createLocalReplyResponse,
+  requireLatestTurn
+} from "@/lib/memory/local-chat";
+import { forkTitle } from "@/lib/memory/forks";
+import { composeMemoryContext, summarizeEvents } from "@/lib/memory/memory-context";
+import { buildSnippet, matchesAllTerms, searchTerms } from "@/lib/memory/search";
+import type { MemoryProvider } from "@/lib/memory/memory-provider";
+import type {
+  ApiKeyRecord,
+  BuildMemoryContextParams,
+  ContextMessage,
+  CreateApiKeyParams,
+  EventSearchHit,
+  GenerationSettings,
+  PersonaInput,
+  PersonaRecord,
+  ThreadRecord,
+  UIMessage
+} from "@/lib/memory/types";
+import { withActiveVersion, withAppendedVersion } from "@/lib/memory/versions";
+
+type StoredApiKey = ApiKeyRecord & { keyHash: string };
+
+type MemoryStore = {
+  threads: ThreadRecord[];
+  events: UIMessage[];
+  summaries: Record<string, string>;
+  apiKeys: StoredApiKey[];
+  personas: PersonaRecord[];
+};
+
+// One store per snapshot path (`""` when not persisted), shared by every provider instance
+// that uses that path.
+const sharedStores = new Map<string, Promise<MemoryStore>>();
+let pendingWrite: Promise<void> = Promise.resolve();
+
+export class InMemoryMemoryProvider implements MemoryProvider {
+  private readonly llm: LlmProvider;
+  private readonly snapshotPath: string | null;
+
+  constructor(options: { llm: LlmProvider; snapshotPath?: string | null }) {
+    this.llm = options.llm;
+    this.snapshotPath = options.snapshotPath ?? readSnapshotPath();
+  }
+
+  async startThread(userId: string, title?: string): Promise<string> {
+    const store = await this.store();
+    const id = randomUUID();
+    store.threads.push({
+      id,
+      userId,
+      title: title?.trim() || null,
+      createdAt: new Date().toISOString(),
+      isCoreMemory: false
+    });
+    await this.persist(store);
+    return id;
+  }
+
+  async chat(threadId: string, text: string, signal?: AbortSignal): Promise<Response> {
+    const store = await this.store();
+    const thread = requireThread(store, threadId);
+    return createLocalChatResponse(this, this.threadLlm(store, thread), threadId, text, signal);
+  }
+
+  async listThreads(userId: string, limit = 50): Promise<ThreadRecord[]> {
+    const store = await this.store();
+    return store.threads
+      .filter((thread) => thread.userId === userId)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      .slice(0, limit)
+      .map((thread) => ({ ...thread }));
+  }
+
+  async getThread(threadId: string): Promise<ThreadRecord | null> {
+    const store = await this.store();
+    const thread = store.threads.find((item) => item.id === threadId);
+    return thread ? { ...thread } : null;
+  }
+
+  async searchEvents(userId: string, query: string, limit = 20): Promise<EventSearchHit[]> {
+    const store = await this.store();
+    const terms = searchTerms(query);
+    const threads = new Map(
+      store.threads
+        .filter((thread) => thread.userId === userId)
+        .map((thread) => [thread.id, thread])
+    );
+    const hits: EventSearchHit[] = [];
+    for (let index = store.events.length - 1; index >= 0 && hits.length < limit; index -= 1) {
+      const event = store.events[index];
+      const thread = threads.get(event.threadId);
+      if (!thread || !matchesAllTerms(event.content, terms)) continue;
+      hits.push({
+        threadId: thread.id,
+        threadTitle: thread.title,
+        event: { ...event, ...(event.meta ? { meta: { ...event.meta } } : {}) },
+        snippet: buildSnippet(event.content, query)
+      });
+    }
+    return hits;
+  }
+
+  async renameThread(threadId: string, title: string): Promise<void> {
+    const store = await this.store();
+    requireThread(store, threadId).title = title;
+    await this.persist(store);
+  }
+
+  async setThreadModel(threadId: string, model: string | null): Promise<void> {
+    const store = await this.store();
+    requireThread(store, threadId).model = model;
+    await this.persist(store);
+  }
+
+  async setThreadSettings(threadId: string, settings: GenerationSettings | null): Promise<void> {
+    const store = await this.store();
+    requireThread(store, threadId).settings = settings ? { ...settings } : null;
+    await this.persist(store);
+  }
+
+  async setThreadPersona(threadId: string, personaId: string | null): Promise<void> {
+    const store = await this.store();
+    const thread = requireThread(store, threadId);
+    if (personaId) requirePersona(store, thread.userId, personaId);
+    thread.personaId = personaId;
+    await this.persist(store);
+  }
+
+  async deleteThread(threadId: string): Promise<void> {
+    const store = await this.store();
+    requireThread(store, threadId);
+    store.threads = store.threads.filter((thread) => thread.id !== threadId);
+    store.events = store.events.filter((event) => event.threadId !== threadId);
+    for (const thread of store.threads) {
+      if (thread.parentThreadId === threadId) thread.parentThreadId = null;
+    }
+    delete store.summaries[threadId];
+    await this.persist(store);
+  }
+
+  async promoteThreadToCoreMemory(
+    threadId: string
+  ): Promise<{ summary: string | null; summaryUpdated: boolean; isCoreMemory: boolean }> {
+    const store = await this.store();
+    requireThread(store, threadId).isCoreMemory = true;
+    await this.persist(store);
+    const refreshed = await this.refreshSummary(threadId);
+    return {
+      summary: refreshed ?? store.summaries[threadId] ?? null,
+      summaryUpdated: refreshed !== null,
+      isCoreMemory: true
+    };
+  }
+
+  async addUserEvent(
+    threadId: string,
+    text: string,
+    meta?: Record<string, unknown>
+  ): Promise<string> {
+    return this.addEvent(threadId, "user", text, meta);
+  }
+
+  async addAssistantEvent(
+    threadId: string,
+    text: string,
+    meta?: Record<string, unknown>
+  ): Promise<string> {
+    return this.addEvent(threadId, "assistant", text, meta);
+  }
+
+  async setEventReaction(
+    threadId: string,
+    eventId: string,
+    reaction: "thumbs_up" | "heart" | "angry" | "sad" | "brain" | null
+  ): Promise<{ reaction: string | null; summaryUpdated: boolean }> {
+    const store = await this.store();
+    const event = store.events.find(
+      (item) => item.id === eventId && item.threadId === threadId && item.role === "assistant"
+    );
+    if (!event) throw new MemoryApiError("Assistant event not found.", 404);
+
+    const nextMeta = { ...(event.meta ?? {}) };
+    if (reaction) {
+      nextMeta.reaction = reaction;
+    } else {
+      delete nextMeta.reaction;
+    }
+    event.meta = nextMeta;
+    await this.persist(store);
+
+    const summaryUpdated = reaction === "brain" && (await this.refreshSummary(threadId)) !== null;
+    return { reaction, summaryUpdated };
+  }
+
+  async buildMemoryContext(params: BuildMemoryContextParams): Promise<ContextMessage[]> {
+    const store = await this.store();
+    const thread = requireThread(store, params.threadId);
+    const coreMemories = store.threads
+      .filter(
+        (item) =>
+          item.userId === thread.userId && item.isCoreMemory && item.id !== thread.id
+      )
+      .map((item) => store.summaries[item.id])
+      .filter((summary): summary is string => Boolean(summary))
+      .slice(0, 5);
+
+    return composeMemoryContext({
+      latestUserText: params.latestUserText,
+      summary: store.summaries[params.threadId] ?? null,
+      coreMemories,
+      recent: await this.getRecentEvents(params.threadId, params.shortTermLimit ?? 30)
+    });
+  }
+
+  async regenerateAssistantEvent(
+    threadId: string,
+    eventId: string,
+    signal?: AbortSignal
+  ): Promise<Response> {
+    const store = await this.store();
+    const thread = requireThread(store, threadId);
+    const { userEvent } = requireLatestTurn(await this.getRecentEvents(threadId, 2), eventId);
+
+    return createLocalRegenerateResponse(this, this.threadLlm(store, thread), {
+      threadId,
+      latestUserText: userEvent.content,
+      assistantEventId: eventId,
+      signal,
+      onComplete: async (output, interrupted) => {
+        const event = store.events.find((item) => item.id === eventId);
+        if (!event) return;
+        Object.assign(event, withAppendedVersion(event, output, interrupted));
+        await this.persist(store);
+      }
+    });
+  }
+
+  async selectAssistantVersion(
+    threadId: string,
+    eventId: string,
+    index: number
+  ): Promise<UIMessage> {
+    const store = await this.store();
+    const event = store.events.find(
+      (item) => item.id === eventId && item.threadId === threadId && item.role === "assistant"
+    );
+    if (!event) throw new MemoryApiError("Assistant event not found.", 404);
+    const next = withActiveVersion(event, index);
+    if (!next) throw new MemoryApiError("Version index is out of range.", 422);
+    Object.assign(event, next);
+    await this.persist(store);
+    return { ...event, meta: { ...next.meta } };
+  }
+
+  async editUserEvent(
+    threadId: string,
+    eventId: string,
+    text: string,
+    signal?: AbortSignal
+  ): Promise<Response> {
+    const store = await this.store();
+    const thread = store.threads.find((item) => item.id === threadId);
+    const index = store.events.findIndex(
+      (item) => item.id === eventId && item.threadId === threadId && item.role === "user"
+    );
+    if (index === -1) throw new MemoryApiError("User event not found.", 404);
+
+    const event = store.events[index];
+    event.content = text;
+    event.meta = { ...(event.meta ?? {}), edited: true };
+    store.events = store.events.filter(
+      (item, position) => item.threadId !== threadId || position <= index
+    );
+    await this.persist(store);
+
+    return createLocalReplyResponse(
+      this,
+      this.threadLlm(store, thread),
+      threadId,
+      text,
+      signal,
+      eventId
+    );
+  }
+
+  async forkThread(threadId: string, eventId: string): Promise<ThreadRecord> {
+    const store = await this.store();
+    const parent = requireThread(store, threadId);
+    const threadEvents = store.events.filter((event) => event.threadId === threadId);
+    const cutoff = threadEvents.findIndex((event) => event.id === eventId);
+    if (cutoff === -1) throw new MemoryApiError("Event not found.", 404);
+
+    const thread: ThreadRecord = {
+      id: randomUUID(),
+      userId: parent.userId,
+      title: forkTitle(parent),
+      createdAt: new Date().toISOString(),
+      isCoreMemory: false,
+      parentThreadId: threadId,
+      forkedFromEventId: eventId,
+      model: parent.model ?? null,
+      settings: parent.settings ? structuredClone(parent.settings) : null,
+      personaId: parent.personaId ?? null
+    };
+    store.threads.push(thread);
+    for (const event of threadEvents.slice(0, cutoff + 1)) {
+      store.events.push({
+        ...event,
+        id: randomUUID(),
+        threadId: thread.id,
+        ...(event.meta ? { meta: structuredClone(event.meta) } : {})
+      });
+    }
+    await this.persist(store);
+    return { ...thread };
+  }
+
+  async getRecentEvents(threadId: string, limit = 30, before?: string): Promise<UIMessage[]> {
+    const store = await this.store();
+    let events = store.events.filter((event) => event.threadId === threadId);
+    if (before) {
+      const cutoff = events.findIndex((event) => event.id === before);
+      events = cutoff === -1 ? [] : events.slice(0, cutoff);
+    }
+    return events
+      .slice(-limit)
+      .map((event) => ({ ...event, ...(event.meta ? { meta: { ...event.meta } } : {}) }));
+  }
+
+  async getActiveSummary(threadId: string): Promise<string | null> {
+    const store = await this.store();
+    return store.summaries[threadId] ?? null;
+  }
+
+  private async addEvent(
+    threadId: string,
+    role: "user" | "assistant",
+    content: string,
+    meta?: Record<string, unknown>
+  ): Promise<string> {
+    const store = await this.store();
+    requireThread(store, threadId);
+    const id = randomUUID();
+    store.events.push({
+      id,
+      threadId,
+      role,
+      content,
+      createdAt: new Date().toISOString(),
+      ...(meta && Object.keys(meta).length > 0 ? { meta: { ...meta } } : {})
+    });
+    await this.persist(store);
+    return id;
+  }
+
+  private threadLlm(store: MemoryStore, thread: ThreadRecord | undefined): LlmProvider {
+    const persona = thread?.personaId
+      ? store.personas.find((item) => item.id === thread.personaId)
+      : undefined;
+    return withThreadSettings(this.llm, thread, persona);
+  }
+
+  private async refreshSummary(threadId: string): Promise<string | null> {
+    let summary: string | null;
+    try {
+      summary = await summarizeEvents(this.llm, await this.getRecentEvents(threadId, 40));
+    } catch {
+      return null;
+    }
+    if (!summary) return null;
+
+    const store = await this.store();
+    store.summaries[threadId] = summary;
+    await this.persist(store);
+    return summary;
+  }
+
+  async listPersonas(userId: string): Promise<PersonaRecord[]> {
+    const store = await this.store();
+    return store.personas
+      .filter((persona) => persona.userId === userId)
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .map((persona) => ({ ...persona }));
+  }
+
+  async createPersona(userId: string, input: PersonaInput): Promise<PersonaRecord> {
+    const store = await this.store();
+    const now = new Date().toISOString();
+    const persona: PersonaRecord = {
+      id: randomUUID(),
+      userId,
+      ...toPersonaFields(input),
+      createdAt: now,
+      updatedAt: now
+    };
+    store.personas.push(persona);
+    await this.persist(store);
+    return { ...persona };
+  }
+
+  async updatePersona(
+    userId: string,
+    personaId: string,
+    input: PersonaInput
+  ): Promise<PersonaRecord> {
+    const store = await this.store();
+    const persona = requirePersona(store, userId, personaId);
+    Object.assign(persona, toPersonaFields(input), { updatedAt: new Date().toISOString() });
+    await this.persist(store);
+    return { ...persona };
+  }
+
+  async deletePersona(userId: string, personaId: string): Promise<void> {
+    const store = await this.store();
+    requirePersona(store, userId, personaId);
+    store.personas = store.personas.filter((persona) => persona.id !== personaId);
+    for (const thread of store.threads) {
+      if (thread.personaId === personaId) thread.personaId = null;
+    }
+    await this.persist(store);
+  }
+
+  async createApiKey(params: CreateApiKeyParams): Promise<ApiKeyRecord> {
+    const store = await this.store();
+    const key: StoredApiKey = {
+      id: randomUUID(),
+      userId: params.userId,
+      name: params.name,
+      prefix: params.prefix,
+      keyHash: params.keyHash,
+      scopes: [...params.scopes],
+      createdAt: new Date().toISOString(),
+      lastUsedAt: null,
+      revokedAt: null
+    };
+    store.apiKeys.push(key);
+    await this.persist(store);
+    return toApiKeyRecord(key);
+  }
+
+  async listApiKeys(userId: string): Promise<ApiKeyRecord[]> {
+    const store = await this.store();
+    return store.apiKeys
+      .filter((key) => key.userId === userId && !key.revokedAt)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      .map(toApiKeyRecord);
+  }
+
+  async revokeApiKey(userId: string, keyId: string): Promise<void> {
+    const store = await this.store();
+    const key = store.apiKeys.find(
+      (item) => item.id === keyId && item.userId === userId && !item.revokedAt
+    );
+    if (!key) throw new MemoryApiError("API key not found.", 404);
+    key.revokedAt = new Date().toISOString();
+    await this.persist(store);
+  }
+
+  async authenticateApiKey(keyHash: string): Promise<ApiKeyRecord | null> {
+    const store = await this.store();
+    const key = store.apiKeys.find((item) => item.keyHash === keyHash && !item.revokedAt);
+    if (!key) return null;
+    key.lastUsedAt = new Date().toISOString();
+    await this.persist(store);
+    return toApiKeyRecord(key);
+  }
+
+  private store(): Promise<MemoryStore> {
+    const key = this.snapshotPath ?? "";
+    let store = sharedStores.get(key);
+    if (!store) {
+      store = loadSnapshot(this.snapshotPath);
+      sharedStores.set(key, store);
+    }
+    return store;
+  }
+
+  private persist(store: MemoryStore): Promise<void> {
+    const snapshotPath = this.snapshotPath;
+    if (!snapshotPath) return Promise.resolve();
+    pendingWrite = pendingWrite
+      .catch(() => undefined)
+      .then(() => writeSnapshot(snapshotPath, store));
+    return pendingWrite;
+  }
+}
+
+function readSnapshotPath(): string | null {
+  const configured = (process.env.CORTEX_MEMORY_SNAPSHOT_PATH ?? "")
+    .trim()
+    .replace(/^['"]|['"]$/g, "");
+  return configured ? path.resolve(process.cwd(), configured) : null;
+}
+
+async function loadSnapshot(snapshotPath: string | null): Promise<MemoryStore> {
+  const empty: MemoryStore = {
+    threads: [],
+    events: [],
+    summaries: {},
+    apiKeys: [],
+    personas: []
+  };
+  if (!snapshotPath) return empty;
+
+  try {
+    const parsed = JSON.parse(await readFile(snapshotPath, "utf8")) as Partial<MemoryStore>;
+    return {
+      threads: Array.isArray(parsed.threads) ? parsed.threads : [],
+      events: Array.isArray(parsed.events) ? parsed.events : [],
+      summaries:
+        parsed.summaries && typeof parsed.summaries === "object" ? parsed.summaries : {},
+      apiKeys: Array.isArray(parsed.apiKeys) ? parsed.apiKeys : [],
+      personas: Array.isArray(parsed.personas) ? parsed.personas : []
+    };
+  } catch {
+    return empty;
+  }
+}
+
+async function writeSnapshot(snapshotPath: string, store: MemoryStore): Promise<void> {
+  await mkdir(path.dirname(snapshotPath), { recursive: true });
+  const tempPath = `${snapshotPath}.tmp`;
+  await writeFile(tempPath, JSON.stringify(store, null, 2), "utf8");
+  await rename(tempPath, snapshotPath);
+}
+
+function toApiKeyRecord(key: StoredApiKey): ApiKeyRecord {
+  return {
+    id: key.id,
+    userId: key.userId,
+    name: key.name,
+    prefix: key.prefix,
+    scopes: [...key.scopes],
+    createdAt: key.createdAt,
+    lastUsedAt: key.lastUsedAt,
+    revokedAt: key.revokedAt
+  };
+}
+
+function toPersonaFields(input: PersonaInput): PersonaInput {
+  return {
+    name: input.name,
+    systemPrompt: input.systemPrompt,
+    model: input.model,
+    avatar: input.avatar
+  };
+}
+
+function requirePersona(store: MemoryStore, userId: string, personaId: string): PersonaRecord {
+  const persona = store.personas.find((item) => item.id === personaId && item.userId === userId);
+  if (!persona) throw new MemoryApiError("Persona not found.", 404);
+  return persona;
+}
+
+function requireThread(store: MemoryStore, threadId: string): ThreadRecord {
+  const thread = store.threads.find((item) => item.id === threadId);
+  if (!thread) throw new MemoryApiError("Thread not found.", 404);
+  return thread;
+}
@@ -0,0 +1,121 @@
+import { describe, expect, it, vi } from "vitest";
+import type { LlmProvider } from "@/lib/llm/llm-provider";
+import { createLocalChatResponse } from "@/lib/memory/local-chat";
+import { createFakeMemory, readFrameStream } from "@/test/route-helpers";
+
+describe("createLocalChatResponse", () => {
+  it("persists the user event, streams the model and persists the reply", async () => {
+    const memory = createFakeMemory({
+      buildMemoryContext: vi.fn(async () => [{ role: "user" as const, content: "hi" }])
+    });
+    const llm: LlmProvider = {
+      model: "test-model",
+      async *streamChat() {
+        yield "Hello ";
+        yield "there";
+      }
+    };
+
+    const res = await createLocalChatResponse(memory, llm, "t1", "hi");
+
+    expect(await readFrameStream(res)).toEqual({
+      text: "Hello there",
+      frames: [
+        { type: "start", userEventId: "event-user", assistantEventId: null, model: "test-model" },
+        { type: "delta", text: "Hello " },
+        { type: "delta", text: "there" },
+        { type: "usage", inputTokens: 1, outputTokens: 3, estimated: true },
+        {
+          type: "done",
+          userEventId: "event-user",
+          assistantEventId: "event-assistant",
+          interrupted: false
+        }
+      ]
+    });
+    expect(memory.addUserEvent).toHaveBeenCalledWith("t1", "hi", { source: "chatui" });
+    expect(memory.buildMemoryContext).toHaveBeenCalledWith({
+      threadId: "t1",
+      latestUserText: "hi",
+      shortTermLimit: 30
+    });
+    expect(memory.addAssistantEvent).toHaveBeenCalledWith("t1", "Hello there", {
+      source: "chatui_llm"
+    });
+  });
+
+  it("reports a reply that could not be saved instead of finishing silently", async () => {
+    const memory = createFakeMemory({
+      addAssistantEvent: vi.fn(async () => Promise.reject(new Error("disk full")))
+    });
+    const llm: LlmProvider = {
+      async *streamChat() {
+        yield "Hello";
+      }
+    };
+
+    const res = await createLocalChatResponse(memory, llm, "t1", "hi");
+
+    const { frames } = await readFrameStream(res);
+    expect(frames).toContainEqual({
+      type: "error",
+      message: "The reply could not be saved: disk full"
+    });
+    expect(frames.at(-1)).toEqual({
+      type: "done",
+      userEventId: "event-user",
+      assistantEventId: null,
+      interrupted: false
+    });
+  });
+
+  it("persists partial output as interrupted when the caller aborts", async () => {
+    const memory = createFakeMemory();
+    const abort = new AbortController();
+    const llm: LlmProvider = {
+      async *streamChat(params) {
+        yield "Partial";
+        abort.abort();
+        if (params.signal?.aborted) throw new DOMException("Aborted", "AbortError");
+        yield " never";
+      }
+    };
+
+    const res = await createLocalChatResponse(memory, llm, "t1", "hi", abort.signal);
+
+    const { frames, text } = await readFrameStream(res);
+    expect(text).toBe("Partial");
+    expect(frames.at(-1)).toEqual({
+      type: "done",
+      userEventId: "event-user",
+      assistantEventId: "event-assistant",
+      interrupted: true
+    });
+    expect(memory.addAssistantEvent).toHaveBeenCalledWith("t1", "Partial", {
+      source: "chatui_llm",
+      interrupted: true
+    });
+  });
+
+  it("reports model errors in an error frame and skips persisting empty replies", async () => {
+    const memory = createFakeMemory();
+    const llm: LlmProvider = {
+      async *streamChat() {
+        yield* [];
+        throw new Error("quota exceeded");
+      }
+    };
+
+    const res = await createLocalChatResponse(memory, llm, "t1", "hi");
+
+    const { frames } = await readFrameStream(res);
+    expect(frames).toContainEqual({ type: "error", message: "quota exceeded" });
+    expect(frames.at(-1)).toEqual({
+      type: "done",
+      userEventId: "event-user",
+      assistantEventId: null,
+      interrupted: false
+    });
+    expect(memory.addAssistantEvent).not.toHaveBeenCalled();
+  });
+});
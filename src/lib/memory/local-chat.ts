@@ -0,0 +1,156 @@
+import type { LlmProvider } from "@/lib/llm/llm-provider";
+import { MemoryApiError } from "@/lib/memory/cortex-http-provider";
+import type { MemoryProvider } from "@/lib/memory/memory-provider";
+import { createFrameResponse, estimateTokens } from "@/lib/memory/stream-protocol";
+import type { ContextMessage, UIMessage } from "@/lib/memory/types";
+
+// Mirrors the CortexLTM ordering contract for backends that run the model in-process:
+// persist user event, build context, stream the model, then persist the assistant event.
+// When the caller aborts, the partial reply is still persisted with `meta.interrupted`.
+export async function createLocalChatResponse(
+  memory: MemoryProvider,
+  llm: LlmProvider,
+  threadId: string,
+  text: string,
+  signal?: AbortSignal
+): Promise<Response> {
+  const userEventId = await memory.addUserEvent(threadId, text, { source: "chatui" });
+  return createLocalReplyResponse(memory, llm, threadId, text, signal, userEventId);
+}
+
+// Second half of the ordering contract, for callers that already persisted (or rewrote)
+// the latest user event themselves.
+export async function createLocalReplyResponse(
+  memory: MemoryProvider,
+  llm: LlmProvider,
+  threadId: string,
+  latestUserText: string,
+  signal?: AbortSignal,
+  userEventId: string | null = null
+): Promise<Response> {
+  const messages = await memory.buildMemoryContext({
+    threadId,
+    latestUserText,
+    shortTermLimit: 30
+  });
+
+  return streamLocalReply({
+    llm,
+    messages,
+    signal,
+    userEventId,
+    assistantEventId: null,
+    onComplete: (output, interrupted) =>
+      memory.addAssistantEvent(threadId, output, {
+        source: "chatui_llm",
+        ...(interrupted ? { interrupted: true } : {})
+      })
+  });
+}
+
+// Re-runs the model for the latest turn. The caller guarantees the thread ends with the
+// assistant event being replaced, so that reply is dropped from the rebuilt context.
+export async function createLocalRegenerateResponse(
+  memory: MemoryProvider,
+  llm: LlmProvider,
+  params: {
+    threadId: string;
+    latestUserText: string;
+    assistantEventId: string;
+    signal?: AbortSignal;
+    onComplete: (output: string, interrupted: boolean) => Promise<unknown>;
+  }
+): Promise<Response> {
+  const messages = await memory.buildMemoryContext({
+    threadId: params.threadId,
+    latestUserText: params.latestUserText,
+    shortTermLimit: 30
+  });
+  if (messages[messages.length - 1]?.role === "assistant") {
+    messages.pop();
+  }
+
+  return streamLocalReply({
+    llm,
+    messages,
+    signal: params.signal,
+    userEventId: null,
+    assistantEventId: params.assistantEventId,
+    onComplete: params.onComplete
+  });
+}
+
+export function requireLatestTurn(
+  recent: UIMessage[],
+  eventId: string
+): { userEvent: UIMessage; target: UIMessage } {
+  const target = recent[recent.length - 1];
+  const userEvent = recent[recent.length - 2];
+  if (!target || target.id !== eventId || target.role !== "assistant") {
+    throw new MemoryApiError("Only the latest assistant reply can be regenerated.", 409);
+  }
+  if (!userEvent || userEvent.role !== "user") {
+    throw new MemoryApiError("The reply to regenerate has no preceding user message.", 409);
+  }
+  return { userEvent, target };
+}
+
+// A string returned by `onComplete` is the id of the persisted assistant event and is
+// reported in the `done` frame alongside the user event id.
+function streamLocalReply(params: {
+  llm: LlmProvider;
+  messages: ContextMessage[];
+  signal?: AbortSignal;
+  userEventId: string | null;
+  assistantEventId: string | null;
+  onComplete: (output: string, interrupted: boolean) => Promise<unknown>;
+}): Response {
+  const { llm, messages, signal, onComplete } = params;
+  return createFrameResponse(async (emit) => {
+    emit({
+      type: "start",
+      userEventId: params.userEventId,
+      assistantEventId: params.assistantEventId,
+      model: llm.model ?? null
+    });
+
+    let output = "";
+    try {
+      for await (const chunk of llm.streamChat({ messages, signal })) {
+        output += chunk;
+        emit({ type: "delta", text: chunk });
+      }
+    } catch (error) {
+      if (!signal?.aborted) {
+        emit({
+          type: "error",
+          message: error instanceof Error ? error.message : "Unexpected stream error"
+        });
+      }
+    }
+
+    const interrupted = Boolean(signal?.aborted);
+    let assistantEventId = params.assistantEventId;
+    if (output.trim()) {
+      // A reply that was shown but not stored would vanish on reload, so say so.
+      try {
+        const persisted = await onComplete(output, interrupted);
+        if (typeof persisted === "string") assistantEventId = persisted;
+      } catch (error) {
+        emit({
+          type: "error",
+          message:
+            "The reply could not be saved" +
+            (error instanceof Error && error.message ? `: ${error.message}` : ".")
+        });
+      }
+    }
+    emit({
+      type: "usage",
+      inputTokens: estimateTokens(messages.map((message) => message.content).join("")),
+      outputTokens: estimateTokens(output),
+      estimated: true
+    });
+    emit({ type: "done", userEventId: params.userEventId, assistantEventId, interrupted });
+  });
+}
@@ -0,0 +1,72 @@
+import type { LlmProvider } from "@/lib/llm/llm-provider";
+import type { ContextMessage, UIMessage } from "@/lib/memory/types";
+
+const SUMMARY_CUES = ["recap", "summarize", "catch me up", "where were we", "continue"];
+const SEMANTIC_CUES = ["remember", "what did i say", "what was the plan", "who am i", "my name"];
+
+export function hasSummaryCue(text: string): boolean {
+  const normalized = text.toLowerCase();
+  return SUMMARY_CUES.some((cue) => normalized.includes(cue));
+}
+
+export function hasSemanticCue(text: string): boolean {
+  const normalized = text.toLowerCase();
+  return SEMANTIC_CUES.some((cue) => normalized.includes(cue));
+}
+
+export function composeMemoryContext(params: {
+  latestUserText: string;
+  summary: string | null;
+  coreMemories: string[];
+  recent: UIMessage[];
+}): ContextMessage[] {
+  const messages: ContextMessage[] = [];
+
+  if (params.summary && hasSummaryCue(params.latestUserText)) {
+    messages.push({
+      role: "system",
+      content: `Conversation summary so far:\n${params.summary}`
+    });
+  }
+
+  if (params.coreMemories.length > 0 && hasSemanticCue(params.latestUserText)) {
+    messages.push({
+      role: "system",
+      content: `Core memories from earlier conversations:\n${params.coreMemories
+        .map((memory) => `- ${memory}`)
+        .join("\n")}`
+    });
+  }
+
+  for (const event of params.recent) {
+    messages.push({ role: event.role, content: event.content });
+  }
+  return messages;
+}
+
+export async function summarizeEvents(
+  llm: LlmProvider,
+  events: UIMessage[]
+): Promise<string | null> {
+  if (events.length === 0) return null;
+
+  const transcript = events
+    .map((event) => `${event.role === "user" ? "User" : "Assistant"}: ${event.content}`)
+    .join("\n\n");
+  let output = "";
+  for await (const chunk of llm.streamChat({
+    messages: [
+      {
+        role: "system",
+        content:
+          "Summarize the conversation below for long-term memory. Keep durable facts about the user, decisions, and open follow-ups. Use at most eight short bullet points."
+      },
+      { role: "user", content: transcript }
+    ]
+  })) {
+    output += chunk;
+  }
+
+  const summary = output.trim();
+  return summary.length > 0 ? summary : null;
+}
@@ -1,10 +1,19 @@
 import type {
+  ApiKeyRecord,
   BuildMemoryContextParams,
   ContextMessage,
+  CreateApiKeyParams,
+  EventSearchHit,
+  GenerationSettings,
+  PersonaInput,
+  PersonaRecord,
+  ThreadCapabilities,
   ThreadRecord,
   UIMessage
 } from "@/lib/memory/types";
 
+// Thread-scoped methods take only a thread id and do not check who owns it. `withChatRoute`
+// does, through `getThread`, so backends that store threads themselves must implement it.
 export interface MemoryProvider {
   startThread(userId: string, title?: string): Promise<string>;
   chat?(
@@ -28,12 +37,51 @@ export interface MemoryProvider {
     eventId: string,
     reaction: "thumbs_up" | "heart" | "angry" | "sad" | "brain" | null
   ): Promise<{ reaction: string | null; summaryUpdated: boolean }>;
-  getRecentEvents(threadId: string, limit?: number): Promise<UIMessage[]>;
+  regenerateAssistantEvent?(
+    threadId: string,
+    eventId: string,
+    signal?: AbortSignal
+  ): Promise<Response>;
+  selectAssistantVersion?(threadId: string, eventId: string, index: number): Promise<UIMessage>;
+  editUserEvent?(
+    threadId: string,
+    eventId: string,
+    text: string,
+    signal?: AbortSignal
+  ): Promise<Response>;
+  forkThread?(threadId: string, eventId: string): Promise<ThreadRecord>;
+  // `before` is an event id cursor: only events older than it are returned.
+  getRecentEvents(threadId: string, limit?: number, before?: string): Promise<UIMessage[]>;
+  getThread?(threadId: string): Promise<ThreadRecord | null>;
   listThreads?(userId: string, limit?: number): Promise<ThreadRecord[]>;
+  searchEvents?(userId: string, query: string, limit?: number): Promise<EventSearchHit[]>;
   renameThread?(threadId: string, title: string): Promise<void>;
+  setThreadModel?(threadId: string, model: string | null): Promise<void>;
+  setThreadSettings?(threadId: string, settings: GenerationSettings | null): Promise<void>;
+  setThreadPersona?(threadId: string, personaId: string | null): Promise<void>;
   deleteThread?(threadId: string): Promise<void>;
   promoteThreadToCoreMemory?(
     threadId: string
   ): Promise<{ summary: string | null; summaryUpdated: boolean; isCoreMemory: boolean }>;
   getActiveSummary?(threadId: string): Promise<string | null>;
+  // Personas are scoped to their owner; deleting one detaches it from its threads.
+  listPersonas?(userId: string): Promise<PersonaRecord[]>;
+  createPersona?(userId: string, input: PersonaInput): Promise<PersonaRecord>;
+  updatePersona?(userId: string, personaId: string, input: PersonaInput): Promise<PersonaRecord>;
+  deletePersona?(userId: string, personaId: string): Promise<void>;
+  createApiKey?(params: CreateApiKeyParams): Promise<ApiKeyRecord>;
+  // Active (non-revoked) keys only, newest first.
+  listApiKeys?(userId: string): Promise<ApiKeyRecord[]>;
+  revokeApiKey?(userId: string, keyId: string): Promise<void>;
+  // Looks up an active key by hash and records the use; null for unknown or revoked keys.
+  authenticateApiKey?(keyHash: string): Promise<ApiKeyRecord | null>;
+}
+
+export function readThreadCapabilities(memory: MemoryProvider): ThreadCapabilities {
+  return {
+    regenerate: Boolean(memory.regenerateAssistantEvent),
+    versions: Boolean(memory.selectAssistantVersion),
+    edit: Boolean(memory.editUserEvent),
+    branch: Boolean(memory.forkThread)
+  };
 }
@@ -0,0 +1,54 @@
+import type { PersonaInput } from "@/lib/memory/types";
+
+export const PERSONA_LIMITS = {
+  name: 60,
+  systemPrompt: 4_000,
+  avatarLabel: 8,
+  perUser: 50
+} as const;
+
+export type PersonaInputResult =
+  | { ok: true; input: PersonaInput }
+  | { ok: false; fields: Record<string, string> };
+
+// Validates a persona from a request body. `model` and `avatar` are optional and blank values
+// become `null`; checking `model` against the registry is left to the route. `fields` maps each
+// bad key to a reason, like `parseGenerationSettings`.
+export function parsePersonaInput(payload: unknown): PersonaInputResult {
+  if (!payload || typeof payload !== "object" || Array.isArray(payload)) {
+    return { ok: false, fields: { persona: "must be an object" } };
+  }
+  const raw = payload as Record<string, unknown>;
+  const fields: Record<string, string> = {};
+
+  const name = typeof raw.name === "string" ? raw.name.trim() : "";
+  if (!name || name.length > PERSONA_LIMITS.name) {
+    fields.name = `must be 1 to ${PERSONA_LIMITS.name} characters`;
+  }
+
+  const systemPrompt = typeof raw.systemPrompt === "string" ? raw.systemPrompt.trim() : "";
+  if (!systemPrompt || systemPrompt.length > PERSONA_LIMITS.systemPrompt) {
+    fields.systemPrompt = `must be 1 to ${PERSONA_LIMITS.systemPrompt} characters`;
+  }
+
+  const model = optionalString(raw.model);
+  if (model === undefined) fields.model = "must be a string or null";
+
+  const avatar = optionalString(raw.avatar);
+  if (avatar === undefined || (avatar && [...avatar].length > PERSONA_LIMITS.avatarLabel)) {
+    fields.avatar = `must be up to ${PERSONA_LIMITS.avatarLabel} characters`;
+  }
+
+  if (Object.keys(fields).length > 0) return { ok: false, fields };
+  return {
+    ok: true,
+    input: { name, systemPrompt, model: model ?? null, avatar: avatar ?? null }
+  };
+}
+
+// `undefined` marks a value of the wrong type; missing and blank strings are `null`.
+function optionalString(value: unknown): string | null | undefined {
+  if (value === null || value === undefined) return null;
+  if (typeof value !== "string") return undefined;
+  return value.trim() || null;
+}
@@ -0,0 +1,312 @@
+import { readdir } from "fs/promises";
+import path from "path";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { LlmProvider } from "@/lib/llm/llm-provider";
+import { PostgresMemoryProvider } from "@/lib/memory/postgres-provider";
+
+type QueryResult = { rows?: unknown[]; rowCount?: number };
+type QueryMock = ReturnType<typeof vi.fn>;
+
+// One pool and one transaction client shared by every provider, like the module's own pool.
+const pg = vi.hoisted(() => {
+  const client = { query: vi.fn(), release: vi.fn() };
+  const pool = { query: vi.fn(), connect: vi.fn() };
+  return {
+    client,
+    pool,
+    Pool: vi.fn(function () {
+      return pool;
+    })
+  };
+});
+
+vi.mock("pg", () => ({ Pool: pg.Pool }));
+
+const llm: LlmProvider = {
+  async *streamChat() {
+    yield "ok";
+  }
+};
+
+const THREAD_ROW = {
+  id: "t1",
+  user_id: "u1",
+  title: "Trip",
+  is_core_memory: false,
+  parent_thread_id: null,
+  forked_from_event_id: null,
+  model: "openai/gpt-4o-mini",
+  settings: { temperature: 0.2 },
+  persona_id: "p1",
+  created_at: new Date("2026-01-01T00:00:00.000Z")
+};
+
+function answer(mock: QueryMock, ...results: QueryResult[]) {
+  for (const result of results) {
+    mock.mockResolvedValueOnce({ rows: [], rowCount: result.rows?.length ?? 0, ...result });
+  }
+}
+
+// Statements in call order, whitespace collapsed.
+function statements(mock: QueryMock): string[] {
+  return mock.mock.calls.map(([sql]) => String(sql).replace(/\s+/g, " ").trim());
+}
+
+describe("PostgresMemoryProvider", () => {
+  beforeEach(() => {
+    vi.stubEnv("CORTEX_DATABASE_URL", "postgres://cortex.test/db");
+    vi.stubEnv("CORTEX_PG_AUTO_MIGRATE", "false");
+    pg.pool.query.mockResolvedValue({ rows: [], rowCount: 1 });
+    pg.pool.connect.mockResolvedValue(pg.client);
+    pg.client.query.mockResolvedValue({ rows: [], rowCount: 1 });
+  });
+
+  it("inserts threads for the user with a trimmed title", async () => {
+    const memory = new PostgresMemoryProvider({ llm });
+
+    const threadId = await memory.startThread("u1", "  Plans  ");
+
+    expect(pg.pool.query).toHaveBeenCalledWith(
+      "insert into cortex_ui_threads (id, user_id, title) values ($1, $2, $3)",
+      [threadId, "u1", "Plans"]
+    );
+  });
+
+  it("pages events newest first by (created_at, id) and returns them oldest first", async () => {
+    answer(pg.pool.query, {
+      rows: [
+        {
+          id: "e2",
+          thread_id: "t1",
+          actor: "assistant",
+          content: "hello",
+          meta: { reaction: "heart" },
+          created_at: new Date("2026-01-01T00:00:01.000Z")
+        },
+        {
+          id: "e1",
+          thread_id: "t1",
+          actor: "user",
+          content: "hi",
+          meta: {},
+          created_at: new Date("2026-01-01T00:00:00.000Z")
+        }
+      ]
+    });
+    const memory = new PostgresMemoryProvider({ llm });
+
+    const events = await memory.getRecentEvents("t1", 2, "e3");
+
+    const [sql, params] = pg.pool.query.mock.calls[0];
+    expect(String(sql)).toContain("(created_at, id) < (select created_at, id");
+    expect(String(sql)).toContain("order by created_at desc, id desc");
+    expect(params).toEqual(["t1", 2, "e3"]);
+    expect(events).toEqual([
+      {
+        id: "e1",
+        threadId: "t1",
+        role: "user",
+        content: "hi",
+        createdAt: "2026-01-01T00:00:00.000Z"
+      },
+      {
+        id: "e2",
+        threadId: "t1",
+        role: "assistant",
+        content: "hello",
+        createdAt: "2026-01-01T00:00:01.000Z",
+        meta: { reaction: "heart" }
+      }
+    ]);
+  });
+
+  it("forks in one transaction, copying events inside Postgres", async () => {
+    answer(pg.pool.query, { rows: [THREAD_ROW] });
+    answer(pg.client.query, {}, {}, { rowCount: 2 }, {});
+    const memory = new PostgresMemoryProvider({ llm });
+    pg.pool.query.mockImplementationOnce(async (_sql: string, params: string[]) => ({
+      rows: [{ ...THREAD_ROW, id: params[0], parent_thread_id: "t1", forked_from_event_id: "e2" }],
+      rowCount: 1
+    }));
+
+    const fork = await memory.forkThread("t1", "e2");
+
+    const sql = statements(pg.client.query);
+    expect(sql[0]).toBe("begin");
+    expect(sql[2]).toContain(
+      "select gen_random_uuid()::text, $1, actor, content, meta, created_at from cortex_ui_events"
+    );
+    expect(sql[3]).toBe("commit");
+    const threadParams = pg.client.query.mock.calls[1][1];
+    expect(threadParams).toEqual([
+      fork.id,
+      "u1",
+      "Trip (branch)",
+      "t1",
+      "e2",
+      "openai/gpt-4o-mini",
+      JSON.stringify({ temperature: 0.2 }),
+      "p1"
+    ]);
+    expect(pg.client.query.mock.calls[2][1]).toEqual([fork.id, "t1", "e2"]);
+    expect(fork).toMatchObject({ parentThreadId: "t1", forkedFromEventId: "e2" });
+    expect(pg.client.release).toHaveBeenCalledTimes(1);
+  });
+
+  it("rolls the fork back when the event is not in the thread", async () => {
+    answer(pg.pool.query, { rows: [THREAD_ROW] });
+    answer(pg.client.query, {}, {}, { rowCount: 0 });
+    const memory = new PostgresMemoryProvider({ llm });
+
+    await expect(memory.forkThread("t1", "missing")).rejects.toMatchObject({ status: 404 });
+
+    const sql = statements(pg.client.query);
+    expect(sql.at(-1)).toBe("rollback");
+    expect(sql).not.toContain("commit");
+    expect(pg.client.release).toHaveBeenCalledTimes(1);
+  });
+
+  it("truncates later events when a user message is edited", async () => {
+    // The user event, then the thread for the edit and again for the reply's memory context.
+    answer(
+      pg.pool.query,
+      {
+        rows: [
+          {
+            id: "e1",
+            thread_id: "t1",
+            actor: "user",
+            content: "hi",
+            meta: { source: "chatui" },
+            created_at: new Date("2026-01-01T00:00:00.000Z")
+          }
+        ]
+      },
+      { rows: [{ ...THREAD_ROW, persona_id: null }] },
+      { rows: [{ ...THREAD_ROW, persona_id: null }] }
+    );
+    const memory = new PostgresMemoryProvider({ llm });
+
+    const res = await memory.editUserEvent("t1", "e1", "hello again");
+    await res.text();
+
+    const sql = statements(pg.client.query);
+    expect(sql[0]).toBe("begin");
+    expect(sql[1]).toContain("(created_at, id) > (select created_at, id");
+    expect(pg.client.query.mock.calls[1][1]).toEqual(["t1", "e1"]);
+    expect(pg.client.query.mock.calls[2][1]).toEqual([
+      "e1",
+      "hello again",
+      JSON.stringify({ source: "chatui", edited: true })
+    ]);
+    expect(sql[3]).toBe("commit");
+  });
+
+  it("only attaches personas owned by the thread's user", async () => {
+    answer(pg.pool.query, { rows: [THREAD_ROW] }, { rowCount: 0 });
+    const memory = new PostgresMemoryProvider({ llm });
+
+    await expect(memory.setThreadPersona("t1", "p-other")).rejects.toMatchObject({
+      message: "Persona not found.",
+      status: 404
+    });
+    expect(pg.pool.query.mock.calls[1][1]).toEqual(["t1", "p-other"]);
+  });
+
+  it("maps API key rows and 404s unknown revocations", async () => {
+    answer(
+      pg.pool.query,
+      {
+        rows: [
+          {
+            id: "k1",
+            user_id: "u1",
+            name: "CLI",
+            prefix: "cx_abc",
+            scopes: ["read", "admin"],
+            created_at: new Date("2026-01-01T00:00:00.000Z"),
+            last_used_at: new Date("2026-01-02T00:00:00.000Z"),
+            revoked_at: null
+          }
+        ]
+      },
+      { rowCount: 0 }
+    );
+    const memory = new PostgresMemoryProvider({ llm });
+
+    expect(await memory.authenticateApiKey("hash")).toEqual({
+      id: "k1",
+      userId: "u1",
+      name: "CLI",
+      prefix: "cx_abc",
+      scopes: ["read"],
+      createdAt: "2026-01-01T00:00:00.000Z",
+      lastUsedAt: "2026-01-02T00:00:00.000Z",
+      revokedAt: null
+    });
+    expect(pg.pool.query.mock.calls[0][1]).toEqual(["hash"]);
+    await expect(memory.revokeApiKey("u1", "k2")).rejects.toMatchObject({ status: 404 });
+    expect(pg.pool.query.mock.calls[1][1]).toEqual(["k2", "u1"]);
+  });
+
+  describe("auto-migrate", () => {
+    beforeEach(() => {
+      vi.stubEnv("CORTEX_PG_AUTO_MIGRATE", "true");
+      // The applied-migration cache is module state, so every test gets a fresh module.
+      vi.resetModules();
+    });
+
+    async function freshProvider() {
+      const { PostgresMemoryProvider: Provider } = await import("@/lib/memory/postgres-provider");
+      return new Provider({ llm });
+    }
+
+    it("applies pending migrations once, under the advisory lock", async () => {
+      const files = (await readdir(path.resolve(process.cwd(), "db", "migrations")))
+        .filter((name) => name.endsWith(".sql"))
+        .sort();
+      pg.client.query.mockImplementation(async (sql: string) =>
+        sql.startsWith("select version")
+          ? { rows: [{ version: files[0] }], rowCount: 1 }
+          : { rows: [], rowCount: 0 }
+      );
+      const memory = await freshProvider();
+
+      await memory.listThreads("u1");
+      await memory.listThreads("u1");
+
+      const sql = statements(pg.client.query);
+      expect(sql[0]).toBe("select pg_advisory_lock($1)");
+      expect(sql.at(-1)).toBe("select pg_advisory_unlock($1)");
+      const recorded = pg.client.query.mock.calls
+        .filter(([statement]) => String(statement).startsWith("insert into cortex_ui_schema"))
+        .map(([, params]) => params[0]);
+      expect(recorded).toEqual(files.slice(1));
+      expect(sql.filter((statement) => statement === "commit")).toHaveLength(files.length - 1);
+      expect(pg.pool.connect).toHaveBeenCalledTimes(1);
+      expect(pg.client.release).toHaveBeenCalledTimes(1);
+    });
+
+    it("rolls back a failed migration, unlocks and retries on the next call", async () => {
+      pg.client.query.mockImplementation(async (sql: string) => {
+        if (sql.includes("create table if not exists cortex_ui_threads")) {
+          throw new Error("syntax error");
+        }
+        return { rows: [], rowCount: 0 };
+      });
+      const memory = await freshProvider();
+
+      await expect(memory.listThreads("u1")).rejects.toThrow("syntax error");
+
+      const sql = statements(pg.client.query);
+      expect(sql).toContain("rollback");
+      expect(sql).not.toContain("commit");
+      expect(sql.at(-1)).toBe("select pg_advisory_unlock($1)");
+      expect(pg.client.release).toHaveBeenCalledTimes(1);
+
+      pg.client.query.mockResolvedValue({ rows: [], rowCount: 0 });
+      await memory.listThreads("u1");
+      expect(pg.pool.connect).toHaveBeenCalledTimes(2);
+    });
+  });
+});
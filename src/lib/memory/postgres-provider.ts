@@ -0,0 +1,748 @@
+import { randomUUID } from "crypto";
+import { readdir, readFile } from "fs/promises";
+import path from "path";
+import { Pool, type PoolClient } from "pg";
+import type { LlmProvider } from "@/lib/llm/llm-provider";
+import { withThreadSettings } from "@/lib/llm/thread-settings";
+import { MemoryApiError } from "@/lib/memory/cortex-http-provider";
+import {
+  createLocalChatResponse,
+  createLocalRegenerateResponse,
+  createLocalReplyResponse,
+  requireLatestTurn
+} from "@/lib/memory/local-chat";
+import { forkTitle } from "@/lib/memory/forks";
+import { composeMemoryContext, summarizeEvents } from "@/lib/memory/memory-context";
+import { buildSnippet } from "@/lib/memory/search";
+import type { MemoryProvider } from "@/lib/memory/memory-provider";
+import type {
+  ApiKeyRecord,
+  ApiKeyScope,
+  BuildMemoryContextParams,
+  ContextMessage,
+  CreateApiKeyParams,
+  EventSearchHit,
+  GenerationSettings,
+  PersonaInput,
+  PersonaRecord,
+  ThreadRecord,
+  UIMessage
+} from "@/lib/memory/types";
+import { withActiveVersion, withAppendedVersion } from "@/lib/memory/versions";
+
+type ThreadRow = {
+  id: string;
+  user_id: string;
+  title: string | null;
+  is_core_memory: boolean;
+  parent_thread_id: string | null;
+  forked_from_event_id: string | null;
+  model: string | null;
+  settings: GenerationSettings | null;
+  persona_id: string | null;
+  created_at: Date;
+};
+
+type EventRow = {
+  id: string;
+  thread_id: string;
+  actor: "user" | "assistant";
+  content: string;
+  meta: Record<string, unknown> | null;
+  created_at: Date;
+};
+
+type ApiKeyRow = {
+  id: string;
+  user_id: string;
+  name: string;
+  prefix: string;
+  scopes: string[];
+  created_at: Date;
+  last_used_at: Date | null;
+  revoked_at: Date | null;
+};
+
+type PersonaRow = {
+  id: string;
+  user_id: string;
+  name: string;
+  system_prompt: string;
+  model: string | null;
+  avatar: string | null;
+  created_at: Date;
+  updated_at: Date;
+};
+
+const MIGRATION_LOCK_ID = 72_410_531;
+const THREAD_COLUMNS =
+  "id, user_id, title, is_core_memory, parent_thread_id, forked_from_event_id, model, settings, " +
+  "persona_id, created_at";
+const API_KEY_COLUMNS =
+  "id, user_id, name, prefix, scopes, created_at, last_used_at, revoked_at";
+const PERSONA_COLUMNS =
+  "id, user_id, name, system_prompt, model, avatar, created_at, updated_at";
+
+let sharedPool: Pool | null = null;
+let schemaReady: Promise<void> | null = null;
+
+export class PostgresMemoryProvider implements MemoryProvider {
+  private readonly pool: Pool;
+  private readonly llm: LlmProvider;
+
+  constructor(options: { llm: LlmProvider }) {
+    this.pool = getPool();
+    this.llm = options.llm;
+  }
+
+  async startThread(userId: string, title?: string): Promise<string> {
+    await this.ready();
+    const id = randomUUID();
+    await this.pool.query(
+      "insert into cortex_ui_threads (id, user_id, title) values ($1, $2, $3)",
+      [id, userId, title?.trim() || null]
+    );
+    return id;
+  }
+
+  async chat(threadId: string, text: string, signal?: AbortSignal): Promise<Response> {
+    const thread = await this.requireThread(threadId);
+    return createLocalChatResponse(this, await this.threadLlm(thread), threadId, text, signal);
+  }
+
+  async listThreads(userId: string, limit = 50): Promise<ThreadRecord[]> {
+    await this.ready();
+    const result = await this.pool.query<ThreadRow>(
+      `select ${THREAD_COLUMNS}
+         from cortex_ui_threads
+        where user_id = $1
+        order by created_at desc
+        limit $2`,
+      [userId, limit]
+    );
+    return result.rows.map(toThreadRecord);
+  }
+
+  async getThread(threadId: string): Promise<ThreadRecord | null> {
+    await this.ready();
+    const result = await this.pool.query<ThreadRow>(
+      `select ${THREAD_COLUMNS} from cortex_ui_threads where id = $1`,
+      [threadId]
+    );
+    return result.rows[0] ? toThreadRecord(result.rows[0]) : null;
+  }
+
+  async searchEvents(userId: string, query: string, limit = 20): Promise<EventSearchHit[]> {
+    await this.ready();
+    const result = await this.pool.query<EventRow & { thread_title: string | null }>(
+      `select e.id, e.thread_id, e.actor, e.content, e.meta, e.created_at, t.title as thread_title
+         from cortex_ui_events e
+         join cortex_ui_threads t on t.id = e.thread_id
+        where t.user_id = $1
+          and to_tsvector('simple', e.content) @@ plainto_tsquery('simple', $2)
+        order by e.created_at desc
+        limit $3`,
+      [userId, query, limit]
+    );
+    return result.rows.map((row) => ({
+      threadId: row.thread_id,
+      threadTitle: row.thread_title,
+      event: toUIMessage(row),
+      snippet: buildSnippet(row.content, query)
+    }));
+  }
+
+  async renameThread(threadId: string, title: string): Promise<void> {
+    await this.ready();
+    const result = await this.pool.query(
+      "update cortex_ui_threads set title = $2 where id = $1",
+      [threadId, title]
+    );
+    if (result.rowCount === 0) throw threadNotFound();
+  }
+
+  async setThreadModel(threadId: string, model: string | null): Promise<void> {
+    await this.ready();
+    const result = await this.pool.query(
+      "update cortex_ui_threads set model = $2 where id = $1",
+      [threadId, model]
+    );
+    if (result.rowCount === 0) throw threadNotFound();
+  }
+
+  async setThreadSettings(threadId: string, settings: GenerationSettings | null): Promise<void> {
+    await this.ready();
+    const result = await this.pool.query(
+      "update cortex_ui_threads set settings = $2 where id = $1",
+      [threadId, settings ? JSON.stringify(settings) : null]
+    );
+    if (result.rowCount === 0) throw threadNotFound();
+  }
+
+  async setThreadPersona(threadId: string, personaId: string | null): Promise<void> {
+    await this.requireThread(threadId);
+    const result = await this.pool.query(
+      `update cortex_ui_threads t set persona_id = $2
+        where t.id = $1
+          and ($2::text is null or exists (
+            select 1 from cortex_ui_personas p where p.id = $2 and p.user_id = t.user_id
+          ))`,
+      [threadId, personaId]
+    );
+    if (result.rowCount === 0) throw personaNotFound();
+  }
+
+  async deleteThread(threadId: string): Promise<void> {
+    await this.ready();
+    const result = await this.pool.query("delete from cortex_ui_threads where id = $1", [
+      threadId
+    ]);
+    if (result.rowCount === 0) throw threadNotFound();
+  }
+
+  async promoteThreadToCoreMemory(
+    threadId: string
+  ): Promise<{ summary: string | null; summaryUpdated: boolean; isCoreMemory: boolean }> {
+    await this.requireThread(threadId);
+    await this.pool.query("update cortex_ui_threads set is_core_memory = true where id = $1", [
+      threadId
+    ]);
+    const refreshed = await this.refreshSummary(threadId);
+    return {
+      summary: refreshed ?? (await this.getActiveSummary(threadId)),
+      summaryUpdated: refreshed !== null,
+      isCoreMemory: true
+    };
+  }
+
+  async addUserEvent(
+    threadId: string,
+    text: string,
+    meta?: Record<string, unknown>
+  ): Promise<string> {
+    return this.addEvent(threadId, "user", text, meta);
+  }
+
+  async addAssistantEvent(
+    threadId: string,
+    text: string,
+    meta?: Record<string, unknown>
+  ): Promise<string> {
+    return this.addEvent(threadId, "assistant", text, meta);
+  }
+
+  async setEventReaction(
+    threadId: string,
+    eventId: string,
+    reaction: "thumbs_up" | "heart" | "angry" | "sad" | "brain" | null
+  ): Promise<{ reaction: string | null; summaryUpdated: boolean }> {
+    await this.ready();
+    const result = await this.pool.query(
+      `update cortex_ui_events
+          set meta = case
+                when $3::text is null then meta - 'reaction'
+                else meta || jsonb_build_object('reaction', $3::text)
+              end
+        where id = $2 and thread_id = $1 and actor = 'assistant'`,
+      [threadId, eventId, reaction]
+    );
+    if (result.rowCount === 0) {
+      throw new MemoryApiError("Assistant event not found.", 404);
+    }
+
+    const summaryUpdated = reaction === "brain" && (await this.refreshSummary(threadId)) !== null;
+    return { reaction, summaryUpdated };
+  }
+
+  async buildMemoryContext(params: BuildMemoryContextParams): Promise<ContextMessage[]> {
+    const thread = await this.requireThread(params.threadId);
+    const [summary, recent, coreMemories] = await Promise.all([
+      this.getActiveSummary(params.threadId),
+      this.getRecentEvents(params.threadId, params.shortTermLimit ?? 30),
+      this.pool.query<{ summary: string }>(
+        `select s.summary
+           from cortex_ui_summaries s
+           join cortex_ui_threads t on t.id = s.thread_id
+          where t.user_id = $1 and t.is_core_memory and s.is_active and t.id <> $2
+          order by s.created_at desc
+          limit 5`,
+        [thread.user_id, params.threadId]
+      )
+    ]);
+
+    return composeMemoryContext({
+      latestUserText: params.latestUserText,
+      summary,
+      coreMemories: coreMemories.rows.map((row) => row.summary),
+      recent
+    });
+  }
+
+  async regenerateAssistantEvent(
+    threadId: string,
+    eventId: string,
+    signal?: AbortSignal
+  ): Promise<Response> {
+    const thread = await this.requireThread(threadId);
+    const { userEvent, target } = requireLatestTurn(
+      await this.getRecentEvents(threadId, 2),
+      eventId
+    );
+
+    return createLocalRegenerateResponse(this, await this.threadLlm(thread), {
+      threadId,
+      latestUserText: userEvent.content,
+      assistantEventId: eventId,
+      signal,
+      onComplete: (output, interrupted) =>
+        this.updateEvent(eventId, withAppendedVersion(target, output, interrupted))
+    });
+  }
+
+  async selectAssistantVersion(
+    threadId: string,
+    eventId: string,
+    index: number
+  ): Promise<UIMessage> {
+    await this.ready();
+    const result = await this.pool.query<EventRow>(
+      `select id, thread_id, actor, content, meta, created_at
+         from cortex_ui_events
+        where id = $1 and thread_id = $2 and actor = 'assistant'`,
+      [eventId, threadId]
+    );
+    const row = result.rows[0];
+    if (!row) throw new MemoryApiError("Assistant event not found.", 404);
+    const event = toUIMessage(row);
+    const next = withActiveVersion(event, index);
+    if (!next) throw new MemoryApiError("Version index is out of range.", 422);
+    await this.updateEvent(eventId, next);
+    return { ...event, ...next };
+  }
+
+  async editUserEvent(
+    threadId: string,
+    eventId: string,
+    text: string,
+    signal?: AbortSignal
+  ): Promise<Response> {
+    await this.ready();
+    const result = await this.pool.query<EventRow>(
+      `select id, thread_id, actor, content, meta, created_at
+         from cortex_ui_events
+        where id = $1 and thread_id = $2 and actor = 'user'`,
+      [eventId, threadId]
+    );
+    const row = result.rows[0];
+    if (!row) throw new MemoryApiError("User event not found.", 404);
+    const thread = await this.requireThread(threadId);
+
+    const client = await this.pool.connect();
+    try {
+      await runInTransaction(client, async () => {
+        // Compare against the stored timestamp so microsecond ordering survives the round trip.
+        await client.query(
+          `delete from cortex_ui_events
+            where thread_id = $1
+              and (created_at, id) > (select created_at, id from cortex_ui_events where id = $2)`,
+          [threadId, eventId]
+        );
+        await client.query("update cortex_ui_events set content = $2, meta = $3 where id = $1", [
+          eventId,
+          text,
+          JSON.stringify({ ...(row.meta ?? {}), edited: true })
+        ]);
+      });
+    } finally {
+      client.release();
+    }
+
+    return createLocalReplyResponse(
+      this,
+      await this.threadLlm(thread),
+      threadId,
+      text,
+      signal,
+      eventId
+    );
+  }
+
+  async forkThread(threadId: string, eventId: string): Promise<ThreadRecord> {
+    const parent = await this.requireThread(threadId);
+    const id = randomUUID();
+    const client = await this.pool.connect();
+    try {
+      await runInTransaction(client, async () => {
+        await client.query(
+          `insert into cortex_ui_threads
+             (id, user_id, title, parent_thread_id, forked_from_event_id, model, settings,
+              persona_id)
+           values ($1, $2, $3, $4, $5, $6, $7, $8)`,
+          [
+            id,
+            parent.user_id,
+            forkTitle(parent),
+            threadId,
+            eventId,
+            parent.model,
+            parent.settings ? JSON.stringify(parent.settings) : null,
+            parent.persona_id
+          ]
+        );
+        // Rows are copied inside Postgres so `created_at` keeps its microseconds and the branch
+        // reads in the same order as its source.
+        const copied = await client.query(
+          `insert into cortex_ui_events (id, thread_id, actor, content, meta, created_at)
+           select gen_random_uuid()::text, $1, actor, content, meta, created_at
+             from cortex_ui_events
+            where thread_id = $2
+              and (created_at, id) <= (
+                select created_at, id from cortex_ui_events where id = $3 and thread_id = $2
+              )`,
+          [id, threadId, eventId]
+        );
+        if (copied.rowCount === 0) throw new MemoryApiError("Event not found.", 404);
+      });
+    } finally {
+      client.release();
+    }
+    return toThreadRecord(await this.requireThread(id));
+  }
+
+  // `id` breaks ties between events written in the same microsecond, so cursors never skip one.
+  async getRecentEvents(threadId: string, limit = 30, before?: string): Promise<UIMessage[]> {
+    await this.ready();
+    const result = await this.pool.query<EventRow>(
+      `select id, thread_id, actor, content, meta, created_at
+         from cortex_ui_events
+        where thread_id = $1
+          and ($3::text is null
+               or (created_at, id) < (select created_at, id from cortex_ui_events where id = $3))
+        order by created_at desc, id desc
+        limit $2`,
+      [threadId, limit, before ?? null]
+    );
+    return result.rows.reverse().map(toUIMessage);
+  }
+
+  async getActiveSummary(threadId: string): Promise<string | null> {
+    await this.ready();
+    const result = await this.pool.query<{ summary: string }>(
+      "select summary from cortex_ui_summaries where thread_id = $1 and is_active",
+      [threadId]
+    );
+    const summary = result.rows[0]?.summary?.trim() ?? "";
+    return summary.length > 0 ? summary : null;
+  }
+
+  private async addEvent(
+    threadId: string,
+    actor: "user" | "assistant",
+    content: string,
+    meta?: Record<string, unknown>
+  ): Promise<string> {
+    await this.requireThread(threadId);
+    const id = randomUUID();
+    await this.pool.query(
+      `insert into cortex_ui_events (id, thread_id, actor, content, meta)
+       values ($1, $2, $3, $4, $5)`,
+      [id, threadId, actor, content, JSON.stringify(meta ?? {})]
+    );
+    return id;
+  }
+
+  private async updateEvent(
+    eventId: string,
+    next: { content: string; meta: Record<string, unknown> }
+  ): Promise<void> {
+    await this.pool.query("update cortex_ui_events set content = $2, meta = $3 where id = $1", [
+      eventId,
+      next.content,
+      JSON.stringify(next.meta)
+    ]);
+  }
+
+  private async refreshSummary(threadId: string): Promise<string | null> {
+    const events = await this.getRecentEvents(threadId, 40);
+    let summary: string | null;
+    try {
+      summary = await summarizeEvents(this.llm, events);
+    } catch {
+      return null;
+    }
+    if (!summary) return null;
+
+    const client = await this.pool.connect();
+    try {
+      await runInTransaction(client, async () => {
+        await client.query(
+          "update cortex_ui_summaries set is_active = false where thread_id = $1 and is_active",
+          [threadId]
+        );
+        await client.query(
+          "insert into cortex_ui_summaries (id, thread_id, summary) values ($1, $2, $3)",
+          [randomUUID(), threadId, summary]
+        );
+      });
+    } finally {
+      client.release();
+    }
+    return summary;
+  }
+
+  async listPersonas(userId: string): Promise<PersonaRecord[]> {
+    await this.ready();
+    const result = await this.pool.query<PersonaRow>(
+      `select ${PERSONA_COLUMNS}
+         from cortex_ui_personas
+        where user_id = $1
+        order by lower(name) asc`,
+      [userId]
+    );
+    return result.rows.map(toPersonaRecord);
+  }
+
+  async createPersona(userId: string, input: PersonaInput): Promise<PersonaRecord> {
+    await this.ready();
+    const result = await this.pool.query<PersonaRow>(
+      `insert into cortex_ui_personas (id, user_id, name, system_prompt, model, avatar)
+       values ($1, $2, $3, $4, $5, $6)
+       returning ${PERSONA_COLUMNS}`,
+      [randomUUID(), userId, input.name, input.systemPrompt, input.model, input.avatar]
+    );
+    return toPersonaRecord(result.rows[0]);
+  }
+
+  async updatePersona(
+    userId: string,
+    personaId: string,
+    input: PersonaInput
+  ): Promise<PersonaRecord> {
+    await this.ready();
+    const result = await this.pool.query<PersonaRow>(
+      `update cortex_ui_personas
+          set name = $3, system_prompt = $4, model = $5, avatar = $6, updated_at = now()
+        where id = $1 and user_id = $2
+        returning ${PERSONA_COLUMNS}`,
+      [personaId, userId, input.name, input.systemPrompt, input.model, input.avatar]
+    );
+    if (!result.rows[0]) throw personaNotFound();
+    return toPersonaRecord(result.rows[0]);
+  }
+
+  // The thread foreign key is `on delete set null`, so threads drop the persona with it.
+  async deletePersona(userId: string, personaId: string): Promise<void> {
+    await this.ready();
+    const result = await this.pool.query(
+      "delete from cortex_ui_personas where id = $1 and user_id = $2",
+      [personaId, userId]
+    );
+    if (result.rowCount === 0) throw personaNotFound();
+  }
+
+  async createApiKey(params: CreateApiKeyParams): Promise<ApiKeyRecord> {
+    await this.ready();
+    const result = await this.pool.query<ApiKeyRow>(
+      `insert into cortex_ui_api_keys (id, user_id, name, prefix, key_hash, scopes)
+       values ($1, $2, $3, $4, $5, $6)
+       returning ${API_KEY_COLUMNS}`,
+      [randomUUID(), params.userId, params.name, params.prefix, params.keyHash, params.scopes]
+    );
+    return toApiKeyRecord(result.rows[0]);
+  }
+
+  async listApiKeys(userId: string): Promise<ApiKeyRecord[]> {
+    await this.ready();
+    const result = await this.pool.query<ApiKeyRow>(
+      `select ${API_KEY_COLUMNS}
+         from cortex_ui_api_keys
+        where user_id = $1 and revoked_at is null
+        order by created_at desc`,
+      [userId]
+    );
+    return result.rows.map(toApiKeyRecord);
+  }
+
+  async revokeApiKey(userId: string, keyId: string): Promise<void> {
+    await this.ready();
+    const result = await this.pool.query(
+      `update cortex_ui_api_keys set revoked_at = now()
+        where id = $1 and user_id = $2 and revoked_at is null`,
+      [keyId, userId]
+    );
+    if (result.rowCount === 0) throw new MemoryApiError("API key not found.", 404);
+  }
+
+  async authenticateApiKey(keyHash: string): Promise<ApiKeyRecord | null> {
+    await this.ready();
+    const result = await this.pool.query<ApiKeyRow>(
+      `update cortex_ui_api_keys set last_used_at = now()
+        where key_hash = $1 and revoked_at is null
+        returning ${API_KEY_COLUMNS}`,
+      [keyHash]
+    );
+    return result.rows[0] ? toApiKeyRecord(result.rows[0]) : null;
+  }
+
+  private async threadLlm(thread: ThreadRow): Promise<LlmProvider> {
+    let persona: PersonaRow | undefined;
+    if (thread.persona_id) {
+      const result = await this.pool.query<PersonaRow>(
+        `select ${PERSONA_COLUMNS} from cortex_ui_personas where id = $1`,
+        [thread.persona_id]
+      );
+      persona = result.rows[0];
+    }
+    return withThreadSettings(this.llm, thread, persona ? toPersonaRecord(persona) : null);
+  }
+
+  private async requireThread(threadId: string): Promise<ThreadRow> {
+    await this.ready();
+    const result = await this.pool.query<ThreadRow>(
+      `select ${THREAD_COLUMNS} from cortex_ui_threads where id = $1`,
+      [threadId]
+    );
+    const row = result.rows[0];
+    if (!row) throw threadNotFound();
+    return row;
+  }
+
+  private ready(): Promise<void> {
+    if (!isAutoMigrateEnabled()) return Promise.resolve();
+    if (!schemaReady) {
+      schemaReady = applyMigrations(this.pool).catch((error) => {
+        schemaReady = null;
+        throw error;
+      });
+    }
+    return schemaReady;
+  }
+}
+
+function getPool(): Pool {
+  if (sharedPool) return sharedPool;
+  const connectionString = (
+    process.env.CORTEX_DATABASE_URL ??
+    process.env.DATABASE_URL ??
+    ""
+  )
+    .trim()
+    .replace(/^['"]|['"]$/g, "");
+  if (!connectionString) {
+    throw new Error("Missing CORTEX_DATABASE_URL for the postgres memory backend.");
+  }
+  sharedPool = new Pool({ connectionString, max: 10 });
+  return sharedPool;
+}
+
+function isAutoMigrateEnabled(): boolean {
+  return (process.env.CORTEX_PG_AUTO_MIGRATE ?? "true").trim().toLowerCase() !== "false";
+}
+
+async function applyMigrations(pool: Pool): Promise<void> {
+  const directory = path.resolve(process.cwd(), "db", "migrations");
+  const files = (await readdir(directory)).filter((name) => name.endsWith(".sql")).sort();
+
+  const client = await pool.connect();
+  try {
+    await client.query("select pg_advisory_lock($1)", [MIGRATION_LOCK_ID]);
+    await client.query(
+      `create table if not exists cortex_ui_schema_migrations (
+         version text primary key,
+         applied_at timestamptz not null default now()
+       )`
+    );
+    const applied = await client.query<{ version: string }>(
+      "select version from cortex_ui_schema_migrations"
+    );
+    const appliedVersions = new Set(applied.rows.map((row) => row.version));
+
+    for (const file of files) {
+      if (appliedVersions.has(file)) continue;
+      const sql = await readFile(path.join(directory, file), "utf8");
+      await runInTransaction(client, async () => {
+        await client.query(sql);
+        await client.query("insert into cortex_ui_schema_migrations (version) values ($1)", [
+          file
+        ]);
+      });
+    }
+  } finally {
+    await client.query("select pg_advisory_unlock($1)", [MIGRATION_LOCK_ID]).catch(() => null);
+    client.release();
+  }
+}
+
+async function runInTransaction(client: PoolClient, work: () => Promise<void>): Promise<void> {
+  await client.query("begin");
+  try {
+    await work();
+    await client.query("commit");
+  } catch (error) {
+    await client.query("rollback").catch(() => null);
+    throw error;
+  }
+}
+
+function threadNotFound(): MemoryApiError {
+  return new MemoryApiError("Thread not found.", 404);
+}
+
+function personaNotFound(): MemoryApiError {
+  return new MemoryApiError("Persona not found.", 404);
+}
+
+function toThreadRecord(row: ThreadRow): ThreadRecord {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    title: row.title,
+    createdAt: new Date(row.created_at).toISOString(),
+    isCoreMemory: row.is_core_memory,
+    parentThreadId: row.parent_thread_id,
+    forkedFromEventId: row.forked_from_event_id,
+    model: row.model,
+    settings: row.settings,
+    personaId: row.persona_id
+  };
+}
+
+function toUIMessage(row: EventRow): UIMessage {
+  const meta = row.meta ?? {};
+  return {
+    id: row.id,
+    threadId: row.thread_id,
+    role: row.actor,
+    content: row.content,
+    createdAt: new Date(row.created_at).toISOString(),
+    ...(Object.keys(meta).length > 0 ? { meta } : {})
+  };
+}
+
+function toPersonaRecord(row: PersonaRow): PersonaRecord {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    name: row.name,
+    systemPrompt: row.system_prompt,
+    model: row.model,
+    avatar: row.avatar,
+    createdAt: new Date(row.created_at).toISOString(),
+    updatedAt: new Date(row.updated_at).toISOString()
+  };
+}
+
+function toApiKeyRecord(row: ApiKeyRow): ApiKeyRecord {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    name: row.name,
+    prefix: row.prefix,
+    scopes: row.scopes.filter(
+      (scope): scope is ApiKeyScope => scope === "read" || scope === "write"
+    ),
+    createdAt: new Date(row.created_at).toISOString(),
+    lastUsedAt: row.last_used_at ? new Date(row.last_used_at).toISOString() : null,
+    revokedAt: row.revoked_at ? new Date(row.revoked_at).toISOString() : null
+  };
+}
@@ -0,0 +1,29 @@
+import { describe, expect, it } from "vitest";
+import { buildSnippet, highlightParts, matchesAllTerms } from "@/lib/memory/search";
+
+describe("search helpers", () => {
+  it("requires every term to match, case-insensitively", () => {
+    expect(matchesAllTerms("Deploy the Worker on Friday", "worker friday".split(" "))).toBe(true);
+    expect(matchesAllTerms("Deploy the worker", ["worker", "friday"])).toBe(false);
+  });
+
+  it("centres the snippet on the first match", () => {
+    const content = `${"a ".repeat(80)}needle here${" b".repeat(80)}`;
+
+    const snippet = buildSnippet(content, "needle", 10);
+
+    expect(snippet.startsWith("...")).toBe(true);
+    expect(snippet.endsWith("...")).toBe(true);
+    expect(snippet).toContain("needle here");
+  });
+
+  it("splits text into highlighted and plain parts", () => {
+    expect(highlightParts("Ship the worker (v2)", "worker v2")).toEqual([
+      { text: "Ship the ", match: false },
+      { text: "worker", match: true },
+      { text: " (", match: false },
+      { text: "v2", match: true },
+      { text: ")", match: false }
+    ]);
+  });
+});
@@ -0,0 +1,56 @@
+export type HighlightPart = {
+  text: string;
+  match: boolean;
+};
+
+export function searchTerms(query: string): string[] {
+  const terms = query
+    .toLowerCase()
+    .split(/\s+/)
+    .map((term) => term.trim())
+    .filter(Boolean);
+  return Array.from(new Set(terms));
+}
+
+export function matchesAllTerms(content: string, terms: string[]): boolean {
+  const haystack = content.toLowerCase();
+  return terms.length > 0 && terms.every((term) => haystack.includes(term));
+}
+
+// Cuts a window of text around the first matching term so results stay one or two lines long.
+export function buildSnippet(content: string, query: string, radius = 60): string {
+  const text = content.replace(/\s+/g, " ").trim();
+  const lower = text.toLowerCase();
+  let first = -1;
+  let firstLength = 0;
+  for (const term of searchTerms(query)) {
+    const index = lower.indexOf(term);
+    if (index !== -1 && (first === -1 || index < first)) {
+      first = index;
+      firstLength = term.length;
+    }
+  }
+  if (first === -1) {
+    return text.length > radius * 2 ? `${text.slice(0, radius * 2).trimEnd()}...` : text;
+  }
+
+  const start = Math.max(0, first - radius);
+  const end = Math.min(text.length, first + firstLength + radius);
+  const prefix = start > 0 ? "..." : "";
+  const suffix = end < text.length ? "..." : "";
+  return `${prefix}${text.slice(start, end).trim()}${suffix}`;
+}
+
+export function highlightParts(text: string, query: string): HighlightPart[] {
+  const terms = searchTerms(query);
+  if (terms.length === 0 || !text) return [{ text, match: false }];
+
+  const escaped = terms
+    .sort((a, b) => b.length - a.length)
+    .map((term) => term.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"));
+  const pattern = new RegExp(`(${escaped.join("|")})`, "gi");
+  return text
+    .split(pattern)
+    .filter((part) => part.length > 0)
+    .map((part) => ({ text: part, match: terms.includes(part.toLowerCase()) }));
+}
@@ -0,0 +1,88 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  createFrameResponse,
+  framePlainTextStream,
+  isFrameStream,
+  readFrames,
+  type StreamFrame
+} from "@/lib/memory/stream-protocol";
+import { readFrameStream, streamFromChunks } from "@/test/route-helpers";
+
+async function collect(body: ReadableStream<Uint8Array>): Promise<StreamFrame[]> {
+  const frames: StreamFrame[] = [];
+  for await (const frame of readFrames(body)) frames.push(frame);
+  return frames;
+}
+
+describe("stream protocol", () => {
+  it("reassembles frames split across chunks and skips unknown lines", async () => {
+    const frames = await collect(
+      streamFromChunks([
+        '{"type":"delta","te',
+        'xt":"hi"}\nnot json\n{"type":"ping"}\n',
+        '{"type":"done","userEventId":"e1","assistantEventId":"e2","interrupted":false}'
+      ])
+    );
+
+    expect(frames).toEqual([
+      { type: "delta", text: "hi" },
+      { type: "done", userEventId: "e1", assistantEventId: "e2", interrupted: false }
+    ]);
+  });
+
+  it("wraps a plain-text body into start, delta, usage and done frames", async () => {
+    const body = framePlainTextStream(streamFromChunks(["Hello ", "world"]), {
+      userEventId: null,
+      assistantEventId: null,
+      model: null
+    });
+
+    expect(await collect(body)).toEqual([
+      { type: "start", userEventId: null, assistantEventId: null, model: null },
+      { type: "delta", text: "Hello " },
+      { type: "delta", text: "world" },
+      { type: "usage", inputTokens: null, outputTokens: 3, estimated: true },
+      { type: "done", userEventId: null, assistantEventId: null, interrupted: false }
+    ]);
+  });
+
+  it("ends a failed plain-text body with error and interrupted done frames", async () => {
+    const encoder = new TextEncoder();
+    let pulls = 0;
+    const upstream = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        pulls += 1;
+        if (pulls === 1) controller.enqueue(encoder.encode("Hello "));
+        else controller.error(new Error("upstream reset"));
+      }
+    });
+    const resolveIds = vi.fn(async () => ({ userEventId: "e1", assistantEventId: "e2" }));
+
+    const body = framePlainTextStream(
+      upstream,
+      { userEventId: null, assistantEventId: null, model: null },
+      resolveIds
+    );
+
+    expect(await collect(body)).toEqual([
+      { type: "start", userEventId: null, assistantEventId: null, model: null },
+      { type: "delta", text: "Hello " },
+      { type: "error", message: "upstream reset" },
+      { type: "done", userEventId: null, assistantEventId: null, interrupted: true }
+    ]);
+    expect(resolveIds).not.toHaveBeenCalled();
+  });
+
+  it("turns a thrown error into an error frame", async () => {
+    const response = createFrameResponse(async (emit) => {
+      emit({ type: "delta", text: "partial" });
+      throw new Error("upstream reset");
+    });
+
+    expect(isFrameStream(response.headers.get("content-type"))).toBe(true);
+    expect((await readFrameStream(response)).frames).toEqual([
+      { type: "delta", text: "partial" },
+      { type: "error", message: "upstream reset" }
+    ]);
+  });
+});
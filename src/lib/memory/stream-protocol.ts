@@ -0,0 +1,193 @@
+// NDJSON protocol for streamed chat replies (send, edit, regenerate). Each line is one frame:
+//   start  -> persisted event ids known up front and the model name
+//   delta  -> a piece of assistant text
+//   usage  -> token counts (estimated at ~4 characters per token unless `estimated` is false)
+//   error  -> the model failed mid-stream; text sent so far is still valid
+//   done   -> final frame, carrying the persisted user and assistant event ids when known
+// Shared by the route handlers that produce it and `useChat`, which consumes it.
+
+export const STREAM_CONTENT_TYPE = "application/x-ndjson; charset=utf-8";
+
+export type StreamStartFrame = {
+  type: "start";
+  userEventId: string | null;
+  assistantEventId: string | null;
+  model: string | null;
+};
+
+export type StreamUsageFrame = {
+  type: "usage";
+  inputTokens: number | null;
+  outputTokens: number;
+  estimated: boolean;
+};
+
+export type StreamDoneFrame = {
+  type: "done";
+  userEventId: string | null;
+  assistantEventId: string | null;
+  interrupted: boolean;
+};
+
+export type StreamFrame =
+  | StreamStartFrame
+  | { type: "delta"; text: string }
+  | StreamUsageFrame
+  | { type: "error"; message: string }
+  | StreamDoneFrame;
+
+export type TurnEventIds = Pick<StreamDoneFrame, "userEventId" | "assistantEventId">;
+
+type FrameEmitter = (frame: StreamFrame) => void;
+
+export function isFrameStream(contentType: string | null): boolean {
+  return (contentType ?? "").toLowerCase().includes("application/x-ndjson");
+}
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+export function encodeFrame(frame: StreamFrame): string {
+  return `${JSON.stringify(frame)}\n`;
+}
+
+export function parseFrameLine(line: string): StreamFrame | null {
+  const trimmed = line.trim();
+  if (!trimmed) return null;
+  try {
+    const parsed = JSON.parse(trimmed) as { type?: unknown };
+    switch (parsed.type) {
+      case "start":
+      case "delta":
+      case "usage":
+      case "error":
+      case "done":
+        return parsed as StreamFrame;
+      default:
+        return null;
+    }
+  } catch {
+    return null;
+  }
+}
+
+// Builds an NDJSON response whose frames come from `run`. Frames emitted after the client
+// went away are dropped; `run` keeps going so it can still persist what was generated.
+export function createFrameResponse(
+  run: (emit: FrameEmitter, isCancelled: () => boolean) => Promise<void>
+): Response {
+  const encoder = new TextEncoder();
+  let cancelled = false;
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const emit: FrameEmitter = (frame) => {
+        if (!cancelled) controller.enqueue(encoder.encode(encodeFrame(frame)));
+      };
+      try {
+        await run(emit, () => cancelled);
+      } catch (error) {
+        emit({
+          type: "error",
+          message: error instanceof Error ? error.message : "Unexpected stream error"
+        });
+      }
+      if (!cancelled) controller.close();
+    },
+    cancel() {
+      cancelled = true;
+    }
+  });
+
+  return new Response(body, {
+    status: 200,
+    headers: {
+      "Content-Type": STREAM_CONTENT_TYPE,
+      "Cache-Control": "no-cache, no-transform"
+    }
+  });
+}
+
+// Wraps a plain-text reply (CortexLTM streams `text/plain`) into frames. Upstream does not
+// report event ids, so `resolveIds` runs once the body ends to look up the persisted turn;
+// without it (or when it fails) the `done` ids stay null. A body that fails mid-read ends with
+// an `error` frame and an interrupted `done`, so the client can tell it from a finished reply.
+export function framePlainTextStream(
+  body: ReadableStream<Uint8Array>,
+  start: Omit<StreamStartFrame, "type">,
+  resolveIds?: () => Promise<TurnEventIds>
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const decoder = new TextDecoder();
+  const reader = body.getReader();
+  const startIds: TurnEventIds = {
+    userEventId: start.userEventId,
+    assistantEventId: start.assistantEventId
+  };
+  let output = "";
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(encoder.encode(encodeFrame({ type: "start", ...start })));
+    },
+    async pull(controller) {
+      const emit: FrameEmitter = (frame) => controller.enqueue(encoder.encode(encodeFrame(frame)));
+      let chunk: ReadableStreamReadResult<Uint8Array>;
+      try {
+        chunk = await reader.read();
+      } catch (error) {
+        emit({
+          type: "error",
+          message: error instanceof Error ? error.message : "Unexpected stream error"
+        });
+        emit({ type: "done", ...startIds, interrupted: true });
+        controller.close();
+        return;
+      }
+
+      const text = chunk.done ? decoder.decode() : decoder.decode(chunk.value, { stream: true });
+      if (text) {
+        output += text;
+        emit({ type: "delta", text });
+      }
+      if (!chunk.done) return;
+
+      emit({
+        type: "usage",
+        inputTokens: null,
+        outputTokens: estimateTokens(output),
+        estimated: true
+      });
+      const ids = (await resolveIds?.().catch(() => null)) ?? startIds;
+      emit({ type: "done", ...ids, interrupted: false });
+      controller.close();
+    },
+    cancel(reason) {
+      return reader.cancel(reason);
+    }
+  });
+}
+
+// Yields frames as complete lines arrive; lines that are not frames are skipped.
+export async function* readFrames(body: ReadableStream<Uint8Array>): AsyncIterable<StreamFrame> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split("\n");
+      buffer = lines.pop() ?? "";
+      for (const line of lines) {
+        const frame = parseFrameLine(line);
+        if (frame) yield frame;
+      }
+    }
+    const last = parseFrameLine(buffer + decoder.decode());
+    if (last) yield last;
+  } finally {
+    reader.releaseLock();
+  }
+}
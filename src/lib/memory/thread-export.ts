@@ -0,0 +1,188 @@
+import type { MemoryProvider } from "@/lib/memory/memory-provider";
+import type { ThreadRecord, UIMessage } from "@/lib/memory/types";
+
+export type ExportFormat = "md" | "json" | "html";
+
+export const EXPORT_FORMAT_ID = "cortex-ui.thread-export";
+
+export type ThreadExport = {
+  format: typeof EXPORT_FORMAT_ID;
+  version: 1;
+  exportedAt: string;
+  thread: {
+    id: string;
+    title: string | null;
+    createdAt: string;
+    isCoreMemory: boolean;
+    parentThreadId: string | null;
+  };
+  summary: string | null;
+  messages: Array<{
+    id: string;
+    role: UIMessage["role"];
+    content: string;
+    createdAt: string;
+    reaction: string | null;
+    meta?: Record<string, unknown>;
+  }>;
+};
+
+const EXPORT_PAGE_SIZE = 200;
+const MAX_EXPORT_PAGES = 500;
+
+const REACTION_EMOJI: Record<string, string> = {
+  thumbs_up: "👍",
+  heart: "❤️",
+  angry: "😠",
+  sad: "😢",
+  brain: "🧠"
+};
+
+// Pages backwards with the `before` cursor until the backend runs dry. A backend that
+// ignores the cursor returns the same page again, which stops the walk instead of looping.
+export async function collectAllEvents(
+  memory: MemoryProvider,
+  threadId: string
+): Promise<UIMessage[]> {
+  let collected: UIMessage[] = [];
+  let before: string | undefined;
+  for (let page = 0; page < MAX_EXPORT_PAGES; page += 1) {
+    const events = await memory.getRecentEvents(threadId, EXPORT_PAGE_SIZE, before);
+    const seen = new Set(collected.map((event) => event.id));
+    const fresh = events.filter((event) => !seen.has(event.id));
+    collected = [...fresh, ...collected];
+    if (events.length < EXPORT_PAGE_SIZE || fresh.length === 0) break;
+    before = fresh[0].id;
+  }
+  return collected;
+}
+
+export function buildThreadExport(params: {
+  thread: ThreadRecord;
+  summary: string | null;
+  events: UIMessage[];
+  exportedAt?: string;
+}): ThreadExport {
+  const { thread, summary, events } = params;
+  return {
+    format: EXPORT_FORMAT_ID,
+    version: 1,
+    exportedAt: params.exportedAt ?? new Date().toISOString(),
+    thread: {
+      id: thread.id,
+      title: thread.title,
+      createdAt: thread.createdAt,
+      isCoreMemory: Boolean(thread.isCoreMemory),
+      parentThreadId: thread.parentThreadId ?? null
+    },
+    summary,
+    messages: events.map((event) => {
+      const reaction = event.meta?.reaction;
+      return {
+        id: event.id,
+        role: event.role,
+        content: event.content,
+        createdAt: event.createdAt,
+        reaction: typeof reaction === "string" ? reaction : null,
+        ...(event.meta && Object.keys(event.meta).length > 0 ? { meta: event.meta } : {})
+      };
+    })
+  };
+}
+
+export function renderThreadMarkdown(data: ThreadExport): string {
+  const lines = [
+    `# ${data.thread.title?.trim() || "Untitled chat"}`,
+    "",
+    `- Created: ${formatTimestamp(data.thread.createdAt)}`,
+    `- Exported: ${formatTimestamp(data.exportedAt)}`,
+    `- Core memory: ${data.thread.isCoreMemory ? "yes" : "no"}`,
+    `- Messages: ${data.messages.length}`
+  ];
+  if (data.summary) {
+    lines.push("", "## Summary", "", data.summary.trim());
+  }
+  lines.push("", "## Transcript");
+  for (const message of data.messages) {
+    const heading = [roleLabel(message.role), formatTimestamp(message.createdAt)];
+    if (message.reaction) heading.push(`Reaction: ${reactionLabel(message.reaction)}`);
+    lines.push("", `### ${heading.join(" · ")}`, "", message.content.trim());
+  }
+  return `${lines.join("\n")}\n`;
+}
+
+export function renderThreadHtml(data: ThreadExport): string {
+  const title = escapeHtml(data.thread.title?.trim() || "Untitled chat");
+  const messages = data.messages
+    .map((message) => {
+      const reaction = message.reaction
+        ? `<span class="reaction">${escapeHtml(reactionLabel(message.reaction))}</span>`
+        : "";
+      return `<article class="message ${message.role}">
+  <header><strong>${roleLabel(message.role)}</strong> <time datetime="${escapeHtml(message.createdAt)}">${escapeHtml(formatTimestamp(message.createdAt))}</time>${reaction}</header>
+  <div class="content">${escapeHtml(message.content)}</div>
+</article>`;
+    })
+    .join("\n");
+  const summary = data.summary
+    ? `<section class="summary"><h2>Summary</h2><div class="content">${escapeHtml(data.summary)}</div></section>`
+    : "";
+
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${title}</title>
+<style>
+  body { font-family: system-ui, sans-serif; max-width: 760px; margin: 2rem auto; padding: 0 1rem; color: #0f172a; background: #f8fafc; }
+  .meta { color: #475569; font-size: 0.9rem; }
+  .summary, .message { background: #fff; border: 1px solid #e2e8f0; border-radius: 12px; padding: 0.75rem 1rem; margin: 0.75rem 0; }
+  .message.user { background: #e0f2fe; }
+  header { font-size: 0.85rem; color: #475569; margin-bottom: 0.4rem; }
+  .reaction { margin-left: 0.5rem; }
+  .content { white-space: pre-wrap; line-height: 1.5; }
+</style>
+</head>
+<body>
+<h1>${title}</h1>
+<p class="meta">Created ${escapeHtml(formatTimestamp(data.thread.createdAt))} · Exported ${escapeHtml(formatTimestamp(data.exportedAt))} · Core memory: ${data.thread.isCoreMemory ? "yes" : "no"}</p>
+${summary}
+${messages}
+</body>
+</html>
+`;
+}
+
+export function exportFileName(data: ThreadExport, format: ExportFormat): string {
+  const slug = (data.thread.title ?? "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 60);
+  return `${slug || `chat-${data.thread.id.slice(0, 8)}`}.${format}`;
+}
+
+function roleLabel(role: UIMessage["role"]): string {
+  return role === "user" ? "You" : "Assistant";
+}
+
+function reactionLabel(reaction: string): string {
+  const emoji = REACTION_EMOJI[reaction];
+  return emoji ? `${emoji} ${reaction}` : reaction;
+}
+
+function formatTimestamp(value: string): string {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) return value;
+  return `${date.toISOString().slice(0, 16).replace("T", " ")} UTC`;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
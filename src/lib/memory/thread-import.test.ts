@@ -0,0 +1,219 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  IMPORT_LIMITS,
+  importThreads,
+  mergeImportReports,
+  parseImportPayload,
+  splitImportBatches
+} from "@/lib/memory/thread-import";
+import { createFakeMemory } from "@/test/route-helpers";
+
+const chatGptConversation = {
+  title: "Trip planning",
+  conversation_id: "conv-1",
+  create_time: 1700000000,
+  current_node: "n4",
+  mapping: {
+    root: { id: "root", message: null, parent: null, children: ["n1"] },
+    n1: {
+      id: "n1",
+      message: {
+        author: { role: "system" },
+        content: { content_type: "text", parts: [""] },
+        create_time: 1700000000
+      },
+      parent: "root",
+      children: ["n2"]
+    },
+    n2: {
+      id: "n2",
+      message: {
+        author: { role: "user" },
+        content: { content_type: "text", parts: ["Where should we go?"] },
+        create_time: 1700000001.5
+      },
+      parent: "n1",
+      children: ["n3", "n4"]
+    },
+    n3: {
+      id: "n3",
+      message: {
+        author: { role: "assistant" },
+        content: { content_type: "text", parts: ["Abandoned branch"] },
+        create_time: 1700000002
+      },
+      parent: "n2",
+      children: []
+    },
+    n4: {
+      id: "n4",
+      message: {
+        author: { role: "assistant" },
+        content: { content_type: "text", parts: ["Try Lisbon."] },
+        create_time: 1700000003
+      },
+      parent: "n2",
+      children: []
+    }
+  }
+};
+
+describe("parseImportPayload", () => {
+  it("follows the current ChatGPT branch and skips system nodes", () => {
+    const parsed = parseImportPayload([chatGptConversation]);
+
+    expect(parsed?.source).toBe("chatgpt");
+    expect(parsed?.threads).toEqual([
+      {
+        sourceId: "conv-1",
+        title: "Trip planning",
+        messages: [
+          {
+            role: "user",
+            content: "Where should we go?",
+            createdAt: "2023-11-14T22:13:21.500Z",
+            reaction: null
+          },
+          {
+            role: "assistant",
+            content: "Try Lisbon.",
+            createdAt: "2023-11-14T22:13:23.000Z",
+            reaction: null
+          }
+        ]
+      }
+    ]);
+  });
+
+  it("reads a single CortexUI export and keeps known reactions", () => {
+    const parsed = parseImportPayload({
+      format: "cortex-ui.thread-export",
+      version: 1,
+      thread: { id: "t1", title: "Ops" },
+      messages: [
+        { id: "e1", role: "user", content: "hi", createdAt: "2026-01-01T00:00:00.000Z" },
+        { id: "e2", role: "assistant", content: "hello", createdAt: null, reaction: "heart" },
+        { id: "e3", role: "assistant", content: "odd", reaction: "confetti" }
+      ]
+    });
+
+    expect(parsed?.source).toBe("cortex-ui");
+    expect(parsed?.threads[0].messages.map((message) => message.reaction)).toEqual([
+      null,
+      "heart",
+      null
+    ]);
+  });
+
+  it("rejects unknown layouts", () => {
+    expect(parseImportPayload({ hello: "world" })).toBeNull();
+    expect(parseImportPayload([])).toBeNull();
+  });
+});
+
+describe("importThreads", () => {
+  it("replays events with original timestamps and reports failures per thread", async () => {
+    const addUserEvent = vi.fn(async () => "e-user");
+    const startThread = vi
+      .fn()
+      .mockResolvedValueOnce("new-1")
+      .mockRejectedValueOnce(new Error("backend down"));
+    const memory = createFakeMemory({ startThread, addUserEvent });
+
+    const report = await importThreads(memory, "user-1", "chatgpt", [
+      {
+        sourceId: "a",
+        title: "First",
+        messages: [
+          { role: "user", content: "hi", createdAt: "2024-01-01T00:00:00.000Z", reaction: null }
+        ]
+      },
+      { sourceId: "b", title: "Empty", messages: [] },
+      {
+        sourceId: "c",
+        title: null,
+        messages: [{ role: "user", content: "x", createdAt: null, reaction: null }]
+      }
+    ]);
+
+    expect(addUserEvent).toHaveBeenCalledWith("new-1", "hi", {
+      source: "import",
+      importedFrom: "chatgpt",
+      originalCreatedAt: "2024-01-01T00:00:00.000Z"
+    });
+    expect(report).toEqual({
+      source: "chatgpt",
+      imported: 1,
+      failed: 2,
+      results: [
+        { sourceId: "a", title: "First", status: "imported", threadId: "new-1", messageCount: 1 },
+        { sourceId: "b", title: "Empty", status: "failed", error: "No messages to import." },
+        { sourceId: "c", title: null, status: "failed", error: "backend down" }
+      ]
+    });
+  });
+});
+
+describe("splitImportBatches", () => {
+  it("groups an array export into batches under the per-request caps", () => {
+    const conversations = Array.from({ length: IMPORT_LIMITS.batchThreads + 3 }, (_, index) => ({
+      ...chatGptConversation,
+      conversation_id: `conv-${index}`
+    }));
+
+    const batches = splitImportBatches(JSON.stringify(conversations));
+
+    expect(batches).toHaveLength(2);
+    expect(batches[0].items).toHaveLength(IMPORT_LIMITS.batchThreads);
+    expect(batches[1].items).toEqual([
+      { sourceId: "conv-25", title: "Trip planning" },
+      { sourceId: "conv-26", title: "Trip planning" },
+      { sourceId: "conv-27", title: "Trip planning" }
+    ]);
+    expect(JSON.parse(batches[1].body)).toEqual(conversations.slice(IMPORT_LIMITS.batchThreads));
+  });
+
+  it("sends a single document or unreadable file through whole", () => {
+    expect(splitImportBatches("not json")).toEqual([{ body: "not json", items: [] }]);
+    expect(splitImportBatches('{"thread":{}}')).toEqual([{ body: '{"thread":{}}', items: [] }]);
+  });
+});
+
+describe("mergeImportReports", () => {
+  it("adds up batch reports and fails every conversation of a rejected batch", () => {
+    const report = mergeImportReports("chatgpt", [
+      {
+        batch: { body: "[]", items: [{ sourceId: "a", title: "A" }] },
+        report: {
+          source: "chatgpt",
+          imported: 1,
+          failed: 0,
+          results: [
+            { sourceId: "a", title: "A", status: "imported", threadId: "t-a", messageCount: 2 }
+          ]
+        }
+      },
+      {
+        batch: {
+          body: "[]",
+          items: [
+            { sourceId: "b", title: "B" },
+            { sourceId: "c", title: null }
+          ]
+        },
+        error: "Import failed."
+      }
+    ]);
+
+    expect(report).toEqual({
+      source: "chatgpt",
+      imported: 1,
+      failed: 2,
+      results: [
+        { sourceId: "a", title: "A", status: "imported", threadId: "t-a", messageCount: 2 },
+        { sourceId: "b", title: "B", status: "failed", error: "Import failed." },
+        { sourceId: "c", title: null, status: "failed", error: "Import failed." }
+      ]
+    });
+  });
+});
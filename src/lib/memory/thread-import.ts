@@ -0,0 +1,323 @@
+import type { MemoryProvider } from "@/lib/memory/memory-provider";
+import { EXPORT_FORMAT_ID } from "@/lib/memory/thread-export";
+
+export type ImportSource = "cortex-ui" | "chatgpt";
+
+export type ImportedMessage = {
+  role: "user" | "assistant";
+  content: string;
+  createdAt: string | null;
+  reaction: string | null;
+};
+
+export type ImportCandidate = {
+  sourceId: string;
+  title: string | null;
+  messages: ImportedMessage[];
+  error?: string;
+};
+
+export type ImportThreadResult =
+  | {
+      sourceId: string;
+      title: string | null;
+      status: "imported";
+      threadId: string;
+      messageCount: number;
+    }
+  | {
+      sourceId: string;
+      title: string | null;
+      status: "failed";
+      error: string;
+    };
+
+export type ImportReport = {
+  source: ImportSource;
+  imported: number;
+  failed: number;
+  results: ImportThreadResult[];
+};
+
+type JsonRecord = Record<string, unknown>;
+
+// `maxBytes` / `maxThreads` cap one `POST /api/chat/import` request. Clients split larger files
+// into batches of at most `batchBytes` / `batchThreads`, small enough to replay well within a
+// proxy timeout, so exports of any size can be imported.
+export const IMPORT_LIMITS = {
+  maxBytes: 25 * 1024 * 1024,
+  maxThreads: 500,
+  batchBytes: 2 * 1024 * 1024,
+  batchThreads: 25
+} as const;
+
+export type ImportBatch = {
+  body: string;
+  // Source id and title per conversation, for reporting a batch the server rejected.
+  items: Array<{ sourceId: string; title: string | null }>;
+};
+
+const REACTIONS = new Set(["thumbs_up", "heart", "angry", "sad", "brain"]);
+
+function isRecord(value: unknown): value is JsonRecord {
+  return Boolean(value) && typeof value === "object" && !Array.isArray(value);
+}
+
+// Accepts one export document, an array of them, or a ChatGPT `conversations.json` array.
+// Returns null when the payload matches neither layout.
+export function parseImportPayload(
+  raw: unknown
+): { source: ImportSource; threads: ImportCandidate[] } | null {
+  const items = Array.isArray(raw) ? raw : [raw];
+  if (items.length === 0) return null;
+
+  if (items.every((item) => isRecord(item) && item.format === EXPORT_FORMAT_ID)) {
+    return {
+      source: "cortex-ui",
+      threads: items.map((item) => parseCortexExport(item as JsonRecord))
+    };
+  }
+  if (items.every((item) => isRecord(item) && isRecord(item.mapping))) {
+    return {
+      source: "chatgpt",
+      threads: items.map((item) => parseChatGptConversation(item as JsonRecord))
+    };
+  }
+  return null;
+}
+
+// Splits an uploaded file into request bodies under `IMPORT_LIMITS`. Arrays (ChatGPT
+// `conversations.json`, several CortexUI exports) are grouped by conversation; a single document,
+// or a file that is not JSON, goes through whole so the server reports what is wrong with it.
+export function splitImportBatches(text: string): ImportBatch[] {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    return [{ body: text, items: [] }];
+  }
+  if (!Array.isArray(raw) || raw.length === 0) return [{ body: text, items: [] }];
+
+  const batches: ImportBatch[] = [];
+  let bodies: string[] = [];
+  let items: ImportBatch["items"] = [];
+  let bytes = 0;
+  const flush = () => {
+    if (bodies.length === 0) return;
+    batches.push({ body: `[${bodies.join(",")}]`, items });
+    bodies = [];
+    items = [];
+    bytes = 0;
+  };
+  for (const item of raw) {
+    const body = JSON.stringify(item);
+    if (
+      bodies.length >= IMPORT_LIMITS.batchThreads ||
+      (bodies.length > 0 && bytes + body.length > IMPORT_LIMITS.batchBytes)
+    ) {
+      flush();
+    }
+    bodies.push(body);
+    items.push(describeImportItem(item));
+    bytes += body.length + 1;
+  }
+  flush();
+  return batches;
+}
+
+export type ImportBatchOutcome =
+  | { batch: ImportBatch; report: ImportReport }
+  | { batch: ImportBatch; error: string };
+
+// Merges per-batch reports; a batch the server rejected counts each of its conversations as
+// failed with the server's message.
+export function mergeImportReports(
+  source: ImportSource,
+  outcomes: ImportBatchOutcome[]
+): ImportReport {
+  const results: ImportThreadResult[] = [];
+  for (const outcome of outcomes) {
+    if ("report" in outcome) {
+      results.push(...outcome.report.results);
+      continue;
+    }
+    for (const item of outcome.batch.items) {
+      results.push({ ...item, status: "failed", error: outcome.error });
+    }
+  }
+  const imported = results.filter((result) => result.status === "imported").length;
+  return { source, imported, failed: results.length - imported, results };
+}
+
+function describeImportItem(item: unknown): { sourceId: string; title: string | null } {
+  const record = isRecord(item) ? item : {};
+  const thread = isRecord(record.thread) ? record.thread : record;
+  const id = thread.id ?? record.conversation_id;
+  return {
+    sourceId: typeof id === "string" ? id : "unknown",
+    title: typeof thread.title === "string" ? thread.title : null
+  };
+}
+
+// Replays each candidate through the regular write path so every backend stores imports the
+// same way it stores live chat. Original timestamps travel in `meta.originalCreatedAt`.
+export async function importThreads(
+  memory: MemoryProvider,
+  userId: string,
+  source: ImportSource,
+  candidates: ImportCandidate[]
+): Promise<ImportReport> {
+  const results: ImportThreadResult[] = [];
+  for (const candidate of candidates) {
+    const { sourceId, title } = candidate;
+    if (candidate.error || candidate.messages.length === 0) {
+      results.push({
+        sourceId,
+        title,
+        status: "failed",
+        error: candidate.error ?? "No messages to import."
+      });
+      continue;
+    }
+
+    let threadId: string | null = null;
+    try {
+      threadId = await memory.startThread(userId, title ?? undefined);
+      for (const message of candidate.messages) {
+        const meta: Record<string, unknown> = {
+          source: "import",
+          importedFrom: source,
+          ...(message.createdAt ? { originalCreatedAt: message.createdAt } : {}),
+          ...(message.reaction ? { reaction: message.reaction } : {})
+        };
+        if (message.role === "user") {
+          await memory.addUserEvent(threadId, message.content, meta);
+        } else {
+          await memory.addAssistantEvent(threadId, message.content, meta);
+        }
+      }
+      results.push({
+        sourceId,
+        title,
+        status: "imported",
+        threadId,
+        messageCount: candidate.messages.length
+      });
+    } catch (error) {
+      // Drop the half-written thread so a retry doesn't leave duplicates behind.
+      if (threadId) await memory.deleteThread?.(threadId).catch(() => undefined);
+      results.push({
+        sourceId,
+        title,
+        status: "failed",
+        error: error instanceof Error ? error.message : "Import failed."
+      });
+    }
+  }
+
+  const imported = results.filter((result) => result.status === "imported").length;
+  return { source, imported, failed: results.length - imported, results };
+}
+
+function parseCortexExport(item: JsonRecord): ImportCandidate {
+  const thread = isRecord(item.thread) ? item.thread : {};
+  const sourceId = typeof thread.id === "string" ? thread.id : "unknown";
+  const title = typeof thread.title === "string" ? thread.title : null;
+  if (!Array.isArray(item.messages)) {
+    return { sourceId, title, messages: [], error: "Export has no messages array." };
+  }
+
+  const messages: ImportedMessage[] = [];
+  for (const row of item.messages) {
+    if (!isRecord(row)) continue;
+    if ((row.role !== "user" && row.role !== "assistant") || typeof row.content !== "string") {
+      continue;
+    }
+    if (!row.content.trim()) continue;
+    messages.push({
+      role: row.role,
+      content: row.content,
+      createdAt: toIsoTimestamp(row.createdAt),
+      reaction:
+        row.role === "assistant" && typeof row.reaction === "string" && REACTIONS.has(row.reaction)
+          ? row.reaction
+          : null
+    });
+  }
+  return { sourceId, title, messages };
+}
+
+// ChatGPT stores each conversation as a tree of nodes; the visible transcript is the path
+// from `current_node` back to the root. Edited-away branches are intentionally dropped.
+function parseChatGptConversation(item: JsonRecord): ImportCandidate {
+  const mapping = item.mapping as Record<string, unknown>;
+  const sourceId =
+    typeof item.conversation_id === "string"
+      ? item.conversation_id
+      : typeof item.id === "string"
+        ? item.id
+        : "unknown";
+  const title = typeof item.title === "string" && item.title.trim() ? item.title : null;
+
+  let nodeId = typeof item.current_node === "string" ? item.current_node : findLeaf(mapping);
+  const path: JsonRecord[] = [];
+  const visited = new Set<string>();
+  while (nodeId && !visited.has(nodeId)) {
+    visited.add(nodeId);
+    const node = mapping[nodeId];
+    if (!isRecord(node)) break;
+    path.push(node);
+    nodeId = typeof node.parent === "string" ? node.parent : null;
+  }
+  if (path.length === 0) {
+    return { sourceId, title, messages: [], error: "Conversation has no readable messages." };
+  }
+
+  const messages: ImportedMessage[] = [];
+  for (const node of path.reverse()) {
+    const message = isRecord(node.message) ? node.message : null;
+    const role = isRecord(message?.author) ? message.author.role : null;
+    if (role !== "user" && role !== "assistant") continue;
+    const content = readChatGptText(message?.content);
+    if (!content.trim()) continue;
+    messages.push({
+      role,
+      content,
+      createdAt: toIsoTimestamp(message?.create_time),
+      reaction: null
+    });
+  }
+  return { sourceId, title, messages };
+}
+
+function findLeaf(mapping: Record<string, unknown>): string | null {
+  const leaves = Object.entries(mapping).filter(
+    ([, node]) => isRecord(node) && (!Array.isArray(node.children) || node.children.length === 0)
+  );
+  return leaves[leaves.length - 1]?.[0] ?? null;
+}
+
+function readChatGptText(content: unknown): string {
+  if (!isRecord(content)) return "";
+  if (typeof content.text === "string") return content.text;
+  if (!Array.isArray(content.parts)) return "";
+  return content.parts
+    .map((part) => {
+      if (typeof part === "string") return part;
+      return isRecord(part) && typeof part.text === "string" ? part.text : "";
+    })
+    .filter(Boolean)
+    .join("\n");
+}
+
+function toIsoTimestamp(value: unknown): string | null {
+  if (typeof value === "number" && Number.isFinite(value)) {
+    // ChatGPT uses fractional epoch seconds.
+    return new Date(value * 1000).toISOString();
+  }
+  if (typeof value === "string" && value.trim()) {
+    const date = new Date(value);
+    return Number.isNaN(date.getTime()) ? null : date.toISOString();
+  }
+  return null;
+}
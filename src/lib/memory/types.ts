@@ -9,6 +9,13 @@ export type UIMessage = {
   meta?: Record<string, unknown>;
 };
 
+export type EventSearchHit = {
+  threadId: string;
+  threadTitle: string | null;
+  event: UIMessage;
+  snippet: string;
+};
+
 export type ContextMessage = {
   role: MessageRole;
   content: string;
@@ -20,10 +27,71 @@ export type BuildMemoryContextParams = {
   shortTermLimit?: number;
 };
 
+// Sampling options saved on a thread; unset fields use the provider's defaults.
+export type GenerationSettings = {
+  temperature?: number;
+  topP?: number;
+  maxTokens?: number;
+  stop?: string[];
+  seed?: number;
+};
+
 export type ThreadRecord = {
   id: string;
   userId: string;
   title: string | null;
   createdAt: string;
   isCoreMemory?: boolean;
+  parentThreadId?: string | null;
+  forkedFromEventId?: string | null;
+  // Registry id (`<provider>/<model>`) picked for the thread; null uses the server default.
+  model?: string | null;
+  settings?: GenerationSettings | null;
+  personaId?: string | null;
+};
+
+// Message actions the selected backend supports; the UI hides the ones it lacks.
+export type ThreadCapabilities = {
+  regenerate: boolean;
+  versions: boolean;
+  edit: boolean;
+  branch: boolean;
+};
+
+// A user-defined system prompt that threads can adopt. `model` is the registry id replies use
+// when the thread has not picked one; `avatar` is an emoji or short label.
+export type PersonaRecord = {
+  id: string;
+  userId: string;
+  name: string;
+  systemPrompt: string;
+  model: string | null;
+  avatar: string | null;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type PersonaInput = Pick<PersonaRecord, "name" | "systemPrompt" | "model" | "avatar">;
+
+export type ApiKeyScope = "read" | "write";
+
+// Personal API key metadata. The key itself is only shown once at creation; backends store a
+// SHA-256 hash of it, and `prefix` is kept so the settings panel can tell keys apart.
+export type ApiKeyRecord = {
+  id: string;
+  userId: string;
+  name: string;
+  prefix: string;
+  scopes: ApiKeyScope[];
+  createdAt: string;
+  lastUsedAt: string | null;
+  revokedAt: string | null;
+};
+
+export type CreateApiKeyParams = {
+  userId: string;
+  name: string;
+  prefix: string;
+  keyHash: string;
+  scopes: ApiKeyScope[];
 };
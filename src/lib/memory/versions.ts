@@ -0,0 +1,50 @@
+import type { UIMessage } from "@/lib/memory/types";
+
+type VersionedEvent = Pick<UIMessage, "content" | "meta">;
+
+// Regenerated assistant replies keep every alternative in `meta.versions`;
+// `content` always mirrors `meta.versions[meta.activeVersion]`.
+export function readVersions(event: VersionedEvent): { versions: string[]; activeVersion: number } {
+  const rawVersions = event.meta?.versions;
+  const versions =
+    Array.isArray(rawVersions) && rawVersions.every((item) => typeof item === "string")
+      ? (rawVersions as string[])
+      : [event.content];
+  const rawActive = event.meta?.activeVersion;
+  const activeVersion =
+    typeof rawActive === "number" && rawActive >= 0 && rawActive < versions.length
+      ? rawActive
+      : versions.length - 1;
+  return { versions, activeVersion };
+}
+
+export function withAppendedVersion(
+  event: VersionedEvent,
+  output: string,
+  interrupted = false
+): { content: string; meta: Record<string, unknown> } {
+  const versions = [...readVersions(event).versions, output];
+  const meta: Record<string, unknown> = {
+    ...(event.meta ?? {}),
+    versions,
+    activeVersion: versions.length - 1
+  };
+  if (interrupted) {
+    meta.interrupted = true;
+  } else {
+    delete meta.interrupted;
+  }
+  return { content: output, meta };
+}
+
+export function withActiveVersion(
+  event: VersionedEvent,
+  index: number
+): { content: string; meta: Record<string, unknown> } | null {
+  const { versions } = readVersions(event);
+  if (!Number.isInteger(index) || index < 0 || index >= versions.length) return null;
+  return {
+    content: versions[index],
+    meta: { ...(event.meta ?? {}), versions, activeVersion: index }
+  };
+}
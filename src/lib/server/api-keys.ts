@@ -0,0 +1,54 @@
+import { createHash, randomBytes } from "crypto";
+import type { MemoryProvider } from "@/lib/memory/memory-provider";
+import type { ApiKeyRecord, ApiKeyScope } from "@/lib/memory/types";
+import { API_KEY_PREFIX } from "@/lib/server/auth";
+
+// Characters of the key kept in plain text so users can recognise a key in the settings panel.
+const DISPLAY_PREFIX_LENGTH = API_KEY_PREFIX.length + 6;
+
+// 401 for an unknown or revoked key, 403 when the key lacks the scope the request needs,
+// 501 when the memory backend cannot store keys.
+export class ApiKeyAuthError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = "ApiKeyAuthError";
+    this.status = status;
+  }
+}
+
+export function generateApiKey(): { key: string; prefix: string; keyHash: string } {
+  const key = `${API_KEY_PREFIX}${randomBytes(24).toString("base64url")}`;
+  return { key, prefix: key.slice(0, DISPLAY_PREFIX_LENGTH), keyHash: hashApiKey(key) };
+}
+
+export function hashApiKey(key: string): string {
+  return createHash("sha256").update(key).digest("hex");
+}
+
+// Safe methods only read; anything else changes a thread and needs the write scope.
+export function requiredScope(method: string): ApiKeyScope {
+  const normalized = method.toUpperCase();
+  return normalized === "GET" || normalized === "HEAD" ? "read" : "write";
+}
+
+// Key requests carry no upstream token, so the thread owner check in `withChatRoute` is all that
+// keeps a key inside its owner's threads; backends that cannot look threads up take no keys.
+export async function resolveApiKey(
+  memory: MemoryProvider,
+  key: string,
+  method: string
+): Promise<ApiKeyRecord> {
+  if (!memory.authenticateApiKey || !memory.getThread) {
+    throw new ApiKeyAuthError("Selected memory backend does not support API keys.", 501);
+  }
+  const record = await memory.authenticateApiKey(hashApiKey(key));
+  if (!record) throw new ApiKeyAuthError("Invalid API key.", 401);
+
+  const scope = requiredScope(method);
+  if (!record.scopes.includes(scope)) {
+    throw new ApiKeyAuthError(`This API key does not have the ${scope} scope.`, 403);
+  }
+  return record;
+}
@@ -2,6 +2,9 @@ import type { NextRequest, NextResponse } from "next/server";
 
 export const ACCESS_TOKEN_COOKIE = "cortex_access_token";
 export const REFRESH_TOKEN_COOKIE = "cortex_refresh_token";
+// Personal API keys are sent as `Authorization: Bearer cxk_...`; the prefix tells them apart
+// from Supabase access tokens without a lookup.
+export const API_KEY_PREFIX = "cxk_";
 
 type SupabaseConfig = {
   url: string;
@@ -14,6 +17,41 @@ type JwtPayload = {
   exp?: number;
 };
 
+export type SupabaseSession = {
+  accessToken: string;
+  refreshToken: string;
+  expiresIn: number;
+  user: { id: string | null; email: string | null };
+};
+
+type TokenResponse = {
+  access_token?: string;
+  refresh_token?: string;
+  expires_in?: number;
+  user?: { id?: string; email?: string | null };
+  error_description?: string;
+  msg?: string;
+};
+
+// 401 when Supabase rejected the refresh token (the session is over),
+// 503 when the exchange could not be attempted or the service failed.
+export class AuthRefreshError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = "AuthRefreshError";
+    this.status = status;
+  }
+}
+
+// Refresh a little before `exp` so a request does not race the expiry upstream.
+const REFRESH_SKEW_SECONDS = 30;
+
+// Supabase rotates refresh tokens, so concurrent requests holding the same token must share
+// one exchange instead of each spending it.
+const inflightRefreshes = new Map<string, Promise<SupabaseSession>>();
+
 export function getAuthMode(): "dev" | "supabase" {
   return (process.env.AUTH_MODE ?? "dev").toLowerCase() === "supabase"
     ? "supabase"
@@ -35,7 +73,11 @@ export function decodeJwtPayload(token: string): JwtPayload | null {
   const parts = token.split(".");
   if (parts.length < 2) return null;
   try {
-    const payload = Buffer.from(parts[1], "base64url").toString("utf8");
+    // atob + TextDecoder rather than Buffer so this also runs in middleware (edge runtime).
+    const base64 = parts[1].replace(/-/g, "+").replace(/_/g, "/");
+    const binary = atob(base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), "="));
+    const bytes = Uint8Array.from(binary, (char) => char.charCodeAt(0));
+    const payload = new TextDecoder().decode(bytes);
     const parsed = JSON.parse(payload) as JwtPayload;
     return parsed;
   } catch {
@@ -43,20 +85,105 @@ export function decodeJwtPayload(token: string): JwtPayload | null {
   }
 }
 
-export function getAuthFromRequest(
-  req: NextRequest
-): { authorization: string | null; accessToken: string | null } {
+export function getAuthFromRequest(req: NextRequest): {
+  authorization: string | null;
+  accessToken: string | null;
+  apiKey: string | null;
+} {
   const incoming = req.headers.get("authorization");
   if (incoming && incoming.trim()) {
-    return { authorization: incoming.trim(), accessToken: null };
+    const bearer = incoming.trim().match(/^Bearer\s+(.+)$/i)?.[1].trim() ?? "";
+    if (isApiKeyToken(bearer)) {
+      return { authorization: null, accessToken: null, apiKey: bearer };
+    }
+    return { authorization: incoming.trim(), accessToken: null, apiKey: null };
   }
   const accessToken = req.cookies.get(ACCESS_TOKEN_COOKIE)?.value?.trim() ?? "";
   if (!accessToken) {
-    return { authorization: null, accessToken: null };
+    return { authorization: null, accessToken: null, apiKey: null };
   }
   return {
     authorization: `Bearer ${accessToken}`,
-    accessToken
+    accessToken,
+    apiKey: null
+  };
+}
+
+export function isApiKeyToken(token: string): boolean {
+  return token.startsWith(API_KEY_PREFIX) && token.length > API_KEY_PREFIX.length;
+}
+
+// True when a cookie-based supabase session can and should be renewed before handling `req`:
+// the access cookie is gone (its max-age tracks the token lifetime) or about to expire.
+export function needsSessionRefresh(req: NextRequest): boolean {
+  if (getAuthMode() !== "supabase") return false;
+  if (req.headers.get("authorization")?.trim()) return false;
+  if (!req.cookies.get(REFRESH_TOKEN_COOKIE)?.value?.trim()) return false;
+
+  const accessToken = req.cookies.get(ACCESS_TOKEN_COOKIE)?.value?.trim() ?? "";
+  if (!accessToken) return true;
+  const exp = decodeJwtPayload(accessToken)?.exp;
+  if (typeof exp !== "number") return false;
+  return exp - REFRESH_SKEW_SECONDS <= Math.floor(Date.now() / 1000);
+}
+
+export function refreshSupabaseSession(refreshToken: string): Promise<SupabaseSession> {
+  const existing = inflightRefreshes.get(refreshToken);
+  if (existing) return existing;
+
+  const pending = exchangeRefreshToken(refreshToken).finally(() => {
+    inflightRefreshes.delete(refreshToken);
+  });
+  inflightRefreshes.set(refreshToken, pending);
+  return pending;
+}
+
+async function exchangeRefreshToken(refreshToken: string): Promise<SupabaseSession> {
+  let url: string;
+  let anonKey: string;
+  try {
+    ({ url, anonKey } = getSupabaseConfig());
+  } catch (error) {
+    throw new AuthRefreshError(
+      error instanceof Error ? error.message : "Supabase auth is not configured.",
+      503
+    );
+  }
+
+  let response: Response;
+  try {
+    response = await fetch(`${url}/auth/v1/token?grant_type=refresh_token`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        apikey: anonKey
+      },
+      body: JSON.stringify({ refresh_token: refreshToken }),
+      cache: "no-store"
+    });
+  } catch {
+    throw new AuthRefreshError("Session refresh is temporarily unavailable.", 503);
+  }
+
+  const payload = (await response.json().catch(() => ({}))) as TokenResponse;
+  if (response.status >= 500) {
+    throw new AuthRefreshError("Session refresh is temporarily unavailable.", 503);
+  }
+  if (!response.ok || !payload.access_token || !payload.refresh_token) {
+    throw new AuthRefreshError(
+      payload.error_description ?? payload.msg ?? "Your session expired. Please sign in again.",
+      401
+    );
+  }
+
+  return {
+    accessToken: payload.access_token,
+    refreshToken: payload.refresh_token,
+    expiresIn: payload.expires_in ?? 3600,
+    user: {
+      id: payload.user?.id ?? null,
+      email: payload.user?.email ?? null
+    }
   };
 }
 
@@ -0,0 +1,337 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { NextResponse } from "next/server";
+import { MemoryApiError } from "@/lib/memory/cortex-http-provider";
+import { InMemoryMemoryProvider } from "@/lib/memory/in-memory-provider";
+import type { ApiKeyRecord } from "@/lib/memory/types";
+import { hashApiKey } from "@/lib/server/api-keys";
+import { withChatRoute } from "@/lib/server/chat-route";
+import { getMemoryProvider } from "@/lib/server/providers";
+import { resetRateLimits } from "@/lib/server/rate-limit";
+import {
+  createFakeMemory,
+  createRequest,
+  readJson,
+  routeContext,
+  streamFromChunks
+} from "@/test/route-helpers";
+
+vi.mock("@/lib/server/providers", () => ({
+  getMemoryProvider: vi.fn(),
+  getLlmProvider: vi.fn()
+}));
+
+const USER_ID = "11111111-1111-4111-8111-111111111111";
+
+describe("withChatRoute", () => {
+  beforeEach(() => {
+    vi.stubEnv("AUTH_MODE", "dev");
+    vi.mocked(getMemoryProvider).mockReturnValue(createFakeMemory());
+  });
+
+  it("requires every route param", async () => {
+    const handler = vi.fn();
+    const route = withChatRoute<{ threadId: string }>({ failure: "nope" }, handler);
+
+    const res = await route(createRequest("/api/chat/x"), routeContext({ threadId: "" }));
+
+    expect(res.status).toBe(400);
+    expect(await readJson(res)).toEqual({ error: { message: "threadId is required." } });
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it("passes params, user id and an authorized provider to the handler", async () => {
+    const route = withChatRoute<{ threadId: string }>({ failure: "nope" }, async (ctx) =>
+      NextResponse.json({ threadId: ctx.params.threadId, userId: ctx.userId })
+    );
+
+    const res = await route(
+      createRequest("/api/chat/t1", {
+        headers: { "x-user-id": USER_ID, authorization: "Bearer token" }
+      }),
+      routeContext({ threadId: "t1" })
+    );
+
+    expect(getMemoryProvider).toHaveBeenCalledWith("Bearer token");
+    expect(await readJson(res)).toEqual({ threadId: "t1", userId: USER_ID });
+  });
+
+  it("answers 404 for a thread owned by another user", async () => {
+    const getThread = vi.fn(async (threadId: string) =>
+      threadId === "t1"
+        ? { id: "t1", userId: USER_ID, title: null, createdAt: "", isCoreMemory: false }
+        : null
+    );
+    vi.mocked(getMemoryProvider).mockReturnValue(createFakeMemory({ getThread }));
+    const handler = vi.fn(async () => new Response("ok"));
+    const route = withChatRoute<{ threadId: string }>({ failure: "nope" }, handler);
+    const asUser = (userId: string, threadId: string) =>
+      route(
+        createRequest(`/api/chat/${threadId}`, { headers: { "x-user-id": userId } }),
+        routeContext({ threadId })
+      );
+
+    const owner = await asUser(USER_ID, "t1");
+    const other = await asUser("22222222-2222-4222-8222-222222222222", "t1");
+    const missing = await asUser(USER_ID, "t2");
+
+    expect(owner.status).toBe(200);
+    expect(other.status).toBe(404);
+    expect(await readJson(other)).toEqual({ error: { message: "Thread not found." } });
+    expect(missing.status).toBe(404);
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it("keeps in-memory threads private to their owner", async () => {
+    const memory = new InMemoryMemoryProvider({
+      llm: { async *streamChat() {} },
+      snapshotPath: null
+    });
+    vi.mocked(getMemoryProvider).mockReturnValue(memory);
+    const threadId = await memory.startThread(USER_ID, "Private");
+    const route = withChatRoute<{ threadId: string }>({ failure: "nope" }, async (ctx) =>
+      NextResponse.json({ events: await ctx.memory.getRecentEvents(ctx.params.threadId) })
+    );
+
+    const res = await route(
+      createRequest(`/api/chat/${threadId}/messages`, {
+        headers: { "x-user-id": "22222222-2222-4222-8222-222222222222" }
+      }),
+      routeContext({ threadId })
+    );
+
+    expect(res.status).toBe(404);
+  });
+
+  it("echoes a well-formed request id and generates one otherwise", async () => {
+    const route = withChatRoute({ failure: "nope" }, async () => new Response("ok"));
+
+    const echoed = await route(
+      createRequest("/api/chat/x", { headers: { "x-request-id": "req-42" } }),
+      routeContext({})
+    );
+    const generated = await route(
+      createRequest("/api/chat/x", { headers: { "x-request-id": "bad id\n" } }),
+      routeContext({})
+    );
+
+    expect(echoed.headers.get("x-request-id")).toBe("req-42");
+    expect(generated.headers.get("x-request-id")).toMatch(/^[0-9a-f-]{36}$/);
+  });
+
+  it("maps auth failures to 401 only in supabase mode", async () => {
+    const route = withChatRoute({ failure: "Backend down." }, async () => {
+      throw new Error("Unauthorized");
+    });
+
+    expect((await route(createRequest("/api/chat/x"), routeContext({}))).status).toBe(503);
+    vi.stubEnv("AUTH_MODE", "supabase");
+    const res = await route(createRequest("/api/chat/x"), routeContext({}));
+    expect(res.status).toBe(401);
+    expect(await readJson(res)).toEqual({
+      error: { message: "Your session expired. Please sign in again." }
+    });
+  });
+
+  it("passes MemoryApiError through and falls back to 503 with the cause", async () => {
+    const notFound = withChatRoute({ failure: "Backend down." }, async () => {
+      throw new MemoryApiError("Thread not found.", 404);
+    });
+    const broken = withChatRoute({ failure: (cause) => `Failed: ${cause}` }, async () => {
+      throw new Error("socket");
+    });
+
+    const missing = await notFound(createRequest("/api/chat/x"), routeContext({}));
+    const failed = await broken(createRequest("/api/chat/x"), routeContext({}));
+
+    expect(missing.status).toBe(404);
+    expect(failed.status).toBe(503);
+    expect(await readJson(failed)).toEqual({
+      error: { message: "Failed: socket", details: { cause: "socket" } }
+    });
+  });
+
+  it("uses the degraded payload for unclassified failures", async () => {
+    const route = withChatRoute(
+      { degrade: (_ctx, error) => NextResponse.json({ degraded: true, warning: String(error) }) },
+      async () => {
+        throw new Error("down");
+      }
+    );
+
+    const res = await route(createRequest("/api/chat/x"), routeContext({}));
+
+    expect(res.status).toBe(200);
+    expect(await readJson(res)).toEqual({ degraded: true, warning: "Error: down" });
+  });
+
+  describe("personal API keys", () => {
+    const key = "cxk_test-key";
+    const record: ApiKeyRecord = {
+      id: "k1",
+      userId: USER_ID,
+      name: "CI",
+      prefix: "cxk_test-k",
+      scopes: ["read"],
+      createdAt: "2026-01-01T00:00:00.000Z",
+      lastUsedAt: null,
+      revokedAt: null
+    };
+    const apiKeyRequest = (method = "GET") =>
+      createRequest("/api/chat/x", {
+        method,
+        headers: { authorization: `Bearer ${key}`, "x-user-id": "spoofed" }
+      });
+
+    it("runs as the key owner without forwarding the key upstream", async () => {
+      const authenticateApiKey = vi.fn(async () => record);
+      vi.mocked(getMemoryProvider).mockReturnValue(
+        createFakeMemory({ authenticateApiKey, getThread: vi.fn(async () => null) })
+      );
+      const route = withChatRoute({}, async (ctx) => NextResponse.json({ userId: ctx.userId }));
+
+      const res = await route(apiKeyRequest(), routeContext({}));
+
+      expect(authenticateApiKey).toHaveBeenCalledWith(hashApiKey(key));
+      expect(getMemoryProvider).toHaveBeenCalledWith(null);
+      expect(await readJson(res)).toEqual({ userId: USER_ID });
+    });
+
+    it("rejects unknown keys and keys without the needed scope", async () => {
+      const authenticateApiKey = vi.fn<(hash: string) => Promise<ApiKeyRecord | null>>();
+      vi.mocked(getMemoryProvider).mockReturnValue(
+        createFakeMemory({ authenticateApiKey, getThread: vi.fn(async () => null) })
+      );
+      const handler = vi.fn(async () => new Response("ok"));
+      const route = withChatRoute({}, handler);
+
+      authenticateApiKey.mockResolvedValueOnce(null);
+      const unknown = await route(apiKeyRequest(), routeContext({}));
+      authenticateApiKey.mockResolvedValueOnce(record);
+      const readOnly = await route(apiKeyRequest("POST"), routeContext({}));
+
+      expect(unknown.status).toBe(401);
+      expect(readOnly.status).toBe(403);
+      expect(await readJson(readOnly)).toEqual({
+        error: { message: "This API key does not have the write scope." }
+      });
+      expect(handler).not.toHaveBeenCalled();
+    });
+
+    it("answers 404 when the key owner asks for another user's thread", async () => {
+      const authenticateApiKey = vi.fn(async () => record);
+      const getThread = vi.fn(async (threadId: string) => ({
+        id: threadId,
+        userId: "22222222-2222-4222-8222-222222222222",
+        title: null,
+        createdAt: "",
+        isCoreMemory: false
+      }));
+      vi.mocked(getMemoryProvider).mockReturnValue(
+        createFakeMemory({ authenticateApiKey, getThread })
+      );
+      const handler = vi.fn(async () => new Response("ok"));
+      const route = withChatRoute<{ threadId: string }>({}, handler);
+
+      const res = await route(apiKeyRequest(), routeContext({ threadId: "t-other" }));
+
+      expect(res.status).toBe(404);
+      expect(getThread).toHaveBeenCalledWith("t-other");
+      expect(handler).not.toHaveBeenCalled();
+    });
+
+    it("refuses keys on routes that need a session", async () => {
+      const authenticateApiKey = vi.fn(async () => record);
+      vi.mocked(getMemoryProvider).mockReturnValue(createFakeMemory({ authenticateApiKey }));
+      const route = withChatRoute({ allowApiKeys: false }, async () => new Response("ok"));
+
+      const res = await route(apiKeyRequest(), routeContext({}));
+
+      expect(res.status).toBe(403);
+      expect(authenticateApiKey).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("metered routes", () => {
+    beforeEach(() => {
+      resetRateLimits();
+      vi.stubEnv("CHAT_RATE_LIMIT_IP_PER_MINUTE", "0");
+    });
+
+    const post = (body: unknown) =>
+      createRequest("/api/chat/t1/messages", {
+        method: "POST",
+        body,
+        headers: { "x-user-id": USER_ID }
+      });
+
+    it("answers 429 with Retry-After once the user's bucket is empty", async () => {
+      vi.stubEnv("CHAT_RATE_LIMIT_USER_PER_MINUTE", "1");
+      const handler = vi.fn(async () => new Response("ok"));
+      const route = withChatRoute({ metered: true }, handler);
+
+      await route(post({ text: "hi" }), routeContext({}));
+      const limited = await route(post({ text: "hi" }), routeContext({}));
+
+      expect(limited.status).toBe(429);
+      expect(limited.headers.get("retry-after")).toBe("60");
+      expect(await readJson(limited)).toEqual({
+        error: {
+          message: "You're sending messages too quickly. Try again in 60s.",
+          details: { scope: "user", retryAfterSeconds: 60 }
+        }
+      });
+      expect(handler).toHaveBeenCalledTimes(1);
+    });
+
+    it("keys the IP bucket on the address the trusted proxy appended", async () => {
+      vi.stubEnv("CHAT_RATE_LIMIT_USER_PER_MINUTE", "0");
+      vi.stubEnv("CHAT_RATE_LIMIT_IP_PER_MINUTE", "1");
+      vi.stubEnv("CHAT_TRUSTED_PROXY_HOPS", "1");
+      const route = withChatRoute({ metered: true }, async () => new Response("ok"));
+      const fromClient = (spoofed: string) =>
+        createRequest("/api/chat/t1/messages", {
+          method: "POST",
+          body: { text: "hi" },
+          headers: { "x-user-id": USER_ID, "x-forwarded-for": `${spoofed}, 203.0.113.7` }
+        });
+
+      const first = await route(fromClient("10.0.0.1"), routeContext({}));
+      const spoofed = await route(fromClient("10.0.0.2"), routeContext({}));
+
+      expect(first.status).toBe(200);
+      expect(spoofed.status).toBe(429);
+      expect(await readJson(spoofed)).toMatchObject({ error: { details: { scope: "ip" } } });
+    });
+
+    it("counts the request and streamed reply against the daily quotas", async () => {
+      vi.stubEnv("CHAT_DAILY_MESSAGE_QUOTA", "5");
+      vi.stubEnv("CHAT_DAILY_TOKEN_QUOTA", "100");
+      const route = withChatRoute(
+        { metered: true },
+        async () => new Response(streamFromChunks(["a".repeat(40), "b".repeat(40)]))
+      );
+
+      // {"text":"x…"} is 40 characters, so 10 tokens; the reply adds 20 more.
+      const first = await route(post({ text: "x".repeat(29) }), routeContext({}));
+      expect(first.headers.get("x-quota-messages-remaining")).toBe("4");
+      expect(first.headers.get("x-quota-tokens-remaining")).toBe("90");
+      await first.text();
+
+      const second = await route(post({ text: "" }), routeContext({}));
+      expect(second.headers.get("x-quota-messages-remaining")).toBe("3");
+      expect(second.headers.get("x-quota-tokens-remaining")).toBe("67");
+    });
+
+    it("does not charge failed requests", async () => {
+      vi.stubEnv("CHAT_DAILY_MESSAGE_QUOTA", "1");
+      const route = withChatRoute({ metered: true }, async () =>
+        Response.json({ error: { message: "bad" } }, { status: 422 })
+      );
+
+      await route(post({ text: "hi" }), routeContext({}));
+      const res = await route(post({ text: "hi" }), routeContext({}));
+
+      expect(res.status).toBe(422);
+    });
+  });
+});
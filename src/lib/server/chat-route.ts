@@ -0,0 +1,289 @@
+import { randomUUID } from "crypto";
+import { NextResponse, type NextRequest } from "next/server";
+import { writeQuotaHeaders, type ChatQuota } from "@/lib/chat-quota";
+import { MemoryApiError } from "@/lib/memory/cortex-http-provider";
+import type { MemoryProvider } from "@/lib/memory/memory-provider";
+import {
+  STREAM_CONTENT_TYPE,
+  estimateTokens,
+  framePlainTextStream,
+  isFrameStream,
+  parseFrameLine,
+  type TurnEventIds
+} from "@/lib/memory/stream-protocol";
+import type { LlmProvider } from "@/lib/llm/llm-provider";
+import { ApiKeyAuthError, resolveApiKey } from "@/lib/server/api-keys";
+import { getAuthFromRequest, getAuthMode } from "@/lib/server/auth";
+import { jsonError } from "@/lib/server/http";
+import { getLlmProvider, getMemoryProvider } from "@/lib/server/providers";
+import { RateLimitError, checkChatLimits, recordChatUsage } from "@/lib/server/rate-limit";
+import { resolveStableUserId } from "@/lib/server/user-id";
+
+export const REQUEST_ID_HEADER = "x-request-id";
+
+type RouteParams = Record<string, string>;
+
+export type ChatRouteContext<P extends RouteParams> = {
+  req: NextRequest;
+  params: P;
+  requestId: string;
+  userId: string;
+  memory: MemoryProvider;
+  llm: () => LlmProvider;
+};
+
+type ChatRouteOptions<P extends RouteParams> = {
+  // Message for failures that are neither auth nor `MemoryApiError`; answered with 503 and
+  // `details.cause`. A function receives the cause for routes that inline it.
+  failure?: string | ((cause: string) => string);
+  // Lets read routes answer with a degraded 200 payload instead of the 503.
+  degrade?: (ctx: ChatRouteContext<P>, error: unknown) => Response;
+  // Set to false for routes that need a signed-in session, e.g. managing the keys themselves.
+  allowApiKeys?: boolean;
+  // Routes that call the LLM: enforce rate limits and daily quotas before the handler runs,
+  // then count the request body and streamed reply against the user's token quota.
+  metered?: boolean;
+};
+
+type ChatRouteHandler<P extends RouteParams> = (ctx: ChatRouteContext<P>) => Promise<Response>;
+
+export function isAuthError(error: unknown): boolean {
+  const message = error instanceof Error ? error.message.toLowerCase() : "";
+  return (
+    message.includes("unauthorized") ||
+    message.includes("bearer token required") ||
+    message.includes("invalid or expired access token")
+  );
+}
+
+export function isMemoryApiError(error: unknown): error is MemoryApiError {
+  return error instanceof MemoryApiError;
+}
+
+// Shared shell for `src/app/api/chat/*` and `/api/models` handlers: requires every dynamic
+// segment, builds the memory provider with the caller's auth, resolves the stable user id (the
+// key owner for personal API keys), answers 404 for a `threadId` the user does not own, and
+// maps thrown errors the same way everywhere (expired session or bad API key -> 401/403,
+// `MemoryApiError` -> its status, otherwise 503 or the route's degraded payload). Every
+// response carries an `X-Request-Id`.
+export function withChatRoute<P extends RouteParams = Record<string, never>>(
+  options: ChatRouteOptions<P>,
+  handler: ChatRouteHandler<P>
+) {
+  return async (req: NextRequest, routeCtx: { params: Promise<P> }): Promise<NextResponse> => {
+    const requestId = readRequestId(req);
+    const params = ((await routeCtx.params) ?? {}) as P;
+    for (const [name, value] of Object.entries(params)) {
+      if (!value) return withRequestId(jsonError(`${name} is required.`, 400), requestId);
+    }
+
+    let ctx: ChatRouteContext<P> | null = null;
+    try {
+      const auth = getAuthFromRequest(req);
+      const memory = getMemoryProvider(auth.authorization);
+      let apiKeyUserId: string | null = null;
+      if (auth.apiKey) {
+        if (options.allowApiKeys === false) {
+          throw new ApiKeyAuthError("API keys cannot be used for this request.", 403);
+        }
+        apiKeyUserId = (await resolveApiKey(memory, auth.apiKey, req.method)).userId;
+      }
+      ctx = {
+        req,
+        params,
+        requestId,
+        userId: resolveStableUserId(req, apiKeyUserId),
+        memory,
+        llm: getLlmProvider
+      };
+      if (params.threadId) await requireOwnThread(memory, params.threadId, ctx.userId);
+      if (!options.metered) return withRequestId(await handler(ctx), requestId);
+
+      const quota = checkChatLimits(ctx.userId, readClientIp(req));
+      const inputTokens = estimateTokens(await req.clone().text());
+      const response = await handler(ctx);
+      return withRequestId(meterResponse(response, ctx.userId, quota, inputTokens), requestId);
+    } catch (error) {
+      return withRequestId(classifyError(error, options, ctx), requestId);
+    }
+  };
+}
+
+// Backends that can look threads up are checked here, so no thread method is reached for
+// another user's thread; CortexLTM scopes threads by the forwarded bearer token itself. Draft
+// ids are left to the routes, which reject them. A foreign thread looks the same as a missing
+// one, so ids cannot be probed.
+async function requireOwnThread(
+  memory: MemoryProvider,
+  threadId: string,
+  userId: string
+): Promise<void> {
+  if (!memory.getThread || threadId.startsWith("draft-")) return;
+  const thread = await memory.getThread(threadId);
+  if (!thread || thread.userId !== userId) throw new MemoryApiError("Thread not found.", 404);
+}
+
+function classifyError<P extends RouteParams>(
+  error: unknown,
+  options: ChatRouteOptions<P>,
+  ctx: ChatRouteContext<P> | null
+): Response {
+  if (error instanceof ApiKeyAuthError) {
+    return jsonError(error.message, error.status);
+  }
+  if (error instanceof RateLimitError) {
+    const response = jsonError(error.message, 429, {
+      scope: error.scope,
+      retryAfterSeconds: error.retryAfterSeconds
+    });
+    response.headers.set("Retry-After", String(error.retryAfterSeconds));
+    return response;
+  }
+  if (getAuthMode() === "supabase" && isAuthError(error)) {
+    return jsonError("Your session expired. Please sign in again.", 401);
+  }
+  if (isMemoryApiError(error)) {
+    return jsonError(error.message, error.status);
+  }
+  if (options.degrade && ctx) {
+    return options.degrade(ctx, error);
+  }
+  const cause = error instanceof Error ? error.message : "unknown";
+  const message =
+    typeof options.failure === "function"
+      ? options.failure(cause)
+      : (options.failure ?? "The chat backend is unavailable right now.");
+  return jsonError(message, 503, { cause });
+}
+
+// Forwarding headers are only trusted behind `CHAT_TRUSTED_PROXY_HOPS` proxies. Each proxy
+// appends the address it saw, so the client is that many entries from the right; anything to
+// the left of it is whatever the client sent. With no trusted proxy there is no reliable
+// address and the per-IP bucket is skipped.
+function readClientIp(req: NextRequest): string | null {
+  const hops = Number.parseInt((process.env.CHAT_TRUSTED_PROXY_HOPS ?? "").trim(), 10);
+  if (!Number.isFinite(hops) || hops < 1) return null;
+  const forwarded = (req.headers.get("x-forwarded-for") ?? "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+  if (forwarded.length > 0) return forwarded[Math.max(0, forwarded.length - hops)];
+  return req.headers.get("x-real-ip")?.trim() || null;
+}
+
+// Successful replies count as one message plus the request and reply size in tokens. Reply
+// tokens are recorded as chunks arrive, so a stopped stream still counts what was sent; for
+// frame streams only `delta` text counts, not the JSON around it.
+function meterResponse(
+  response: Response,
+  userId: string,
+  quota: ChatQuota,
+  inputTokens: number
+): Response {
+  if (!response.ok) return response;
+  recordChatUsage(userId, { messages: 1, tokens: inputTokens });
+
+  const headers = new Headers(response.headers);
+  writeQuotaHeaders(headers, {
+    messagesRemaining:
+      quota.messagesRemaining === null ? null : Math.max(0, quota.messagesRemaining - 1),
+    tokensRemaining:
+      quota.tokensRemaining === null ? null : Math.max(0, quota.tokensRemaining - inputTokens),
+    resetAt: quota.resetAt
+  });
+  if (!response.body) {
+    return new Response(null, { status: response.status, headers });
+  }
+
+  const framed = isFrameStream(headers.get("Content-Type"));
+  const decoder = new TextDecoder();
+  let pendingLine = "";
+  let characters = 0;
+  let recorded = 0;
+  const counter = new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      const text = decoder.decode(chunk, { stream: true });
+      if (framed) {
+        const lines = (pendingLine + text).split("\n");
+        pendingLine = lines.pop() ?? "";
+        for (const line of lines) {
+          const frame = parseFrameLine(line);
+          if (frame?.type === "delta") characters += frame.text.length;
+        }
+      } else {
+        characters += text.length;
+      }
+      const tokens = Math.ceil(characters / 4);
+      if (tokens > recorded) {
+        recordChatUsage(userId, { tokens: tokens - recorded });
+        recorded = tokens;
+      }
+      controller.enqueue(chunk);
+    }
+  });
+  return new Response(response.body.pipeThrough(counter), {
+    status: response.status,
+    statusText: response.statusText,
+    headers
+  });
+}
+
+function readRequestId(req: NextRequest): string {
+  const incoming = req.headers.get(REQUEST_ID_HEADER)?.trim() ?? "";
+  return /^[\w.:-]{1,128}$/.test(incoming) ? incoming : randomUUID();
+}
+
+function withRequestId(response: Response, requestId: string): NextResponse {
+  const out =
+    response instanceof NextResponse
+      ? response
+      : new NextResponse(response.body, {
+          status: response.status,
+          statusText: response.statusText,
+          headers: response.headers
+        });
+  out.headers.set(REQUEST_ID_HEADER, requestId);
+  return out;
+}
+
+// Passes a streamed reply through with caching/transforms disabled, so chunks reach the
+// browser as they arrive. Frame streams go through unchanged; plain-text upstreams (CortexLTM)
+// are wrapped into frames so clients only ever parse one protocol, with `resolveIds` filling
+// in the `done` event ids.
+export function proxyStream(
+  upstream: Response,
+  resolveIds?: () => Promise<TurnEventIds>
+): Response {
+  const headers = new Headers(upstream.headers);
+  headers.set("Cache-Control", "no-cache, no-transform");
+  if (!upstream.body || isFrameStream(headers.get("Content-Type"))) {
+    return new Response(upstream.body, { status: upstream.status, headers });
+  }
+
+  headers.set("Content-Type", STREAM_CONTENT_TYPE);
+  headers.delete("Content-Length");
+  return new Response(
+    framePlainTextStream(
+      upstream.body,
+      { userEventId: null, assistantEventId: null, model: null },
+      resolveIds
+    ),
+    { status: upstream.status, headers }
+  );
+}
+
+// Ids of the turn a backend just stored: the trailing user event, plus the assistant event
+// after it when the reply was not empty.
+export async function readLatestTurnIds(
+  memory: MemoryProvider,
+  threadId: string
+): Promise<TurnEventIds> {
+  const recent = await memory.getRecentEvents(threadId, 2);
+  const last = recent[recent.length - 1];
+  const previous = recent[recent.length - 2];
+  if (last?.role === "user") return { userEventId: last.id, assistantEventId: null };
+  if (last?.role === "assistant" && previous?.role === "user") {
+    return { userEventId: previous.id, assistantEventId: last.id };
+  }
+  return { userEventId: null, assistantEventId: null };
+}
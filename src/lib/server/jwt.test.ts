@@ -0,0 +1,107 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { verifyAccessToken } from "@/lib/server/jwt";
+
+const SECRET = "test-jwt-secret";
+
+function encode(value: unknown): string {
+  return Buffer.from(JSON.stringify(value)).toString("base64url");
+}
+
+async function signHs256(claims: Record<string, unknown>, secret = SECRET): Promise<string> {
+  const input = `${encode({ alg: "HS256", typ: "JWT" })}.${encode(claims)}`;
+  const key = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  const signature = await crypto.subtle.sign("HMAC", key, new TextEncoder().encode(input));
+  return `${input}.${Buffer.from(signature).toString("base64url")}`;
+}
+
+function inSeconds(offset: number): number {
+  return Math.floor(Date.now() / 1000) + offset;
+}
+
+describe("verifyAccessToken", () => {
+  beforeEach(() => {
+    vi.stubEnv("SUPABASE_JWT_SECRET", SECRET);
+  });
+
+  it("accepts a live HS256 token", async () => {
+    const token = await signHs256({ sub: "u1", email: "a@b.co", exp: inSeconds(600) });
+
+    expect(await verifyAccessToken(token)).toEqual({
+      sub: "u1",
+      email: "a@b.co",
+      exp: inSeconds(600)
+    });
+  });
+
+  it("rejects tampered, expired and unsigned tokens", async () => {
+    const forged = await signHs256({ sub: "u1", exp: inSeconds(600) }, "other-secret");
+    const expired = await signHs256({ sub: "u1", exp: inSeconds(-60) });
+    const [header, claims, signature] = (
+      await signHs256({ sub: "u1", exp: inSeconds(600) })
+    ).split(".");
+    const swapped = `${header}.${encode({ sub: "admin", exp: inSeconds(600) })}.${signature}`;
+
+    expect(await verifyAccessToken(forged)).toBeNull();
+    expect(await verifyAccessToken(expired)).toBeNull();
+    expect(await verifyAccessToken(`${header}.${claims}.`)).toBeNull();
+    expect(await verifyAccessToken(swapped)).toBeNull();
+  });
+
+  it("fails closed when no HS256 secret is configured", async () => {
+    const token = await signHs256({ sub: "u1", exp: inSeconds(600) });
+    vi.stubEnv("SUPABASE_JWT_SECRET", "");
+
+    expect(await verifyAccessToken(token)).toBeNull();
+  });
+
+  it("verifies ES256 tokens against the project JWKS", async () => {
+    vi.stubEnv("NEXT_PUBLIC_SUPABASE_URL", "https://es256.supabase.co");
+    const pair = (await crypto.subtle.generateKey(
+      { name: "ECDSA", namedCurve: "P-256" },
+      true,
+      ["sign", "verify"]
+    )) as CryptoKeyPair;
+    const publicJwk = await crypto.subtle.exportKey("jwk", pair.publicKey);
+    const fetchMock = vi.fn(async () => Response.json({ keys: [{ ...publicJwk, kid: "k1" }] }));
+    vi.stubGlobal("fetch", fetchMock);
+
+    const claims = { sub: "u2", exp: inSeconds(600) };
+    const input = `${encode({ alg: "ES256", kid: "k1" })}.${encode(claims)}`;
+    const signature = await crypto.subtle.sign(
+      { name: "ECDSA", hash: "SHA-256" },
+      pair.privateKey,
+      new TextEncoder().encode(input)
+    );
+    const token = `${input}.${Buffer.from(signature).toString("base64url")}`;
+
+    expect((await verifyAccessToken(token))?.sub).toBe("u2");
+    expect((await verifyAccessToken(token))?.sub).toBe("u2");
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(fetchMock).toHaveBeenCalledWith(
+      "https://es256.supabase.co/auth/v1/.well-known/jwks.json",
+      expect.anything()
+    );
+  });
+
+  it("refetches the JWKS for an unknown kid at most once a minute", async () => {
+    vi.stubEnv("NEXT_PUBLIC_SUPABASE_URL", "https://rotated.supabase.co");
+    const fetchMock = vi.fn(async () => Response.json({ keys: [] }));
+    vi.stubGlobal("fetch", fetchMock);
+    const token = (kid: string) =>
+      `${encode({ alg: "ES256", kid })}.${encode({ sub: "u3", exp: inSeconds(600) })}.c2ln`;
+
+    expect(await verifyAccessToken(token("unknown-1"))).toBeNull();
+    expect(await verifyAccessToken(token("unknown-2"))).toBeNull();
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    vi.spyOn(Date, "now").mockReturnValue(Date.now() + 61 * 1000);
+    expect(await verifyAccessToken(token("unknown-3"))).toBeNull();
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+});
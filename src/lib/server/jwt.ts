@@ -0,0 +1,146 @@
+export type VerifiedAccessToken = {
+  sub: string;
+  email: string | null;
+  exp: number;
+};
+
+type JwtHeader = {
+  alg?: string;
+  kid?: string;
+};
+
+type JwtClaims = {
+  sub?: unknown;
+  email?: unknown;
+  exp?: unknown;
+  nbf?: unknown;
+};
+
+type Jwk = JsonWebKey & { kid?: string };
+
+const JWKS_CACHE_MS = 10 * 60 * 1000;
+// Tokens with made-up `kid`s must not turn into one JWKS request each.
+const JWKS_REFETCH_COOLDOWN_MS = 60 * 1000;
+const CLOCK_TOLERANCE_SECONDS = 5;
+
+let jwksCache: { url: string; keys: Jwk[]; fetchedAt: number } | null = null;
+
+// Verifies a Supabase access token with Web Crypto (usable from middleware and route handlers).
+// HS256 projects need SUPABASE_JWT_SECRET; asymmetric (ES256/RS256) projects are checked
+// against the project's published JWKS. Anything unverifiable is treated as invalid.
+export async function verifyAccessToken(token: string): Promise<VerifiedAccessToken | null> {
+  const parts = token.split(".");
+  if (parts.length !== 3) return null;
+  const [encodedHeader, encodedClaims, encodedSignature] = parts;
+
+  const header = decodeJson<JwtHeader>(encodedHeader);
+  const claims = decodeJson<JwtClaims>(encodedClaims);
+  if (!header || !claims) return null;
+
+  let signature: BufferSource;
+  try {
+    signature = base64UrlToBytes(encodedSignature);
+  } catch {
+    return null;
+  }
+  const signingInput = new TextEncoder().encode(`${encodedHeader}.${encodedClaims}`);
+
+  const valid = await verifySignature(header, signingInput, signature).catch(() => false);
+  if (!valid) return null;
+
+  const now = Math.floor(Date.now() / 1000);
+  if (typeof claims.exp !== "number" || claims.exp <= now - CLOCK_TOLERANCE_SECONDS) return null;
+  if (typeof claims.nbf === "number" && claims.nbf > now + CLOCK_TOLERANCE_SECONDS) return null;
+  if (typeof claims.sub !== "string" || !claims.sub) return null;
+
+  return {
+    sub: claims.sub,
+    email: typeof claims.email === "string" ? claims.email : null,
+    exp: claims.exp
+  };
+}
+
+async function verifySignature(
+  header: JwtHeader,
+  signingInput: BufferSource,
+  signature: BufferSource
+): Promise<boolean> {
+  if (header.alg === "HS256") {
+    const secret = (process.env.SUPABASE_JWT_SECRET ?? "").trim();
+    if (!secret) return false;
+    const key = await crypto.subtle.importKey(
+      "raw",
+      new TextEncoder().encode(secret),
+      { name: "HMAC", hash: "SHA-256" },
+      false,
+      ["verify"]
+    );
+    return crypto.subtle.verify("HMAC", key, signature, signingInput);
+  }
+
+  if (header.alg === "ES256" || header.alg === "RS256") {
+    const jwk = await findJwk(header.kid);
+    if (!jwk) return false;
+    if (header.alg === "ES256") {
+      const key = await crypto.subtle.importKey(
+        "jwk",
+        jwk,
+        { name: "ECDSA", namedCurve: "P-256" },
+        false,
+        ["verify"]
+      );
+      return crypto.subtle.verify(
+        { name: "ECDSA", hash: "SHA-256" },
+        key,
+        signature,
+        signingInput
+      );
+    }
+    const key = await crypto.subtle.importKey(
+      "jwk",
+      jwk,
+      { name: "RSASSA-PKCS1-v1_5", hash: "SHA-256" },
+      false,
+      ["verify"]
+    );
+    return crypto.subtle.verify("RSASSA-PKCS1-v1_5", key, signature, signingInput);
+  }
+
+  return false;
+}
+
+async function findJwk(kid: string | undefined): Promise<Jwk | null> {
+  const base = (process.env.NEXT_PUBLIC_SUPABASE_URL ?? "").trim().replace(/\/+$/, "");
+  if (!base || !kid) return null;
+  const url = `${base}/auth/v1/.well-known/jwks.json`;
+
+  const age = jwksCache && jwksCache.url === url ? Date.now() - jwksCache.fetchedAt : Infinity;
+  let match = age < JWKS_CACHE_MS ? jwksCache?.keys.find((key) => key.kid === kid) : undefined;
+  if (match) return match;
+
+  // Unknown kid on a fresh cache may mean the signing key was rotated: refetch, at most once
+  // per cooldown.
+  if (age < JWKS_REFETCH_COOLDOWN_MS) return null;
+  const response = await fetch(url, { cache: "no-store" });
+  if (!response.ok) return null;
+  const payload = (await response.json().catch(() => null)) as { keys?: Jwk[] } | null;
+  const keys = Array.isArray(payload?.keys) ? payload.keys : [];
+  jwksCache = { url, keys, fetchedAt: Date.now() };
+  match = keys.find((key) => key.kid === kid);
+  return match ?? null;
+}
+
+function decodeJson<T>(segment: string): T | null {
+  try {
+    const parsed = JSON.parse(new TextDecoder().decode(base64UrlToBytes(segment))) as unknown;
+    return parsed && typeof parsed === "object" ? (parsed as T) : null;
+  } catch {
+    return null;
+  }
+}
+
+function base64UrlToBytes(segment: string): Uint8Array<ArrayBuffer> {
+  const base64 = segment.replace(/-/g, "+").replace(/_/g, "/");
+  const binary = atob(base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), "="));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
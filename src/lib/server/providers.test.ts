@@ -0,0 +1,84 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { configuredModelNames, parseModelId } from "@/lib/llm/model-registry";
+import { getLlmProvider, listAvailableModels } from "@/lib/server/providers";
+
+describe("model registry", () => {
+  it("parses provider-prefixed ids and keeps slashes in local names", () => {
+    expect(parseModelId("groq/llama-3.3-70b-versatile")).toEqual({
+      provider: "groq",
+      name: "llama-3.3-70b-versatile"
+    });
+    expect(parseModelId("local/hf.co/org/model:Q4")).toEqual({
+      provider: "local",
+      name: "hf.co/org/model:Q4"
+    });
+    expect(parseModelId("mystery/model")).toBeNull();
+    expect(parseModelId("gpt-4o")).toBeNull();
+  });
+
+  it("lists the default model first, then the extra configured ones", () => {
+    vi.stubEnv("OPENAI_MODEL", "gpt-4.1");
+    vi.stubEnv("OPENAI_MODELS", "gpt-4o-mini, gpt-4.1 ,");
+    expect(configuredModelNames("openai")).toEqual(["gpt-4.1", "gpt-4o-mini"]);
+  });
+});
+
+describe("getLlmProvider", () => {
+  beforeEach(() => {
+    vi.stubEnv("CHAT_DEMO_MODE", "false");
+    vi.stubEnv("LLM_PROVIDER", "openai");
+    vi.stubEnv("GROQ_API_KEY", "");
+    vi.stubEnv("OPENAI_API_KEY", "sk-openai");
+    vi.stubEnv("ANTHROPIC_API_KEY", "sk-ant");
+    vi.stubEnv("ANTHROPIC_BASE_URL", "https://anthropic.test");
+    vi.stubEnv("ANTHROPIC_MODEL", "claude-test");
+    vi.stubEnv("LOCAL_LLM_BASE_URL", "");
+  });
+
+  it("routes each call to the provider named by the requested model", async () => {
+    const fetchMock = vi.fn(async () => new Response("upstream down", { status: 502 }));
+    vi.stubGlobal("fetch", fetchMock);
+    const llm = getLlmProvider();
+
+    expect(llm.model).toBe("openai/gpt-4o-mini");
+    const stream = llm.streamChat({
+      messages: [{ role: "user", content: "hi" }],
+      model: "anthropic/claude-3-opus-latest"
+    });
+    await expect(stream[Symbol.asyncIterator]().next()).rejects.toThrow("LLM request failed");
+
+    const [url, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    expect(url).toBe("https://anthropic.test/v1/messages");
+    expect(JSON.parse(String(init.body))).toMatchObject({ model: "claude-3-opus-latest" });
+  });
+
+  it("lists models for every configured provider and the local server", async () => {
+    vi.stubEnv("LOCAL_LLM_BASE_URL", "http://127.0.0.1:11434");
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () => Response.json({ models: [{ name: "qwen2.5:7b" }] }))
+    );
+
+    expect((await listAvailableModels()).map((model) => model.id)).toEqual([
+      "openai/gpt-4o-mini",
+      "anthropic/claude-test",
+      "local/qwen2.5:7b"
+    ]);
+
+    vi.stubEnv("CHAT_DEMO_MODE", "true");
+    expect(await listAvailableModels()).toEqual([]);
+  });
+
+  it("falls back to the configured local models when the server times out", async () => {
+    vi.stubEnv("LOCAL_LLM_BASE_URL", "http://127.0.0.1:11434");
+    vi.stubEnv("LOCAL_LLM_MODEL", "llama3.2");
+    const fetchMock = vi.fn(async () => {
+      throw new DOMException("The operation was aborted due to timeout", "TimeoutError");
+    });
+    vi.stubGlobal("fetch", fetchMock);
+
+    expect((await listAvailableModels()).map((model) => model.id)).toContain("local/llama3.2");
+    const [, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    expect(init.signal).toBeInstanceOf(AbortSignal);
+  });
+});
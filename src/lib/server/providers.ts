@@ -1,9 +1,25 @@
 import { CortexHttpProvider } from "@/lib/memory/cortex-http-provider";
+import { InMemoryMemoryProvider } from "@/lib/memory/in-memory-provider";
 import type { MemoryProvider } from "@/lib/memory/memory-provider";
+import { PostgresMemoryProvider } from "@/lib/memory/postgres-provider";
+import { AnthropicLlmProvider } from "@/lib/llm/anthropic-llm-provider";
 import type { LlmProvider } from "@/lib/llm/llm-provider";
 import { DefaultLlmProvider } from "@/lib/llm/default-llm-provider";
+import { LocalLlmProvider } from "@/lib/llm/local-llm-provider";
+import {
+  configuredModelNames,
+  parseModelId,
+  toModelId,
+  type ModelOption,
+  type ModelProviderName
+} from "@/lib/llm/model-registry";
 
-let llmProvider: LlmProvider | null = null;
+type LlmProviderName = "openai" | "anthropic" | "local";
+
+// A stalled local server must not hold up the model list; its configured names stand in.
+const LOCAL_MODELS_TIMEOUT_MS = 3000;
+
+const llmProviders = new Map<LlmProviderName, LlmProvider>();
 
 export function getMemoryProvider(authorization?: string | null): MemoryProvider {
   const rawBackend = process.env.CORTEX_MEMORY_BACKEND ?? "cortex_http";
@@ -13,14 +29,105 @@ export function getMemoryProvider(authorization?: string | null): MemoryProvider
     case "cortex-http":
     case "http":
       return new CortexHttpProvider({ authorization });
+    case "postgres":
+    case "postgresql":
+    case "pg":
+      return new PostgresMemoryProvider({ llm: getLlmProvider() });
+    case "memory":
+    case "in_memory":
+    case "in-memory":
+      return new InMemoryMemoryProvider({ llm: getLlmProvider() });
     default:
       throw new Error(`Unsupported memory backend: ${rawBackend}`);
   }
 }
 
+// Dispatches each call to the provider serving `params.model`; calls without one (summaries,
+// threads that never picked a model) go to the `LLM_PROVIDER` default.
+const modelRouter: LlmProvider = {
+  get model() {
+    return resolveLlmProvider(null).model;
+  },
+  streamChat: (params) => resolveLlmProvider(params.model).streamChat(params)
+};
+
 export function getLlmProvider(): LlmProvider {
-  if (!llmProvider) {
-    llmProvider = new DefaultLlmProvider();
+  return modelRouter;
+}
+
+// Models users can pick for a thread: the configured names of every hosted provider with a
+// key, plus whatever the local server reports when one is set up. Demo mode has none.
+export async function listAvailableModels(): Promise<ModelOption[]> {
+  if (isDemoMode()) return [];
+  const options: ModelOption[] = [];
+  const add = (provider: ModelProviderName, names: string[]) => {
+    for (const name of names) options.push({ id: toModelId(provider, name), provider, name });
+  };
+
+  if (process.env.GROQ_API_KEY) add("groq", configuredModelNames("groq"));
+  if (process.env.OPENAI_API_KEY) add("openai", configuredModelNames("openai"));
+  if (process.env.ANTHROPIC_API_KEY?.trim()) add("anthropic", configuredModelNames("anthropic"));
+  if (readLlmProviderName() === "local" || process.env.LOCAL_LLM_BASE_URL?.trim()) {
+    const local = resolveLlmProvider(toModelId("local", configuredModelNames("local")[0]));
+    const names = local.listModels
+      ? await local
+          .listModels(AbortSignal.timeout(LOCAL_MODELS_TIMEOUT_MS))
+          .catch(() => configuredModelNames("local"))
+      : configuredModelNames("local");
+    add("local", names);
+  }
+  return options;
+}
+
+// Demo mode ignores the requested model, since the canned demo reply lives in the default
+// provider. Groq ids are served by that provider too.
+function resolveLlmProvider(modelId: string | null | undefined): LlmProvider {
+  const requested = isDemoMode() ? null : parseModelId(modelId)?.provider;
+  const name: LlmProviderName = !requested
+    ? readLlmProviderName()
+    : requested === "groq"
+      ? "openai"
+      : requested;
+  let provider = llmProviders.get(name);
+  if (!provider) {
+    provider = createLlmProvider(name);
+    llmProviders.set(name, provider);
+  }
+  return provider;
+}
+
+function createLlmProvider(name: LlmProviderName): LlmProvider {
+  switch (name) {
+    case "anthropic":
+      return new AnthropicLlmProvider();
+    case "local":
+      return new LocalLlmProvider();
+    default:
+      return new DefaultLlmProvider();
+  }
+}
+
+function isDemoMode(): boolean {
+  return (process.env.CHAT_DEMO_MODE ?? "").trim().toLowerCase() === "true";
+}
+
+// `openai` (default) covers the OpenAI-compatible provider, which picks Groq or OpenAI by key.
+// Demo mode always uses it, since that is where the canned demo reply lives.
+function readLlmProviderName(): LlmProviderName {
+  if (isDemoMode()) return "openai";
+  const rawName = process.env.LLM_PROVIDER ?? "openai";
+  const name = rawName.trim().replace(/^['"]|['"]$/g, "").toLowerCase();
+  switch (name) {
+    case "":
+    case "openai":
+    case "groq":
+      return "openai";
+    case "anthropic":
+      return "anthropic";
+    case "local":
+    case "ollama":
+      return "local";
+    default:
+      throw new Error(`Unsupported LLM provider: ${rawName}`);
   }
-  return llmProvider;
 }
@@ -0,0 +1,63 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  RateLimitError,
+  checkChatLimits,
+  recordChatUsage,
+  resetRateLimits
+} from "@/lib/server/rate-limit";
+
+const NOON = Date.UTC(2026, 0, 1, 12, 0, 0);
+
+function rejection(run: () => unknown): RateLimitError {
+  try {
+    run();
+  } catch (error) {
+    if (error instanceof RateLimitError) return error;
+    throw error;
+  }
+  throw new Error("expected a RateLimitError");
+}
+
+describe("checkChatLimits", () => {
+  beforeEach(() => {
+    resetRateLimits();
+    vi.stubEnv("CHAT_RATE_LIMIT_USER_PER_MINUTE", "2");
+    vi.stubEnv("CHAT_RATE_LIMIT_IP_PER_MINUTE", "0");
+  });
+
+  it("drains the user bucket and refills it over time", () => {
+    checkChatLimits("u1", null, NOON);
+    checkChatLimits("u1", null, NOON);
+
+    const error = rejection(() => checkChatLimits("u1", null, NOON));
+    expect(error).toMatchObject({ scope: "user", retryAfterSeconds: 30 });
+    expect(() => checkChatLimits("u2", null, NOON)).not.toThrow();
+    expect(() => checkChatLimits("u1", null, NOON + 30_000)).not.toThrow();
+  });
+
+  it("limits an IP across users without charging a rejected user", () => {
+    vi.stubEnv("CHAT_RATE_LIMIT_USER_PER_MINUTE", "1");
+    vi.stubEnv("CHAT_RATE_LIMIT_IP_PER_MINUTE", "1");
+
+    checkChatLimits("u1", "10.0.0.1", NOON);
+    expect(rejection(() => checkChatLimits("u2", "10.0.0.1", NOON)).scope).toBe("ip");
+    expect(() => checkChatLimits("u2", "10.0.0.2", NOON)).not.toThrow();
+  });
+
+  it("enforces daily quotas until the next UTC day", () => {
+    vi.stubEnv("CHAT_RATE_LIMIT_USER_PER_MINUTE", "0");
+    vi.stubEnv("CHAT_DAILY_MESSAGE_QUOTA", "2");
+    vi.stubEnv("CHAT_DAILY_TOKEN_QUOTA", "100");
+
+    expect(checkChatLimits("u1", null, NOON)).toEqual({
+      messagesRemaining: 2,
+      tokensRemaining: 100,
+      resetAt: "2026-01-02T00:00:00.000Z"
+    });
+    recordChatUsage("u1", { messages: 1, tokens: 100 }, NOON);
+
+    const error = rejection(() => checkChatLimits("u1", null, NOON));
+    expect(error).toMatchObject({ scope: "daily_tokens", retryAfterSeconds: 12 * 60 * 60 });
+    expect(checkChatLimits("u1", null, NOON + 12 * 60 * 60 * 1000).tokensRemaining).toBe(100);
+  });
+});
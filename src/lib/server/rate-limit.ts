@@ -0,0 +1,163 @@
+// Per-user / per-IP token buckets plus daily message and token quotas for the routes that
+// call the LLM. State is per server process, which matches the single-instance deployments
+// the in-memory backend targets; put a shared store behind these functions before scaling out.
+
+import type { ChatQuota } from "@/lib/chat-quota";
+
+export type RateLimitScope = "user" | "ip" | "daily_messages" | "daily_tokens";
+
+type LimitConfig = {
+  userPerMinute: number;
+  ipPerMinute: number;
+  dailyMessages: number;
+  dailyTokens: number;
+};
+
+type Bucket = { tokens: number; updatedAt: number };
+type DailyUsage = { day: string; messages: number; tokens: number };
+
+// Idle entries are dropped once this many keys are tracked, so the maps cannot grow unbounded.
+const MAX_TRACKED_KEYS = 10_000;
+const IDLE_BUCKET_MS = 60 * 60 * 1000;
+
+const buckets = new Map<string, Bucket>();
+const dailyUsage = new Map<string, DailyUsage>();
+
+export class RateLimitError extends Error {
+  readonly scope: RateLimitScope;
+  readonly retryAfterSeconds: number;
+
+  constructor(message: string, scope: RateLimitScope, retryAfterSeconds: number) {
+    super(message);
+    this.name = "RateLimitError";
+    this.scope = scope;
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
+
+// Throws `RateLimitError` when the user is over a daily quota or either bucket is empty;
+// otherwise takes one token from each bucket and returns the quota left before this request.
+export function checkChatLimits(
+  userId: string,
+  ip: string | null,
+  now = Date.now()
+): ChatQuota {
+  const config = readLimitConfig();
+  const usage = readDailyUsage(userId, now);
+  const resetAt = nextUtcMidnight(now);
+  const untilReset = Math.max(1, Math.ceil((resetAt - now) / 1000));
+
+  if (config.dailyMessages > 0 && usage.messages >= config.dailyMessages) {
+    throw new RateLimitError(
+      `You have reached today's limit of ${config.dailyMessages} messages.`,
+      "daily_messages",
+      untilReset
+    );
+  }
+  if (config.dailyTokens > 0 && usage.tokens >= config.dailyTokens) {
+    throw new RateLimitError(
+      "You have used today's token allowance.",
+      "daily_tokens",
+      untilReset
+    );
+  }
+
+  const checks: Array<{ key: string; perMinute: number; scope: RateLimitScope }> = [];
+  if (config.userPerMinute > 0) {
+    checks.push({ key: `user:${userId}`, perMinute: config.userPerMinute, scope: "user" });
+  }
+  if (config.ipPerMinute > 0 && ip) {
+    checks.push({ key: `ip:${ip}`, perMinute: config.ipPerMinute, scope: "ip" });
+  }
+  // Refill and check every bucket before taking from any, so a rejection costs nothing.
+  const refilled = checks.map((check) => ({ ...check, bucket: refill(check, now) }));
+  for (const { bucket, perMinute, scope } of refilled) {
+    if (bucket.tokens < 1) {
+      const retryAfter = Math.max(1, Math.ceil(((1 - bucket.tokens) * 60) / perMinute));
+      throw new RateLimitError(
+        `You're sending messages too quickly. Try again in ${retryAfter}s.`,
+        scope,
+        retryAfter
+      );
+    }
+  }
+  for (const { key, bucket } of refilled) {
+    buckets.set(key, { tokens: bucket.tokens - 1, updatedAt: now });
+  }
+  pruneIdleBuckets(now);
+
+  return {
+    messagesRemaining:
+      config.dailyMessages > 0 ? Math.max(0, config.dailyMessages - usage.messages) : null,
+    tokensRemaining:
+      config.dailyTokens > 0 ? Math.max(0, config.dailyTokens - usage.tokens) : null,
+    resetAt: new Date(resetAt).toISOString()
+  };
+}
+
+export function recordChatUsage(
+  userId: string,
+  usage: { messages?: number; tokens?: number },
+  now = Date.now()
+): void {
+  const current = readDailyUsage(userId, now);
+  current.messages += usage.messages ?? 0;
+  current.tokens += usage.tokens ?? 0;
+  dailyUsage.set(userId, current);
+}
+
+export function resetRateLimits(): void {
+  buckets.clear();
+  dailyUsage.clear();
+}
+
+function readLimitConfig(): LimitConfig {
+  return {
+    userPerMinute: readLimit("CHAT_RATE_LIMIT_USER_PER_MINUTE", 20),
+    ipPerMinute: readLimit("CHAT_RATE_LIMIT_IP_PER_MINUTE", 60),
+    dailyMessages: readLimit("CHAT_DAILY_MESSAGE_QUOTA", 0),
+    dailyTokens: readLimit("CHAT_DAILY_TOKEN_QUOTA", 0)
+  };
+}
+
+// Non-negative integer from the environment; 0 disables the limit.
+function readLimit(name: string, fallback: number): number {
+  const raw = (process.env[name] ?? "").trim();
+  if (!raw) return fallback;
+  const parsed = Number.parseInt(raw, 10);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+}
+
+function refill(check: { key: string; perMinute: number }, now: number): Bucket {
+  const existing = buckets.get(check.key);
+  if (!existing) return { tokens: check.perMinute, updatedAt: now };
+  const elapsedMinutes = Math.max(0, now - existing.updatedAt) / 60_000;
+  return {
+    tokens: Math.min(check.perMinute, existing.tokens + elapsedMinutes * check.perMinute),
+    updatedAt: now
+  };
+}
+
+function pruneIdleBuckets(now: number): void {
+  if (buckets.size <= MAX_TRACKED_KEYS) return;
+  for (const [key, bucket] of buckets) {
+    if (now - bucket.updatedAt > IDLE_BUCKET_MS) buckets.delete(key);
+  }
+}
+
+function readDailyUsage(userId: string, now: number): DailyUsage {
+  const day = new Date(now).toISOString().slice(0, 10);
+  const existing = dailyUsage.get(userId);
+  if (existing && existing.day === day) return existing;
+  if (dailyUsage.size > MAX_TRACKED_KEYS) {
+    for (const [key, usage] of dailyUsage) {
+      if (usage.day !== day) dailyUsage.delete(key);
+    }
+  }
+  return { day, messages: 0, tokens: 0 };
+}
+
+function nextUtcMidnight(now: number): number {
+  const date = new Date(now);
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + 1);
+}
@@ -2,7 +2,11 @@ import { createHash, randomUUID } from "crypto";
 import type { NextRequest } from "next/server";
 import { ACCESS_TOKEN_COOKIE, decodeJwtPayload } from "@/lib/server/auth";
 
-export function resolveStableUserId(req: NextRequest): string {
+// `apiKeyUserId` is the owner of a verified personal API key; it wins over anything the
+// request itself claims.
+export function resolveStableUserId(req: NextRequest, apiKeyUserId?: string | null): string {
+  if (apiKeyUserId) return normalizeAsUuid(apiKeyUserId);
+
   const directUserId = req.headers.get("x-user-id");
   if (directUserId) return normalizeAsUuid(directUserId);
 
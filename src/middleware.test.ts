@@ -0,0 +1,151 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { middleware } from "@/middleware";
+import { createRequest, readJson } from "@/test/route-helpers";
+
+const SECRET = "test-jwt-secret";
+
+async function signedJwt(claims: Record<string, unknown>): Promise<string> {
+  const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString("base64url");
+  const input = `${encode({ alg: "HS256", typ: "JWT" })}.${encode(claims)}`;
+  const key = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(SECRET),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  const signature = await crypto.subtle.sign("HMAC", key, new TextEncoder().encode(input));
+  return `${input}.${Buffer.from(signature).toString("base64url")}`;
+}
+
+function liveClaims(sub = "u1") {
+  return { sub, exp: Math.floor(Date.now() / 1000) + 600 };
+}
+
+describe("middleware", () => {
+  beforeEach(() => {
+    vi.stubEnv("AUTH_MODE", "supabase");
+    vi.stubEnv("NEXT_PUBLIC_SUPABASE_URL", "https://example.supabase.co");
+    vi.stubEnv("NEXT_PUBLIC_SUPABASE_ANON_KEY", "anon");
+    vi.stubEnv("SUPABASE_JWT_SECRET", SECRET);
+  });
+
+  it("does nothing in dev mode", async () => {
+    vi.stubEnv("AUTH_MODE", "dev");
+
+    const res = await middleware(
+      createRequest("/api/chat/threads", { headers: { "x-user-id": "dev-user" } })
+    );
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get("x-middleware-request-x-user-id")).toBeNull();
+  });
+
+  it("rejects chat requests without a session", async () => {
+    const res = await middleware(createRequest("/api/chat/threads"));
+
+    expect(res.status).toBe(401);
+    expect(await readJson(res)).toEqual({
+      error: { message: "Your session expired. Please sign in again." }
+    });
+  });
+
+  it("protects the model catalog like the chat routes", async () => {
+    const res = await middleware(createRequest("/api/models"));
+
+    expect(res.status).toBe(401);
+  });
+
+  it("rejects tokens whose signature does not verify", async () => {
+    const forged = `${(await signedJwt(liveClaims())).split(".").slice(0, 2).join(".")}.bogus`;
+
+    const res = await middleware(
+      createRequest("/api/chat/threads", { headers: { cookie: `cortex_access_token=${forged}` } })
+    );
+
+    expect(res.status).toBe(401);
+  });
+
+  it("forwards the verified user id and drops spoofed identity headers", async () => {
+    const fetchMock = vi.fn();
+    vi.stubGlobal("fetch", fetchMock);
+    const token = await signedJwt(liveClaims("verified-user"));
+
+    const res = await middleware(
+      createRequest("/api/chat/threads", {
+        headers: {
+          cookie: `cortex_access_token=${token}; cortex_refresh_token=r1`,
+          "x-user-id": "someone-else",
+          "x-auth-sub": "someone-else"
+        }
+      })
+    );
+
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(res.headers.get("x-middleware-request-x-user-id")).toBe("verified-user");
+    expect(res.headers.get("x-middleware-request-x-auth-sub")).toBeNull();
+  });
+
+  it("leaves personal API keys to the route handler", async () => {
+    const res = await middleware(
+      createRequest("/api/chat/threads", {
+        headers: { authorization: "Bearer cxk_abc", "x-user-id": "someone-else" }
+      })
+    );
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get("x-middleware-request-authorization")).toBe("Bearer cxk_abc");
+    expect(res.headers.get("x-middleware-request-x-user-id")).toBeNull();
+  });
+
+  it("refreshes an expired session and forwards the new token", async () => {
+    const renewed = await signedJwt(liveClaims("u1"));
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () =>
+        Response.json({ access_token: renewed, refresh_token: "r2", expires_in: 3600 })
+      )
+    );
+
+    const res = await middleware(
+      createRequest("/api/chat/threads", { headers: { cookie: "cortex_refresh_token=r1" } })
+    );
+
+    expect(res.headers.get("x-middleware-request-cookie")).toContain(
+      `cortex_access_token=${renewed}`
+    );
+    expect(res.headers.get("x-middleware-request-x-user-id")).toBe("u1");
+    expect(res.cookies.get("cortex_access_token")?.value).toBe(renewed);
+    expect(res.cookies.get("cortex_refresh_token")?.value).toBe("r2");
+  });
+
+  it("clears cookies when the refresh token is rejected", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () =>
+        Response.json({ error_description: "Invalid Refresh Token" }, { status: 400 })
+      )
+    );
+
+    const res = await middleware(
+      createRequest("/api/chat/threads", { headers: { cookie: "cortex_refresh_token=stale" } })
+    );
+
+    expect(res.status).toBe(401);
+    expect(res.cookies.get("cortex_refresh_token")?.value).toBe("");
+  });
+
+  it("shares one exchange between concurrent requests", async () => {
+    const renewed = await signedJwt(liveClaims());
+    const fetchMock = vi.fn(async () =>
+      Response.json({ access_token: renewed, refresh_token: "r2", expires_in: 3600 })
+    );
+    vi.stubGlobal("fetch", fetchMock);
+    const request = () =>
+      createRequest("/api/chat/threads", { headers: { cookie: "cortex_refresh_token=r1" } });
+
+    await Promise.all([middleware(request()), middleware(request())]);
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
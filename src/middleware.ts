@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  ACCESS_TOKEN_COOKIE,
+  AuthRefreshError,
+  REFRESH_TOKEN_COOKIE,
+  clearSessionCookies,
+  getAuthFromRequest,
+  getAuthMode,
+  needsSessionRefresh,
+  refreshSupabaseSession,
+  setSessionCookies
+} from "@/lib/server/auth";
+import type { SupabaseSession } from "@/lib/server/auth";
+import { jsonError } from "@/lib/server/http";
+import { verifyAccessToken } from "@/lib/server/jwt";
+
+// Identity headers that downstream handlers trust (see `resolveStableUserId`). In supabase
+// mode they are stripped from the incoming request and only set from a verified token.
+const IDENTITY_HEADERS = ["x-user-id", "x-auth-sub"];
+
+// In supabase mode: renews an expired session before the request reaches its route handler
+// (so the original request goes through instead of failing with 401), then rejects chat
+// requests without a valid access token and forwards the verified user id. Personal API keys
+// need a database lookup, so they pass through unverified and `withChatRoute` checks them.
+export async function middleware(req: NextRequest) {
+  if (getAuthMode() !== "supabase") return NextResponse.next();
+
+  let session: SupabaseSession | null = null;
+  let sessionRejected = false;
+  if (needsSessionRefresh(req)) {
+    const refreshToken = req.cookies.get(REFRESH_TOKEN_COOKIE)?.value?.trim() ?? "";
+    try {
+      session = await refreshSupabaseSession(refreshToken);
+      // Rewrites the forwarded Cookie header, so handlers read the new token as usual.
+      req.cookies.set(ACCESS_TOKEN_COOKIE, session.accessToken);
+      req.cookies.set(REFRESH_TOKEN_COOKIE, session.refreshToken);
+    } catch (error) {
+      // A rejected refresh token will never work again; drop it so we stop retrying.
+      sessionRejected = error instanceof AuthRefreshError && error.status === 401;
+    }
+  }
+
+  for (const header of IDENTITY_HEADERS) req.headers.delete(header);
+
+  let res: NextResponse;
+  if (isProtectedPath(req.nextUrl.pathname) && !getAuthFromRequest(req).apiKey) {
+    const userId = await verifyRequestUser(req);
+    if (userId === null) {
+      res = jsonError("Your session expired. Please sign in again.", 401);
+    } else {
+      req.headers.set("x-user-id", userId);
+      res = NextResponse.next({ request: { headers: req.headers } });
+    }
+  } else {
+    res = NextResponse.next({ request: { headers: req.headers } });
+  }
+
+  if (session) {
+    setSessionCookies(res, session.accessToken, session.refreshToken, session.expiresIn);
+  } else if (sessionRejected) {
+    clearSessionCookies(res);
+  }
+  return res;
+}
+
+function isProtectedPath(pathname: string): boolean {
+  return pathname.startsWith("/api/chat/") || pathname === "/api/models";
+}
+
+async function verifyRequestUser(req: NextRequest): Promise<string | null> {
+  const { authorization } = getAuthFromRequest(req);
+  const match = authorization?.match(/^Bearer\s+(.+)$/i);
+  if (!match) return null;
+  const verified = await verifyAccessToken(match[1].trim());
+  return verified?.sub ?? null;
+}
+
+export const config = {
+  matcher: ["/api/chat/:path*", "/api/models", "/api/auth/session"]
+};
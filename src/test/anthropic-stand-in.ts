@@ -0,0 +1,64 @@
+import { readFileSync } from "fs";
+import { createServer, type IncomingHttpHeaders } from "http";
+import type { AddressInfo } from "net";
+import path from "path";
+
+export const ANTHROPIC_STREAM_FIXTURE = readFileSync(
+  path.resolve(__dirname, "fixtures", "anthropic-messages-stream.sse"),
+  "utf8"
+);
+
+type RecordedRequest = {
+  method: string;
+  url: string;
+  headers: IncomingHttpHeaders;
+  body: Record<string, unknown>;
+};
+
+// Local stand-in for `POST /v1/messages` that replays a recorded SSE stream one event per
+// write. `status` other than 200 answers with an Anthropic-style JSON error instead.
+export async function startAnthropicStandIn(
+  options: { stream?: string; status?: number } = {}
+): Promise<{ baseUrl: string; requests: RecordedRequest[]; close: () => Promise<void> }> {
+  const { stream = ANTHROPIC_STREAM_FIXTURE, status = 200 } = options;
+  const requests: RecordedRequest[] = [];
+
+  const server = createServer((req, res) => {
+    let raw = "";
+    req.setEncoding("utf8");
+    req.on("data", (chunk: string) => {
+      raw += chunk;
+    });
+    req.on("end", () => {
+      requests.push({
+        method: req.method ?? "GET",
+        url: req.url ?? "/",
+        headers: req.headers,
+        body: raw ? (JSON.parse(raw) as Record<string, unknown>) : {}
+      });
+      if (status !== 200) {
+        res.writeHead(status, { "Content-Type": "application/json" });
+        res.end(
+          JSON.stringify({
+            type: "error",
+            error: { type: "overloaded_error", message: "Overloaded" }
+          })
+        );
+        return;
+      }
+      res.writeHead(200, { "Content-Type": "text/event-stream" });
+      for (const event of stream.split("\n\n")) {
+        if (event.trim()) res.write(`${event}\n\n`);
+      }
+      res.end();
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  return {
+    baseUrl: `http://127.0.0.1:${port}`,
+    requests,
+    close: () => new Promise<void>((resolve) => server.close(() => resolve()))
+  };
+}
@@ -0,0 +1,85 @@
+import { NextRequest } from "next/server";
+import { vi } from "vitest";
+import type { MemoryProvider } from "@/lib/memory/memory-provider";
+import {
+  STREAM_CONTENT_TYPE,
+  encodeFrame,
+  parseFrameLine,
+  type StreamFrame
+} from "@/lib/memory/stream-protocol";
+
+export function createFakeMemory(overrides: Partial<MemoryProvider> = {}): MemoryProvider {
+  return {
+    startThread: vi.fn(async () => "thread-1"),
+    addUserEvent: vi.fn(async () => "event-user"),
+    addAssistantEvent: vi.fn(async () => "event-assistant"),
+    buildMemoryContext: vi.fn(async () => []),
+    getRecentEvents: vi.fn(async () => []),
+    ...overrides
+  };
+}
+
+export function createRequest(
+  path: string,
+  init: { method?: string; body?: unknown; headers?: Record<string, string> } = {}
+): NextRequest {
+  const { method = "GET", body, headers = {} } = init;
+  return new NextRequest(`http://localhost${path}`, {
+    method,
+    headers: {
+      ...(body !== undefined ? { "Content-Type": "application/json" } : {}),
+      ...headers
+    },
+    ...(body !== undefined
+      ? { body: typeof body === "string" ? body : JSON.stringify(body) }
+      : {})
+  });
+}
+
+export function routeContext<T extends Record<string, string>>(params: T) {
+  return { params: Promise.resolve(params) };
+}
+
+export async function readJson(response: Response): Promise<Record<string, unknown>> {
+  return (await response.json()) as Record<string, unknown>;
+}
+
+export function streamFromChunks(chunks: string[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const chunk of chunks) controller.enqueue(encoder.encode(chunk));
+      controller.close();
+    }
+  });
+}
+
+// A chat stream response as the routes send it: start, one delta per chunk, usage, done.
+// `frames` replaces the whole sequence when a test needs ids or an error frame.
+export function frameResponse(
+  chunks: string[],
+  init: { frames?: StreamFrame[]; headers?: Record<string, string> } = {}
+): Response {
+  const frames: StreamFrame[] = init.frames ?? [
+    { type: "start", userEventId: null, assistantEventId: null, model: null },
+    ...chunks.map((text): StreamFrame => ({ type: "delta", text })),
+    { type: "usage", inputTokens: null, outputTokens: 1, estimated: true },
+    { type: "done", userEventId: null, assistantEventId: null, interrupted: false }
+  ];
+  return new Response(streamFromChunks(frames.map(encodeFrame)), {
+    status: 200,
+    headers: { "Content-Type": STREAM_CONTENT_TYPE, ...init.headers }
+  });
+}
+
+// Reads a whole NDJSON chat stream; `text` joins the `delta` frames.
+export async function readFrameStream(
+  response: Response
+): Promise<{ frames: StreamFrame[]; text: string }> {
+  const frames = (await response.text())
+    .split("\n")
+    .map(parseFrameLine)
+    .filter((frame): frame is StreamFrame => frame !== null);
+  const text = frames.map((frame) => (frame.type === "delta" ? frame.text : "")).join("");
+  return { frames, text };
+}